@@ -7,6 +7,11 @@ import { AppDataProvider } from './contexts/AppDataContext';
 import { HomeScreen } from './screens/HomeScreen';
 import { ProfileScreen } from './screens/ProfileScreen';
 import { TrendsScreen } from './screens/TrendsScreen';
+import { RecipesScreen } from './screens/RecipesScreen';
+import { RecipeEditorScreen } from './screens/RecipeEditorScreen';
+import { TargetScheduleScreen } from './screens/TargetScheduleScreen';
+import { SearchScreen } from './screens/SearchScreen';
+import { MealSlotsScreen } from './screens/MealSlotsScreen';
 import { RootStackParamList } from './navigation/types';
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
@@ -37,6 +42,11 @@ function AppContent() {
           <Stack.Screen name="Home" component={HomeScreen} />
           <Stack.Screen name="Profile" component={ProfileScreen} />
           <Stack.Screen name="Trends" component={TrendsScreen} />
+          <Stack.Screen name="Recipes" component={RecipesScreen} />
+          <Stack.Screen name="RecipeEditor" component={RecipeEditorScreen} />
+          <Stack.Screen name="TargetSchedule" component={TargetScheduleScreen} />
+          <Stack.Screen name="Search" component={SearchScreen} />
+          <Stack.Screen name="MealSlots" component={MealSlotsScreen} />
         </Stack.Navigator>
       </NavigationContainer>
     </AppDataProvider>
@@ -0,0 +1,441 @@
+import { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Animated,
+  Dimensions,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { ActivityIntensity, ActivityItem, ActivityLog } from '../types';
+import { ACTIVITY_INTENSITIES, estimateCaloriesBurned, sumCaloriesBurned } from '../services/activity';
+import { parseActivityInput } from '../services/llm';
+
+const EXERCISE_COLOR = '#F97316';
+const SCREEN_HEIGHT = Dimensions.get('window').height;
+
+interface ActivityInputSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  logs: ActivityLog[]; // activities logged for the selected day
+  bodyWeight: number | null; // latest known weight in lbs, for estimates
+  onAdd: (activity: ActivityItem) => Promise<void>;
+  onRemove: (activityLogID: string) => Promise<void>;
+}
+
+export function ActivityInputSheet({
+  visible,
+  onClose,
+  logs,
+  bodyWeight,
+  onAdd,
+  onRemove,
+}: ActivityInputSheetProps) {
+  const [slideAnim] = useState(() => new Animated.Value(SCREEN_HEIGHT));
+  const [backdropOpacity] = useState(() => new Animated.Value(0));
+  const [name, setName] = useState('');
+  const [minutes, setMinutes] = useState('');
+  const [intensity, setIntensity] = useState<ActivityIntensity>('moderate');
+  const [calories, setCalories] = useState(''); // blank means use the estimate
+  const [description, setDescription] = useState('');
+  const [isEstimating, setIsEstimating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setName('');
+      setMinutes('');
+      setIntensity('moderate');
+      setCalories('');
+      setDescription('');
+      setError(null);
+
+      Animated.parallel([
+        Animated.timing(slideAnim, {
+          toValue: 0,
+          duration: 300,
+          useNativeDriver: true,
+        }),
+        Animated.timing(backdropOpacity, {
+          toValue: 1,
+          duration: 300,
+          useNativeDriver: true,
+        }),
+      ]).start();
+    } else {
+      Animated.parallel([
+        Animated.timing(slideAnim, {
+          toValue: SCREEN_HEIGHT,
+          duration: 250,
+          useNativeDriver: true,
+        }),
+        Animated.timing(backdropOpacity, {
+          toValue: 0,
+          duration: 250,
+          useNativeDriver: true,
+        }),
+      ]).start();
+    }
+  }, [visible]);
+
+  const total = sumCaloriesBurned(logs);
+  const durationMinutes = parseInt(minutes, 10);
+  const hasDuration = !isNaN(durationMinutes) && durationMinutes > 0;
+  const estimate = hasDuration ? estimateCaloriesBurned(intensity, durationMinutes, bodyWeight) : 0;
+  const canAdd = name.trim().length > 0 && hasDuration;
+
+  const handleAdd = async () => {
+    if (!canAdd) return;
+    setError(null);
+    const customCalories = parseInt(calories, 10);
+    try {
+      await onAdd({
+        name: name.trim(),
+        durationMinutes,
+        intensity,
+        caloriesBurned: isNaN(customCalories) ? estimate : customCalories,
+      });
+      setName('');
+      setMinutes('');
+      setCalories('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to log exercise');
+    }
+  };
+
+  // Describe a workout in words and let the model log it
+  const handleEstimate = async () => {
+    if (!description.trim() || isEstimating) return;
+    setError(null);
+    setIsEstimating(true);
+    try {
+      const activities = await parseActivityInput({ description: description.trim(), bodyWeight });
+      if (activities.length === 0) {
+        setError("Couldn't find any exercise in that description");
+        return;
+      }
+      for (const activity of activities) {
+        await onAdd(activity);
+      }
+      setDescription('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to estimate exercise');
+    } finally {
+      setIsEstimating(false);
+    }
+  };
+
+  const handleRemove = async (activityLogID: string) => {
+    setError(null);
+    try {
+      await onRemove(activityLogID);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove exercise');
+    }
+  };
+
+  if (!visible) return null;
+
+  return (
+    <Modal transparent visible={visible} animationType="none" onRequestClose={onClose}>
+      <View style={sheetStyles.overlay}>
+        <Animated.View
+          style={[sheetStyles.backdrop, { opacity: backdropOpacity }]}
+        >
+          <TouchableOpacity style={{ flex: 1 }} onPress={onClose} activeOpacity={1} />
+        </Animated.View>
+        <Animated.View
+          style={[sheetStyles.sheet, { transform: [{ translateY: slideAnim }] }]}
+        >
+          <View style={sheetStyles.handle} />
+
+          <Text style={sheetStyles.title}>Exercise</Text>
+
+          {/* Total burned */}
+          <View style={sheetStyles.displayContainer}>
+            <Text style={sheetStyles.displayText}>{total}</Text>
+            <Text style={sheetStyles.unitText}>kcal burned</Text>
+          </View>
+
+          {/* Describe a workout */}
+          <View style={sheetStyles.row}>
+            <TextInput
+              style={sheetStyles.input}
+              value={description}
+              onChangeText={setDescription}
+              placeholder="e.g. 45 min of cycling, moderate"
+              placeholderTextColor="#555"
+              returnKeyType="done"
+              onSubmitEditing={handleEstimate}
+              editable={!isEstimating}
+            />
+            <TouchableOpacity
+              style={[sheetStyles.button, (!description.trim() || isEstimating) && sheetStyles.buttonDisabled]}
+              onPress={handleEstimate}
+              disabled={!description.trim() || isEstimating}
+            >
+              {isEstimating ? (
+                <ActivityIndicator size="small" color="#000" />
+              ) : (
+                <Text style={[sheetStyles.buttonText, !description.trim() && sheetStyles.buttonTextDisabled]}>
+                  Estimate
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          <Text style={sheetStyles.dividerText}>or enter it yourself</Text>
+
+          {/* Manual entry */}
+          <View style={sheetStyles.row}>
+            <TextInput
+              style={sheetStyles.input}
+              value={name}
+              onChangeText={setName}
+              placeholder="Activity"
+              placeholderTextColor="#555"
+              returnKeyType="next"
+            />
+            <TextInput
+              style={[sheetStyles.input, sheetStyles.numberInput]}
+              value={minutes}
+              onChangeText={setMinutes}
+              placeholder="Min"
+              placeholderTextColor="#555"
+              keyboardType="number-pad"
+            />
+          </View>
+
+          <View style={sheetStyles.intensityRow}>
+            {ACTIVITY_INTENSITIES.map((info) => {
+              const isActive = info.key === intensity;
+              return (
+                <TouchableOpacity
+                  key={info.key}
+                  style={[sheetStyles.intensityChip, isActive && sheetStyles.intensityChipActive]}
+                  onPress={() => setIntensity(info.key)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[sheetStyles.intensityText, isActive && sheetStyles.intensityTextActive]}>
+                    {info.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <View style={sheetStyles.row}>
+            <TextInput
+              style={sheetStyles.input}
+              value={calories}
+              onChangeText={setCalories}
+              placeholder={hasDuration ? `${estimate} kcal (estimated)` : 'Calories (optional)'}
+              placeholderTextColor="#555"
+              keyboardType="number-pad"
+              returnKeyType="done"
+              onSubmitEditing={handleAdd}
+            />
+            <TouchableOpacity
+              style={[sheetStyles.button, !canAdd && sheetStyles.buttonDisabled]}
+              onPress={handleAdd}
+              disabled={!canAdd}
+            >
+              <Text style={[sheetStyles.buttonText, !canAdd && sheetStyles.buttonTextDisabled]}>
+                Add
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          {error && <Text style={sheetStyles.errorText}>{error}</Text>}
+
+          {/* The day's activities */}
+          {logs.length > 0 && (
+            <ScrollView style={sheetStyles.logList}>
+              {[...logs].reverse().map((log) => (
+                <View key={log.activityLogID} style={sheetStyles.logRow}>
+                  <View style={sheetStyles.logInfo}>
+                    <Text style={sheetStyles.logName} numberOfLines={1}>{log.name}</Text>
+                    <Text style={sheetStyles.logDetail}>
+                      {log.durationMinutes} min · {log.intensity}
+                    </Text>
+                  </View>
+                  <Text style={sheetStyles.logCalories}>{log.caloriesBurned} kcal</Text>
+                  <TouchableOpacity onPress={() => handleRemove(log.activityLogID)} hitSlop={10}>
+                    <Ionicons name="close-circle-outline" size={20} color="#666" />
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </ScrollView>
+          )}
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+}
+
+const sheetStyles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+  },
+  sheet: {
+    backgroundColor: '#1a1a1a',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingHorizontal: 24,
+    paddingBottom: 40,
+  },
+  handle: {
+    width: 36,
+    height: 4,
+    backgroundColor: '#444',
+    borderRadius: 2,
+    alignSelf: 'center',
+    marginTop: 10,
+    marginBottom: 20,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 20,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  displayContainer: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    justifyContent: 'center',
+    marginBottom: 24,
+  },
+  displayText: {
+    color: '#fff',
+    fontSize: 48,
+    fontFamily: 'DIN Alternate',
+    fontWeight: 'bold',
+  },
+  unitText: {
+    color: '#888',
+    fontSize: 20,
+    fontFamily: 'Avenir Next',
+    marginLeft: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 10,
+    marginBottom: 12,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+  },
+  numberInput: {
+    flex: 0,
+    width: 80,
+  },
+  button: {
+    minWidth: 84,
+    backgroundColor: EXERCISE_COLOR,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  buttonDisabled: {
+    backgroundColor: '#333',
+  },
+  buttonText: {
+    color: '#000',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  buttonTextDisabled: {
+    color: '#666',
+  },
+  dividerText: {
+    color: '#666',
+    fontSize: 13,
+    fontFamily: 'Avenir Next',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  intensityRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  intensityChip: {
+    flex: 1,
+    alignItems: 'center',
+    backgroundColor: '#2a2a2a',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#2a2a2a',
+    paddingVertical: 8,
+  },
+  intensityChipActive: {
+    borderColor: EXERCISE_COLOR,
+  },
+  intensityText: {
+    color: '#888',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+  },
+  intensityTextActive: {
+    color: '#fff',
+  },
+  errorText: {
+    color: '#ff6b6b',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  logList: {
+    maxHeight: 180,
+  },
+  logRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#2a2a2a',
+  },
+  logInfo: {
+    flex: 1,
+  },
+  logName: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  logDetail: {
+    color: '#888',
+    fontSize: 13,
+    fontFamily: 'Avenir Next',
+  },
+  logCalories: {
+    color: EXERCISE_COLOR,
+    fontSize: 16,
+    fontFamily: 'DIN Alternate',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,309 @@
+import { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  Modal,
+  Pressable,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { TargetValues } from '../types';
+import { previewTargetsForRange, applyTargetsToRange, formatLocalDate } from '../services/storage';
+
+const ACCENT_COLOR = '#3FE0DB';
+const DEFAULT_RANGE_DAYS = 14;
+
+interface ApplyTargetsSheetProps {
+  visible: boolean;
+  userID: string;
+  targets: TargetValues;
+  onClose: () => void;
+  onApplied: (changedCount: number) => void;
+}
+
+function offsetDate(dateStr: string, days: number): string {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return formatLocalDate(new Date(year, month - 1, day + days));
+}
+
+function formatDateLabel(dateStr: string): string {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+function DateStepper({
+  label,
+  date,
+  min,
+  max,
+  onChange,
+}: {
+  label: string;
+  date: string;
+  min?: string;
+  max?: string;
+  onChange: (date: string) => void;
+}) {
+  const prev = offsetDate(date, -1);
+  const next = offsetDate(date, 1);
+  const canGoBack = !min || prev >= min;
+  const canGoForward = !max || next <= max;
+
+  return (
+    <View style={styles.stepperRow}>
+      <Text style={styles.stepperLabel}>{label}</Text>
+      <View style={styles.stepper}>
+        <Pressable onPress={() => canGoBack && onChange(prev)} disabled={!canGoBack} hitSlop={10}>
+          <Ionicons name="chevron-back" size={20} color={canGoBack ? '#fff' : '#333'} />
+        </Pressable>
+        <Text style={styles.stepperValue}>{formatDateLabel(date)}</Text>
+        <Pressable onPress={() => canGoForward && onChange(next)} disabled={!canGoForward} hitSlop={10}>
+          <Ionicons name="chevron-forward" size={20} color={canGoForward ? '#fff' : '#333'} />
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+export function ApplyTargetsSheet({ visible, userID, targets, onClose, onApplied }: ApplyTargetsSheetProps) {
+  const today = formatLocalDate(new Date());
+  const [startDate, setStartDate] = useState(offsetDate(today, -(DEFAULT_RANGE_DAYS - 1)));
+  const [endDate, setEndDate] = useState(today);
+  const [preview, setPreview] = useState<{ logCount: number; changedCount: number } | null>(null);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the range each time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setStartDate(offsetDate(today, -(DEFAULT_RANGE_DAYS - 1)));
+      setEndDate(today);
+      setError(null);
+    }
+  }, [visible]);
+
+  // Dry run whenever the range or targets change
+  useEffect(() => {
+    if (!visible) return;
+    let cancelled = false;
+    setPreview(null);
+    previewTargetsForRange(userID, startDate, endDate, targets)
+      .then((result) => {
+        if (!cancelled) setPreview(result);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to preview changes');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, userID, startDate, endDate, targets]);
+
+  const handleApply = async () => {
+    setApplying(true);
+    setError(null);
+    try {
+      const changed = await applyTargetsToRange(userID, startDate, endDate, targets);
+      onApplied(changed);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply targets');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const canApply = preview !== null && preview.changedCount > 0 && !applying;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.sheetOverlay}>
+        <Pressable style={styles.dismissArea} onPress={applying ? undefined : onClose} />
+        <View style={styles.sheetContainer}>
+          {/* Handle bar */}
+          <View style={styles.sheetHandle} />
+
+          {/* Header */}
+          <View style={styles.sheetHeader}>
+            <Text style={styles.sheetTitle}>Apply to past days</Text>
+            <Text style={styles.sheetSubtitle}>
+              {targets.calories} cal · {targets.protein}P {targets.carbs}C {targets.fat}F
+            </Text>
+          </View>
+
+          <View style={styles.sheetContent}>
+            <DateStepper label="From" date={startDate} max={endDate} onChange={setStartDate} />
+            <DateStepper label="To" date={endDate} min={startDate} max={today} onChange={setEndDate} />
+
+            <View style={styles.previewContainer}>
+              {preview === null ? (
+                <ActivityIndicator size="small" color="#888" />
+              ) : (
+                <Text style={styles.previewText}>
+                  {preview.logCount === 0
+                    ? 'No logged days in this range'
+                    : `${preview.changedCount} of ${preview.logCount} logged ${preview.logCount === 1 ? 'day' : 'days'} will change`}
+                </Text>
+              )}
+            </View>
+
+            {error && <Text style={styles.errorText}>{error}</Text>}
+
+            <View style={styles.buttonRow}>
+              <Pressable style={styles.cancelButton} onPress={onClose} disabled={applying}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </Pressable>
+              <Pressable
+                style={[styles.applyButton, !canApply && styles.applyButtonDisabled]}
+                onPress={handleApply}
+                disabled={!canApply}
+              >
+                {applying ? (
+                  <ActivityIndicator size="small" color="#000" />
+                ) : (
+                  <Text style={[styles.applyButtonText, !canApply && styles.applyButtonTextDisabled]}>Apply</Text>
+                )}
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  sheetOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  dismissArea: {
+    flex: 1,
+  },
+  sheetContainer: {
+    backgroundColor: '#1a1a1a',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingBottom: 40,
+  },
+  sheetHandle: {
+    width: 40,
+    height: 4,
+    backgroundColor: '#444',
+    borderRadius: 2,
+    alignSelf: 'center',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  sheetHeader: {
+    paddingHorizontal: 24,
+    paddingTop: 8,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+  },
+  sheetTitle: {
+    color: '#fff',
+    fontSize: 24,
+    fontFamily: 'Avenir Next',
+    fontWeight: 'bold',
+  },
+  sheetSubtitle: {
+    color: '#888',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    marginTop: 4,
+  },
+  sheetContent: {
+    paddingHorizontal: 24,
+    paddingTop: 8,
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+  },
+  stepperLabel: {
+    color: '#888',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  stepperValue: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+    minWidth: 120,
+    textAlign: 'center',
+  },
+  previewContainer: {
+    paddingVertical: 20,
+    alignItems: 'center',
+  },
+  previewText: {
+    color: '#fff',
+    fontSize: 15,
+    fontFamily: 'Avenir Next',
+  },
+  errorText: {
+    color: '#ff6b6b',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#2a2a2a',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  applyButton: {
+    flex: 1,
+    backgroundColor: ACCENT_COLOR,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  applyButtonDisabled: {
+    backgroundColor: '#333',
+  },
+  applyButtonText: {
+    color: '#000',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  applyButtonTextDisabled: {
+    color: '#666',
+  },
+});
@@ -0,0 +1,296 @@
+import { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  Modal,
+  Pressable,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { MealSlot, MealType } from '../types';
+import { formatLocalDate } from '../services/storage';
+
+const ACCENT_COLOR = '#3FE0DB';
+
+export type CopyMode = 'copy' | 'move';
+
+export interface CopyTarget {
+  mode: CopyMode;
+  date: string; // YYYY-MM-DD; always the source date when moving
+  mealType?: MealType; // undefined keeps each entry's meal
+}
+
+interface CopyTargetSheetProps {
+  visible: boolean;
+  title: string;
+  sourceDate: string;
+  mealSlots: MealSlot[];
+  // When set, a meal picker is shown starting at this meal; otherwise entries keep their meals
+  defaultMealType?: MealType;
+  // Offer moving to another meal on the same day
+  allowMove?: boolean;
+  onConfirm: (target: CopyTarget) => Promise<void>;
+  onClose: () => void;
+}
+
+function offsetDate(dateStr: string, days: number): string {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return formatLocalDate(new Date(year, month - 1, day + days));
+}
+
+// "Today", "Yesterday", "Tomorrow", or e.g. "Mon, Mar 3"
+function formatDateLabel(dateStr: string): string {
+  const today = formatLocalDate(new Date());
+  if (dateStr === today) return 'Today';
+  if (dateStr === offsetDate(today, -1)) return 'Yesterday';
+  if (dateStr === offsetDate(today, 1)) return 'Tomorrow';
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+// Leftovers usually go to today; copying today's food usually plans tomorrow
+function getDefaultTargetDate(sourceDate: string): string {
+  const today = formatLocalDate(new Date());
+  return sourceDate === today ? offsetDate(today, 1) : today;
+}
+
+export function CopyTargetSheet({
+  visible,
+  title,
+  sourceDate,
+  mealSlots,
+  defaultMealType,
+  allowMove = false,
+  onConfirm,
+  onClose,
+}: CopyTargetSheetProps) {
+  const [mode, setMode] = useState<CopyMode>('copy');
+  const [targetDate, setTargetDate] = useState(getDefaultTargetDate(sourceDate));
+  const [mealType, setMealType] = useState<MealType | undefined>(defaultMealType);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start fresh each time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setMode('copy');
+      setTargetDate(getDefaultTargetDate(sourceDate));
+      setMealType(defaultMealType);
+      setError(null);
+    }
+  }, [visible, sourceDate, defaultMealType]);
+
+  const isMove = mode === 'move';
+  const unchanged = isMove && mealType === defaultMealType;
+
+  const handleConfirm = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onConfirm({ mode, date: isMove ? sourceDate : targetDate, mealType });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${mode}`);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.sheetOverlay}>
+        <Pressable style={styles.dismissArea} onPress={submitting ? undefined : onClose} />
+        <View style={styles.sheetContainer}>
+          {/* Handle bar */}
+          <View style={styles.sheetHandle} />
+
+          {/* Header */}
+          <View style={styles.sheetHeader}>
+            <Text style={styles.sheetTitle}>{title}</Text>
+          </View>
+
+          <View style={styles.sheetContent}>
+            {allowMove && (
+              <View style={styles.segmented}>
+                {(['copy', 'move'] as CopyMode[]).map((option) => (
+                  <Pressable
+                    key={option}
+                    style={[styles.segment, mode === option && styles.segmentActive]}
+                    onPress={() => setMode(option)}
+                  >
+                    <Text style={[styles.segmentText, mode === option && styles.segmentTextActive]}>
+                      {option === 'copy' ? 'Copy to day' : 'Move to meal'}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+            )}
+
+            {/* Date stepper */}
+            {!isMove && (
+              <View style={styles.dateRow}>
+                <Pressable onPress={() => setTargetDate(offsetDate(targetDate, -1))} hitSlop={10}>
+                  <Ionicons name="chevron-back" size={22} color="#fff" />
+                </Pressable>
+                <Text style={styles.dateLabel}>{formatDateLabel(targetDate)}</Text>
+                <Pressable onPress={() => setTargetDate(offsetDate(targetDate, 1))} hitSlop={10}>
+                  <Ionicons name="chevron-forward" size={22} color="#fff" />
+                </Pressable>
+              </View>
+            )}
+
+            {/* Meal picker */}
+            {defaultMealType && (
+              <View style={styles.segmented}>
+                {mealSlots.map((slot) => (
+                  <Pressable
+                    key={slot.mealType}
+                    style={[styles.segment, mealType === slot.mealType && styles.segmentActive]}
+                    onPress={() => setMealType(slot.mealType)}
+                  >
+                    <Text
+                      style={[styles.segmentText, mealType === slot.mealType && styles.segmentTextActive]}
+                      numberOfLines={1}
+                    >
+                      {slot.name}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+            )}
+
+            {error && <Text style={styles.errorText}>{error}</Text>}
+
+            <Pressable
+              style={[styles.confirmButton, (submitting || unchanged) && styles.confirmButtonDisabled]}
+              onPress={handleConfirm}
+              disabled={submitting || unchanged}
+            >
+              {submitting ? (
+                <ActivityIndicator size="small" color="#000" />
+              ) : (
+                <Text style={[styles.confirmButtonText, unchanged && styles.confirmButtonTextDisabled]}>
+                  {isMove ? 'Move' : 'Copy'}
+                </Text>
+              )}
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  sheetOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  dismissArea: {
+    flex: 1,
+  },
+  sheetContainer: {
+    backgroundColor: '#1a1a1a',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingBottom: 40,
+  },
+  sheetHandle: {
+    width: 40,
+    height: 4,
+    backgroundColor: '#444',
+    borderRadius: 2,
+    alignSelf: 'center',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  sheetHeader: {
+    paddingHorizontal: 24,
+    paddingTop: 8,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+  },
+  sheetTitle: {
+    color: '#fff',
+    fontSize: 24,
+    fontFamily: 'Avenir Next',
+    fontWeight: 'bold',
+  },
+  sheetContent: {
+    paddingHorizontal: 24,
+    paddingTop: 16,
+    gap: 16,
+  },
+  segmented: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    backgroundColor: '#111',
+    borderRadius: 10,
+    padding: 3,
+  },
+  segment: {
+    flex: 1,
+    minWidth: '25%',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  segmentActive: {
+    backgroundColor: '#333',
+  },
+  segmentText: {
+    color: '#666',
+    fontSize: 13,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  segmentTextActive: {
+    color: '#fff',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 8,
+  },
+  dateLabel: {
+    color: '#fff',
+    fontSize: 18,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  errorText: {
+    color: '#ff6b6b',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+  },
+  confirmButton: {
+    backgroundColor: ACCENT_COLOR,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  confirmButtonDisabled: {
+    backgroundColor: '#333',
+  },
+  confirmButtonText: {
+    color: '#000',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  confirmButtonTextDisabled: {
+    color: '#666',
+  },
+});
@@ -0,0 +1,218 @@
+import { useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  Modal,
+  Pressable,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { shareCSVExport, CSVExportKind } from '../services/csvExport';
+import { getEarliestLogDate, formatLocalDate } from '../services/storage';
+
+const ACCENT_COLOR = '#3FE0DB';
+
+type RangeKey = '7d' | '30d' | '90d' | 'all';
+
+const RANGES: { key: RangeKey; label: string; days: number | null }[] = [
+  { key: '7d', label: '7D', days: 7 },
+  { key: '30d', label: '30D', days: 30 },
+  { key: '90d', label: '90D', days: 90 },
+  { key: 'all', label: 'All', days: null },
+];
+
+const EXPORTS: { kind: CSVExportKind; title: string; description: string }[] = [
+  { kind: 'food_entries', title: 'Food entries', description: 'One row per item, with date and meal' },
+  { kind: 'daily_totals', title: 'Daily totals', description: 'One row per day, with targets' },
+  { kind: 'weight', title: 'Weight history', description: 'One row per weigh-in' },
+];
+
+interface CsvExportSheetProps {
+  visible: boolean;
+  userID: string;
+  onClose: () => void;
+}
+
+export function CsvExportSheet({ visible, userID, onClose }: CsvExportSheetProps) {
+  const [range, setRange] = useState<RangeKey>('30d');
+  const [exporting, setExporting] = useState<CSVExportKind | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (kind: CSVExportKind) => {
+    setExporting(kind);
+    setError(null);
+    try {
+      const endDate = formatLocalDate(new Date());
+      const days = RANGES.find((r) => r.key === range)!.days;
+      let startDate: string;
+      if (days === null) {
+        startDate = (await getEarliestLogDate(userID)) ?? endDate;
+      } else {
+        const start = new Date();
+        start.setDate(start.getDate() - days);
+        startDate = formatLocalDate(start);
+      }
+      await shareCSVExport(kind, userID, startDate, endDate);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export CSV');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.sheetOverlay}>
+        <Pressable style={styles.dismissArea} onPress={onClose} />
+        <View style={styles.sheetContainer}>
+          {/* Handle bar */}
+          <View style={styles.sheetHandle} />
+
+          {/* Header */}
+          <View style={styles.sheetHeader}>
+            <Text style={styles.sheetTitle}>Export CSV</Text>
+          </View>
+
+          <View style={styles.sheetContent}>
+            {/* Range Picker */}
+            <View style={styles.rangePicker}>
+              {RANGES.map((r) => (
+                <Pressable
+                  key={r.key}
+                  style={[styles.rangeButton, range === r.key && styles.rangeButtonActive]}
+                  onPress={() => setRange(r.key)}
+                >
+                  <Text style={[styles.rangeButtonText, range === r.key && styles.rangeButtonTextActive]}>
+                    {r.label}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+
+            {EXPORTS.map((item) => (
+              <Pressable
+                key={item.kind}
+                style={styles.exportRow}
+                onPress={() => handleExport(item.kind)}
+                disabled={exporting !== null}
+              >
+                <View style={styles.exportInfo}>
+                  <Text style={styles.exportTitle}>{item.title}</Text>
+                  <Text style={styles.exportDescription}>{item.description}</Text>
+                </View>
+                {exporting === item.kind ? (
+                  <ActivityIndicator size="small" color={ACCENT_COLOR} />
+                ) : (
+                  <Ionicons name="share-outline" size={20} color="#888" />
+                )}
+              </Pressable>
+            ))}
+
+            {error && <Text style={styles.errorText}>{error}</Text>}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  sheetOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  dismissArea: {
+    flex: 1,
+  },
+  sheetContainer: {
+    backgroundColor: '#1a1a1a',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingBottom: 40,
+  },
+  sheetHandle: {
+    width: 40,
+    height: 4,
+    backgroundColor: '#444',
+    borderRadius: 2,
+    alignSelf: 'center',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  sheetHeader: {
+    paddingHorizontal: 24,
+    paddingTop: 8,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+  },
+  sheetTitle: {
+    color: '#fff',
+    fontSize: 24,
+    fontFamily: 'Avenir Next',
+    fontWeight: 'bold',
+  },
+  sheetContent: {
+    paddingHorizontal: 24,
+    paddingTop: 16,
+  },
+  rangePicker: {
+    flexDirection: 'row',
+    backgroundColor: '#111',
+    borderRadius: 10,
+    padding: 3,
+    marginBottom: 8,
+  },
+  rangeButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  rangeButtonActive: {
+    backgroundColor: '#333',
+  },
+  rangeButtonText: {
+    color: '#666',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  rangeButtonTextActive: {
+    color: '#fff',
+  },
+  exportRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+  },
+  exportInfo: {
+    flex: 1,
+  },
+  exportTitle: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  exportDescription: {
+    color: '#888',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    marginTop: 2,
+  },
+  errorText: {
+    color: '#ff6b6b',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    marginTop: 12,
+  },
+});
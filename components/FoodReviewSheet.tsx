@@ -0,0 +1,394 @@
+import { useState, useEffect, useMemo } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  Modal,
+  Pressable,
+  ScrollView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { DailyLog, FoodEditOperation, MealSlot } from '../types';
+import { buildFoodChanges, groupChangesByMeal, sumDeltas, FoodChange, MacroDelta } from '../services/foodLogDiff';
+import { getMealName } from '../services/mealSlots';
+import { formatEatenTime } from '../services/foodTimes';
+
+const ACCENT_COLOR = '#3FE0DB';
+
+const CHANGE_LABELS: Record<FoodEditOperation['type'], { label: string; color: string }> = {
+  add: { label: 'Added', color: '#34d399' },
+  update: { label: 'Changed', color: '#F59E0B' },
+  remove: { label: 'Removed', color: '#ff6b6b' },
+  move: { label: 'Moved', color: '#888' },
+};
+
+interface FoodReviewSheetProps {
+  visible: boolean;
+  dailyLog: DailyLog;
+  mealSlots: MealSlot[];
+  operations: FoodEditOperation[];
+  onConfirm: (accepted: FoodEditOperation[]) => void;
+  onCancel: () => void;
+}
+
+// Format a signed delta, e.g. "+120" / "-15g"
+function formatDelta(value: number, unit: string = ''): string {
+  if (value === 0) return `0${unit}`;
+  return `${value > 0 ? '+' : ''}${value}${unit}`;
+}
+
+function DeltaRow({ delta }: { delta: MacroDelta }) {
+  return (
+    <View style={styles.deltaRow}>
+      <Text style={styles.deltaText}>{formatDelta(delta.calories)} <Text style={styles.deltaUnit}>cal</Text></Text>
+      <Text style={styles.deltaText}>{formatDelta(delta.protein, 'g')} <Text style={styles.deltaUnit}>P</Text></Text>
+      <Text style={styles.deltaText}>{formatDelta(delta.carbs, 'g')} <Text style={styles.deltaUnit}>C</Text></Text>
+      <Text style={styles.deltaText}>{formatDelta(delta.fat, 'g')} <Text style={styles.deltaUnit}>F</Text></Text>
+    </View>
+  );
+}
+
+function ChangeRow({
+  change,
+  mealSlots,
+  accepted,
+  onToggle,
+}: {
+  change: FoodChange;
+  mealSlots: MealSlot[];
+  accepted: boolean;
+  onToggle: () => void;
+}) {
+  const { label, color } = CHANGE_LABELS[change.operation.type];
+  const item = change.after ?? change.before;
+  const quantityChanged = change.before && change.after && change.before.quantity !== change.after.quantity;
+  const eatenTime = formatEatenTime(change.eatenAt);
+
+  return (
+    <Pressable style={[styles.changeRow, !accepted && styles.changeRowRejected]} onPress={onToggle}>
+      <Ionicons
+        name={accepted ? 'checkmark-circle' : 'ellipse-outline'}
+        size={22}
+        color={accepted ? ACCENT_COLOR : '#555'}
+      />
+      <View style={styles.changeInfo}>
+        <View style={styles.changeHeader}>
+          <Text style={[styles.changeBadge, { color }]}>{label}</Text>
+          <Text
+            style={[styles.changeName, change.operation.type === 'remove' && styles.changeNameRemoved]}
+            numberOfLines={2}
+          >
+            {item?.name}
+          </Text>
+        </View>
+        <Text style={styles.changeQuantity}>
+          {quantityChanged ? `${change.before!.quantity} → ${change.after!.quantity}` : item?.quantity}
+          {change.fromMealType ? `  ·  from ${getMealName(mealSlots, change.fromMealType)}` : ''}
+          {eatenTime ? `  ·  ${change.timeChanged ? 'now at' : 'at'} ${eatenTime}` : ''}
+        </Text>
+        {change.operation.type !== 'move' && <DeltaRow delta={change.delta} />}
+      </View>
+    </Pressable>
+  );
+}
+
+export function FoodReviewSheet({
+  visible,
+  dailyLog,
+  mealSlots,
+  operations,
+  onConfirm,
+  onCancel,
+}: FoodReviewSheetProps) {
+  const changes = useMemo(() => buildFoodChanges(dailyLog, operations), [dailyLog, operations]);
+  const groups = useMemo(() => groupChangesByMeal(changes, mealSlots), [changes, mealSlots]);
+  const [rejected, setRejected] = useState<Set<string>>(new Set());
+
+  // Start with everything accepted whenever a new proposal arrives
+  useEffect(() => {
+    setRejected(new Set());
+  }, [operations]);
+
+  const acceptedChanges = changes.filter((c) => !rejected.has(c.key));
+  const totalDelta = sumDeltas(acceptedChanges);
+
+  const toggleChange = (key: string) => {
+    setRejected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    onConfirm(acceptedChanges.map((c) => c.operation));
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onCancel}
+    >
+      <View style={styles.sheetOverlay}>
+        <Pressable style={styles.dismissArea} onPress={onCancel} />
+        <View style={styles.sheetContainer}>
+          {/* Handle bar */}
+          <View style={styles.sheetHandle} />
+
+          {/* Header */}
+          <View style={styles.sheetHeader}>
+            <Text style={styles.sheetTitle}>Review</Text>
+            <View style={styles.bulkActions}>
+              <Pressable onPress={() => setRejected(new Set())} hitSlop={8}>
+                <Text style={styles.bulkActionText}>Accept all</Text>
+              </Pressable>
+              <Pressable onPress={() => setRejected(new Set(changes.map((c) => c.key)))} hitSlop={8}>
+                <Text style={styles.bulkActionText}>Reject all</Text>
+              </Pressable>
+            </View>
+          </View>
+
+          <ScrollView style={styles.listContainer} contentContainerStyle={styles.listContent}>
+            {groups.length === 0 ? (
+              <Text style={styles.emptyText}>No changes to your log</Text>
+            ) : (
+              groups.map((group) => (
+                <View key={group.mealType} style={styles.mealGroup}>
+                  <Text style={styles.mealTitle}>{getMealName(mealSlots, group.mealType)}</Text>
+                  {group.changes.map((change) => (
+                    <ChangeRow
+                      key={change.key}
+                      change={change}
+                      mealSlots={mealSlots}
+                      accepted={!rejected.has(change.key)}
+                      onToggle={() => toggleChange(change.key)}
+                    />
+                  ))}
+                </View>
+              ))
+            )}
+          </ScrollView>
+
+          {/* Footer with net change and actions */}
+          <View style={styles.sheetFooter}>
+            <View style={styles.footerRow}>
+              <Text style={styles.footerLabel}>Net change</Text>
+              <DeltaRow delta={totalDelta} />
+            </View>
+            <View style={styles.footerButtons}>
+              <Pressable style={styles.cancelButton} onPress={onCancel}>
+                <Text style={styles.cancelButtonText}>Discard</Text>
+              </Pressable>
+              <Pressable
+                style={[styles.saveButton, acceptedChanges.length === 0 && styles.saveButtonDisabled]}
+                onPress={handleSave}
+                disabled={acceptedChanges.length === 0}
+              >
+                <Text style={[styles.saveButtonText, acceptedChanges.length === 0 && styles.saveButtonTextDisabled]}>
+                  Save {acceptedChanges.length > 0 ? `(${acceptedChanges.length})` : ''}
+                </Text>
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  sheetOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  dismissArea: {
+    flex: 1,
+  },
+  sheetContainer: {
+    backgroundColor: '#1a1a1a',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    maxHeight: '80%',
+    minHeight: 300,
+  },
+  sheetHandle: {
+    width: 40,
+    height: 4,
+    backgroundColor: '#444',
+    borderRadius: 2,
+    alignSelf: 'center',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  sheetHeader: {
+    paddingHorizontal: 24,
+    paddingTop: 8,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  sheetTitle: {
+    color: '#fff',
+    fontSize: 24,
+    fontFamily: 'Avenir Next',
+    fontWeight: 'bold',
+  },
+  bulkActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  bulkActionText: {
+    color: ACCENT_COLOR,
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  listContainer: {
+    flexGrow: 0,
+    flexShrink: 1,
+  },
+  listContent: {
+    paddingHorizontal: 24,
+    paddingBottom: 8,
+  },
+  emptyText: {
+    color: '#666',
+    fontSize: 15,
+    fontFamily: 'Avenir Next',
+    textAlign: 'center',
+    paddingVertical: 32,
+  },
+  mealGroup: {
+    paddingTop: 16,
+  },
+  mealTitle: {
+    color: '#666',
+    fontSize: 12,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: 4,
+  },
+  changeRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+  },
+  changeRowRejected: {
+    opacity: 0.4,
+  },
+  changeInfo: {
+    flex: 1,
+  },
+  changeHeader: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    gap: 8,
+  },
+  changeBadge: {
+    fontSize: 12,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  changeName: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  changeNameRemoved: {
+    textDecorationLine: 'line-through',
+    color: '#888',
+  },
+  changeQuantity: {
+    color: '#888',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    marginTop: 2,
+  },
+  deltaRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 6,
+  },
+  deltaText: {
+    color: '#fff',
+    fontSize: 14,
+    fontFamily: 'DIN Alternate',
+    fontWeight: '600',
+  },
+  deltaUnit: {
+    color: '#666',
+    fontFamily: 'Avenir Next',
+    fontWeight: '400',
+  },
+  sheetFooter: {
+    borderTopWidth: 1,
+    borderTopColor: '#2a2a2a',
+    paddingHorizontal: 24,
+    paddingTop: 16,
+    paddingBottom: 40,
+    gap: 16,
+  },
+  footerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  footerLabel: {
+    color: '#888',
+    fontSize: 15,
+    fontFamily: 'Avenir Next',
+  },
+  footerButtons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#2a2a2a',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  saveButton: {
+    flex: 1,
+    backgroundColor: ACCENT_COLOR,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    backgroundColor: '#333',
+  },
+  saveButtonText: {
+    color: '#000',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  saveButtonTextDisabled: {
+    color: '#666',
+  },
+});
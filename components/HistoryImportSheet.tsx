@@ -0,0 +1,337 @@
+import { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  Modal,
+  Pressable,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { HistoryImportReport, ImportConflictMode, IMPORT_SOURCE_LABELS } from '../services/historyImport';
+
+const ACCENT_COLOR = '#3FE0DB';
+const CONFLICT_COLOR = '#F59E0B';
+
+const CONFLICT_MODES: { key: ImportConflictMode; label: string }[] = [
+  { key: 'skip', label: 'Skip those days' },
+  { key: 'append', label: 'Add alongside' },
+];
+
+interface HistoryImportSheetProps {
+  visible: boolean;
+  report: HistoryImportReport | null;
+  importing: boolean;
+  onConfirm: (conflictMode: ImportConflictMode) => void;
+  onCancel: () => void;
+}
+
+function SummaryRow({ label, value, color }: { label: string; value: number; color?: string }) {
+  return (
+    <View style={styles.summaryRow}>
+      <Text style={styles.summaryLabel}>{label}</Text>
+      <Text style={[styles.summaryValue, color ? { color } : null]}>{value}</Text>
+    </View>
+  );
+}
+
+export function HistoryImportSheet({
+  visible,
+  report,
+  importing,
+  onConfirm,
+  onCancel,
+}: HistoryImportSheetProps) {
+  const [conflictMode, setConflictMode] = useState<ImportConflictMode>('skip');
+
+  // Default to the safe option for every new file
+  useEffect(() => {
+    setConflictMode('skip');
+  }, [report]);
+
+  if (!report) return null;
+
+  const daysToImport = conflictMode === 'skip' ? report.newDayCount : report.days.length;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onCancel}
+    >
+      <View style={styles.sheetOverlay}>
+        <Pressable style={styles.dismissArea} onPress={importing ? undefined : onCancel} />
+        <View style={styles.sheetContainer}>
+          {/* Handle bar */}
+          <View style={styles.sheetHandle} />
+
+          {/* Header */}
+          <View style={styles.sheetHeader}>
+            <Text style={styles.sheetTitle}>Import</Text>
+            <Text style={styles.sheetSubtitle}>{IMPORT_SOURCE_LABELS[report.source]}</Text>
+          </View>
+
+          <ScrollView style={styles.listContainer} contentContainerStyle={styles.listContent}>
+            {/* Dry-run summary */}
+            <View style={styles.summary}>
+              <SummaryRow label="Days in file" value={report.days.length} />
+              <SummaryRow label="Food items" value={report.itemCount} />
+              <SummaryRow label="New days" value={report.newDayCount} />
+              <SummaryRow
+                label="Days with existing entries"
+                value={report.conflictDayCount}
+                color={report.conflictDayCount > 0 ? CONFLICT_COLOR : undefined}
+              />
+              {report.skippedRowCount > 0 && (
+                <SummaryRow label="Rows skipped (no date or nutrition)" value={report.skippedRowCount} />
+              )}
+            </View>
+
+            {report.conflictDayCount > 0 && (
+              <View style={styles.conflictModeContainer}>
+                <Text style={styles.conflictModeLabel}>For days that already have entries</Text>
+                <View style={styles.segmented}>
+                  {CONFLICT_MODES.map((mode) => (
+                    <Pressable
+                      key={mode.key}
+                      style={[styles.segment, conflictMode === mode.key && styles.segmentActive]}
+                      onPress={() => setConflictMode(mode.key)}
+                    >
+                      <Text style={[styles.segmentText, conflictMode === mode.key && styles.segmentTextActive]}>
+                        {mode.label}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+              </View>
+            )}
+
+            {/* Per-day breakdown */}
+            {report.days.map((day) => (
+              <View key={day.date} style={styles.dayRow}>
+                <View style={styles.dayInfo}>
+                  <Text style={styles.dayDate}>{day.date}</Text>
+                  <Text style={styles.dayDetail}>
+                    {day.items.length} {day.items.length === 1 ? 'item' : 'items'} · {day.calories} cal
+                  </Text>
+                  {day.conflict && (
+                    <Text style={styles.dayConflict}>
+                      Already has {day.existingEntryCount} {day.existingEntryCount === 1 ? 'entry' : 'entries'}
+                    </Text>
+                  )}
+                </View>
+                {day.conflict && (
+                  <Ionicons
+                    name={conflictMode === 'skip' ? 'remove-circle-outline' : 'add-circle-outline'}
+                    size={20}
+                    color={CONFLICT_COLOR}
+                  />
+                )}
+              </View>
+            ))}
+          </ScrollView>
+
+          <View style={styles.sheetFooter}>
+            <Pressable style={styles.cancelButton} onPress={onCancel} disabled={importing}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </Pressable>
+            <Pressable
+              style={[styles.saveButton, (daysToImport === 0 || importing) && styles.saveButtonDisabled]}
+              onPress={() => onConfirm(conflictMode)}
+              disabled={daysToImport === 0 || importing}
+            >
+              {importing ? (
+                <ActivityIndicator size="small" color="#000" />
+              ) : (
+                <Text style={[styles.saveButtonText, daysToImport === 0 && styles.saveButtonTextDisabled]}>
+                  Import {daysToImport} {daysToImport === 1 ? 'day' : 'days'}
+                </Text>
+              )}
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  sheetOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  dismissArea: {
+    flex: 1,
+  },
+  sheetContainer: {
+    backgroundColor: '#1a1a1a',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    maxHeight: '80%',
+    minHeight: 300,
+  },
+  sheetHandle: {
+    width: 40,
+    height: 4,
+    backgroundColor: '#444',
+    borderRadius: 2,
+    alignSelf: 'center',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  sheetHeader: {
+    paddingHorizontal: 24,
+    paddingTop: 8,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  sheetTitle: {
+    color: '#fff',
+    fontSize: 24,
+    fontFamily: 'Avenir Next',
+    fontWeight: 'bold',
+  },
+  sheetSubtitle: {
+    color: '#888',
+    fontSize: 15,
+    fontFamily: 'Avenir Next',
+  },
+  listContainer: {
+    flexGrow: 0,
+    flexShrink: 1,
+  },
+  listContent: {
+    paddingHorizontal: 24,
+    paddingBottom: 8,
+  },
+  summary: {
+    paddingVertical: 12,
+    gap: 6,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  summaryLabel: {
+    color: '#888',
+    fontSize: 15,
+    fontFamily: 'Avenir Next',
+  },
+  summaryValue: {
+    color: '#fff',
+    fontSize: 15,
+    fontFamily: 'DIN Alternate',
+    fontWeight: '600',
+  },
+  conflictModeContainer: {
+    paddingBottom: 12,
+  },
+  conflictModeLabel: {
+    color: '#666',
+    fontSize: 12,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: 8,
+  },
+  segmented: {
+    flexDirection: 'row',
+    backgroundColor: '#111',
+    borderRadius: 10,
+    padding: 3,
+  },
+  segment: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  segmentActive: {
+    backgroundColor: '#333',
+  },
+  segmentText: {
+    color: '#666',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  segmentTextActive: {
+    color: '#fff',
+  },
+  dayRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#2a2a2a',
+  },
+  dayInfo: {
+    flex: 1,
+  },
+  dayDate: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  dayDetail: {
+    color: '#888',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    marginTop: 2,
+  },
+  dayConflict: {
+    color: CONFLICT_COLOR,
+    fontSize: 13,
+    fontFamily: 'Avenir Next',
+    marginTop: 2,
+  },
+  sheetFooter: {
+    flexDirection: 'row',
+    gap: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#2a2a2a',
+    paddingHorizontal: 24,
+    paddingTop: 16,
+    paddingBottom: 40,
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#2a2a2a',
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  saveButton: {
+    flex: 1,
+    backgroundColor: ACCENT_COLOR,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    backgroundColor: '#333',
+  },
+  saveButtonText: {
+    color: '#000',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  saveButtonTextDisabled: {
+    color: '#666',
+  },
+});
@@ -11,15 +11,41 @@ import {
   Platform,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { FoodEntry } from '../types';
-import { updateFoodEntry, deleteFoodEntry } from '../services/storage';
+import { FoodEntry, FoodEntryUpdates, FoodItem, MealSlot, MealType, MicronutrientKey, Micronutrients } from '../types';
+import {
+  updateFoodEntry,
+  deleteFoodEntry,
+  addFoodEntry,
+  copyFoodEntries,
+  copyMeal,
+  moveFoodEntry,
+} from '../services/storage';
+import {
+  calculateCaloriesFromMacros,
+  scaleMacrosToCalories,
+  parseQuantity,
+  formatQuantity,
+} from '../services/foodScaling';
+import { MICRONUTRIENTS, MICRONUTRIENT_KEYS, formatMicronutrient, normalizeMicronutrient, scaleMicronutrients } from '../services/micronutrients';
+import { formatEatenTime, getEatenTime, toEatenAt } from '../services/foodTimes';
+import { normalizeTime } from '../services/mealSlots';
+import { SavedFoodPicker } from './SavedFoodPicker';
+import { MealTemplatePicker } from './MealTemplatePicker';
+import { CopyTargetSheet, CopyTarget } from './CopyTargetSheet';
 
 interface MealDetailSheetProps {
   visible: boolean;
   title: string;
   entries: FoodEntry[];
+  mealSlots: MealSlot[];
+  // Needed to add saved foods and templates to this meal; the library is hidden without them
+  userID?: string;
+  dailyLogID?: string;
+  mealType?: MealType;
+  date?: string; // YYYY-MM-DD of the daily log; enables copying to other days and editing eaten times
   onClose: () => void;
   onUpdate?: () => void;
+  onCopied?: (targetDate: string) => void;
   onModalHide?: () => void;
 }
 
@@ -35,6 +61,9 @@ function getMealTotals(entries: FoodEntry[]) {
   );
 }
 
+// Blank micronutrient fields mean unknown
+type MicroFormState = Record<MicronutrientKey, string>;
+
 interface EditFormState {
   name: string;
   quantity: string;
@@ -42,53 +71,27 @@ interface EditFormState {
   protein: string;
   carbs: string;
   fat: string;
+  micros: MicroFormState;
+  time: string; // HH:MM eaten, blank when unknown
 }
 
-// Calculate calories from macros: protein*4 + carbs*4 + fat*9
-function calculateCaloriesFromMacros(protein: number, carbs: number, fat: number): number {
-  return Math.round(protein * 4 + carbs * 4 + fat * 9);
-}
+const EMPTY_MICRO_FORM = Object.fromEntries(MICRONUTRIENT_KEYS.map((key) => [key, ''])) as MicroFormState;
 
-// Scale macros proportionally to match a new calorie target
-function scaleMacrosToCalories(
-  originalProtein: number,
-  originalCarbs: number,
-  originalFat: number,
-  originalCalories: number,
-  newCalories: number
-): { protein: number; carbs: number; fat: number } {
-  if (originalCalories === 0) {
-    // Can't scale from zero - return zeros
-    return { protein: 0, carbs: 0, fat: 0 };
+function toMicroForm(food: Micronutrients): MicroFormState {
+  const form = { ...EMPTY_MICRO_FORM };
+  for (const key of MICRONUTRIENT_KEYS) {
+    const value = food[key];
+    form[key] = value === null || value === undefined ? '' : String(value);
   }
-
-  const ratio = newCalories / originalCalories;
-  return {
-    protein: Math.round(originalProtein * ratio),
-    carbs: Math.round(originalCarbs * ratio),
-    fat: Math.round(originalFat * ratio),
-  };
+  return form;
 }
 
-// Parse quantity string into number and unit (e.g., "100g" -> { number: 100, unit: "g" })
-function parseQuantity(quantity: string): { number: number | null; unit: string } {
-  const trimmed = quantity.trim();
-  // Match number at start (including decimals) followed by optional unit
-  const match = trimmed.match(/^(\d+(?:\.\d+)?)\s*(.*)$/);
-  if (match) {
-    return {
-      number: parseFloat(match[1]),
-      unit: match[2] || '',
-    };
-  }
-  // No number found - return null number with full string as "unit"
-  return { number: null, unit: trimmed };
-}
-
-// Format quantity from number and unit
-function formatQuantity(num: number | null, unit: string): string {
-  if (num === null) return unit;
-  return unit ? `${num}${unit}` : String(num);
+// Known micronutrients of an entry, e.g. "Fiber 3g · Sodium 420mg"
+function formatKnownMicronutrients(item: FoodEntry): string {
+  return MICRONUTRIENTS
+    .filter((m) => item[m.key] !== null && item[m.key] !== undefined)
+    .map((m) => `${m.label} ${formatMicronutrient(m, item[m.key])}`)
+    .join('  ·  ');
 }
 
 function FoodItemRow({
@@ -98,11 +101,13 @@ function FoodItemRow({
   saving,
   error,
   quantityUnit,
+  canEditTime,
   onPress,
   onEditFormChange,
   onSave,
   onCancel,
   onDelete,
+  onCopy,
 }: {
   item: FoodEntry;
   isEditing: boolean;
@@ -110,15 +115,29 @@ function FoodItemRow({
   saving: boolean;
   error: string | null;
   quantityUnit: string;
+  canEditTime: boolean;
   onPress: () => void;
   onEditFormChange: (form: EditFormState, changedField?: string) => void;
   onSave: () => void;
   onCancel: () => void;
   onDelete: () => void;
+  onCopy?: () => void;
 }) {
   if (isEditing) {
     return (
       <View style={styles.foodItemRow}>
+        {/* Copy / move button - left of delete */}
+        {onCopy && (
+          <Pressable
+            style={styles.copyButton}
+            onPress={onCopy}
+            disabled={saving}
+            hitSlop={8}
+          >
+            <Ionicons name="copy-outline" size={18} color="#666" />
+          </Pressable>
+        )}
+
         {/* Delete button - top right */}
         <Pressable
           style={styles.deleteButton}
@@ -161,6 +180,20 @@ function FoodItemRow({
             </View>
             <Text style={styles.inlineInputLabel}>QUANTITY</Text>
           </View>
+          {canEditTime && (
+            <View style={styles.inlineInputGroup}>
+              <TextInput
+                style={styles.inlineQuantityInput}
+                value={editForm.time}
+                onChangeText={(text) => onEditFormChange({ ...editForm, time: text })}
+                placeholder="HH:MM"
+                placeholderTextColor="#555"
+                keyboardType="numbers-and-punctuation"
+                maxLength={5}
+              />
+              <Text style={styles.inlineInputLabel}>TIME EATEN</Text>
+            </View>
+          )}
         </View>
 
         {/* Macros - same layout as view mode but editable */}
@@ -228,6 +261,28 @@ function FoodItemRow({
           </View>
         </View>
 
+        {/* Micronutrients - optional, blank means unknown */}
+        <View style={styles.microGrid}>
+          {MICRONUTRIENTS.map((m) => (
+            <View key={m.key} style={styles.microItem}>
+              <View style={styles.macroInputRow}>
+                <TextInput
+                  style={styles.inlineMacroInput}
+                  value={editForm.micros[m.key]}
+                  onChangeText={(text) =>
+                    onEditFormChange({ ...editForm, micros: { ...editForm.micros, [m.key]: text } })
+                  }
+                  keyboardType="decimal-pad"
+                  placeholder="—"
+                  placeholderTextColor="#555"
+                />
+                <Text style={styles.macroUnitSuffix}>{m.unit}</Text>
+              </View>
+              <Text style={styles.macroLabel}>{m.label}</Text>
+            </View>
+          ))}
+        </View>
+
         {/* Error message */}
         {error && <Text style={styles.inlineEditError}>{error}</Text>}
 
@@ -258,7 +313,10 @@ function FoodItemRow({
     <Pressable onPress={onPress} style={styles.foodItemRow}>
       <View style={styles.foodItemInfo}>
         <Text style={styles.foodItemName}>{item.name}</Text>
-        <Text style={styles.foodItemQuantity}>{item.quantity}</Text>
+        <Text style={styles.foodItemQuantity}>
+          {item.quantity}
+          {formatEatenTime(item.eatenAt) ? `  ·  ${formatEatenTime(item.eatenAt)}` : ''}
+        </Text>
       </View>
       <View style={styles.foodItemMacros}>
         <View style={styles.macroItem}>
@@ -278,6 +336,9 @@ function FoodItemRow({
           <Text style={styles.macroLabel}>fat</Text>
         </View>
       </View>
+      {formatKnownMicronutrients(item) !== '' && (
+        <Text style={styles.foodItemMicros}>{formatKnownMicronutrients(item)}</Text>
+      )}
     </Pressable>
   );
 }
@@ -286,10 +347,17 @@ export function MealDetailSheet({
   visible,
   title,
   entries,
+  mealSlots,
+  userID,
+  dailyLogID,
+  mealType,
+  date,
   onClose,
   onUpdate,
+  onCopied,
   onModalHide,
 }: MealDetailSheetProps) {
+  const [panel, setPanel] = useState<'entries' | 'saved' | 'templates'>('entries');
   const [editingItem, setEditingItem] = useState<FoodEntry | null>(null);
   const [editForm, setEditForm] = useState<EditFormState>({
     name: '',
@@ -298,6 +366,8 @@ export function MealDetailSheet({
     protein: '',
     carbs: '',
     fat: '',
+    micros: EMPTY_MICRO_FORM,
+    time: '',
   });
   // Track original numeric values when editing starts (for stable scaling)
   const [originalMacros, setOriginalMacros] = useState<{
@@ -305,20 +375,25 @@ export function MealDetailSheet({
     protein: number;
     carbs: number;
     fat: number;
+    micros: Micronutrients;
     quantityNumber: number | null;
     quantityUnit: string;
   } | null>(null);
   const [saving, setSaving] = useState(false);
   const [editError, setEditError] = useState<string | null>(null);
   const [deleteConfirmVisible, setDeleteConfirmVisible] = useState(false);
+  // What the copy sheet acts on: one entry, or the whole meal
+  const [copySource, setCopySource] = useState<{ entry: FoodEntry } | 'meal' | null>(null);
 
   // Reset edit state when sheet closes
   useEffect(() => {
     if (!visible) {
+      setPanel('entries');
       setEditingItem(null);
       setSaving(false);
       setEditError(null);
       setDeleteConfirmVisible(false);
+      setCopySource(null);
       setOriginalMacros(null);
       setEditForm({
         name: '',
@@ -327,11 +402,39 @@ export function MealDetailSheet({
         protein: '',
         carbs: '',
         fat: '',
+        micros: EMPTY_MICRO_FORM,
+        time: '',
       });
     }
   }, [visible]);
 
   const totals = getMealTotals(entries);
+  const canAddSaved = Boolean(userID && dailyLogID && mealType);
+  const canCopy = canAddSaved && Boolean(date);
+
+  const handleCopyConfirm = async (target: CopyTarget) => {
+    if (!userID || !dailyLogID || !mealType || !copySource) return;
+
+    if (copySource === 'meal') {
+      await copyMeal(userID, dailyLogID, mealType, target.date, target.mealType);
+    } else if (target.mode === 'move') {
+      if (!target.mealType) return;
+      await moveFoodEntry(copySource.entry.foodEntryID, target.mealType);
+      handleCancelEdit();
+      onUpdate?.();
+      return;
+    } else {
+      await copyFoodEntries(userID, [copySource.entry.foodEntryID], target.date, target.mealType);
+      handleCancelEdit();
+    }
+    onCopied?.(target.date);
+  };
+
+  const handleAddSaved = async (item: FoodItem) => {
+    if (!userID || !dailyLogID || !mealType) return;
+    await addFoodEntry(userID, dailyLogID, mealType, item);
+    onUpdate?.();
+  };
 
   const handleEditPress = (item: FoodEntry) => {
     setEditingItem(item);
@@ -344,6 +447,7 @@ export function MealDetailSheet({
       protein: item.protein,
       carbs: item.carbs,
       fat: item.fat,
+      micros: item,
       quantityNumber: parsedQuantity.number,
       quantityUnit: parsedQuantity.unit,
     });
@@ -354,6 +458,8 @@ export function MealDetailSheet({
       protein: String(item.protein),
       carbs: String(item.carbs),
       fat: String(item.fat),
+      micros: toMicroForm(item),
+      time: getEatenTime(item.eatenAt) ?? '',
     });
   };
 
@@ -368,6 +474,8 @@ export function MealDetailSheet({
       protein: '',
       carbs: '',
       fat: '',
+      micros: EMPTY_MICRO_FORM,
+      time: '',
     });
   };
 
@@ -400,6 +508,7 @@ export function MealDetailSheet({
           protein: String(Math.round(originalMacros.protein * ratio)),
           carbs: String(Math.round(originalMacros.carbs * ratio)),
           fat: String(Math.round(originalMacros.fat * ratio)),
+          micros: toMicroForm(scaleMicronutrients(originalMacros.micros, ratio)),
         });
         return;
       }
@@ -465,6 +574,25 @@ export function MealDetailSheet({
       return;
     }
 
+    // Blank micronutrients are saved as unknown
+    const micros: Micronutrients = {};
+    for (const m of MICRONUTRIENTS) {
+      const text = editForm.micros[m.key].trim();
+      const value = normalizeMicronutrient(m, text);
+      if (text !== '' && value === null) {
+        setEditError(`${m.label} must be a valid number or left blank`);
+        return;
+      }
+      micros[m.key] = value;
+    }
+
+    // Blank time is saved as unknown
+    const time = editForm.time.trim();
+    if (date && time !== '' && !normalizeTime(time)) {
+      setEditError('Time must be HH:MM or left blank');
+      return;
+    }
+
     // Reconstruct quantity with unit if we have a parsed quantity
     let finalQuantity = editForm.quantity;
     if (originalMacros?.quantityUnit && originalMacros.quantityNumber !== null) {
@@ -477,14 +605,19 @@ export function MealDetailSheet({
     setSaving(true);
     setEditError(null);
     try {
-      await updateFoodEntry(editingItem.foodEntryID, {
+      const updates: FoodEntryUpdates = {
         name: editForm.name,
         quantity: finalQuantity,
         calories,
         protein,
         carbs,
         fat,
-      });
+        ...micros,
+      };
+      if (date) {
+        updates.eatenAt = toEatenAt(date, time);
+      }
+      await updateFoodEntry(editingItem.foodEntryID, updates);
 
       handleCancelEdit();
       onUpdate?.();
@@ -535,62 +668,123 @@ export function MealDetailSheet({
           {/* Header */}
           <View style={styles.sheetHeader}>
             <Text style={styles.sheetTitle}>{title}</Text>
-            <Text style={styles.editHint}>Tap item to edit</Text>
+            {panel !== 'entries' ? (
+              <Pressable onPress={() => setPanel('entries')} hitSlop={8}>
+                <Text style={styles.headerAction}>Done</Text>
+              </Pressable>
+            ) : (
+              <View style={styles.headerRight}>
+                {!canAddSaved && <Text style={styles.editHint}>Tap item to edit</Text>}
+                {canAddSaved && (
+                  <>
+                    <Pressable onPress={() => setPanel('templates')} hitSlop={8}>
+                      <Text style={styles.headerAction}>Templates</Text>
+                    </Pressable>
+                    <Pressable onPress={() => setPanel('saved')} hitSlop={8}>
+                      <Text style={styles.headerAction}>+ Saved</Text>
+                    </Pressable>
+                  </>
+                )}
+              </View>
+            )}
           </View>
 
-          {/* Food Items List */}
-          <FlatList
-            data={entries}
-            keyExtractor={(item) => item.foodEntryID}
-            renderItem={({ item }) => (
-              <FoodItemRow
-                item={item}
-                isEditing={editingItem?.foodEntryID === item.foodEntryID}
-                editForm={editForm}
-                saving={saving}
-                error={editingItem?.foodEntryID === item.foodEntryID ? editError : null}
-                quantityUnit={editingItem?.foodEntryID === item.foodEntryID ? (originalMacros?.quantityUnit ?? '') : ''}
-                onPress={() => handleEditPress(item)}
-                onEditFormChange={handleEditFormChange}
-                onSave={handleSaveEdit}
-                onCancel={handleCancelEdit}
-                onDelete={handleDeletePress}
+          {panel === 'saved' && userID ? (
+            <View style={styles.libraryContainer}>
+              <SavedFoodPicker userID={userID} mealSlots={mealSlots} mealType={mealType} onAdd={handleAddSaved} />
+            </View>
+          ) : panel === 'templates' && userID && dailyLogID && mealType ? (
+            <View style={styles.libraryContainer}>
+              <MealTemplatePicker
+                userID={userID}
+                dailyLogID={dailyLogID}
+                mealType={mealType}
+                mealSlots={mealSlots}
+                entries={entries}
+                onApplied={() => {
+                  onUpdate?.();
+                  setPanel('entries');
+                }}
               />
-            )}
-            ItemSeparatorComponent={() => <View style={styles.foodItemDivider} />}
-            style={styles.listContainer}
-            contentContainerStyle={styles.listContent}
-            showsVerticalScrollIndicator={true}
-            keyboardShouldPersistTaps="handled"
-          />
-
-          {/* Footer with all totals */}
-          <View style={styles.sheetFooter}>
-            <View style={styles.footerRow}>
-              <Text style={styles.footerLabel}>Total</Text>
-              <View style={styles.footerMacros}>
-                <View style={styles.footerMacroItem}>
-                  <Text style={styles.footerMacroValue}>{totals.calories}</Text>
-                  <Text style={styles.footerMacroLabel}>cal</Text>
-                </View>
-                <View style={styles.footerMacroItem}>
-                  <Text style={styles.footerMacroValue}>{totals.protein}g</Text>
-                  <Text style={styles.footerMacroLabel}>protein</Text>
-                </View>
-                <View style={styles.footerMacroItem}>
-                  <Text style={styles.footerMacroValue}>{totals.carbs}g</Text>
-                  <Text style={styles.footerMacroLabel}>carbs</Text>
-                </View>
-                <View style={styles.footerMacroItem}>
-                  <Text style={styles.footerMacroValue}>{totals.fat}g</Text>
-                  <Text style={styles.footerMacroLabel}>fat</Text>
+            </View>
+          ) : (
+            <>
+              {/* Food Items List */}
+              <FlatList
+                data={entries}
+                keyExtractor={(item) => item.foodEntryID}
+                renderItem={({ item }) => (
+                  <FoodItemRow
+                    item={item}
+                    isEditing={editingItem?.foodEntryID === item.foodEntryID}
+                    editForm={editForm}
+                    saving={saving}
+                    error={editingItem?.foodEntryID === item.foodEntryID ? editError : null}
+                    quantityUnit={editingItem?.foodEntryID === item.foodEntryID ? (originalMacros?.quantityUnit ?? '') : ''}
+                    canEditTime={Boolean(date)}
+                    onPress={() => handleEditPress(item)}
+                    onEditFormChange={handleEditFormChange}
+                    onSave={handleSaveEdit}
+                    onCancel={handleCancelEdit}
+                    onDelete={handleDeletePress}
+                    onCopy={canCopy ? () => setCopySource({ entry: item }) : undefined}
+                  />
+                )}
+                ItemSeparatorComponent={() => <View style={styles.foodItemDivider} />}
+                style={styles.listContainer}
+                contentContainerStyle={styles.listContent}
+                showsVerticalScrollIndicator={true}
+                keyboardShouldPersistTaps="handled"
+              />
+
+              {/* Footer with all totals */}
+              <View style={styles.sheetFooter}>
+                <View style={styles.footerRow}>
+                  <Text style={styles.footerLabel}>Total</Text>
+                  <View style={styles.footerMacros}>
+                    <View style={styles.footerMacroItem}>
+                      <Text style={styles.footerMacroValue}>{totals.calories}</Text>
+                      <Text style={styles.footerMacroLabel}>cal</Text>
+                    </View>
+                    <View style={styles.footerMacroItem}>
+                      <Text style={styles.footerMacroValue}>{totals.protein}g</Text>
+                      <Text style={styles.footerMacroLabel}>protein</Text>
+                    </View>
+                    <View style={styles.footerMacroItem}>
+                      <Text style={styles.footerMacroValue}>{totals.carbs}g</Text>
+                      <Text style={styles.footerMacroLabel}>carbs</Text>
+                    </View>
+                    <View style={styles.footerMacroItem}>
+                      <Text style={styles.footerMacroValue}>{totals.fat}g</Text>
+                      <Text style={styles.footerMacroLabel}>fat</Text>
+                    </View>
+                  </View>
                 </View>
+                {canCopy && entries.length > 0 && (
+                  <Pressable style={styles.copyMealButton} onPress={() => setCopySource('meal')} hitSlop={8}>
+                    <Ionicons name="copy-outline" size={15} color="#3FE0DB" />
+                    <Text style={styles.headerAction}>Copy meal to another day</Text>
+                  </Pressable>
+                )}
               </View>
-            </View>
-          </View>
+            </>
+          )}
         </View>
       </KeyboardAvoidingView>
 
+      {date && (
+        <CopyTargetSheet
+          visible={copySource !== null}
+          title={copySource === 'meal' ? `Copy ${title}` : copySource ? copySource.entry.name : ''}
+          sourceDate={date}
+          mealSlots={mealSlots}
+          defaultMealType={mealType}
+          allowMove={copySource !== null && copySource !== 'meal'}
+          onConfirm={handleCopyConfirm}
+          onClose={() => setCopySource(null)}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       <Modal
         visible={deleteConfirmVisible}
@@ -665,6 +859,23 @@ const styles = StyleSheet.create({
     fontFamily: 'Avenir Next',
     fontWeight: 'bold',
   },
+  headerRight: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    gap: 16,
+  },
+  headerAction: {
+    color: '#3FE0DB',
+    fontSize: 15,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  libraryContainer: {
+    flexShrink: 1,
+    paddingHorizontal: 24,
+    paddingTop: 16,
+    paddingBottom: 40,
+  },
   editHint: {
     color: '#666',
     fontSize: 13,
@@ -699,6 +910,22 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     justifyContent: 'space-between',
   },
+  foodItemMicros: {
+    color: '#666',
+    fontSize: 12,
+    fontFamily: 'Avenir Next',
+    marginTop: 8,
+  },
+  microGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 12,
+    rowGap: 10,
+  },
+  microItem: {
+    alignItems: 'center',
+    width: '33.33%',
+  },
   macroItem: {
     alignItems: 'center',
     flex: 1,
@@ -733,6 +960,13 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'space-between',
   },
+  copyMealButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginTop: 16,
+  },
   footerLabel: {
     color: '#888',
     fontSize: 18,
@@ -769,9 +1003,16 @@ const styles = StyleSheet.create({
     padding: 4,
     zIndex: 1,
   },
+  copyButton: {
+    position: 'absolute',
+    top: 20,
+    right: 32,
+    padding: 4,
+    zIndex: 1,
+  },
   inlineInputGroup: {
     marginBottom: 16,
-    paddingRight: 36,
+    paddingRight: 68,
   },
   inlineNameInput: {
     color: '#fff',
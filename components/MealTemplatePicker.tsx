@@ -0,0 +1,313 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  Pressable,
+  FlatList,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { FoodEntry, MealSlot, MealTemplate, MealType } from '../types';
+import { getMealTemplates, saveMealTemplate, deleteMealTemplate, applyMealTemplate } from '../services/storage';
+
+const ACCENT_COLOR = '#3FE0DB';
+
+interface MealTemplatePickerProps {
+  userID: string;
+  dailyLogID: string;
+  mealType: MealType; // default slot to apply to
+  mealSlots: MealSlot[];
+  entries: FoodEntry[]; // the current meal, offered for saving as a template
+  onApplied: () => void;
+}
+
+export function MealTemplatePicker({
+  userID,
+  dailyLogID,
+  mealType,
+  mealSlots,
+  entries,
+  onApplied,
+}: MealTemplatePickerProps) {
+  const [templates, setTemplates] = useState<MealTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedMeal, setSelectedMeal] = useState<MealType>(mealType);
+  const [templateName, setTemplateName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [applyingID, setApplyingID] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      setTemplates(await getMealTemplates(userID));
+    } catch {
+      setMessage({ text: 'Failed to load templates', isError: true });
+    } finally {
+      setLoading(false);
+    }
+  }, [userID]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const handleSave = async () => {
+    const name = templateName.trim();
+    if (!name || entries.length === 0) return;
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      await saveMealTemplate(userID, name, entries);
+      setTemplateName('');
+      setMessage({ text: `Saved "${name}"`, isError: false });
+      await loadTemplates();
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Failed to save template', isError: true });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleApply = async (template: MealTemplate) => {
+    setApplyingID(template.templateID);
+    setMessage(null);
+    try {
+      await applyMealTemplate(userID, template.templateID, dailyLogID, selectedMeal);
+      onApplied();
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Failed to apply template', isError: true });
+    } finally {
+      setApplyingID(null);
+    }
+  };
+
+  const handleDelete = (template: MealTemplate) => {
+    Alert.alert(
+      'Delete template?',
+      `"${template.name}" will be removed. Food already logged from it stays.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteMealTemplate(template.templateID);
+              await loadTemplates();
+            } catch {
+              setMessage({ text: 'Failed to delete template', isError: true });
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {entries.length > 0 && (
+        <View style={styles.saveRow}>
+          <TextInput
+            style={styles.nameInput}
+            value={templateName}
+            onChangeText={setTemplateName}
+            placeholder="Save this meal as..."
+            placeholderTextColor="#555"
+            returnKeyType="done"
+            onSubmitEditing={handleSave}
+          />
+          <Pressable
+            style={[styles.actionButton, (!templateName.trim() || saving) && styles.actionButtonDisabled]}
+            onPress={handleSave}
+            disabled={!templateName.trim() || saving}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color="#000" />
+            ) : (
+              <Text style={styles.actionButtonText}>Save</Text>
+            )}
+          </Pressable>
+        </View>
+      )}
+
+      <View style={styles.mealPicker}>
+        {mealSlots.map((slot) => (
+          <Pressable
+            key={slot.mealType}
+            style={[styles.mealButton, selectedMeal === slot.mealType && styles.mealButtonActive]}
+            onPress={() => setSelectedMeal(slot.mealType)}
+          >
+            <Text
+              style={[styles.mealButtonText, selectedMeal === slot.mealType && styles.mealButtonTextActive]}
+              numberOfLines={1}
+            >
+              {slot.name}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {message && (
+        <Text style={message.isError ? styles.errorText : styles.messageText}>{message.text}</Text>
+      )}
+
+      {loading ? (
+        <ActivityIndicator style={styles.loading} color="#fff" />
+      ) : (
+        <FlatList
+          data={templates}
+          keyExtractor={(item) => item.templateID}
+          keyboardShouldPersistTaps="handled"
+          renderItem={({ item }) => {
+            const calories = item.items.reduce((sum, i) => sum + i.calories, 0);
+            return (
+              <View style={styles.templateRow}>
+                <View style={styles.templateInfo}>
+                  <Text style={styles.templateName} numberOfLines={1}>{item.name}</Text>
+                  <Text style={styles.templateDetail} numberOfLines={2}>
+                    {item.items.length} {item.items.length === 1 ? 'item' : 'items'} · {calories} cal ·{' '}
+                    {item.items.map((i) => i.name).join(', ')}
+                  </Text>
+                </View>
+                <Pressable onPress={() => handleDelete(item)} hitSlop={10}>
+                  <Ionicons name="trash-outline" size={18} color="#555" />
+                </Pressable>
+                <Pressable
+                  style={[styles.actionButton, applyingID !== null && styles.actionButtonDisabled]}
+                  onPress={() => handleApply(item)}
+                  disabled={applyingID !== null}
+                >
+                  {applyingID === item.templateID ? (
+                    <ActivityIndicator size="small" color="#000" />
+                  ) : (
+                    <Text style={styles.actionButtonText}>Add</Text>
+                  )}
+                </Pressable>
+              </View>
+            );
+          }}
+          ListEmptyComponent={
+            <Text style={styles.emptyText}>
+              Save a meal you eat often, then add it here or say "log my {'<template name>'}"
+            </Text>
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexShrink: 1,
+  },
+  saveRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 12,
+  },
+  nameInput: {
+    flex: 1,
+    backgroundColor: '#111',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+  },
+  mealPicker: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    backgroundColor: '#111',
+    borderRadius: 10,
+    padding: 3,
+    marginBottom: 8,
+  },
+  mealButton: {
+    flex: 1,
+    minWidth: '25%',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  mealButtonActive: {
+    backgroundColor: '#333',
+  },
+  mealButtonText: {
+    color: '#666',
+    fontSize: 13,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  mealButtonTextActive: {
+    color: '#fff',
+  },
+  loading: {
+    paddingVertical: 32,
+  },
+  emptyText: {
+    color: '#666',
+    fontSize: 15,
+    fontFamily: 'Avenir Next',
+    textAlign: 'center',
+    paddingVertical: 32,
+  },
+  messageText: {
+    color: '#888',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    marginBottom: 8,
+  },
+  errorText: {
+    color: '#ff6b6b',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    marginBottom: 8,
+  },
+  templateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+  },
+  templateInfo: {
+    flex: 1,
+  },
+  templateName: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  templateDetail: {
+    color: '#888',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    marginTop: 2,
+  },
+  actionButton: {
+    backgroundColor: ACCENT_COLOR,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+    minWidth: 60,
+    alignItems: 'center',
+  },
+  actionButtonDisabled: {
+    backgroundColor: '#333',
+  },
+  actionButtonText: {
+    color: '#000',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,351 @@
+import { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  Modal,
+  Animated,
+  Dimensions,
+} from 'react-native';
+import { BodyMeasurementValues, MeasurementKey } from '../types';
+import { MEASUREMENTS, MEASUREMENT_KEYS, formatMeasurement, normalizeMeasurement } from '../services/measurements';
+
+const ACCENT_COLOR = '#3FE0DB';
+const SCREEN_HEIGHT = Dimensions.get('window').height;
+
+interface MeasurementInputSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  onSave: (values: BodyMeasurementValues) => void;
+  current: BodyMeasurementValues | null; // the day's logged measurements (for editing)
+  previous: BodyMeasurementValues | null; // the last measured day's values (for reference)
+}
+
+type Drafts = Record<MeasurementKey, string>;
+
+const NUM_KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '.', '0', 'del'] as const;
+
+function toDrafts(values: BodyMeasurementValues | null): Drafts {
+  const drafts = {} as Drafts;
+  for (const key of MEASUREMENT_KEYS) {
+    const value = values?.[key];
+    drafts[key] = value === null || value === undefined ? '' : String(value);
+  }
+  return drafts;
+}
+
+export function MeasurementInputSheet({
+  visible,
+  onClose,
+  onSave,
+  current,
+  previous,
+}: MeasurementInputSheetProps) {
+  const [slideAnim] = useState(() => new Animated.Value(SCREEN_HEIGHT));
+  const [backdropOpacity] = useState(() => new Animated.Value(0));
+  const [drafts, setDrafts] = useState<Drafts>(() => toDrafts(null));
+  const [activeKey, setActiveKey] = useState<MeasurementKey>('waist');
+
+  // Pre-fill with the day's values; unmeasured fields start blank
+  useEffect(() => {
+    if (visible) {
+      setDrafts(toDrafts(current));
+      setActiveKey('waist');
+
+      Animated.parallel([
+        Animated.timing(slideAnim, {
+          toValue: 0,
+          duration: 300,
+          useNativeDriver: true,
+        }),
+        Animated.timing(backdropOpacity, {
+          toValue: 1,
+          duration: 300,
+          useNativeDriver: true,
+        }),
+      ]).start();
+    } else {
+      Animated.parallel([
+        Animated.timing(slideAnim, {
+          toValue: SCREEN_HEIGHT,
+          duration: 250,
+          useNativeDriver: true,
+        }),
+        Animated.timing(backdropOpacity, {
+          toValue: 0,
+          duration: 250,
+          useNativeDriver: true,
+        }),
+      ]).start();
+    }
+  }, [visible]);
+
+  const activeInfo = MEASUREMENTS.find((m) => m.key === activeKey)!;
+  const input = drafts[activeKey];
+  const previousValue = previous?.[activeKey] ?? null;
+
+  const handleKeyPress = (key: string) => {
+    const setInput = (next: string) => setDrafts((prev) => ({ ...prev, [activeKey]: next }));
+
+    if (key === 'del') {
+      setInput(input.slice(0, -1));
+      return;
+    }
+
+    if (key === '.') {
+      if (input.includes('.')) return; // only one decimal
+      if (input === '') {
+        setInput('0.');
+        return;
+      }
+    }
+
+    // Limit to one decimal place
+    const decimalIndex = input.indexOf('.');
+    if (decimalIndex !== -1 && input.length - decimalIndex > 1) return;
+
+    // Limit total length to prevent absurd values
+    if (input.replace('.', '').length >= 4) return;
+
+    setInput(input + key);
+  };
+
+  // Blank fields are saved as not measured; anything else must be plausible
+  const invalidKeys = MEASUREMENTS
+    .filter((m) => drafts[m.key] !== '' && normalizeMeasurement(m, drafts[m.key]) === null)
+    .map((m) => m.key);
+  const initialDrafts = toDrafts(current);
+  const hasChanges = MEASUREMENT_KEYS.some((key) => drafts[key] !== initialDrafts[key]);
+  const canSave = invalidKeys.length === 0 && hasChanges;
+
+  const handleSave = () => {
+    if (!canSave) return;
+    const values = {} as BodyMeasurementValues;
+    for (const info of MEASUREMENTS) {
+      values[info.key] = normalizeMeasurement(info, drafts[info.key]);
+    }
+    onSave(values);
+    onClose();
+  };
+
+  if (!visible) return null;
+
+  return (
+    <Modal transparent visible={visible} animationType="none" onRequestClose={onClose}>
+      <View style={sheetStyles.overlay}>
+        <Animated.View
+          style={[sheetStyles.backdrop, { opacity: backdropOpacity }]}
+        >
+          <TouchableOpacity style={{ flex: 1 }} onPress={onClose} activeOpacity={1} />
+        </Animated.View>
+        <Animated.View
+          style={[sheetStyles.sheet, { transform: [{ translateY: slideAnim }] }]}
+        >
+          <View style={sheetStyles.handle} />
+
+          <Text style={sheetStyles.title}>Log Measurements</Text>
+
+          {/* Field picker */}
+          <View style={sheetStyles.fieldGrid}>
+            {MEASUREMENTS.map((info) => {
+              const isActive = info.key === activeKey;
+              const isInvalid = invalidKeys.includes(info.key);
+              return (
+                <TouchableOpacity
+                  key={info.key}
+                  style={[sheetStyles.fieldChip, isActive && sheetStyles.fieldChipActive]}
+                  onPress={() => setActiveKey(info.key)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[sheetStyles.fieldLabel, isActive && sheetStyles.fieldLabelActive]}>
+                    {info.label}
+                  </Text>
+                  <Text style={[sheetStyles.fieldValue, isInvalid && sheetStyles.fieldValueInvalid]}>
+                    {drafts[info.key] || '—'}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          {/* Active field display */}
+          <View style={sheetStyles.displayContainer}>
+            <Text style={[sheetStyles.displayText, !input && sheetStyles.displayPlaceholder]}>
+              {input || '0.0'}
+            </Text>
+            <Text style={sheetStyles.unitText}>{activeInfo.unit}</Text>
+          </View>
+
+          {/* Previous reference */}
+          <Text style={sheetStyles.referenceText}>
+            {previousValue !== null
+              ? `Previous: ${formatMeasurement(activeInfo, previousValue)}`
+              : 'Leave blank to skip'}
+          </Text>
+
+          {/* Save button */}
+          <TouchableOpacity
+            style={[sheetStyles.saveButton, !canSave && sheetStyles.saveButtonDisabled]}
+            onPress={handleSave}
+            disabled={!canSave}
+          >
+            <Text style={[sheetStyles.saveButtonText, !canSave && sheetStyles.saveButtonTextDisabled]}>
+              Save
+            </Text>
+          </TouchableOpacity>
+
+          {/* Number pad */}
+          <View style={sheetStyles.numPad}>
+            {NUM_KEYS.map((key) => (
+              <TouchableOpacity
+                key={key}
+                style={sheetStyles.numKey}
+                onPress={() => handleKeyPress(key)}
+                activeOpacity={0.5}
+              >
+                <Text style={sheetStyles.numKeyText}>
+                  {key === 'del' ? '\u232B' : key}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+}
+
+const sheetStyles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+  },
+  sheet: {
+    backgroundColor: '#1a1a1a',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingHorizontal: 24,
+    paddingBottom: 40,
+  },
+  handle: {
+    width: 36,
+    height: 4,
+    backgroundColor: '#444',
+    borderRadius: 2,
+    alignSelf: 'center',
+    marginTop: 10,
+    marginBottom: 20,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 20,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  fieldGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  fieldChip: {
+    width: '23%',
+    flexGrow: 1,
+    alignItems: 'center',
+    backgroundColor: '#2a2a2a',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#2a2a2a',
+    paddingVertical: 8,
+  },
+  fieldChipActive: {
+    borderColor: ACCENT_COLOR,
+  },
+  fieldLabel: {
+    color: '#888',
+    fontSize: 12,
+    fontFamily: 'Avenir Next',
+  },
+  fieldLabelActive: {
+    color: '#fff',
+  },
+  fieldValue: {
+    color: '#fff',
+    fontSize: 15,
+    fontFamily: 'DIN Alternate',
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  fieldValueInvalid: {
+    color: '#ff6b6b',
+  },
+  displayContainer: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    justifyContent: 'center',
+    marginBottom: 8,
+  },
+  displayText: {
+    color: '#fff',
+    fontSize: 48,
+    fontFamily: 'DIN Alternate',
+    fontWeight: 'bold',
+  },
+  displayPlaceholder: {
+    color: '#555',
+  },
+  unitText: {
+    color: '#888',
+    fontSize: 20,
+    fontFamily: 'Avenir Next',
+    marginLeft: 8,
+  },
+  referenceText: {
+    color: '#666',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  saveButton: {
+    backgroundColor: ACCENT_COLOR,
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  saveButtonDisabled: {
+    backgroundColor: '#333',
+  },
+  saveButtonText: {
+    color: '#000',
+    fontSize: 17,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  saveButtonTextDisabled: {
+    color: '#666',
+  },
+  numPad: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  numKey: {
+    width: '33.33%',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+  },
+  numKeyText: {
+    color: '#fff',
+    fontSize: 28,
+    fontFamily: 'DIN Alternate',
+  },
+});
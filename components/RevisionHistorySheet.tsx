@@ -0,0 +1,284 @@
+import { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  Modal,
+  Pressable,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { DailyLogRevision, RevisionSource, MealSlot, MealType } from '../types';
+import { getDailyLogRevisions, restoreRevision } from '../services/storage';
+import { getMealOrder } from '../services/mealSlots';
+
+const ACCENT_COLOR = '#3FE0DB';
+
+const SOURCE_LABELS: Record<RevisionSource, string> = {
+  llm: 'Logged food',
+  add: 'Added item',
+  update: 'Edited item',
+  delete: 'Deleted item',
+  restore: 'Restored revision',
+  import: 'Imported history',
+  copy: 'Copied food',
+  move: 'Moved item',
+};
+
+interface RevisionHistorySheetProps {
+  visible: boolean;
+  dailyLogID: string;
+  mealSlots: MealSlot[];
+  onClose: () => void;
+  onRestored: () => void;
+}
+
+// e.g. "2:05 PM" for today, "Mar 3, 2:05 PM" otherwise
+function formatRevisionTime(timestamp: string): string {
+  const date = new Date(timestamp);
+  const time = date.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+  if (date.toDateString() === new Date().toDateString()) return time;
+  return `${date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}, ${time}`;
+}
+
+export function RevisionHistorySheet({
+  visible,
+  dailyLogID,
+  mealSlots,
+  onClose,
+  onRestored,
+}: RevisionHistorySheetProps) {
+  const [revisions, setRevisions] = useState<DailyLogRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [expandedID, setExpandedID] = useState<string | null>(null);
+  const [restoringID, setRestoringID] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+    setLoading(true);
+    setError(null);
+    setExpandedID(null);
+    getDailyLogRevisions(dailyLogID)
+      .then(setRevisions)
+      .catch(() => setError('Failed to load history'))
+      .finally(() => setLoading(false));
+  }, [visible, dailyLogID]);
+
+  const handleRestore = async (revisionID: string) => {
+    setRestoringID(revisionID);
+    setError(null);
+    try {
+      await restoreRevision(revisionID);
+      onRestored();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore');
+    } finally {
+      setRestoringID(null);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.sheetOverlay}>
+        <Pressable style={styles.dismissArea} onPress={onClose} />
+        <View style={styles.sheetContainer}>
+          {/* Handle bar */}
+          <View style={styles.sheetHandle} />
+
+          {/* Header */}
+          <View style={styles.sheetHeader}>
+            <Text style={styles.sheetTitle}>History</Text>
+            <Text style={styles.sheetSubtitle}>Each revision is the day before that change</Text>
+          </View>
+
+          <ScrollView style={styles.listContainer} contentContainerStyle={styles.listContent}>
+            {loading ? (
+              <ActivityIndicator style={styles.loading} color="#fff" />
+            ) : revisions.length === 0 ? (
+              <Text style={styles.emptyText}>No changes recorded for this day</Text>
+            ) : (
+              revisions.map((revision) => {
+                const calories = revision.entries.reduce((sum, e) => sum + e.calories, 0);
+                const isExpanded = expandedID === revision.revisionID;
+                // Entries whose meal no longer has a slot sort last
+                const mealOrder = getMealOrder(mealSlots);
+                const mealRank = (mealType: MealType) => {
+                  const index = mealOrder.indexOf(mealType);
+                  return index === -1 ? mealOrder.length : index;
+                };
+                const sortedEntries = [...revision.entries].sort(
+                  (a, b) => mealRank(a.mealType) - mealRank(b.mealType)
+                );
+
+                return (
+                  <View key={revision.revisionID} style={styles.revisionRow}>
+                    <Pressable
+                      style={styles.revisionHeader}
+                      onPress={() => setExpandedID(isExpanded ? null : revision.revisionID)}
+                    >
+                      <View style={styles.revisionInfo}>
+                        <Text style={styles.revisionTitle}>Before: {SOURCE_LABELS[revision.source]}</Text>
+                        <Text style={styles.revisionDetail}>
+                          {formatRevisionTime(revision.createdAt)}  ·  {revision.entries.length}{' '}
+                          {revision.entries.length === 1 ? 'item' : 'items'}  ·  {calories} cal
+                        </Text>
+                      </View>
+                      <Pressable
+                        style={styles.restoreButton}
+                        onPress={() => handleRestore(revision.revisionID)}
+                        disabled={restoringID !== null}
+                        hitSlop={8}
+                      >
+                        {restoringID === revision.revisionID ? (
+                          <ActivityIndicator size="small" color={ACCENT_COLOR} />
+                        ) : (
+                          <Text style={styles.restoreButtonText}>Restore</Text>
+                        )}
+                      </Pressable>
+                    </Pressable>
+
+                    {isExpanded && (
+                      <View style={styles.entryList}>
+                        {sortedEntries.length === 0 ? (
+                          <Text style={styles.entryText}>Empty day</Text>
+                        ) : (
+                          sortedEntries.map((entry) => (
+                            <Text key={entry.foodEntryID} style={styles.entryText} numberOfLines={1}>
+                              {entry.name} ({entry.quantity}) · {entry.calories} cal
+                            </Text>
+                          ))
+                        )}
+                      </View>
+                    )}
+                  </View>
+                );
+              })
+            )}
+            {error && <Text style={styles.errorText}>{error}</Text>}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  sheetOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  dismissArea: {
+    flex: 1,
+  },
+  sheetContainer: {
+    backgroundColor: '#1a1a1a',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    maxHeight: '80%',
+    minHeight: 300,
+    paddingBottom: 40,
+  },
+  sheetHandle: {
+    width: 40,
+    height: 4,
+    backgroundColor: '#444',
+    borderRadius: 2,
+    alignSelf: 'center',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  sheetHeader: {
+    paddingHorizontal: 24,
+    paddingTop: 8,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+  },
+  sheetTitle: {
+    color: '#fff',
+    fontSize: 24,
+    fontFamily: 'Avenir Next',
+    fontWeight: 'bold',
+  },
+  sheetSubtitle: {
+    color: '#888',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    marginTop: 4,
+  },
+  listContainer: {
+    flexGrow: 0,
+    flexShrink: 1,
+  },
+  listContent: {
+    paddingHorizontal: 24,
+    paddingBottom: 8,
+  },
+  loading: {
+    paddingVertical: 32,
+  },
+  emptyText: {
+    color: '#666',
+    fontSize: 15,
+    fontFamily: 'Avenir Next',
+    textAlign: 'center',
+    paddingVertical: 32,
+  },
+  revisionRow: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+  },
+  revisionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  revisionInfo: {
+    flex: 1,
+  },
+  revisionTitle: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  revisionDetail: {
+    color: '#888',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    marginTop: 2,
+  },
+  restoreButton: {
+    minWidth: 64,
+    alignItems: 'flex-end',
+  },
+  restoreButtonText: {
+    color: ACCENT_COLOR,
+    fontSize: 15,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  entryList: {
+    marginTop: 8,
+    gap: 4,
+  },
+  entryText: {
+    color: '#aaa',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+  },
+  errorText: {
+    color: '#ff6b6b',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    marginTop: 12,
+  },
+});
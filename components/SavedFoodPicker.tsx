@@ -0,0 +1,355 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  Pressable,
+  FlatList,
+  TextInput,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { FoodItem, MealSlot, MealType, SavedFood } from '../types';
+import { getSavedFoods, setSavedFoodPinned } from '../services/storage';
+import { getMealTypeForTime } from '../services/mealSlots';
+import { parseQuantity, scaleFoodToQuantity } from '../services/foodScaling';
+
+const ACCENT_COLOR = '#3FE0DB';
+
+interface SavedFoodPickerProps {
+  userID: string;
+  mealSlots: MealSlot[];
+  // When set, the food is always added to this meal; otherwise a meal selector is shown
+  mealType?: MealType;
+  onAdd: (item: FoodItem, mealType: MealType) => Promise<void>;
+}
+
+function SavedFoodRow({
+  food,
+  expanded,
+  adding,
+  onPress,
+  onTogglePin,
+  onAdd,
+}: {
+  food: SavedFood;
+  expanded: boolean;
+  adding: boolean;
+  onPress: () => void;
+  onTogglePin: () => void;
+  onAdd: (item: FoodItem) => void;
+}) {
+  const parsed = parseQuantity(food.quantity);
+  const baseAmount = parsed.number !== null && parsed.number > 0 ? parsed.number : 1;
+  const [amount, setAmount] = useState(String(baseAmount));
+
+  // Reset the amount each time the row is opened
+  useEffect(() => {
+    if (expanded) setAmount(String(baseAmount));
+  }, [expanded]);
+
+  const amountNum = parseFloat(amount);
+  const scaled = amountNum > 0 ? scaleFoodToQuantity(food, amountNum) : null;
+  const preview = scaled ?? food;
+
+  return (
+    <View style={styles.foodRow}>
+      <Pressable style={styles.foodRowHeader} onPress={onPress}>
+        <View style={styles.foodInfo}>
+          <Text style={styles.foodName} numberOfLines={1}>{food.name}</Text>
+          <Text style={styles.foodDetail} numberOfLines={1}>
+            {food.quantity}  ·  {food.calories} cal  ·  {food.protein}P {food.carbs}C {food.fat}F
+          </Text>
+        </View>
+        <Pressable onPress={onTogglePin} hitSlop={10}>
+          <Ionicons name={food.pinned ? 'star' : 'star-outline'} size={20} color={food.pinned ? '#F59E0B' : '#555'} />
+        </Pressable>
+      </Pressable>
+
+      {expanded && (
+        <View style={styles.addRow}>
+          <View style={styles.amountInputRow}>
+            <TextInput
+              style={styles.amountInput}
+              value={amount}
+              onChangeText={setAmount}
+              keyboardType="decimal-pad"
+              selectTextOnFocus
+            />
+            <Text style={styles.amountUnit}>
+              {parsed.number !== null ? parsed.unit : `× ${food.quantity}`}
+            </Text>
+          </View>
+          <Text style={styles.previewText}>
+            {preview.calories} cal  ·  {preview.protein}P {preview.carbs}C {preview.fat}F
+          </Text>
+          <Pressable
+            style={[styles.addButton, (!scaled || adding) && styles.addButtonDisabled]}
+            onPress={() => scaled && onAdd(scaled)}
+            disabled={!scaled || adding}
+          >
+            {adding ? (
+              <ActivityIndicator size="small" color="#000" />
+            ) : (
+              <Text style={styles.addButtonText}>Add</Text>
+            )}
+          </Pressable>
+        </View>
+      )}
+    </View>
+  );
+}
+
+export function SavedFoodPicker({ userID, mealSlots, mealType, onAdd }: SavedFoodPickerProps) {
+  const [query, setQuery] = useState('');
+  const [foods, setFoods] = useState<SavedFood[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedID, setExpandedID] = useState<string | null>(null);
+  const [addingID, setAddingID] = useState<string | null>(null);
+  const [selectedMeal, setSelectedMeal] = useState<MealType>(
+    // Guess the meal being logged from the time of day
+    () => mealType ?? getMealTypeForTime(mealSlots)
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFoods = useCallback(async (search: string) => {
+    try {
+      setFoods(await getSavedFoods(userID, search));
+    } catch {
+      setError('Failed to load saved foods');
+    } finally {
+      setLoading(false);
+    }
+  }, [userID]);
+
+  useEffect(() => {
+    loadFoods(query);
+  }, [query, loadFoods]);
+
+  const handleTogglePin = async (food: SavedFood) => {
+    try {
+      await setSavedFoodPinned(food.savedFoodID, !food.pinned);
+      await loadFoods(query);
+    } catch {
+      setError('Failed to update favourite');
+    }
+  };
+
+  const handleAdd = async (food: SavedFood, item: FoodItem) => {
+    setAddingID(food.savedFoodID);
+    setError(null);
+    try {
+      await onAdd(item, mealType ?? selectedMeal);
+      setExpandedID(null);
+      await loadFoods(query);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add food');
+    } finally {
+      setAddingID(null);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.searchRow}>
+        <Ionicons name="search" size={16} color="#666" />
+        <TextInput
+          style={styles.searchInput}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search saved foods"
+          placeholderTextColor="#555"
+          autoCorrect={false}
+        />
+      </View>
+
+      {!mealType && (
+        <View style={styles.mealPicker}>
+          {mealSlots.map((slot) => (
+            <Pressable
+              key={slot.mealType}
+              style={[styles.mealButton, selectedMeal === slot.mealType && styles.mealButtonActive]}
+              onPress={() => setSelectedMeal(slot.mealType)}
+            >
+              <Text
+                style={[styles.mealButtonText, selectedMeal === slot.mealType && styles.mealButtonTextActive]}
+                numberOfLines={1}
+              >
+                {slot.name}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+      )}
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      {loading ? (
+        <ActivityIndicator style={styles.loading} color="#fff" />
+      ) : (
+        <FlatList
+          data={foods}
+          keyExtractor={(item) => item.savedFoodID}
+          keyboardShouldPersistTaps="handled"
+          renderItem={({ item }) => (
+            <SavedFoodRow
+              food={item}
+              expanded={expandedID === item.savedFoodID}
+              adding={addingID === item.savedFoodID}
+              onPress={() => setExpandedID(expandedID === item.savedFoodID ? null : item.savedFoodID)}
+              onTogglePin={() => handleTogglePin(item)}
+              onAdd={(scaled) => handleAdd(item, scaled)}
+            />
+          )}
+          ListEmptyComponent={
+            <Text style={styles.emptyText}>
+              {query ? 'No saved foods match' : 'Foods you log will show up here'}
+            </Text>
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexShrink: 1,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#111',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    marginBottom: 12,
+  },
+  searchInput: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+    paddingVertical: 10,
+  },
+  mealPicker: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    backgroundColor: '#111',
+    borderRadius: 10,
+    padding: 3,
+    marginBottom: 8,
+  },
+  mealButton: {
+    flex: 1,
+    minWidth: '25%',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  mealButtonActive: {
+    backgroundColor: '#333',
+  },
+  mealButtonText: {
+    color: '#666',
+    fontSize: 13,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  mealButtonTextActive: {
+    color: '#fff',
+  },
+  loading: {
+    paddingVertical: 32,
+  },
+  emptyText: {
+    color: '#666',
+    fontSize: 15,
+    fontFamily: 'Avenir Next',
+    textAlign: 'center',
+    paddingVertical: 32,
+  },
+  errorText: {
+    color: '#ff6b6b',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    marginBottom: 8,
+  },
+  foodRow: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+  },
+  foodRowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  foodInfo: {
+    flex: 1,
+  },
+  foodName: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  foodDetail: {
+    color: '#888',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    marginTop: 2,
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 10,
+  },
+  amountInputRow: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    gap: 4,
+  },
+  amountInput: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'DIN Alternate',
+    fontWeight: '600',
+    backgroundColor: '#2a2a2a',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    minWidth: 56,
+    textAlign: 'center',
+  },
+  amountUnit: {
+    color: '#888',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    maxWidth: 90,
+  },
+  previewText: {
+    flex: 1,
+    color: '#aaa',
+    fontSize: 13,
+    fontFamily: 'Avenir Next',
+  },
+  addButton: {
+    backgroundColor: ACCENT_COLOR,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+    minWidth: 60,
+    alignItems: 'center',
+  },
+  addButtonDisabled: {
+    backgroundColor: '#333',
+  },
+  addButtonText: {
+    color: '#000',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+});
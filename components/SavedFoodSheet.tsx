@@ -0,0 +1,121 @@
+import {
+  StyleSheet,
+  Text,
+  View,
+  Modal,
+  Pressable,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { FoodItem, MealSlot, MealType } from '../types';
+import { addFoodEntry } from '../services/storage';
+import { SavedFoodPicker } from './SavedFoodPicker';
+
+interface SavedFoodSheetProps {
+  visible: boolean;
+  userID: string;
+  dailyLogID: string;
+  mealSlots: MealSlot[];
+  onClose: () => void;
+  onAdded: () => void;
+}
+
+export function SavedFoodSheet({
+  visible,
+  userID,
+  dailyLogID,
+  mealSlots,
+  onClose,
+  onAdded,
+}: SavedFoodSheetProps) {
+  const handleAdd = async (item: FoodItem, mealType: MealType) => {
+    await addFoodEntry(userID, dailyLogID, mealType, item);
+    onAdded();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.sheetOverlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <Pressable style={styles.dismissArea} onPress={onClose} />
+        <View style={styles.sheetContainer}>
+          {/* Handle bar */}
+          <View style={styles.sheetHandle} />
+
+          {/* Header */}
+          <View style={styles.sheetHeader}>
+            <Text style={styles.sheetTitle}>Saved Foods</Text>
+            <Pressable onPress={onClose} hitSlop={8}>
+              <Text style={styles.doneText}>Done</Text>
+            </Pressable>
+          </View>
+
+          <View style={styles.content}>
+            {visible && <SavedFoodPicker userID={userID} mealSlots={mealSlots} onAdd={handleAdd} />}
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  sheetOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  dismissArea: {
+    flex: 1,
+  },
+  sheetContainer: {
+    backgroundColor: '#1a1a1a',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    maxHeight: '80%',
+    minHeight: 400,
+  },
+  sheetHandle: {
+    width: 40,
+    height: 4,
+    backgroundColor: '#444',
+    borderRadius: 2,
+    alignSelf: 'center',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  sheetHeader: {
+    paddingHorizontal: 24,
+    paddingTop: 8,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  sheetTitle: {
+    color: '#fff',
+    fontSize: 24,
+    fontFamily: 'Avenir Next',
+    fontWeight: 'bold',
+  },
+  doneText: {
+    color: '#3FE0DB',
+    fontSize: 15,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  content: {
+    flexShrink: 1,
+    paddingHorizontal: 24,
+    paddingTop: 16,
+    paddingBottom: 40,
+  },
+});
@@ -14,6 +14,7 @@ interface TopBarProps {
   onDateChange: (date: string) => void;
   onCalendarPress: () => void;
   onTrendsPress: () => void;
+  onSearchPress: () => void;
   onProfilePress: () => void;
 }
 
@@ -48,6 +49,7 @@ export function TopBar({
   onDateChange,
   onCalendarPress,
   onTrendsPress,
+  onSearchPress,
   onProfilePress,
 }: TopBarProps) {
   const todayStr = toDateString(new Date());
@@ -153,6 +155,15 @@ export function TopBar({
                 <Text style={styles.menuItemText}>Trends</Text>
               </TouchableOpacity>
               <View style={styles.menuDivider} />
+              <TouchableOpacity
+                style={styles.menuItem}
+                onPress={() => handleMenuItem(onSearchPress)}
+                activeOpacity={0.7}
+              >
+                <Ionicons name="search-outline" size={16} color="#fff" />
+                <Text style={styles.menuItemText}>Search</Text>
+              </TouchableOpacity>
+              <View style={styles.menuDivider} />
               <TouchableOpacity
                 style={styles.menuItem}
                 onPress={() => handleMenuItem(onProfilePress)}
@@ -0,0 +1,355 @@
+import { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Animated,
+  Dimensions,
+  ScrollView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { WaterLog } from '../types';
+
+const WATER_COLOR = '#4DA3FF';
+const SCREEN_HEIGHT = Dimensions.get('window').height;
+
+// Common drink sizes in fl oz
+const QUICK_ADDS: { label: string; amount: number }[] = [
+  { label: 'Glass', amount: 8 },
+  { label: 'Can', amount: 12 },
+  { label: 'Bottle', amount: 16.9 },
+  { label: 'Large', amount: 24 },
+];
+
+interface WaterInputSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  logs: WaterLog[]; // drinks logged for the selected day
+  target: number; // daily goal in fl oz
+  onAdd: (amount: number) => Promise<void>;
+  onRemove: (waterLogID: string) => Promise<void>;
+}
+
+function formatTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+}
+
+export function WaterInputSheet({
+  visible,
+  onClose,
+  logs,
+  target,
+  onAdd,
+  onRemove,
+}: WaterInputSheetProps) {
+  const [slideAnim] = useState(() => new Animated.Value(SCREEN_HEIGHT));
+  const [backdropOpacity] = useState(() => new Animated.Value(0));
+  const [customAmount, setCustomAmount] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setCustomAmount('');
+      setError(null);
+
+      Animated.parallel([
+        Animated.timing(slideAnim, {
+          toValue: 0,
+          duration: 300,
+          useNativeDriver: true,
+        }),
+        Animated.timing(backdropOpacity, {
+          toValue: 1,
+          duration: 300,
+          useNativeDriver: true,
+        }),
+      ]).start();
+    } else {
+      Animated.parallel([
+        Animated.timing(slideAnim, {
+          toValue: SCREEN_HEIGHT,
+          duration: 250,
+          useNativeDriver: true,
+        }),
+        Animated.timing(backdropOpacity, {
+          toValue: 0,
+          duration: 250,
+          useNativeDriver: true,
+        }),
+      ]).start();
+    }
+  }, [visible]);
+
+  const total = Math.round(logs.reduce((sum, log) => sum + log.amount, 0) * 10) / 10;
+  const progress = target > 0 ? Math.min(total / target, 1) : 0;
+
+  const handleAdd = async (amount: number) => {
+    setError(null);
+    try {
+      await onAdd(amount);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to log water');
+    }
+  };
+
+  const handleAddCustom = async () => {
+    const amount = parseFloat(customAmount);
+    if (isNaN(amount) || amount <= 0) return;
+    await handleAdd(amount);
+    setCustomAmount('');
+  };
+
+  const handleRemove = async (waterLogID: string) => {
+    setError(null);
+    try {
+      await onRemove(waterLogID);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove water');
+    }
+  };
+
+  const isValidCustom = (() => {
+    const amount = parseFloat(customAmount);
+    return !isNaN(amount) && amount > 0;
+  })();
+
+  if (!visible) return null;
+
+  return (
+    <Modal transparent visible={visible} animationType="none" onRequestClose={onClose}>
+      <View style={sheetStyles.overlay}>
+        <Animated.View
+          style={[sheetStyles.backdrop, { opacity: backdropOpacity }]}
+        >
+          <TouchableOpacity style={{ flex: 1 }} onPress={onClose} activeOpacity={1} />
+        </Animated.View>
+        <Animated.View
+          style={[sheetStyles.sheet, { transform: [{ translateY: slideAnim }] }]}
+        >
+          <View style={sheetStyles.handle} />
+
+          <Text style={sheetStyles.title}>Water</Text>
+
+          {/* Total and progress */}
+          <View style={sheetStyles.displayContainer}>
+            <Text style={sheetStyles.displayText}>{total}</Text>
+            <Text style={sheetStyles.unitText}>/ {target} oz</Text>
+          </View>
+          <View style={sheetStyles.progressTrack}>
+            <View style={[sheetStyles.progressFill, { width: `${progress * 100}%` }]} />
+          </View>
+
+          {/* Quick add */}
+          <View style={sheetStyles.quickAddRow}>
+            {QUICK_ADDS.map((option) => (
+              <TouchableOpacity
+                key={option.label}
+                style={sheetStyles.quickAddButton}
+                onPress={() => handleAdd(option.amount)}
+                activeOpacity={0.7}
+              >
+                <Text style={sheetStyles.quickAddAmount}>+{option.amount}</Text>
+                <Text style={sheetStyles.quickAddLabel}>{option.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {/* Custom amount */}
+          <View style={sheetStyles.customRow}>
+            <TextInput
+              style={sheetStyles.customInput}
+              value={customAmount}
+              onChangeText={setCustomAmount}
+              placeholder="Other amount (oz)"
+              placeholderTextColor="#555"
+              keyboardType="decimal-pad"
+              returnKeyType="done"
+              onSubmitEditing={handleAddCustom}
+            />
+            <TouchableOpacity
+              style={[sheetStyles.customButton, !isValidCustom && sheetStyles.customButtonDisabled]}
+              onPress={handleAddCustom}
+              disabled={!isValidCustom}
+            >
+              <Text style={[sheetStyles.customButtonText, !isValidCustom && sheetStyles.customButtonTextDisabled]}>
+                Add
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          {error && <Text style={sheetStyles.errorText}>{error}</Text>}
+
+          {/* Today's drinks */}
+          {logs.length > 0 && (
+            <ScrollView style={sheetStyles.logList}>
+              {[...logs].reverse().map((log) => (
+                <View key={log.waterLogID} style={sheetStyles.logRow}>
+                  <Text style={sheetStyles.logAmount}>{log.amount} oz</Text>
+                  <Text style={sheetStyles.logTime}>{formatTime(log.createdAt)}</Text>
+                  <TouchableOpacity onPress={() => handleRemove(log.waterLogID)} hitSlop={10}>
+                    <Ionicons name="close-circle-outline" size={20} color="#666" />
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </ScrollView>
+          )}
+        </Animated.View>
+      </View>
+    </Modal>
+  );
+}
+
+const sheetStyles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  backdrop: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+  },
+  sheet: {
+    backgroundColor: '#1a1a1a',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingHorizontal: 24,
+    paddingBottom: 40,
+  },
+  handle: {
+    width: 36,
+    height: 4,
+    backgroundColor: '#444',
+    borderRadius: 2,
+    alignSelf: 'center',
+    marginTop: 10,
+    marginBottom: 20,
+  },
+  title: {
+    color: '#fff',
+    fontSize: 20,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  displayContainer: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    justifyContent: 'center',
+    marginBottom: 12,
+  },
+  displayText: {
+    color: '#fff',
+    fontSize: 48,
+    fontFamily: 'DIN Alternate',
+    fontWeight: 'bold',
+  },
+  unitText: {
+    color: '#888',
+    fontSize: 20,
+    fontFamily: 'Avenir Next',
+    marginLeft: 8,
+  },
+  progressTrack: {
+    height: 8,
+    backgroundColor: '#2a2a2a',
+    borderRadius: 4,
+    overflow: 'hidden',
+    marginBottom: 24,
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: WATER_COLOR,
+    borderRadius: 4,
+  },
+  quickAddRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginBottom: 16,
+  },
+  quickAddButton: {
+    flex: 1,
+    alignItems: 'center',
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    paddingVertical: 12,
+  },
+  quickAddAmount: {
+    color: WATER_COLOR,
+    fontSize: 18,
+    fontFamily: 'DIN Alternate',
+    fontWeight: 'bold',
+  },
+  quickAddLabel: {
+    color: '#888',
+    fontSize: 12,
+    fontFamily: 'Avenir Next',
+    marginTop: 2,
+  },
+  customRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginBottom: 16,
+  },
+  customInput: {
+    flex: 1,
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+  },
+  customButton: {
+    backgroundColor: WATER_COLOR,
+    borderRadius: 12,
+    paddingHorizontal: 20,
+    justifyContent: 'center',
+  },
+  customButtonDisabled: {
+    backgroundColor: '#333',
+  },
+  customButtonText: {
+    color: '#000',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  customButtonTextDisabled: {
+    color: '#666',
+  },
+  errorText: {
+    color: '#ff6b6b',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  logList: {
+    maxHeight: 180,
+  },
+  logRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#2a2a2a',
+  },
+  logAmount: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'DIN Alternate',
+    fontWeight: '600',
+  },
+  logTime: {
+    flex: 1,
+    color: '#888',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+  },
+});
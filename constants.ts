@@ -1,7 +1,7 @@
 import { MacroTargets, DailyLog } from './types';
 
 export const foodParsingPrompt = `
-You are a nutritional assistant that converts natural language food descriptions into structured macro data. Your job is to parse what users say they ate and return an updated version of today's complete food log.
+You are a nutritional assistant that converts natural language food descriptions into structured macro data. Your job is to parse what users say they ate and return the list of changes to apply to today's food log.
 
 **IMPORTANT**: You have access to Google Search. USE IT to look up accurate nutritional data for:
 - Branded foods (search for "[brand] [product] nutrition facts")
@@ -12,25 +12,42 @@ You are a nutritional assistant that converts natural language food descriptions
 ## Input Format
 
 You will receive:
-1. **Current date and time** - Use this to infer meal type when not explicitly stated
-2. **Previous meals** (up to 5 days) - Use this for context when users reference past meals (e.g., "same as yesterday", "leftover chicken")
-3. **Today's food so far** - The current state of today's food log that you will update
-4. **Transcript** - What the user said about their food intake (may add, modify, or remove items)
+1. **Current date and time** - In UTC with the user's local time, followed by the user's body weight (for exercise estimates)
+2. **Meal slots** - The user's meals in order, as "key: Name (time window)", and the current meal for the time of day. Every mealType you return must be one of these keys
+3. **Previous meals** (up to 5 days) - Use this for context when users reference past meals (e.g., "same as yesterday", "leftover chicken")
+4. **Saved recipes** (if any) - The user's own recipes with per-serving macros (e.g., "Chili (1 serving) [...]")
+5. **Meal templates** (if any) - Named sets of foods the user logs together (e.g., "Weekday breakfast"), with each item's macros
+6. **Today's food so far** - The current entries in today's food log by meal slot, each with its id (e.g., "id=3f2a...") and, when known, the local time it was eaten (e.g., "at 08:15")
+7. **Transcript** - What the user said about their food intake (may add, modify, or remove items)
 
 ## Output Format
 
-Return ONLY valid JSON matching this exact structure. This represents the COMPLETE updated state of today's food log:
+Return ONLY valid JSON matching this exact structure. It lists ONLY the changes to make, never the unchanged entries:
 
 \`\`\`json
 {
-  "breakfast": [],
-  "lunch": [],
-  "dinner": [],
-  "snacks": []
+  "operations": [
+    {
+      "type": "add | update | remove | move",
+      "foodEntryID": "string - id of the existing entry, empty string for add",
+      "mealType": "string - a meal slot key",
+      "item": { FoodItem },
+      "eatenAt": "string - local time eaten as HH:MM (24-hour) if the user gave one, otherwise empty string"
+    }
+  ],
+  "water": "number - fluid ounces of plain water to log, 0 if none",
+  "activities": [
+    {
+      "name": "string - the exercise, e.g. Running",
+      "durationMinutes": "number - whole minutes",
+      "intensity": "light | moderate | vigorous",
+      "caloriesBurned": "number - estimated kcal burned"
+    }
+  ]
 }
 \`\`\`
 
-Each meal array contains FoodItem objects:
+Each item is a FoodItem object:
 
 \`\`\`json
 {
@@ -39,10 +56,18 @@ Each meal array contains FoodItem objects:
   "calories": "integer",
   "protein": "integer - grams",
   "carbs": "integer - grams",
-  "fat": "integer - grams"
+  "fat": "integer - grams",
+  "fiber": "number or null - grams",
+  "sugar": "number or null - grams, total sugars",
+  "addedSugar": "number or null - grams",
+  "sodium": "number or null - milligrams",
+  "saturatedFat": "number or null - grams",
+  "cholesterol": "number or null - milligrams"
 }
 \`\`\`
 
+The examples below leave out the micronutrient fields for brevity, but every item you return must include all of them.
+
 ## Nutritional Accuracy (USE WEB SEARCH)
 
 - **Always use web search** for branded foods, ethnic cuisine, and restaurant items
@@ -50,6 +75,13 @@ Each meal array contains FoodItem objects:
 - All values must be integers (round as needed)
 - When uncertain, search first before estimating
 
+### Micronutrients
+- Fill in fiber, sugar, added sugar, sodium, saturated fat, and cholesterol from the same source you used for the macros
+- Grams may have one decimal; milligrams are integers
+- Use null when a value can't be found or reasonably estimated. Never use 0 to mean unknown
+- Whole foods have 0 added sugar; a plain ingredient with no cholesterol (e.g., vegetables) has 0 cholesterol
+- When repeating an existing item (remove, move, or an update that keeps some values), copy its known micronutrients and use null for any it doesn't list
+
 ### When User Provides Partial Info
 If the user says something like "110 calorie bread with 25g carbs":
 - Use the provided values exactly
@@ -80,23 +112,40 @@ The transcript comes from speech recognition which often mishears ethnic/foreign
 
 ## Rules
 
-### Update Behavior
-- Your output represents the COMPLETE state of today's food log after applying the user's transcript
-- **Adding items**: Include new items alongside existing ones from "Today's food so far"
-- **Modifying items**: If the user corrects something (e.g., "actually it was 2 eggs not 3"), update that item
-- **Removing items**: If the user says they didn't eat something (e.g., "remove the toast", "I didn't have breakfast"), omit it from output
-- **Preserving items**: Items in "Today's food so far" that aren't mentioned in the transcript should be preserved unchanged with EXACTLY the same macro values shown in brackets [cal, P, C, F]. Never re-estimate macros for items the user hasn't modified.
-- If "Today's food so far" is empty, treat this as a fresh day and just add the new items
-- **Non-food input**: If the transcript doesn't contain any food-related content (e.g., "hello", "test", random words), preserve ALL existing items unchanged with their exact macro values
+### Operations
+- **add**: A new food the user ate. Set foodEntryID to "" and mealType to the meal it belongs to
+- **update**: The user corrects an existing entry (e.g., "actually it was 2 eggs not 3"). Use that entry's id, its current mealType, and the full corrected item
+- **remove**: The user says they didn't eat something (e.g., "remove the toast", "I didn't have breakfast"). Use the entry's id, its current mealType, and repeat the item unchanged. Emit one remove per entry
+- **move**: The user says an item belongs to a different meal (e.g., "the yogurt was lunch, not breakfast"). Use the entry's id, the NEW mealType, and repeat the item unchanged
+- Only use ids that appear in "Today's food so far". Never invent ids
+- Entries the user doesn't mention must NOT appear in the output at all. Never re-estimate macros for items the user hasn't modified
+- If "Today's food so far" is empty, every item is an add
+- **Non-food input**: If the transcript doesn't contain any food-related content (e.g., "hello", "test", random words), return an empty operations array, water 0 and no activities
+
+### Water
+- Plain water is hydration, not food: never emit it as an operation. Put the total amount in "water" instead
+- Convert to fluid ounces: 1 glass or cup = 8 oz, 1 standard bottle = 16.9 oz, 1 liter = 33.8 oz, 1 ml = 0.034 oz
+- Sparkling and unflavored mineral water count as water. Anything with calories (juice, milk, soda, sweetened drinks) is food
+- Only count water mentioned in this transcript. Earlier water logs aren't shown to you, so never repeat or correct them
+
+### Exercise
+- Workouts are not food: never emit them as operations. Add one entry to "activities" per workout mentioned in this transcript
+- If no duration is given, use a typical one for the activity (e.g., 30 minutes). If no intensity is given, infer it from the activity (walking → light, jogging → moderate, sprints or HIIT → vigorous)
+- Estimate caloriesBurned with MET × 3.5 × body weight in kg / 200 per minute, using the body weight given
+- Only count exercise mentioned in this transcript. Earlier activities aren't shown to you, so never repeat them
+
+### Eaten Time
+- If the user says when they ate something ("at 3pm I had...", "around noon", "this morning at 7"), set eatenAt to that local time as 24-hour HH:MM (e.g., "15:00", "12:00", "07:00")
+- One time applies to every item the user says they had then
+- If no time is given, set eatenAt to "". Never guess a time from the meal name and never use the current time
+- For update, set eatenAt only when the user corrects when they ate it (e.g., "the coffee was at 9 not 10"); otherwise ""
 
 ### Meal Type Assignment
-- If the user specifies a meal ("for breakfast", "at lunch"), use that
-- If ambiguous, infer from time of day:
-  - Before 11:00 AM → breakfast
-  - 11:00 AM - 2:00 PM → lunch
-  - 5:00 PM - 9:00 PM → dinner
-  - All other times or explicit snacks → snacks
-- Meals not mentioned in the transcript should preserve their current state from "Today's food so far"
+- If the user names a meal ("for breakfast", "after my workout"), use the slot whose name matches it best
+- Otherwise, if the user gives a time, use the slot whose time window contains it
+- Otherwise use the current meal given with the meal slots
+- Always return a slot key (e.g., "pre-workout"), never the display name
+- The examples below use the default slots: breakfast, lunch, dinner and snacks
 
 ### Quantity Handling
 - Parse vague quantities into reasonable estimates:
@@ -106,15 +155,25 @@ The transcript comes from speech recognition which often mishears ethnic/foreign
 - Be specific in the quantity field to help users understand the estimate
 
 ### Reference Handling
-- "Same as yesterday" / "leftover X" → Look up the referenced item from previous meals and copy it with same macros
+- "Same as yesterday" / "leftover X" → Look up the referenced item from previous meals and add it with same macros
 - "Half of what I had before" → Calculate reduced portions
 - If a reference cannot be resolved, make a reasonable assumption and note in the name (e.g., "Chicken (estimated)")
 
+### Saved Recipes
+- If the user names one of their saved recipes (e.g., "a bowl of my chili"), use the recipe's per-serving macros exactly instead of estimating
+- One bowl, plate, or portion = 1 serving unless the user says otherwise; multiply macros by the number of servings
+- Use the recipe name as the item name and the servings as the quantity (e.g., "1.5 servings")
+
+### Meal Templates
+- If the user names one of their meal templates (e.g., "log my weekday breakfast"), emit one add per template item with its exact name, quantity, and macros
+- Put the items in the meal slot the user says; otherwise infer it from the template name or the time of day
+- If the user changes part of it (e.g., "my weekday breakfast but no banana"), leave that item out or adjust it
+
 ### Edge Cases
-- Multiple meals in one transcript: Split items into appropriate meal arrays
+- Multiple meals in one transcript: Emit one add per item with the appropriate mealType
 - Composite dishes (e.g., "chicken stir fry"): Break down into logical components OR keep as single item with combined macros
-- Drinks: Include caloric beverages; water/black coffee/unsweetened tea can be omitted unless user wants them tracked
-- "I skipped breakfast" or similar: Return empty array for that meal, don't invent items
+- Drinks: Include caloric beverages as food; black coffee/unsweetened tea can be omitted unless user wants them tracked; plain water goes in "water"
+- "I skipped breakfast" or similar: Remove any entries in that meal, don't invent items
 
 ## Examples
 
@@ -125,14 +184,13 @@ The transcript comes from speech recognition which often mishears ethnic/foreign
 
 \`\`\`json
 {
-  "breakfast": [
-    {"name": "Eggs, scrambled", "quantity": "3 large", "calories": 234, "protein": 18, "carbs": 2, "fat": 17},
-    {"name": "Toast, white bread", "quantity": "1 slice", "calories": 79, "protein": 3, "carbs": 15, "fat": 1},
-    {"name": "Butter", "quantity": "1 tbsp", "calories": 102, "protein": 0, "carbs": 0, "fat": 12}
+  "operations": [
+    {"type": "add", "foodEntryID": "", "mealType": "breakfast", "item": {"name": "Eggs, scrambled", "quantity": "3 large", "calories": 234, "protein": 18, "carbs": 2, "fat": 17}, "eatenAt": ""},
+    {"type": "add", "foodEntryID": "", "mealType": "breakfast", "item": {"name": "Toast, white bread", "quantity": "1 slice", "calories": 79, "protein": 3, "carbs": 15, "fat": 1}, "eatenAt": ""},
+    {"type": "add", "foodEntryID": "", "mealType": "breakfast", "item": {"name": "Butter", "quantity": "1 tbsp", "calories": 102, "protein": 0, "carbs": 0, "fat": 12}, "eatenAt": ""}
   ],
-  "lunch": [],
-  "dinner": [],
-  "snacks": []
+  "water": 0,
+  "activities": []
 }
 \`\`\`
 
@@ -143,65 +201,148 @@ The transcript comes from speech recognition which often mishears ethnic/foreign
 
 \`\`\`json
 {
-  "dinner": [
-    {"name": "Chicken Tikka Masala", "quantity": "1 cup (240g)", "calories": 320, "protein": 27, "carbs": 12, "fat": 18},
-    {"name": "Naan bread", "quantity": "1 piece (90g)", "calories": 262, "protein": 9, "carbs": 45, "fat": 5}
+  "operations": [
+    {"type": "add", "foodEntryID": "", "mealType": "dinner", "item": {"name": "Chicken Tikka Masala", "quantity": "1 cup (240g)", "calories": 320, "protein": 27, "carbs": 12, "fat": 18}, "eatenAt": ""},
+    {"type": "add", "foodEntryID": "", "mealType": "dinner", "item": {"name": "Naan bread", "quantity": "1 piece (90g)", "calories": 262, "protein": 9, "carbs": 45, "fat": 5}, "eatenAt": ""}
   ],
-  "breakfast": [],
-  "lunch": [],
-  "snacks": []
+  "water": 0,
+  "activities": []
 }
 \`\`\`
 
 ### Example 3: Branded food (use web search for exact values)
 **Time:** 3:00 PM
-**Today's food so far:** Empty
+**Today's food so far:**
+Breakfast:
+- id=a1 Eggs, scrambled (3 large) [234 cal, 18g P, 2g C, 17g F]
 **Transcript:** "Had a Clif bar for a snack"
 
 \`\`\`json
 {
-  "snacks": [
-    {"name": "Clif Bar (Chocolate Chip)", "quantity": "1 bar (68g)", "calories": 250, "protein": 10, "carbs": 44, "fat": 5}
+  "operations": [
+    {"type": "add", "foodEntryID": "", "mealType": "snacks", "item": {"name": "Clif Bar (Chocolate Chip)", "quantity": "1 bar (68g)", "calories": 250, "protein": 10, "carbs": 44, "fat": 5}, "eatenAt": ""}
   ],
-  "breakfast": [],
-  "lunch": [],
-  "dinner": []
+  "water": 0,
+  "activities": []
 }
 \`\`\`
 
-### Example 4: Partial info provided
-**Time:** 8:00 AM
-**Today's food so far:** Empty
-**Transcript:** "I had 110 calorie bread with 25g carbs"
+### Example 4: Correcting an item
+**Time:** 9:00 AM
+**Today's food so far:**
+Breakfast:
+- id=a1 Eggs, scrambled (3 large) [234 cal, 18g P, 2g C, 17g F]
+- id=b2 Toast, white bread (1 slice) [79 cal, 3g P, 15g C, 1g F]
+**Transcript:** "Actually it was only 2 eggs"
 
 \`\`\`json
 {
-  "breakfast": [
-    {"name": "Bread (low calorie)", "quantity": "1 slice", "calories": 110, "protein": 3, "carbs": 25, "fat": 0}
+  "operations": [
+    {"type": "update", "foodEntryID": "a1", "mealType": "breakfast", "item": {"name": "Eggs, scrambled", "quantity": "2 large", "calories": 156, "protein": 12, "carbs": 1, "fat": 11}, "eatenAt": ""}
   ],
-  "lunch": [],
-  "dinner": [],
-  "snacks": []
+  "water": 0,
+  "activities": []
 }
 \`\`\`
 
-### Example 5: Removing an item
-**Time:** 10:00 AM
+### Example 5: Removing and moving items
+**Time:** 1:00 PM
 **Today's food so far:**
-- Breakfast: Eggs (3 large) [234 cal, 18g P, 2g C, 17g F], Toast (1 slice) [79 cal, 3g P, 15g C, 1g F], Orange juice (8 oz) [110 cal, 2g P, 26g C, 0g F]
-**Transcript:** "Remove the orange juice, I didn't actually drink it"
+Breakfast:
+- id=a1 Eggs, scrambled (3 large) [234 cal, 18g P, 2g C, 17g F]
+- id=c3 Orange juice (8 oz) [110 cal, 2g P, 26g C, 0g F]
+- id=d4 Greek yogurt (1 container) [150 cal, 15g P, 8g C, 5g F]
+**Transcript:** "Remove the orange juice, I didn't actually drink it. And the yogurt was lunch"
+
+\`\`\`json
+{
+  "operations": [
+    {"type": "remove", "foodEntryID": "c3", "mealType": "breakfast", "item": {"name": "Orange juice", "quantity": "8 oz", "calories": 110, "protein": 2, "carbs": 26, "fat": 0}, "eatenAt": ""},
+    {"type": "move", "foodEntryID": "d4", "mealType": "lunch", "item": {"name": "Greek yogurt", "quantity": "1 container", "calories": 150, "protein": 15, "carbs": 8, "fat": 5}, "eatenAt": ""}
+  ],
+  "water": 0,
+  "activities": []
+}
+\`\`\`
+
+### Example 6: Water with food
+**Time:** 12:30 PM
+**Today's food so far:** Empty
+**Transcript:** "Two glasses of water and a banana"
+
+\`\`\`json
+{
+  "operations": [
+    {"type": "add", "foodEntryID": "", "mealType": "lunch", "item": {"name": "Banana", "quantity": "1 medium", "calories": 105, "protein": 1, "carbs": 27, "fat": 0}, "eatenAt": ""}
+  ],
+  "water": 16,
+  "activities": []
+}
+\`\`\`
+
+### Example 7: Exercise
+**Time:** 6:00 PM
+**Body weight:** 180 lbs
+**Today's food so far:** Empty
+**Transcript:** "45 minutes of cycling, moderate"
+
+\`\`\`json
+{
+  "operations": [],
+  "water": 0,
+  "activities": [
+    {"name": "Cycling", "durationMinutes": 45, "intensity": "moderate", "caloriesBurned": 386}
+  ]
+}
+\`\`\`
+
+### Example 8: Food with a time
+**Time:** 6:30 PM
+**Today's food so far:** Empty
+**Transcript:** "At 3pm I had an apple and some peanut butter"
 
 \`\`\`json
 {
-  "breakfast": [
-    {"name": "Eggs, scrambled", "quantity": "3 large", "calories": 234, "protein": 18, "carbs": 2, "fat": 17},
-    {"name": "Toast, white bread", "quantity": "1 slice", "calories": 79, "protein": 3, "carbs": 15, "fat": 1}
+  "operations": [
+    {"type": "add", "foodEntryID": "", "mealType": "snacks", "item": {"name": "Apple", "quantity": "1 medium", "calories": 95, "protein": 0, "carbs": 25, "fat": 0}, "eatenAt": "15:00"},
+    {"type": "add", "foodEntryID": "", "mealType": "snacks", "item": {"name": "Peanut butter", "quantity": "2 tbsp", "calories": 190, "protein": 7, "carbs": 7, "fat": 16}, "eatenAt": "15:00"}
   ],
-  "lunch": [],
-  "dinner": [],
-  "snacks": []
+  "water": 0,
+  "activities": []
+}
+\`\`\`
+`;
+
+export const activityParsingPrompt = `
+You are a fitness assistant that converts workout descriptions into structured exercise logs with calorie-burn estimates.
+
+## Input Format
+
+You will receive the user's body weight and a description of one or more workouts (e.g., "45 minutes of cycling, moderate", "ran 3 miles then lifted for half an hour").
+
+## Output Format
+
+Return ONLY valid JSON matching this exact structure:
+
+\`\`\`json
+{
+  "activities": [
+    {
+      "name": "string - the exercise, e.g. Running",
+      "durationMinutes": "number - whole minutes",
+      "intensity": "light | moderate | vigorous",
+      "caloriesBurned": "number - estimated kcal burned"
+    }
+  ]
 }
 \`\`\`
+
+## Rules
+- One entry per distinct workout. Use a short, capitalized name
+- If no duration is given, estimate it from distance or use a typical session length (e.g., 30 minutes)
+- If no intensity is given, infer it from the activity (walking → light, jogging → moderate, sprints or HIIT → vigorous)
+- Estimate caloriesBurned with MET × 3.5 × body weight in kg / 200 per minute. Pick a MET value for the specific activity (e.g., walking 3.5, cycling 7, running 6 mph 10, weight lifting 5)
+- If the description isn't about exercise, return an empty activities array
 `;
 
 export const recommendationPrompt = `
@@ -212,7 +353,7 @@ You are a concise macro-aware nutrition advisor embedded in a food tracking app.
 ## Input Format
 
 You will receive:
-1. **Macro targets** – the user's daily goals (calories, protein, carbs, fat)
+1. **Macro targets** – the user's daily goals (calories, protein, carbs, fat), plus any micronutrient targets (e.g., fiber, sodium) they track
 2. **Consumed today** – what they've already eaten (totals + meal breakdown)
 3. **Remaining macros** – what's left to hit their goals
 4. **Previous days** – what they ate in the last 1-2 days (if available)
@@ -258,134 +399,146 @@ export const mockDailyLog: DailyLog = {
   targetProtein: 170,
   targetCarbs: 300,
   targetFat: 90,
-  breakfast: [
-    {
-      foodEntryID: '1',
-      userID: 'default-user',
-      name: '3 eggs',
-      quantity: '3 large',
-      calories: 210,
-      protein: 18,
-      carbs: 1,
-      fat: 15,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    },
-    {
-      foodEntryID: '2',
-      userID: 'default-user',
-      name: '1 slice toast',
-      quantity: '1 slice',
-      calories: 80,
-      protein: 3,
-      carbs: 15,
-      fat: 1,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    },
-    {
-      foodEntryID: '3',
-      userID: 'default-user',
-      name: '1 cappuccino',
-      quantity: '12 oz',
-      calories: 110,
-      protein: 9,
-      carbs: 14,
-      fat: 4,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    },
-  ],
-  lunch: [
-    {
-      foodEntryID: '4',
-      userID: 'default-user',
-      name: 'Chicken salad',
-      quantity: '1 bowl',
-      calories: 450,
-      protein: 35,
-      carbs: 20,
-      fat: 12,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    },
-    {
-      foodEntryID: '5',
-      userID: 'default-user',
-      name: 'Iced tea',
-      quantity: '16 oz',
-      calories: 0,
-      protein: 0,
-      carbs: 0,
-      fat: 0,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    },
-  ],
-  dinner: [
-    {
-      foodEntryID: '6',
-      userID: 'default-user',
-      name: 'Salmon fillet',
-      quantity: '6 oz',
-      calories: 350,
-      protein: 40,
-      carbs: 0,
-      fat: 20,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    },
-    {
-      foodEntryID: '7',
-      userID: 'default-user',
-      name: 'Brown rice',
-      quantity: '1 cup',
-      calories: 220,
-      protein: 5,
-      carbs: 45,
-      fat: 2,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    },
-    {
-      foodEntryID: '8',
-      userID: 'default-user',
-      name: 'Steamed broccoli',
-      quantity: '1 cup',
-      calories: 55,
-      protein: 4,
-      carbs: 10,
-      fat: 1,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    },
-  ],
-  snacks: [
-    {
-      foodEntryID: '9',
-      userID: 'default-user',
-      name: 'Greek yogurt',
-      quantity: '1 container',
-      calories: 150,
-      protein: 15,
-      carbs: 8,
-      fat: 5,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    },
-    {
-      foodEntryID: '10',
-      userID: 'default-user',
-      name: 'Almonds',
-      quantity: '1 oz',
-      calories: 165,
-      protein: 6,
-      carbs: 6,
-      fat: 14,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    },
-  ],
+  meals: {
+    breakfast: [
+      {
+        foodEntryID: '1',
+        userID: 'default-user',
+        name: '3 eggs',
+        quantity: '3 large',
+        calories: 210,
+        protein: 18,
+        carbs: 1,
+        fat: 15,
+        eatenAt: null,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      },
+      {
+        foodEntryID: '2',
+        userID: 'default-user',
+        name: '1 slice toast',
+        quantity: '1 slice',
+        calories: 80,
+        protein: 3,
+        carbs: 15,
+        fat: 1,
+        eatenAt: null,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      },
+      {
+        foodEntryID: '3',
+        userID: 'default-user',
+        name: '1 cappuccino',
+        quantity: '12 oz',
+        calories: 110,
+        protein: 9,
+        carbs: 14,
+        fat: 4,
+        eatenAt: null,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      },
+    ],
+    lunch: [
+      {
+        foodEntryID: '4',
+        userID: 'default-user',
+        name: 'Chicken salad',
+        quantity: '1 bowl',
+        calories: 450,
+        protein: 35,
+        carbs: 20,
+        fat: 12,
+        eatenAt: null,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      },
+      {
+        foodEntryID: '5',
+        userID: 'default-user',
+        name: 'Iced tea',
+        quantity: '16 oz',
+        calories: 0,
+        protein: 0,
+        carbs: 0,
+        fat: 0,
+        eatenAt: null,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      },
+    ],
+    dinner: [
+      {
+        foodEntryID: '6',
+        userID: 'default-user',
+        name: 'Salmon fillet',
+        quantity: '6 oz',
+        calories: 350,
+        protein: 40,
+        carbs: 0,
+        fat: 20,
+        eatenAt: null,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      },
+      {
+        foodEntryID: '7',
+        userID: 'default-user',
+        name: 'Brown rice',
+        quantity: '1 cup',
+        calories: 220,
+        protein: 5,
+        carbs: 45,
+        fat: 2,
+        eatenAt: null,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      },
+      {
+        foodEntryID: '8',
+        userID: 'default-user',
+        name: 'Steamed broccoli',
+        quantity: '1 cup',
+        calories: 55,
+        protein: 4,
+        carbs: 10,
+        fat: 1,
+        eatenAt: null,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      },
+    ],
+    snacks: [
+      {
+        foodEntryID: '9',
+        userID: 'default-user',
+        name: 'Greek yogurt',
+        quantity: '1 container',
+        calories: 150,
+        protein: 15,
+        carbs: 8,
+        fat: 5,
+        eatenAt: null,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      },
+      {
+        foodEntryID: '10',
+        userID: 'default-user',
+        name: 'Almonds',
+        quantity: '1 oz',
+        calories: 165,
+        protein: 6,
+        carbs: 6,
+        fat: 14,
+        eatenAt: null,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      },
+    ],
+  },
   createdAt: new Date().toISOString(),
   updatedAt: new Date().toISOString(),
 };
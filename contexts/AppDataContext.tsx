@@ -1,5 +1,5 @@
 import React, { createContext, useContext, ReactNode } from 'react';
-import { MacroTargets, DailyLog, User, WeightLog } from '../types';
+import { MacroTargets, DailyLog, User, UserSettings, WeightLog, WaterLog, ActivityLog, ActivityItem, BodyMeasurement, BodyMeasurementValues, MealSlot, IntegrityReport } from '../types';
 
 interface AppData {
   user: User | null;
@@ -21,6 +21,28 @@ interface AppData {
   todayWeight: WeightLog | null;
   previousWeight: WeightLog | null;
   saveWeight: (weight: number) => Promise<void>;
+  todayMeasurement: BodyMeasurement | null;
+  previousMeasurement: BodyMeasurement | null;
+  saveMeasurement: (values: BodyMeasurementValues) => Promise<void>;
+  waterLogs: WaterLog[];
+  addWater: (amount: number) => Promise<void>;
+  removeWater: (waterLogID: string) => Promise<void>;
+  activityLogs: ActivityLog[];
+  addActivity: (activity: ActivityItem) => Promise<void>;
+  removeActivity: (activityLogID: string) => Promise<void>;
+  settings: UserSettings | null;
+  mealSlots: MealSlot[];
+  reloadMealSlots: () => Promise<void>;
+  updateSettings: (
+    newSettings: Omit<UserSettings, 'createdAt' | 'updatedAt'>
+  ) => Promise<void>;
+  profiles: User[];
+  switchProfile: (userID: string) => Promise<void>;
+  createProfile: (firstName: string, lastName: string) => Promise<void>;
+  deleteProfile: (userID: string) => Promise<void>;
+  reloadProfile: () => Promise<void>;
+  launchIntegrityReport: IntegrityReport | null; // problems found by the launch check, until dismissed
+  dismissLaunchIntegrityReport: () => void;
 }
 
 const AppDataContext = createContext<AppData | null>(null);
@@ -1,15 +1,34 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { MacroTargets, DailyLog, User, WeightLog } from '../types';
+import { MacroTargets, DailyLog, User, UserSettings, WeightLog, WaterLog, ActivityLog, ActivityItem, BodyMeasurement, BodyMeasurementValues, MealSlot, IntegrityReport } from '../types';
 import {
   initDatabase,
-  getOrCreateDefaultUser,
+  getOrCreateActiveUser,
+  getUsers,
+  createUser,
+  deleteUser,
+  setActiveUser,
   getOrCreateMacroTargets,
-  getOrCreateDailyLog,
+  getDailyLog,
+  getDailyLogsInRange,
+  pruneVirtualDailyLogs,
   updateMacroTargets,
   updateUser,
   getWeightLog,
   saveWeightLog,
   getPreviousWeightLog,
+  getBodyMeasurement,
+  saveBodyMeasurement,
+  getPreviousBodyMeasurement,
+  getWaterLogs,
+  addWaterLog,
+  deleteWaterLog,
+  getActivityLogs,
+  addActivityLog,
+  deleteActivityLog,
+  getOrCreateUserSettings,
+  getMealSlots,
+  updateUserSettings,
+  checkDataIntegrity,
 } from '../services/storage';
 import { mockTargets, mockDailyLog } from '../constants';
 
@@ -49,6 +68,28 @@ interface AppData {
   todayWeight: WeightLog | null;
   previousWeight: WeightLog | null;
   saveWeight: (weight: number) => Promise<void>;
+  todayMeasurement: BodyMeasurement | null;
+  previousMeasurement: BodyMeasurement | null;
+  saveMeasurement: (values: BodyMeasurementValues) => Promise<void>;
+  waterLogs: WaterLog[];
+  addWater: (amount: number) => Promise<void>;
+  removeWater: (waterLogID: string) => Promise<void>;
+  activityLogs: ActivityLog[];
+  addActivity: (activity: ActivityItem) => Promise<void>;
+  removeActivity: (activityLogID: string) => Promise<void>;
+  settings: UserSettings | null;
+  mealSlots: MealSlot[];
+  reloadMealSlots: () => Promise<void>;
+  updateSettings: (
+    newSettings: Omit<UserSettings, 'createdAt' | 'updatedAt'>
+  ) => Promise<void>;
+  profiles: User[];
+  switchProfile: (userID: string) => Promise<void>;
+  createProfile: (firstName: string, lastName: string) => Promise<void>;
+  deleteProfile: (userID: string) => Promise<void>;
+  reloadProfile: () => Promise<void>;
+  launchIntegrityReport: IntegrityReport | null; // problems found by the launch check, until dismissed
+  dismissLaunchIntegrityReport: () => void;
 }
 
 // Number of days to pre-fetch in each direction
@@ -66,16 +107,34 @@ export function useAppData(): AppData {
   const [selectedDate, setSelectedDate] = useState<string>(getLocalDateString());
   const [todayWeight, setTodayWeight] = useState<WeightLog | null>(null);
   const [previousWeight, setPreviousWeight] = useState<WeightLog | null>(null);
+  const [todayMeasurement, setTodayMeasurement] = useState<BodyMeasurement | null>(null);
+  const [previousMeasurement, setPreviousMeasurement] = useState<BodyMeasurement | null>(null);
+  const [waterLogs, setWaterLogs] = useState<WaterLog[]>([]);
+  const [activityLogs, setActivityLogs] = useState<ActivityLog[]>([]);
+  const [settings, setSettings] = useState<UserSettings | null>(null);
+  const [mealSlots, setMealSlots] = useState<MealSlot[]>([]);
+  const [profiles, setProfiles] = useState<User[]>([]);
+  const [launchIntegrityReport, setLaunchIntegrityReport] = useState<IntegrityReport | null>(null);
 
   // Cache for daily logs by date
   const logCache = useRef<Map<string, DailyLog>>(new Map());
   const userRef = useRef<User | null>(null);
+  const launchCheckDone = useRef(false);
 
   // Pre-fetch surrounding days in background
   const prefetchSurroundingDays = useCallback(async (centerDate: string, userID: string) => {
     const today = getLocalDateString();
     const datesToFetch: string[] = [];
 
+    // Unlogged days outside the window lose their virtual log and are re-read when visited
+    const windowStart = getOffsetDateString(centerDate, -PREFETCH_DAYS);
+    pruneVirtualDailyLogs(userID, windowStart, centerDate);
+    for (const [date, log] of logCache.current) {
+      if ((date < windowStart || date > centerDate) && Object.keys(log.meals).length === 0) {
+        logCache.current.delete(date);
+      }
+    }
+
     // Collect dates to prefetch (past days only, up to today)
     for (let i = -PREFETCH_DAYS; i <= 0; i++) {
       const date = getOffsetDateString(centerDate, i);
@@ -85,17 +144,18 @@ export function useAppData(): AppData {
       }
     }
 
-    // Fetch in parallel (silently, no loading state)
-    await Promise.all(
-      datesToFetch.map(async (date) => {
-        try {
-          const log = await getOrCreateDailyLog(userID, date);
-          logCache.current.set(date, log);
-        } catch {
-          // Silently fail for prefetch - don't block the UI
-        }
-      })
-    );
+    if (datesToFetch.length === 0) return;
+
+    // Fetch the whole window in one batch (silently, no loading state)
+    // Days not logged yet are left for loadData to read when visited
+    try {
+      const logs = await getDailyLogsInRange(userID, datesToFetch[0], datesToFetch[datesToFetch.length - 1]);
+      for (const log of logs) {
+        if (!logCache.current.has(log.date)) logCache.current.set(log.date, log);
+      }
+    } catch {
+      // Silently fail for prefetch - don't block the UI
+    }
   }, []);
 
   const loadData = async (date?: string, skipLoadingState = false) => {
@@ -111,18 +171,36 @@ export function useAppData(): AppData {
 
       let dbUser = userRef.current;
       if (!dbUser) {
-        dbUser = await getOrCreateDefaultUser();
+        dbUser = await getOrCreateActiveUser();
         userRef.current = dbUser;
         setUser(dbUser);
+        setProfiles(await getUsers());
       }
 
       const dbTargets = await getOrCreateMacroTargets(dbUser.userID);
       setTargets(dbTargets);
 
+      const dbSettings = await getOrCreateUserSettings(dbUser.userID);
+      setSettings(dbSettings);
+      setMealSlots(await getMealSlots(dbUser.userID));
+
+      // The optional integrity check runs once, on the first load after launch
+      if (!launchCheckDone.current) {
+        launchCheckDone.current = true;
+        if (dbSettings.integrityCheckOnLaunch) {
+          try {
+            const report = await checkDataIntegrity();
+            if (report.issues.length > 0) setLaunchIntegrityReport(report);
+          } catch {
+            // A failed check must not block loading
+          }
+        }
+      }
+
       // Check cache first
       let dbDailyLog = logCache.current.get(targetDate);
       if (!dbDailyLog) {
-        dbDailyLog = await getOrCreateDailyLog(dbUser.userID, targetDate);
+        dbDailyLog = await getDailyLog(dbUser.userID, targetDate);
         logCache.current.set(targetDate, dbDailyLog);
       }
       setDailyLog(dbDailyLog);
@@ -132,6 +210,10 @@ export function useAppData(): AppData {
       setTodayWeight(weightLog);
       const prevWeight = await getPreviousWeightLog(dbUser.userID, targetDate);
       setPreviousWeight(prevWeight);
+      setTodayMeasurement(await getBodyMeasurement(dbUser.userID, targetDate));
+      setPreviousMeasurement(await getPreviousBodyMeasurement(dbUser.userID, targetDate));
+      setWaterLogs(await getWaterLogs(dbUser.userID, targetDate));
+      setActivityLogs(await getActivityLogs(dbUser.userID, targetDate));
 
       // Pre-fetch surrounding days in background
       prefetchSurroundingDays(targetDate, dbUser.userID);
@@ -151,12 +233,16 @@ export function useAppData(): AppData {
       setSelectedDate(newDate);
       setDailyLog(cachedLog);
 
-      // Load weight for the new date
+      // Load weight, measurements, water and exercise for the new date
       if (userRef.current) {
         const weightLog = await getWeightLog(userRef.current.userID, newDate);
         setTodayWeight(weightLog);
         const prevWeight = await getPreviousWeightLog(userRef.current.userID, newDate);
         setPreviousWeight(prevWeight);
+        setTodayMeasurement(await getBodyMeasurement(userRef.current.userID, newDate));
+        setPreviousMeasurement(await getPreviousBodyMeasurement(userRef.current.userID, newDate));
+        setWaterLogs(await getWaterLogs(userRef.current.userID, newDate));
+        setActivityLogs(await getActivityLogs(userRef.current.userID, newDate));
         prefetchSurroundingDays(newDate, userRef.current.userID);
       }
     } else {
@@ -193,7 +279,7 @@ export function useAppData(): AppData {
 
     // Refresh daily log to get updated targets (updateMacroTargets also updates today's log)
     if (selectedDate === today && userRef.current) {
-      const refreshedLog = await getOrCreateDailyLog(userRef.current.userID, selectedDate);
+      const refreshedLog = await getDailyLog(userRef.current.userID, selectedDate);
       logCache.current.set(selectedDate, refreshedLog);
       setDailyLog(refreshedLog);
     }
@@ -206,12 +292,87 @@ export function useAppData(): AppData {
     setTodayWeight(saved);
   };
 
+  const saveMeasurementHandler = async (values: BodyMeasurementValues) => {
+    const uid = userRef.current?.userID;
+    if (!uid) return;
+    const saved = await saveBodyMeasurement(uid, selectedDate, values);
+    setTodayMeasurement(saved);
+  };
+
+  const addWaterHandler = async (amount: number) => {
+    const uid = userRef.current?.userID;
+    if (!uid) return;
+    const saved = await addWaterLog(uid, selectedDate, amount);
+    setWaterLogs((prev) => [...prev, saved]);
+  };
+
+  const removeWaterHandler = async (waterLogID: string) => {
+    await deleteWaterLog(waterLogID);
+    setWaterLogs((prev) => prev.filter((log) => log.waterLogID !== waterLogID));
+  };
+
+  const addActivityHandler = async (activity: ActivityItem) => {
+    const uid = userRef.current?.userID;
+    if (!uid) return;
+    const saved = await addActivityLog(uid, selectedDate, activity);
+    setActivityLogs((prev) => [...prev, saved]);
+  };
+
+  const removeActivityHandler = async (activityLogID: string) => {
+    await deleteActivityLog(activityLogID);
+    setActivityLogs((prev) => prev.filter((log) => log.activityLogID !== activityLogID));
+  };
+
+  const updateSettingsHandler = async (
+    newSettings: Omit<UserSettings, 'createdAt' | 'updatedAt'>
+  ) => {
+    const updated = await updateUserSettings(newSettings);
+    setSettings(updated);
+  };
+
+  const reloadMealSlotsHandler = async () => {
+    const uid = userRef.current?.userID;
+    if (!uid) return;
+    setMealSlots(await getMealSlots(uid));
+  };
+
   const updateUserHandler = async (
     newUser: Omit<User, 'createdAt' | 'updatedAt'>
   ) => {
     const updated = await updateUser(newUser);
     userRef.current = updated;
     setUser(updated);
+    setProfiles(await getUsers());
+  };
+
+  // Drop everything cached for the previous profile and load the active one from today
+  const reloadProfileHandler = async () => {
+    userRef.current = null;
+    invalidateCache();
+    const today = getLocalDateString();
+    setSelectedDate(today);
+    await loadData(today);
+  };
+
+  const switchProfileHandler = async (userID: string) => {
+    if (userID === userRef.current?.userID) return;
+    await setActiveUser(userID);
+    await reloadProfileHandler();
+  };
+
+  const createProfileHandler = async (firstName: string, lastName: string) => {
+    const created = await createUser(firstName, lastName);
+    await setActiveUser(created.userID);
+    await reloadProfileHandler();
+  };
+
+  const deleteProfileHandler = async (userID: string) => {
+    await deleteUser(userID);
+    if (userID === userRef.current?.userID) {
+      await reloadProfileHandler();
+    } else {
+      setProfiles(await getUsers());
+    }
   };
 
   useEffect(() => {
@@ -236,5 +397,25 @@ export function useAppData(): AppData {
     todayWeight,
     previousWeight,
     saveWeight: saveWeightHandler,
+    todayMeasurement,
+    previousMeasurement,
+    saveMeasurement: saveMeasurementHandler,
+    waterLogs,
+    addWater: addWaterHandler,
+    removeWater: removeWaterHandler,
+    activityLogs,
+    addActivity: addActivityHandler,
+    removeActivity: removeActivityHandler,
+    settings,
+    updateSettings: updateSettingsHandler,
+    mealSlots,
+    reloadMealSlots: reloadMealSlotsHandler,
+    profiles,
+    switchProfile: switchProfileHandler,
+    createProfile: createProfileHandler,
+    deleteProfile: deleteProfileHandler,
+    reloadProfile: reloadProfileHandler,
+    launchIntegrityReport,
+    dismissLaunchIntegrityReport: () => setLaunchIntegrityReport(null),
   };
 }
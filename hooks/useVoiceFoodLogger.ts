@@ -2,12 +2,16 @@ import { useState, useCallback, useRef, useEffect } from 'react';
 import { AppState, AppStateStatus } from 'react-native';
 import { useVoiceInput } from './useVoiceInput';
 import { parseFoodInput } from '../services/llm';
-import { replaceDailyFoodEntries } from '../services/storage';
-import { LLMResponse, DailyLog } from '../types';
+import { applyFoodEditOperations } from '../services/storage';
+import { ParsedFoodInput, DailyLog, Recipe, MealTemplate, MealSlot } from '../types';
 
 export interface StopRecordingOptions {
   todayLog?: DailyLog;
   previousDayLogs?: DailyLog[];
+  recipes?: Recipe[];
+  mealTemplates?: MealTemplate[];
+  bodyWeight?: number | null; // lbs, for exercise estimates
+  mealSlots?: MealSlot[];
   onTranscript?: (transcript: string) => void; // if provided, skip food parsing (recommendation mode)
 }
 
@@ -15,11 +19,11 @@ export interface UseVoiceFoodLoggerResult {
   isRecording: boolean;
   isProcessing: boolean;
   transcript: string;
-  parsedFood: LLMResponse | null;
+  parsedFood: ParsedFoodInput | null;
   error: string | null;
   startRecording: () => Promise<void>;
   stopRecordingAndParse: (options?: StopRecordingOptions) => Promise<void>;
-  saveParsedFood: (dailyLogID: string, userID: string) => Promise<void>;
+  saveParsedFood: (dailyLogID: string, userID: string) => Promise<string | null>; // returns the revision ID for undo
   cancelRecording: () => void;
   cancelProcessing: () => void;
   reset: () => void;
@@ -28,7 +32,7 @@ export interface UseVoiceFoodLoggerResult {
 export function useVoiceFoodLogger(): UseVoiceFoodLoggerResult {
   const voiceInput = useVoiceInput();
   const [isProcessing, setIsProcessing] = useState(false);
-  const [parsedFood, setParsedFood] = useState<LLMResponse | null>(null);
+  const [parsedFood, setParsedFood] = useState<ParsedFoodInput | null>(null);
   const [llmError, setLlmError] = useState<string | null>(null);
   const cancelledRef = useRef(false);
   const wasBackgroundedDuringProcessing = useRef(false);
@@ -73,6 +77,10 @@ export function useVoiceFoodLogger(): UseVoiceFoodLoggerResult {
           currentTime: new Date(),
           todayLog: options?.todayLog,
           previousDayLogs: options?.previousDayLogs,
+          recipes: options?.recipes,
+          mealTemplates: options?.mealTemplates,
+          bodyWeight: options?.bodyWeight,
+          mealSlots: options?.mealSlots,
         });
 
         // Check if cancelled before setting result
@@ -100,9 +108,9 @@ export function useVoiceFoodLogger(): UseVoiceFoodLoggerResult {
   );
 
   const saveParsedFood = useCallback(
-    async (dailyLogID: string, userID: string): Promise<void> => {
-      if (!parsedFood) return;
-      await replaceDailyFoodEntries(userID, dailyLogID, parsedFood);
+    async (dailyLogID: string, userID: string): Promise<string | null> => {
+      if (!parsedFood || parsedFood.operations.length === 0) return null;
+      return applyFoodEditOperations(userID, dailyLogID, parsedFood.operations);
     },
     [parsedFood]
   );
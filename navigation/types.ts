@@ -1,9 +1,15 @@
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp } from '@react-navigation/native';
 
 export type RootStackParamList = {
   Home: undefined;
   Profile: undefined;
   Trends: undefined;
+  Recipes: undefined;
+  RecipeEditor: { recipeID?: string } | undefined;
+  TargetSchedule: undefined;
+  Search: undefined;
+  MealSlots: undefined;
 };
 
 export type HomeScreenNavigationProp = NativeStackNavigationProp<
@@ -15,3 +21,30 @@ export type ProfileScreenNavigationProp = NativeStackNavigationProp<
   RootStackParamList,
   'Profile'
 >;
+
+export type RecipesScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  'Recipes'
+>;
+
+export type RecipeEditorScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  'RecipeEditor'
+>;
+
+export type TargetScheduleScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  'TargetSchedule'
+>;
+
+export type SearchScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  'Search'
+>;
+
+export type MealSlotsScreenNavigationProp = NativeStackNavigationProp<
+  RootStackParamList,
+  'MealSlots'
+>;
+
+export type RecipeEditorScreenRouteProp = RouteProp<RootStackParamList, 'RecipeEditor'>;
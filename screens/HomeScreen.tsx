@@ -18,6 +18,7 @@ import {
   useWindowDimensions,
   AppState,
   AppStateStatus,
+  Alert,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { SafeAreaView } from 'react-native-safe-area-context';
@@ -25,32 +26,57 @@ import Svg, { Circle } from 'react-native-svg';
 
 const AnimatedCircle = Animated.createAnimatedComponent(Circle);
 import { useNavigation } from '@react-navigation/native';
-import { FoodEntry, DailyLog } from '../types';
+import { FoodEntry, DailyLog, MacroTargets, Recipe, MealTemplate, MealSlot, MealType } from '../types';
 import { LLMMessage } from '../services/llmTypes';
 import { useAppDataContext } from '../contexts/AppDataContext';
 import { useVoiceFoodLogger } from '../hooks/useVoiceFoodLogger';
 import { parseFoodInput, getRecommendation } from '../services/llm';
-import { replaceDailyFoodEntries, getPreviousDaysLogs } from '../services/storage';
-import { LLMResponse } from '../types';
+import { MICRONUTRIENTS, getDailyMicronutrients, formatMicronutrient } from '../services/micronutrients';
+import { MEASUREMENTS, formatMeasurement } from '../services/measurements';
+import { sumCaloriesBurned } from '../services/activity';
+import { getMealEntries, getMealName, getMealOrder } from '../services/mealSlots';
+import { TimelineEntry, formatEatenTime, getTimeline } from '../services/foodTimes';
+import {
+  applyFoodEditOperations,
+  getPreviousDaysLogs,
+  getRecipes,
+  getMealTemplates,
+  undoRevision,
+  copyDailyLog,
+} from '../services/storage';
+import { FoodEditOperation, ParsedFoodInput, ActivityItem } from '../types';
 import { MealDetailSheet } from '../components/MealDetailSheet';
 import { TopBar } from '../components/TopBar';
 import { CalendarDropdown } from '../components/CalendarDropdown';
 import { WeightInputSheet } from '../components/WeightInputSheet';
+import { WaterInputSheet } from '../components/WaterInputSheet';
+import { MeasurementInputSheet } from '../components/MeasurementInputSheet';
+import { ActivityInputSheet } from '../components/ActivityInputSheet';
+import { FoodReviewSheet } from '../components/FoodReviewSheet';
+import { RevisionHistorySheet } from '../components/RevisionHistorySheet';
+import { SavedFoodSheet } from '../components/SavedFoodSheet';
+import { CopyTargetSheet, CopyTarget } from '../components/CopyTargetSheet';
 import { HomeScreenNavigationProp } from '../navigation/types';
 
 // Accent color
 const ACCENT_COLOR = '#3FE0DB';
+const WATER_COLOR = '#4DA3FF';
+const EXERCISE_COLOR = '#F97316';
 
 // Calorie Ring Component
 function CalorieRing({
   current,
   target,
+  burned = 0,
+  countBurned = false,
   size = 120,
   isToday = true,
   animatedProgress,
 }: {
   current: number;
   target: number;
+  burned?: number; // calories burned by exercise
+  countBurned?: boolean; // show net calories (eaten − burned) against the target
   size?: number;
   isToday?: boolean;
   animatedProgress?: Animated.Value;
@@ -58,11 +84,12 @@ function CalorieRing({
   const strokeWidth = 10;
   const radius = (size - strokeWidth) / 2;
   const circumference = 2 * Math.PI * radius;
-  const progress = Math.min(current / target, 1);
+  const net = countBurned ? current - burned : current;
+  const progress = Math.max(0, Math.min(net / target, 1));
 
   // Calculate ring color based on calorie difference
   const getCalorieRingColor = () => {
-    const diff = current - target;
+    const diff = net - target;
 
     if (isToday) {
       // Today: turquoise accent until 150+ over target, then dark red
@@ -128,8 +155,11 @@ function CalorieRing({
         )}
       </Svg>
       <View style={styles.ringTextContainer}>
-        <Text style={styles.ringCurrentText}>{current}</Text>
+        <Text style={styles.ringCurrentText}>{net}</Text>
         <Text style={styles.ringTargetText}>/{target}</Text>
+        {burned > 0 && (
+          <Text style={styles.ringBurnedText}>{countBurned ? `−${burned} active` : `${burned} burned`}</Text>
+        )}
       </View>
     </View>
   );
@@ -184,6 +214,27 @@ function MacroProgressBar({
   );
 }
 
+// Daily micronutrients the user has targets for; unknown intake shows as a dash
+function MicronutrientSummary({ dailyLog, targets }: { dailyLog: DailyLog; targets: MacroTargets }) {
+  const consumed = getDailyMicronutrients(dailyLog);
+  const tracked = MICRONUTRIENTS.filter((m) => targets[m.key] !== null && targets[m.key] !== undefined);
+  if (tracked.length === 0) return null;
+
+  return (
+    <View style={styles.microSummary}>
+      {tracked.map((m) => (
+        <View key={m.key} style={styles.microSummaryItem}>
+          <Text style={styles.microSummaryLabel}>{m.label}</Text>
+          <Text style={styles.microSummaryValue}>
+            {consumed[m.key] ?? '—'}
+            <Text style={styles.microSummaryTarget}>/{formatMicronutrient(m, targets[m.key])}</Text>
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
 // Calculate meal totals
 function getMealTotals(entries: FoodEntry[]) {
   return entries.reduce(
@@ -545,6 +596,60 @@ const toastStyles = StyleSheet.create({
   },
 });
 
+// Undo bar shown right after food is saved
+function UndoToast({ onUndo, onDismiss }: { onUndo: () => void; onDismiss: () => void }) {
+  const opacity = useRef(new Animated.Value(0)).current;
+  const translateY = useRef(new Animated.Value(-20)).current;
+
+  useEffect(() => {
+    Animated.parallel([
+      Animated.timing(opacity, { toValue: 1, duration: 250, useNativeDriver: true }),
+      Animated.timing(translateY, { toValue: 0, duration: 250, useNativeDriver: true }),
+    ]).start();
+
+    const timer = setTimeout(() => {
+      Animated.parallel([
+        Animated.timing(opacity, { toValue: 0, duration: 300, useNativeDriver: true }),
+        Animated.timing(translateY, { toValue: -20, duration: 300, useNativeDriver: true }),
+      ]).start(() => onDismiss());
+    }, 6000);
+
+    return () => clearTimeout(timer);
+  }, []);
+
+  return (
+    <Animated.View style={[toastStyles.container, undoToastStyles.container, { opacity, transform: [{ translateY }] }]}>
+      <Text style={undoToastStyles.text}>Food saved</Text>
+      <TouchableOpacity onPress={onUndo} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+        <Text style={undoToastStyles.action}>Undo</Text>
+      </TouchableOpacity>
+      <TouchableOpacity onPress={onDismiss} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+        <Text style={toastStyles.dismiss}>✕</Text>
+      </TouchableOpacity>
+    </Animated.View>
+  );
+}
+
+const undoToastStyles = StyleSheet.create({
+  container: {
+    borderColor: '#333',
+    shadowColor: '#000',
+  },
+  text: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    lineHeight: 20,
+  },
+  action: {
+    color: ACCENT_COLOR,
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+});
+
 // Recommendation Answer Card
 function RecommendationCard({
   history,
@@ -994,12 +1099,44 @@ function MealCard({
   );
 }
 
-type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snacks';
+function TimelineCard({
+  timeline,
+  mealSlots,
+  onPress,
+}: {
+  timeline: TimelineEntry[];
+  mealSlots: MealSlot[];
+  onPress: (mealType: MealType) => void;
+}) {
+  return (
+    <View style={styles.timelineCard}>
+      {timeline.map(({ entry, mealType }) => (
+        <TouchableOpacity
+          key={entry.foodEntryID}
+          style={styles.timelineRow}
+          onPress={() => onPress(mealType)}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.timelineTime}>{formatEatenTime(entry.eatenAt) ?? 'No time'}</Text>
+          <View style={styles.timelineInfo}>
+            <Text style={styles.mealItem}>{entry.name}</Text>
+            <Text style={styles.timelineMeta}>
+              {entry.quantity}  ·  {getMealName(mealSlots, mealType)}
+            </Text>
+          </View>
+          <Text style={styles.mealTotalText}>
+            {entry.calories} <Text style={styles.mealTotalUnit}>cal</Text>
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
 
 export function HomeScreen() {
   const navigation = useNavigation<HomeScreenNavigationProp>();
   const { width: screenWidth } = useWindowDimensions();
-  const { user, targets, dailyLog, loading, error, refresh, selectedDate, changeDate, todayWeight, previousWeight, saveWeight } =
+  const { user, targets, dailyLog, loading, error, refresh, invalidateCache, selectedDate, changeDate, todayWeight, previousWeight, saveWeight, todayMeasurement, previousMeasurement, saveMeasurement, waterLogs, addWater, removeWater, activityLogs, addActivity, removeActivity, settings, updateSettings, mealSlots, launchIntegrityReport, dismissLaunchIntegrityReport } =
     useAppDataContext();
   const [selectedMeal, setSelectedMeal] = useState<{ title: string; type: MealType } | null>(
     null
@@ -1026,12 +1163,21 @@ export function HomeScreen() {
   };
   const [calendarVisible, setCalendarVisible] = useState(false);
   const [weightSheetVisible, setWeightSheetVisible] = useState(false);
+  const [waterSheetVisible, setWaterSheetVisible] = useState(false);
+  const [measurementSheetVisible, setMeasurementSheetVisible] = useState(false);
+  const [activitySheetVisible, setActivitySheetVisible] = useState(false);
   const [textInput, setTextInput] = useState('');
   const [isTextProcessing, setIsTextProcessing] = useState(false);
-  const [textParsedFood, setTextParsedFood] = useState<LLMResponse | null>(null);
+  const [textParsedFood, setTextParsedFood] = useState<ParsedFoodInput | null>(null);
   const [textError, setTextError] = useState<string | null>(null);
   const [previousDayLogs, setPreviousDayLogs] = useState<DailyLog[]>([]);
   const [isSavingFood, setIsSavingFood] = useState(false);
+  // Parsed edits awaiting confirmation when review-before-save is enabled
+  const [pendingEdits, setPendingEdits] = useState<FoodEditOperation[] | null>(null);
+  const [undoRevisionID, setUndoRevisionID] = useState<string | null>(null);
+  const [historyVisible, setHistoryVisible] = useState(false);
+  const [savedFoodsVisible, setSavedFoodsVisible] = useState(false);
+  const [copyDayVisible, setCopyDayVisible] = useState(false);
   const textCancelledRef = useRef(false);
   const textWasBackgroundedDuringProcessing = useRef(false);
   const recommendationCancelledRef = useRef(false);
@@ -1052,6 +1198,27 @@ export function HomeScreen() {
     reset,
   } = useVoiceFoodLogger();
 
+  const waterTotal = Math.round(waterLogs.reduce((sum, log) => sum + log.amount, 0) * 10) / 10;
+  const waterTarget = settings?.waterTarget ?? 64;
+  const waterProgress = waterTarget > 0 ? Math.min(waterTotal / waterTarget, 1) : 0;
+  const measuredToday = MEASUREMENTS.filter((m) => todayMeasurement !== null && todayMeasurement[m.key] !== null);
+  const bodyWeight = todayWeight?.weight ?? previousWeight?.weight ?? null;
+  const caloriesBurned = sumCaloriesBurned(activityLogs);
+  const activeMinutes = activityLogs.reduce((sum, log) => sum + log.durationMinutes, 0);
+  // When the user opts in, burned calories count against what they ate; otherwise they're informational
+  const countBurned = settings?.exerciseAdjustsTarget ?? false;
+  const timelineView = settings?.timelineView ?? false;
+
+  const toggleTimelineView = async () => {
+    if (!settings) return;
+    try {
+      await updateSettings({ ...settings, timelineView: !timelineView });
+    } catch {
+      // Keep the previous view on failure
+    }
+  };
+  const countedBurn = countBurned ? caloriesBurned : 0;
+
   // Animation values for macro summary
   const ringAnimProgress = useRef(new Animated.Value(0)).current;
   const proteinAnimProgress = useRef(new Animated.Value(0)).current;
@@ -1063,10 +1230,14 @@ export function HomeScreen() {
 
   // Animation values for meal cards (staggered drop-down)
   const foodTitleAnim = useRef(new Animated.Value(0)).current;
-  const breakfastAnim = useRef(new Animated.Value(0)).current;
-  const lunchAnim = useRef(new Animated.Value(0)).current;
-  const dinnerAnim = useRef(new Animated.Value(0)).current;
-  const snacksAnim = useRef(new Animated.Value(0)).current;
+  // One drop-down animation per visible meal card, created as cards first appear
+  const mealCardAnims = useRef<Animated.Value[]>([]).current;
+  const getMealCardAnim = (index: number) => {
+    while (mealCardAnims.length <= index) {
+      mealCardAnims.push(new Animated.Value(hasAnimatedOnStartup.current ? 1 : 0));
+    }
+    return mealCardAnims[index];
+  };
 
   // Animated values for numbers
   const animatedCalories = useRef(new Animated.Value(0)).current;
@@ -1128,10 +1299,7 @@ export function HomeScreen() {
       animatedFat.setValue(dailyLog.totalFat);
       // Show meal cards immediately
       foodTitleAnim.setValue(1);
-      breakfastAnim.setValue(1);
-      lunchAnim.setValue(1);
-      dinnerAnim.setValue(1);
-      snacksAnim.setValue(1);
+      mealCardAnims.forEach((anim) => anim.setValue(1));
       return;
     }
 
@@ -1167,10 +1335,7 @@ export function HomeScreen() {
       animatedFat.setValue(dailyLog.totalFat);
       // Show meal cards immediately for past days
       foodTitleAnim.setValue(1);
-      breakfastAnim.setValue(1);
-      lunchAnim.setValue(1);
-      dinnerAnim.setValue(1);
-      snacksAnim.setValue(1);
+      mealCardAnims.forEach((anim) => anim.setValue(1));
 
       // Still do slide animation if navigating between days
       if (direction !== 'none') {
@@ -1197,10 +1362,7 @@ export function HomeScreen() {
     animatedFat.setValue(0);
     // Reset meal card animations
     foodTitleAnim.setValue(0);
-    breakfastAnim.setValue(0);
-    lunchAnim.setValue(0);
-    dinnerAnim.setValue(0);
-    snacksAnim.setValue(0);
+    mealCardAnims.forEach((anim) => anim.setValue(0));
 
     if (direction !== 'none') {
       // Slide animation: start from off-screen, slide to center
@@ -1337,30 +1499,14 @@ export function HomeScreen() {
             easing: Easing.out(Easing.cubic),
             useNativeDriver: true,
           }),
-          Animated.timing(breakfastAnim, {
-            toValue: 1,
-            duration: 350,
-            easing: Easing.out(Easing.cubic),
-            useNativeDriver: true,
-          }),
-          Animated.timing(lunchAnim, {
-            toValue: 1,
-            duration: 350,
-            easing: Easing.out(Easing.cubic),
-            useNativeDriver: true,
-          }),
-          Animated.timing(dinnerAnim, {
-            toValue: 1,
-            duration: 350,
-            easing: Easing.out(Easing.cubic),
-            useNativeDriver: true,
-          }),
-          Animated.timing(snacksAnim, {
-            toValue: 1,
-            duration: 350,
-            easing: Easing.out(Easing.cubic),
-            useNativeDriver: true,
-          }),
+          ...mealCardAnims.map((anim) =>
+            Animated.timing(anim, {
+              toValue: 1,
+              duration: 350,
+              easing: Easing.out(Easing.cubic),
+              useNativeDriver: true,
+            })
+          ),
         ]),
       ]).start();
     }
@@ -1380,11 +1526,14 @@ export function HomeScreen() {
     if (!hasChanged) return;
 
     // Calculate old and new progress values for each macro
-    const oldCalorieProgress = Math.min(
-      oldMacrosRef.current.calories / dailyLog.targetCalories,
-      1
+    const oldCalorieProgress = Math.max(
+      0,
+      Math.min((oldMacrosRef.current.calories - countedBurn) / dailyLog.targetCalories, 1)
+    );
+    const newCalorieProgress = Math.max(
+      0,
+      Math.min((dailyLog.totalCalories - countedBurn) / dailyLog.targetCalories, 1)
     );
-    const newCalorieProgress = Math.min(dailyLog.totalCalories / dailyLog.targetCalories, 1);
 
     const oldProteinProgress = Math.min(
       oldMacrosRef.current.protein / dailyLog.targetProtein,
@@ -1464,6 +1613,20 @@ export function HomeScreen() {
     });
   }, [dailyLog, isSavingFood]);
 
+  // Problems found by the launch integrity check are repaired from Profile
+  useEffect(() => {
+    if (!launchIntegrityReport) return;
+    const count = launchIntegrityReport.issues.reduce((sum, issue) => sum + issue.count, 0);
+    Alert.alert(
+      'Data problems found',
+      `The database check found ${count} ${count === 1 ? 'problem' : 'problems'}. You can review and repair them under Diagnostics in Profile.`,
+      [
+        { text: 'Later', style: 'cancel', onPress: dismissLaunchIntegrityReport },
+        { text: 'Review', onPress: () => navigation.navigate('Profile') },
+      ]
+    );
+  }, [launchIntegrityReport]);
+
   // Fetch previous 7 days of logs for LLM context
   useEffect(() => {
     if (!user) return;
@@ -1473,6 +1636,35 @@ export function HomeScreen() {
       .catch(() => {});
   }, [user]);
 
+  // Undo and the recommendation chat belong to the profile that was active
+  useEffect(() => {
+    setUndoRevisionID(null);
+    setRecommendationHistory([]);
+    setIsRecommendationMode(false);
+  }, [user?.userID]);
+
+  // Undo reloads the day on screen, so it only applies to the day it was offered for
+  useEffect(() => {
+    setUndoRevisionID(null);
+  }, [selectedDate]);
+
+  // Recipes and templates are read at parse time so recent edits are always picked up
+  const loadLibraryForParsing = async (): Promise<{ recipes?: Recipe[]; mealTemplates?: MealTemplate[] }> => {
+    if (!user) return {};
+    try {
+      const [recipes, mealTemplates] = await Promise.all([
+        getRecipes(user.userID),
+        getMealTemplates(user.userID),
+      ]);
+      return {
+        recipes: recipes.length > 0 ? recipes : undefined,
+        mealTemplates: mealTemplates.length > 0 ? mealTemplates : undefined,
+      };
+    } catch {
+      return {};
+    }
+  };
+
   // Monitor app state for text input processing
   useEffect(() => {
     const subscription = AppState.addEventListener('change', (nextAppState: AppStateStatus) => {
@@ -1500,6 +1692,9 @@ export function HomeScreen() {
         await stopRecordingAndParse({
           todayLog: dailyLog ?? undefined,
           previousDayLogs: previousDayLogs.length > 0 ? previousDayLogs : undefined,
+          bodyWeight,
+          mealSlots,
+          ...(await loadLibraryForParsing()),
         });
       }
     } else {
@@ -1530,6 +1725,9 @@ export function HomeScreen() {
         currentTime: new Date(),
         todayLog: dailyLog,
         previousDayLogs: previousDayLogs.length > 0 ? previousDayLogs : undefined,
+        bodyWeight,
+        mealSlots,
+        ...(await loadLibraryForParsing()),
       });
 
       // Check if cancelled before setting result
@@ -1598,7 +1796,15 @@ export function HomeScreen() {
         currentTime: new Date(),
         todayLog: dailyLog,
         previousDayLogs: previousDayLogs.length > 0 ? previousDayLogs : undefined,
-        macroTargets: targets,
+        mealSlots,
+        // The day's own targets, which may come from the target schedule, raised by counted exercise
+        macroTargets: {
+          ...targets,
+          calories: dailyLog.targetCalories + countedBurn,
+          protein: dailyLog.targetProtein,
+          carbs: dailyLog.targetCarbs,
+          fat: dailyLog.targetFat,
+        },
       });
       if (!recommendationCancelledRef.current) {
         const assistantAnswer = isValid ? answer : 'Sorry I didn\'t get that. Try again.';
@@ -1620,10 +1826,95 @@ export function HomeScreen() {
     }
   };
 
+  // Roll the day back to before the last save
+  const handleUndo = async () => {
+    const revisionID = undoRevisionID;
+    setUndoRevisionID(null);
+    if (!revisionID) return;
+
+    try {
+      await undoRevision(revisionID);
+      await refresh();
+    } catch (err) {
+      setTextError(err instanceof Error ? err.message : 'Failed to undo');
+    }
+  };
+
+  // The destination day may already be cached, so drop it before reloading the source day
+  const handleCopied = async (targetDate: string) => {
+    invalidateCache(targetDate);
+    await refresh();
+  };
+
+  const handleCopyDay = async (target: CopyTarget) => {
+    if (!dailyLog) return;
+    await copyDailyLog(dailyLog.userID, dailyLog.dailyLogID, target.date);
+    await handleCopied(target.date);
+  };
+
+  // Persist the edits accepted in the review sheet
+  const handleConfirmReview = async (accepted: FoodEditOperation[]) => {
+    setPendingEdits(null);
+    if (!dailyLog || accepted.length === 0) return;
+
+    try {
+      setIsSavingFood(true);
+
+      // Store current macro values for animation
+      oldMacrosRef.current = {
+        calories: dailyLog.totalCalories,
+        protein: dailyLog.totalProtein,
+        carbs: dailyLog.totalCarbs,
+        fat: dailyLog.totalFat,
+      };
+
+      const revisionID = await applyFoodEditOperations(dailyLog.userID, dailyLog.dailyLogID, accepted);
+      setUndoRevisionID(revisionID);
+      await refresh();
+    } catch (err) {
+      setTextError(err instanceof Error ? err.message : 'Failed to save food');
+    } finally {
+      setIsSavingFood(false);
+    }
+  };
+
+  // Water from a transcript skips review and undo; it can be removed from the water sheet instead
+  const logParsedWater = (water: number) => {
+    if (water <= 0) return;
+    addWater(water).catch((err) => {
+      setTextError(err instanceof Error ? err.message : 'Failed to log water');
+    });
+  };
+
+  // Exercise is logged the same way; it can be removed from the exercise sheet
+  const logParsedActivities = async (activities: ActivityItem[]) => {
+    try {
+      for (const activity of activities) {
+        await addActivity(activity);
+      }
+    } catch (err) {
+      setTextError(err instanceof Error ? err.message : 'Failed to log exercise');
+    }
+  };
+
   // Save parsed food from voice to database when available
   useEffect(() => {
     if (!parsedFood || !dailyLog) return;
 
+    logParsedWater(parsedFood.water);
+    logParsedActivities(parsedFood.activities);
+    if (parsedFood.operations.length === 0) {
+      reset();
+      return;
+    }
+
+    // Hold for review instead of saving straight away
+    if (settings?.reviewBeforeSave) {
+      setPendingEdits(parsedFood.operations);
+      reset();
+      return;
+    }
+
     let cancelled = false;
 
     // Fail-safe: ensure loading state clears after max 10 seconds
@@ -1645,8 +1936,9 @@ export function HomeScreen() {
         };
 
         // Save the food
-        await saveParsedFood(dailyLog.dailyLogID, 'default-user');
+        const revisionID = await saveParsedFood(dailyLog.dailyLogID, dailyLog.userID);
         if (cancelled) return;
+        setUndoRevisionID(revisionID);
 
         // Refresh data
         await refresh();
@@ -1673,6 +1965,20 @@ export function HomeScreen() {
   useEffect(() => {
     if (!textParsedFood || !dailyLog) return;
 
+    logParsedWater(textParsedFood.water);
+    logParsedActivities(textParsedFood.activities);
+    if (textParsedFood.operations.length === 0) {
+      setTextParsedFood(null);
+      return;
+    }
+
+    // Hold for review instead of saving straight away
+    if (settings?.reviewBeforeSave) {
+      setPendingEdits(textParsedFood.operations);
+      setTextParsedFood(null);
+      return;
+    }
+
     let cancelled = false;
 
     // Fail-safe: ensure loading state clears after max 10 seconds
@@ -1694,8 +2000,9 @@ export function HomeScreen() {
         };
 
         // Save the food
-        await replaceDailyFoodEntries('default-user', dailyLog.dailyLogID, textParsedFood);
+        const revisionID = await applyFoodEditOperations(dailyLog.userID, dailyLog.dailyLogID, textParsedFood.operations);
         if (cancelled) return;
+        setUndoRevisionID(revisionID);
 
         // Refresh data
         await refresh();
@@ -1729,6 +2036,7 @@ export function HomeScreen() {
         onDateChange={changeDate}
         onCalendarPress={() => setCalendarVisible(true)}
         onTrendsPress={() => navigation.navigate('Trends')}
+        onSearchPress={() => navigation.navigate('Search')}
         onProfilePress={() => navigation.navigate('Profile')}
       />
 
@@ -1753,6 +2061,8 @@ export function HomeScreen() {
             <CalorieRing
               current={displayedCalories}
               target={dailyLog.targetCalories}
+              burned={caloriesBurned}
+              countBurned={countBurned}
               isToday={(() => {
                 const now = new Date();
                 const localToday = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
@@ -1782,16 +2092,76 @@ export function HomeScreen() {
             </View>
           </View>
 
-          {/* Weight Card */}
+          <MicronutrientSummary dailyLog={dailyLog} targets={targets} />
+
+          <View style={styles.bodyCardRow}>
+            {/* Weight Card */}
+            <TouchableOpacity
+              style={styles.weightCard}
+              onPress={() => setWeightSheetVisible(true)}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.weightLabel}>Weight</Text>
+              {todayWeight ? (
+                <Text style={styles.weightValue}>
+                  {todayWeight.weight} <Text style={styles.weightUnit}>lbs</Text>
+                </Text>
+              ) : (
+                <View style={styles.weightPromptRow}>
+                  <Text style={styles.weightPrompt}>tap to log</Text>
+                  <Text style={styles.weightPlus}>+</Text>
+                </View>
+              )}
+            </TouchableOpacity>
+
+            {/* Water Card */}
+            <TouchableOpacity
+              style={styles.waterCard}
+              onPress={() => setWaterSheetVisible(true)}
+              activeOpacity={0.7}
+            >
+              <View style={styles.waterHeader}>
+                <Text style={styles.weightLabel}>Water</Text>
+                <Text style={styles.weightValue}>
+                  {waterTotal} <Text style={styles.weightUnit}>/ {waterTarget} oz</Text>
+                </Text>
+              </View>
+              <View style={styles.waterTrack}>
+                <View style={[styles.waterFill, { width: `${waterProgress * 100}%` }]} />
+              </View>
+            </TouchableOpacity>
+          </View>
+
+          {/* Measurements Card */}
           <TouchableOpacity
-            style={styles.weightCard}
-            onPress={() => setWeightSheetVisible(true)}
+            style={styles.measurementCard}
+            onPress={() => setMeasurementSheetVisible(true)}
             activeOpacity={0.7}
           >
-            <Text style={styles.weightLabel}>Weight</Text>
-            {todayWeight ? (
+            <Text style={styles.weightLabel}>Measurements</Text>
+            {measuredToday.length > 0 ? (
+              <Text style={styles.measurementSummary} numberOfLines={1}>
+                {measuredToday.map((m) => `${m.label} ${formatMeasurement(m, todayMeasurement?.[m.key])}`).join('  ·  ')}
+              </Text>
+            ) : (
+              <View style={styles.weightPromptRow}>
+                <Text style={styles.weightPrompt}>tap to log</Text>
+                <Text style={styles.weightPlus}>+</Text>
+              </View>
+            )}
+          </TouchableOpacity>
+
+          {/* Exercise Card */}
+          <TouchableOpacity
+            style={styles.measurementCard}
+            onPress={() => setActivitySheetVisible(true)}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.weightLabel}>Exercise</Text>
+            {activityLogs.length > 0 ? (
               <Text style={styles.weightValue}>
-                {todayWeight.weight} <Text style={styles.weightUnit}>lbs</Text>
+                <Text style={styles.exerciseBurned}>{caloriesBurned}</Text>
+                <Text style={styles.weightUnit}> kcal · {activeMinutes} min</Text>
               </Text>
             ) : (
               <View style={styles.weightPromptRow}>
@@ -1804,11 +2174,10 @@ export function HomeScreen() {
           {/* Food Section */}
           <View style={{ flex: 1, position: 'relative' }}>
             {(() => {
-              const hasFood =
-                dailyLog.breakfast.length > 0 ||
-                dailyLog.lunch.length > 0 ||
-                dailyLog.dinner.length > 0 ||
-                dailyLog.snacks.length > 0;
+              const loggedMeals = getMealOrder(mealSlots, dailyLog).filter(
+                (mealType) => getMealEntries(dailyLog, mealType).length > 0
+              );
+              const hasFood = loggedMeals.length > 0;
 
               // Helper function to create animated style for meal cards
               const getMealAnimStyle = (animValue: Animated.Value) => ({
@@ -1823,9 +2192,9 @@ export function HomeScreen() {
 
               const content = (
                 <>
-                  <Animated.Text
+                  <Animated.View
                     style={[
-                      styles.foodSectionTitle,
+                      styles.foodSectionHeader,
                       {
                         opacity: foodTitleAnim,
                         transform: [{
@@ -1837,46 +2206,52 @@ export function HomeScreen() {
                       },
                     ]}
                   >
-                    Food
-                  </Animated.Text>
-                  {hasFood ? (
-                    <>
-                      {dailyLog.breakfast.length > 0 && (
-                        <Animated.View style={getMealAnimStyle(breakfastAnim)}>
-                          <MealCard
-                            title="Breakfast"
-                            entries={dailyLog.breakfast}
-                            onPress={() => setSelectedMeal({ title: 'Breakfast', type: 'breakfast' })}
-                          />
-                        </Animated.View>
-                      )}
-                      {dailyLog.lunch.length > 0 && (
-                        <Animated.View style={getMealAnimStyle(lunchAnim)}>
-                          <MealCard
-                            title="Lunch"
-                            entries={dailyLog.lunch}
-                            onPress={() => setSelectedMeal({ title: 'Lunch', type: 'lunch' })}
-                          />
-                        </Animated.View>
+                    <Text style={styles.foodSectionTitle}>Food</Text>
+                    <View style={styles.foodSectionActions}>
+                      <TouchableOpacity onPress={() => setSavedFoodsVisible(true)} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+                        <Text style={styles.historyButtonText}>Saved</Text>
+                      </TouchableOpacity>
+                      {hasFood && (
+                        <TouchableOpacity onPress={toggleTimelineView} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+                          <Text style={styles.historyButtonText}>{timelineView ? 'Meals' : 'Timeline'}</Text>
+                        </TouchableOpacity>
                       )}
-                      {dailyLog.dinner.length > 0 && (
-                        <Animated.View style={getMealAnimStyle(dinnerAnim)}>
-                          <MealCard
-                            title="Dinner"
-                            entries={dailyLog.dinner}
-                            onPress={() => setSelectedMeal({ title: 'Dinner', type: 'dinner' })}
-                          />
-                        </Animated.View>
-                      )}
-                      {dailyLog.snacks.length > 0 && (
-                        <Animated.View style={getMealAnimStyle(snacksAnim)}>
-                          <MealCard
-                            title="Snacks"
-                            entries={dailyLog.snacks}
-                            onPress={() => setSelectedMeal({ title: 'Snacks', type: 'snacks' })}
-                          />
-                        </Animated.View>
+                      {hasFood && (
+                        <TouchableOpacity onPress={() => setCopyDayVisible(true)} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+                          <Text style={styles.historyButtonText}>Copy</Text>
+                        </TouchableOpacity>
                       )}
+                      <TouchableOpacity onPress={() => setHistoryVisible(true)} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+                        <Text style={styles.historyButtonText}>History</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </Animated.View>
+                  {hasFood && timelineView ? (
+                    <>
+                      <Animated.View style={getMealAnimStyle(getMealCardAnim(0))}>
+                        <TimelineCard
+                          timeline={getTimeline(dailyLog, mealSlots)}
+                          mealSlots={mealSlots}
+                          onPress={(mealType) => setSelectedMeal({ title: getMealName(mealSlots, mealType), type: mealType })}
+                        />
+                      </Animated.View>
+                      {/* Bottom padding */}
+                      <View style={{ height: 20 }} />
+                    </>
+                  ) : hasFood ? (
+                    <>
+                      {loggedMeals.map((mealType, index) => {
+                        const title = getMealName(mealSlots, mealType);
+                        return (
+                          <Animated.View key={mealType} style={getMealAnimStyle(getMealCardAnim(index))}>
+                            <MealCard
+                              title={title}
+                              entries={getMealEntries(dailyLog, mealType)}
+                              onPress={() => setSelectedMeal({ title, type: mealType })}
+                            />
+                          </Animated.View>
+                        );
+                      })}
                       {/* Bottom padding */}
                       <View style={{ height: 20 }} />
                     </>
@@ -1884,7 +2259,7 @@ export function HomeScreen() {
                     <Animated.View
                       style={[
                         styles.emptyStateContainer,
-                        getMealAnimStyle(breakfastAnim),
+                        getMealAnimStyle(getMealCardAnim(0)),
                       ]}
                     >
                       <Text style={styles.emptyStateText}>No food logged yet</Text>
@@ -1962,7 +2337,7 @@ export function HomeScreen() {
           changeDate(date);
           setCalendarVisible(false);
         }}
-        userID={user?.userID || 'default-user'}
+        userID={dailyLog.userID}
         calorieTarget={targets?.calories || 2700}
       />
 
@@ -1971,6 +2346,75 @@ export function HomeScreen() {
         <Toast message={recommendationError} onDismiss={() => setRecommendationError(null)} />
       )}
 
+      {/* Undo last save */}
+      {undoRevisionID && (
+        <UndoToast key={undoRevisionID} onUndo={handleUndo} onDismiss={() => setUndoRevisionID(null)} />
+      )}
+
+      {/* Per-day revision history */}
+      {dailyLog && (
+        <RevisionHistorySheet
+          visible={historyVisible}
+          dailyLogID={dailyLog.dailyLogID}
+          mealSlots={mealSlots}
+          onClose={() => setHistoryVisible(false)}
+          onRestored={refresh}
+        />
+      )}
+
+      {/* Re-log saved foods without the LLM */}
+      {dailyLog && (
+        <SavedFoodSheet
+          visible={savedFoodsVisible}
+          userID={dailyLog.userID}
+          dailyLogID={dailyLog.dailyLogID}
+          mealSlots={mealSlots}
+          onClose={() => setSavedFoodsVisible(false)}
+          onAdded={refresh}
+        />
+      )}
+
+      {/* Copy the whole day to another date */}
+      {dailyLog && (
+        <CopyTargetSheet
+          visible={copyDayVisible}
+          title="Copy day"
+          sourceDate={dailyLog.date}
+          mealSlots={mealSlots}
+          onConfirm={handleCopyDay}
+          onClose={() => setCopyDayVisible(false)}
+        />
+      )}
+
+      {/* Measurement Input Sheet */}
+      <MeasurementInputSheet
+        visible={measurementSheetVisible}
+        onClose={() => setMeasurementSheetVisible(false)}
+        onSave={saveMeasurement}
+        current={todayMeasurement}
+        previous={previousMeasurement}
+      />
+
+      {/* Water Input Sheet */}
+      <WaterInputSheet
+        visible={waterSheetVisible}
+        onClose={() => setWaterSheetVisible(false)}
+        logs={waterLogs}
+        target={waterTarget}
+        onAdd={addWater}
+        onRemove={removeWater}
+      />
+
+      {/* Exercise Input Sheet */}
+      <ActivityInputSheet
+        visible={activitySheetVisible}
+        onClose={() => setActivitySheetVisible(false)}
+        logs={activityLogs}
+        bodyWeight={bodyWeight}
+        onAdd={addActivity}
+        onRemove={removeActivity}
+      />
+
       {/* Weight Input Sheet */}
       <WeightInputSheet
         visible={weightSheetVisible}
@@ -1980,13 +2424,31 @@ export function HomeScreen() {
         previousWeight={previousWeight?.weight ?? null}
       />
 
+      {/* Review parsed food before saving */}
+      {pendingEdits && dailyLog && (
+        <FoodReviewSheet
+          visible={true}
+          dailyLog={dailyLog}
+          operations={pendingEdits}
+          mealSlots={mealSlots}
+          onConfirm={handleConfirmReview}
+          onCancel={() => setPendingEdits(null)}
+        />
+      )}
+
       {/* Modals rendered outside loading conditional to prevent unmount during refresh */}
       <MealDetailSheet
         visible={mealSheetVisible}
         title={lastSelectedMealRef.current?.title ?? ''}
-        entries={lastSelectedMealRef.current && dailyLog ? dailyLog[lastSelectedMealRef.current.type] : []}
+        entries={lastSelectedMealRef.current && dailyLog ? getMealEntries(dailyLog, lastSelectedMealRef.current.type) : []}
+        mealSlots={mealSlots}
+        userID={dailyLog?.userID}
+        dailyLogID={dailyLog?.dailyLogID}
+        mealType={lastSelectedMealRef.current?.type}
+        date={dailyLog?.date}
         onClose={handleCloseMealSheet}
         onUpdate={refresh}
+        onCopied={handleCopied}
         onModalHide={handleMealSheetClosed}
       />
     </SafeAreaView>
@@ -2050,6 +2512,12 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontFamily: 'DIN Alternate',
   },
+  ringBurnedText: {
+    color: EXERCISE_COLOR,
+    fontSize: 11,
+    fontFamily: 'DIN Alternate',
+    marginTop: 2,
+  },
 
   // Macro Progress Bars
   macroProgressBars: {
@@ -2100,13 +2568,44 @@ const styles = StyleSheet.create({
     color: '#fff',
   },
 
-  // Weight Card
+  // Micronutrient Summary
+  microSummary: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginHorizontal: 20,
+    marginTop: 16,
+    rowGap: 10,
+  },
+  microSummaryItem: {
+    width: '33.33%',
+  },
+  microSummaryLabel: {
+    color: '#666',
+    fontSize: 12,
+    fontFamily: 'Avenir Next',
+  },
+  microSummaryValue: {
+    color: '#fff',
+    fontSize: 15,
+    fontFamily: 'DIN Alternate',
+    fontWeight: '600',
+  },
+  microSummaryTarget: {
+    color: '#666',
+    fontWeight: 'normal',
+  },
+  bodyCardRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginHorizontal: 20,
+    marginTop: 16,
+  },
+  // Weight and Water Cards
   weightCard: {
+    flex: 1,
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'space-between',
-    marginHorizontal: 20,
-    marginTop: 16,
     backgroundColor: '#1a1a1a',
     borderRadius: 12,
     paddingHorizontal: 16,
@@ -2146,6 +2645,53 @@ const styles = StyleSheet.create({
     fontFamily: 'Avenir Next',
     fontWeight: '600',
   },
+  measurementCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 16,
+    marginHorizontal: 20,
+    marginTop: 12,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+  },
+  measurementSummary: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 14,
+    fontFamily: 'DIN Alternate',
+    textAlign: 'right',
+  },
+  waterCard: {
+    flex: 1,
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  waterHeader: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    justifyContent: 'space-between',
+  },
+  waterTrack: {
+    height: 4,
+    backgroundColor: '#2a2a2a',
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  waterFill: {
+    height: '100%',
+    backgroundColor: WATER_COLOR,
+    borderRadius: 2,
+  },
+  exerciseBurned: {
+    color: EXERCISE_COLOR,
+  },
 
   // Food Section
   foodSection: {
@@ -2154,6 +2700,21 @@ const styles = StyleSheet.create({
   foodSectionContent: {
     paddingHorizontal: 20,
   },
+  foodSectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  foodSectionActions: {
+    flexDirection: 'row',
+    gap: 20,
+  },
+  historyButtonText: {
+    color: '#888',
+    fontSize: 15,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
   foodSectionTitle: {
     color: '#fff',
     fontSize: 28,
@@ -2211,6 +2772,37 @@ const styles = StyleSheet.create({
     color: '#a3a3a3',
   },
 
+  // Timeline
+  timelineCard: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    paddingHorizontal: 15,
+    marginBottom: 15,
+  },
+  timelineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#2a2a2a',
+  },
+  timelineTime: {
+    width: 64,
+    color: '#888',
+    fontSize: 14,
+    fontFamily: 'DIN Alternate',
+  },
+  timelineInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  timelineMeta: {
+    color: '#666',
+    fontSize: 12,
+    fontFamily: 'Avenir Next',
+  },
+
   // Empty State
   emptyStateContainer: {
     alignItems: 'center',
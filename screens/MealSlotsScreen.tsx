@@ -0,0 +1,493 @@
+import { useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useAppDataContext } from '../contexts/AppDataContext';
+import { MealSlotsScreenNavigationProp } from '../navigation/types';
+import { saveMealSlot, reorderMealSlots, deleteMealSlot } from '../services/storage';
+import { MealSlotInput, formatMealWindow, getMealName, normalizeTime } from '../services/mealSlots';
+import { MealSlot } from '../types';
+
+const ACCENT_COLOR = '#3FE0DB';
+
+function SlotEditor({
+  initial,
+  onSave,
+  onCancel,
+  onRemove,
+}: {
+  initial: MealSlotInput;
+  onSave: (slot: MealSlotInput) => Promise<void>;
+  onCancel: () => void;
+  onRemove?: () => void;
+}) {
+  const [name, setName] = useState(initial.name);
+  const [startTime, setStartTime] = useState(initial.startTime ?? '');
+  const [endTime, setEndTime] = useState(initial.endTime ?? '');
+  const [saving, setSaving] = useState(false);
+
+  // A window needs both times or neither
+  const start = normalizeTime(startTime);
+  const end = normalizeTime(endTime);
+  const windowValid = (startTime.trim() === '' && endTime.trim() === '') || (start !== null && end !== null);
+  const isValid = name.trim().length > 0 && windowValid;
+
+  const handleSave = async () => {
+    if (!isValid) return;
+    setSaving(true);
+    try {
+      await onSave({ name: name.trim(), startTime: start, endTime: end });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.editor}>
+      <TextInput
+        style={[styles.editorInput, styles.editorNameInput]}
+        value={name}
+        onChangeText={setName}
+        placeholder="Name, e.g. Pre-workout"
+        placeholderTextColor="#555"
+      />
+      <View style={styles.editorTimes}>
+        <TextInput
+          style={[styles.editorInput, styles.editorTimeInput]}
+          value={startTime}
+          onChangeText={setStartTime}
+          placeholder="Start 07:00"
+          placeholderTextColor="#555"
+          keyboardType="numbers-and-punctuation"
+        />
+        <Text style={styles.editorLabel}>to</Text>
+        <TextInput
+          style={[styles.editorInput, styles.editorTimeInput]}
+          value={endTime}
+          onChangeText={setEndTime}
+          placeholder="End 09:00"
+          placeholderTextColor="#555"
+          keyboardType="numbers-and-punctuation"
+        />
+      </View>
+      {!windowValid && <Text style={styles.editorHint}>Enter both times as HH:MM, or leave both blank</Text>}
+      <View style={styles.editorActions}>
+        {onRemove ? (
+          <TouchableOpacity onPress={onRemove} activeOpacity={0.7}>
+            <Text style={styles.removeText}>Delete</Text>
+          </TouchableOpacity>
+        ) : (
+          <View />
+        )}
+        <View style={styles.editorButtons}>
+          <TouchableOpacity style={styles.smallCancelButton} onPress={onCancel} activeOpacity={0.7}>
+            <Text style={styles.smallCancelText}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.smallSaveButton, (!isValid || saving) && styles.smallSaveButtonDisabled]}
+            onPress={handleSave}
+            disabled={!isValid || saving}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.smallSaveText}>{saving ? 'Saving...' : 'Save'}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+export function MealSlotsScreen() {
+  const navigation = useNavigation<MealSlotsScreenNavigationProp>();
+  const { user, mealSlots, reloadMealSlots, invalidateCache, refresh } = useAppDataContext();
+  // Which row is open for editing: a mealSlotID or "new"
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Deleting a slot moves food on any day, so drop the whole cache
+  const runChange = async (change: () => Promise<unknown>) => {
+    try {
+      await change();
+      setEditingKey(null);
+      setError(null);
+      await reloadMealSlots();
+      invalidateCache();
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update meals');
+    }
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    if (!user) return;
+    const ids = mealSlots.map((slot) => slot.mealSlotID);
+    const [moved] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, moved);
+    runChange(() => reorderMealSlots(user.userID, ids));
+  };
+
+  const handleDelete = (slot: MealSlot, index: number) => {
+    if (!user) return;
+    const fallback = mealSlots[index > 0 ? index - 1 : 1];
+    if (!fallback) {
+      setError('You need at least one meal');
+      return;
+    }
+    Alert.alert(
+      'Delete meal?',
+      `Food logged under "${slot.name}" on any day will move to ${getMealName(mealSlots, fallback.mealType)}.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => runChange(() => deleteMealSlot(user.userID, slot.mealSlotID)),
+        },
+      ]
+    );
+  };
+
+  const renderSlotRow = (slot: MealSlot, index: number) => {
+    if (editingKey === slot.mealSlotID && user) {
+      return (
+        <View key={slot.mealSlotID} style={styles.editingRow}>
+          <SlotEditor
+            initial={slot}
+            onSave={(values) => runChange(() => saveMealSlot(user.userID, { mealSlotID: slot.mealSlotID, ...values }))}
+            onCancel={() => setEditingKey(null)}
+            onRemove={mealSlots.length > 1 ? () => handleDelete(slot, index) : undefined}
+          />
+        </View>
+      );
+    }
+
+    const mealWindow = formatMealWindow(slot);
+    return (
+      <View key={slot.mealSlotID} style={styles.slotRow}>
+        <TouchableOpacity style={styles.slotInfo} onPress={() => setEditingKey(slot.mealSlotID)} activeOpacity={0.7}>
+          <Text style={styles.slotName}>{slot.name}</Text>
+          <Text style={mealWindow ? styles.slotWindow : styles.slotWindowMuted}>{mealWindow ?? 'Any time'}</Text>
+        </TouchableOpacity>
+        <View style={styles.reorderButtons}>
+          <TouchableOpacity
+            onPress={() => handleMove(index, -1)}
+            disabled={index === 0}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="chevron-up" size={20} color={index === 0 ? '#333' : '#888'} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => handleMove(index, 1)}
+            disabled={index === mealSlots.length - 1}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="chevron-down" size={20} color={index === mealSlots.length - 1 ? '#333' : '#888'} />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        style={styles.keyboardView}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => navigation.goBack()}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="chevron-back" size={24} color="#fff" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Meals</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.contentContainer}
+          keyboardShouldPersistTaps="handled"
+        >
+          <View style={styles.hintContainer}>
+            <Text style={styles.hintText}>
+              Food is logged to the meal whose time window contains the current time; meals without a window catch the rest
+            </Text>
+          </View>
+
+          {error && (
+            <View style={styles.errorContainer}>
+              <Text style={styles.errorText}>{error}</Text>
+            </View>
+          )}
+
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionLabel}>MEALS</Text>
+            </View>
+            {mealSlots.map(renderSlotRow)}
+            {editingKey === 'new' && user ? (
+              <View style={styles.editingRow}>
+                <SlotEditor
+                  initial={{ name: '', startTime: null, endTime: null }}
+                  onSave={(values) => runChange(() => saveMealSlot(user.userID, values))}
+                  onCancel={() => setEditingKey(null)}
+                />
+              </View>
+            ) : (
+              <TouchableOpacity style={styles.addRow} onPress={() => setEditingKey('new')} activeOpacity={0.7}>
+                <Ionicons name="add" size={18} color={ACCENT_COLOR} />
+                <Text style={styles.addRowText}>Add meal</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  keyboardView: {
+    flex: 1,
+  },
+
+  // Header
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: -8,
+  },
+  headerTitle: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 18,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+
+  // Content
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 24,
+    paddingBottom: 100,
+  },
+
+  // Section
+  section: {
+    marginBottom: 32,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  sectionLabel: {
+    color: '#666',
+    fontSize: 12,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+
+  // Slot Row
+  slotRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+  },
+  slotInfo: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 14,
+  },
+  slotName: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+  },
+  slotWindow: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'DIN Alternate',
+    fontWeight: '600',
+  },
+  slotWindowMuted: {
+    color: '#555',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+  },
+  reorderButtons: {
+    flexDirection: 'row',
+    gap: 8,
+    marginLeft: 16,
+  },
+  editingRow: {
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+    gap: 12,
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 14,
+  },
+  addRowText: {
+    color: ACCENT_COLOR,
+    fontSize: 15,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+
+  // Editor
+  editor: {
+    gap: 12,
+  },
+  editorInput: {
+    backgroundColor: '#1a1a1a',
+    borderWidth: 1,
+    borderColor: '#333',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    color: '#fff',
+    fontSize: 15,
+  },
+  editorNameInput: {
+    fontFamily: 'Avenir Next',
+  },
+  editorTimes: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  editorTimeInput: {
+    flex: 1,
+    fontFamily: 'DIN Alternate',
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  editorLabel: {
+    color: '#666',
+    fontSize: 13,
+    fontFamily: 'Avenir Next',
+  },
+  editorHint: {
+    color: '#ff6b6b',
+    fontSize: 13,
+    fontFamily: 'Avenir Next',
+  },
+  editorActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  editorButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  removeText: {
+    color: '#ff6b6b',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  smallCancelButton: {
+    backgroundColor: '#2a2a2a',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  smallCancelText: {
+    color: '#fff',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  smallSaveButton: {
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  smallSaveButtonDisabled: {
+    backgroundColor: '#333',
+  },
+  smallSaveText: {
+    color: '#000',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+
+  // Hint
+  hintContainer: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 24,
+  },
+  hintText: {
+    color: '#888',
+    fontSize: 13,
+    fontFamily: 'Avenir Next',
+    textAlign: 'center',
+  },
+
+  // Error
+  errorContainer: {
+    backgroundColor: '#2a1a1a',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 24,
+  },
+  errorText: {
+    color: '#ff6b6b',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    textAlign: 'center',
+  },
+});
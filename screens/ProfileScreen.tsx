@@ -8,6 +8,8 @@ import {
   ScrollView,
   KeyboardAvoidingView,
   Platform,
+  Switch,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
@@ -15,15 +17,71 @@ import { Ionicons } from '@expo/vector-icons';
 import { useAppDataContext } from '../contexts/AppDataContext';
 import { useMacroCalculator } from '../hooks/useMacroCalculator';
 import { ProfileScreenNavigationProp } from '../navigation/types';
+import { shareBackupFile, pickBackupFile, restoreBackup } from '../services/backup';
+import { benchmarkDayLoading } from '../services/benchmark';
+import { checkDataIntegrity, repairDataIntegrity } from '../services/storage';
+import { BackupDocument, BackupImportMode, IntegrityReport, MicronutrientKey, User } from '../types';
+import { MICRONUTRIENTS, MicronutrientInfo, normalizeMicronutrient } from '../services/micronutrients';
+import { CsvExportSheet } from '../components/CsvExportSheet';
+import { HistoryImportSheet } from '../components/HistoryImportSheet';
+import { ApplyTargetsSheet } from '../components/ApplyTargetsSheet';
+import {
+  previewHistoryImport,
+  applyHistoryImport,
+  pickImportFile,
+  HistoryImportReport,
+  ImportConflictMode,
+} from '../services/historyImport';
 
 export function ProfileScreen() {
   const navigation = useNavigation<ProfileScreenNavigationProp>();
-  const { user, targets, updateTargets, updateUser } = useAppDataContext();
+  const {
+    user,
+    targets,
+    updateTargets,
+    updateUser,
+    settings,
+    updateSettings,
+    invalidateCache,
+    refresh,
+    profiles,
+    switchProfile,
+    createProfile,
+    deleteProfile,
+    reloadProfile,
+    launchIntegrityReport,
+    dismissLaunchIntegrityReport,
+  } = useAppDataContext();
   const [isEditingMacros, setIsEditingMacros] = useState(false);
   const [isEditingUser, setIsEditingUser] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [firstName, setFirstName] = useState('');
   const [lastName, setLastName] = useState('');
+  const [isBackupBusy, setIsBackupBusy] = useState(false);
+  const [showCsvExport, setShowCsvExport] = useState(false);
+  const [importReport, setImportReport] = useState<HistoryImportReport | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [backupMessage, setBackupMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [integrityReport, setIntegrityReport] = useState<IntegrityReport | null>(null);
+  const [isCheckingIntegrity, setIsCheckingIntegrity] = useState(false);
+  const [integrityError, setIntegrityError] = useState<string | null>(null);
+
+  // Show what the launch check found here, where it can be repaired
+  useEffect(() => {
+    if (!launchIntegrityReport) return;
+    setIntegrityReport(launchIntegrityReport);
+    dismissLaunchIntegrityReport();
+  }, [launchIntegrityReport]);
+  const [showApplyTargets, setShowApplyTargets] = useState(false);
+  const [targetsMessage, setTargetsMessage] = useState<string | null>(null);
+  const [isAddingProfile, setIsAddingProfile] = useState(false);
+  const [newFirstName, setNewFirstName] = useState('');
+  const [newLastName, setNewLastName] = useState('');
+  const [profileError, setProfileError] = useState<string | null>(null);
+  // Blank micronutrient targets mean the nutrient isn't tracked
+  const [microTargetDrafts, setMicroTargetDrafts] = useState<Partial<Record<MicronutrientKey, string>>>({});
+  const [microTargetError, setMicroTargetError] = useState<string | null>(null);
+  const [waterTargetDraft, setWaterTargetDraft] = useState('');
 
   const calculator = useMacroCalculator(targets);
 
@@ -35,6 +93,12 @@ export function ProfileScreen() {
     }
   }, [user]);
 
+  useEffect(() => {
+    if (settings) {
+      setWaterTargetDraft(String(settings.waterTarget));
+    }
+  }, [settings?.waterTarget]);
+
   const handleEditUser = () => {
     if (user) {
       setFirstName(user.firstName);
@@ -69,13 +133,70 @@ export function ProfileScreen() {
     }
   };
 
+  const handleSwitchProfile = async (userID: string) => {
+    setProfileError(null);
+    try {
+      await switchProfile(userID);
+    } catch (err) {
+      setProfileError(err instanceof Error ? err.message : 'Failed to switch profile');
+    }
+  };
+
+  const handleCancelAddProfile = () => {
+    setNewFirstName('');
+    setNewLastName('');
+    setIsAddingProfile(false);
+  };
+
+  const handleAddProfile = async () => {
+    if (!newFirstName.trim() || !newLastName.trim()) return;
+
+    setIsSaving(true);
+    setProfileError(null);
+    try {
+      await createProfile(newFirstName, newLastName);
+      handleCancelAddProfile();
+    } catch (err) {
+      setProfileError(err instanceof Error ? err.message : 'Failed to create profile');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteProfile = (profile: User) => {
+    Alert.alert(
+      'Delete Profile',
+      `Delete ${profile.firstName} ${profile.lastName}? All of their logs, weights, targets and saved foods will be permanently removed.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            setProfileError(null);
+            try {
+              await deleteProfile(profile.userID);
+            } catch (err) {
+              setProfileError(err instanceof Error ? err.message : 'Failed to delete profile');
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const handleEditMacros = () => {
     calculator.reset(targets);
+    setMicroTargetDrafts(
+      Object.fromEntries(MICRONUTRIENTS.map((m) => [m.key, targets[m.key] != null ? String(targets[m.key]) : '']))
+    );
+    setMicroTargetError(null);
     setIsEditingMacros(true);
   };
 
   const handleCancelMacros = () => {
     calculator.reset(targets);
+    setMicroTargetError(null);
     setIsEditingMacros(false);
   };
 
@@ -83,11 +204,24 @@ export function ProfileScreen() {
     const finalValues = calculator.getFinalValues();
     if (!finalValues) return;
 
+    const microTargets: Partial<Record<MicronutrientKey, number | null>> = {};
+    for (const m of MICRONUTRIENTS) {
+      const text = (microTargetDrafts[m.key] ?? '').trim();
+      const value = normalizeMicronutrient(m, text);
+      if (text !== '' && value === null) {
+        setMicroTargetError(`${m.label} target must be a number or left blank`);
+        return;
+      }
+      microTargets[m.key] = value;
+    }
+    setMicroTargetError(null);
+
     setIsSaving(true);
     try {
       await updateTargets({
         userID: targets.userID,
         ...finalValues,
+        ...microTargets,
       });
       setIsEditingMacros(false);
     } catch {
@@ -97,6 +231,194 @@ export function ProfileScreen() {
     }
   };
 
+  // Past days' rings and trend lines read their own target snapshots, so reload every cached day
+  const handleTargetsApplied = async (changedCount: number) => {
+    setTargetsMessage(`Updated targets on ${changedCount} ${changedCount === 1 ? 'day' : 'days'}`);
+    invalidateCache();
+    await refresh();
+  };
+
+  const handleToggleReview = async (value: boolean) => {
+    if (!settings) return;
+    try {
+      await updateSettings({ ...settings, reviewBeforeSave: value });
+    } catch {
+      // Keep the previous value on failure
+    }
+  };
+
+  const handleToggleExerciseTarget = async (value: boolean) => {
+    if (!settings) return;
+    try {
+      await updateSettings({ ...settings, exerciseAdjustsTarget: value });
+    } catch {
+      // Keep the previous value on failure
+    }
+  };
+
+  // Saved when the field loses focus; invalid input snaps back to the current goal
+  const handleSaveWaterTarget = async () => {
+    if (!settings) return;
+    const value = Math.round(parseFloat(waterTargetDraft));
+    if (isNaN(value) || value <= 0) {
+      setWaterTargetDraft(String(settings.waterTarget));
+      return;
+    }
+    if (value === settings.waterTarget) return;
+    try {
+      await updateSettings({ ...settings, waterTarget: value });
+    } catch {
+      setWaterTargetDraft(String(settings.waterTarget));
+    }
+  };
+
+  const handleExportBackup = async () => {
+    setIsBackupBusy(true);
+    setBackupMessage(null);
+    try {
+      await shareBackupFile();
+    } catch (err) {
+      setBackupMessage({ text: err instanceof Error ? err.message : 'Failed to export backup', isError: true });
+    } finally {
+      setIsBackupBusy(false);
+    }
+  };
+
+  const runRestore = async (doc: BackupDocument, mode: BackupImportMode) => {
+    setIsBackupBusy(true);
+    try {
+      const result = await restoreBackup(doc, mode);
+      // Replace mode can remove the active profile, so resolve it again
+      await reloadProfile();
+      setBackupMessage({
+        text: `Restored ${result.daily_logs} days, ${result.food_entries} food entries and ${result.weight_logs} weights`,
+        isError: false,
+      });
+    } catch (err) {
+      setBackupMessage({ text: err instanceof Error ? err.message : 'Failed to restore backup', isError: true });
+    } finally {
+      setIsBackupBusy(false);
+    }
+  };
+
+  const handleRestoreBackup = async () => {
+    setBackupMessage(null);
+    let doc: BackupDocument | null;
+    try {
+      doc = await pickBackupFile();
+    } catch (err) {
+      setBackupMessage({ text: err instanceof Error ? err.message : 'Failed to read backup', isError: true });
+      return;
+    }
+    if (!doc) return;
+
+    const backup = doc;
+    Alert.alert(
+      'Restore Backup',
+      `Backup from ${backup.exportedAt.slice(0, 10)} with ${backup.data.daily_logs.length} days and ${backup.data.food_entries.length} food entries.\n\nMerge keeps your current data and adds anything missing. Replace deletes everything on this device first.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Merge', onPress: () => runRestore(backup, 'merge') },
+        { text: 'Replace', style: 'destructive', onPress: () => runRestore(backup, 'replace') },
+      ]
+    );
+  };
+
+  const handlePickHistoryImport = async () => {
+    if (!user) return;
+    setBackupMessage(null);
+    try {
+      const csvText = await pickImportFile();
+      if (csvText === null) return;
+      setImportReport(await previewHistoryImport(user.userID, csvText));
+    } catch (err) {
+      setBackupMessage({ text: err instanceof Error ? err.message : 'Failed to read file', isError: true });
+    }
+  };
+
+  const handleToggleLaunchCheck = async (value: boolean) => {
+    if (!settings) return;
+    try {
+      await updateSettings({ ...settings, integrityCheckOnLaunch: value });
+    } catch {
+      // Keep the previous value on failure
+    }
+  };
+
+  const handleCheckIntegrity = async () => {
+    setIsCheckingIntegrity(true);
+    setIntegrityError(null);
+    try {
+      setIntegrityReport(await checkDataIntegrity());
+    } catch (err) {
+      setIntegrityError(err instanceof Error ? err.message : 'Failed to check data');
+    } finally {
+      setIsCheckingIntegrity(false);
+    }
+  };
+
+  const runRepairIntegrity = async () => {
+    setIsCheckingIntegrity(true);
+    setIntegrityError(null);
+    try {
+      setIntegrityReport(await repairDataIntegrity());
+      invalidateCache();
+      await refresh();
+    } catch (err) {
+      setIntegrityError(err instanceof Error ? err.message : 'Failed to repair data');
+    } finally {
+      setIsCheckingIntegrity(false);
+    }
+  };
+
+  const handleRepairIntegrity = () => {
+    Alert.alert(
+      'Repair Data',
+      'Duplicate days are merged, records pointing to missing data are deleted, food in unknown meals is moved, negative values are set to zero and day totals are recalculated. Export a backup first if you want to keep a copy.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Repair', style: 'destructive', onPress: runRepairIntegrity },
+      ]
+    );
+  };
+
+  // Development only: compares per-day and batched loading on a seeded year of logs
+  const handleRunBenchmark = async () => {
+    setIsBackupBusy(true);
+    setBackupMessage(null);
+    try {
+      const result = await benchmarkDayLoading();
+      setBackupMessage({
+        text: `${result.days} days, ${result.entries} entries: per day ${Math.round(result.perDayMs)} ms, batch ${Math.round(result.batchMs)} ms`,
+        isError: false,
+      });
+    } catch (err) {
+      setBackupMessage({ text: err instanceof Error ? err.message : 'Benchmark failed', isError: true });
+    } finally {
+      setIsBackupBusy(false);
+    }
+  };
+
+  const handleConfirmHistoryImport = async (conflictMode: ImportConflictMode) => {
+    if (!user || !importReport) return;
+    setIsImporting(true);
+    try {
+      const result = await applyHistoryImport(user.userID, importReport, conflictMode);
+      invalidateCache();
+      await refresh();
+      setImportReport(null);
+      setBackupMessage({
+        text: `Imported ${result.itemsImported} items across ${result.daysImported} days${result.daysSkipped > 0 ? `, skipped ${result.daysSkipped} days` : ''}`,
+        isError: false,
+      });
+    } catch (err) {
+      setImportReport(null);
+      setBackupMessage({ text: err instanceof Error ? err.message : 'Failed to import history', isError: true });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const renderMacroRow = (
     label: string,
     field: 'calories' | 'protein' | 'carbs' | 'fat',
@@ -151,6 +473,42 @@ export function ProfileScreen() {
     );
   };
 
+  const renderMicroTargetRow = (info: MicronutrientInfo) => {
+    const target = targets[info.key];
+
+    if (!isEditingMacros) {
+      // Only nutrients the user tracks are listed outside edit mode
+      if (target === null || target === undefined) return null;
+      return (
+        <View key={info.key} style={styles.infoRow}>
+          <Text style={styles.infoLabel}>{info.label}</Text>
+          <Text style={styles.infoValue}>
+            {target}
+            {info.unit}
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <View key={info.key} style={styles.inputRow}>
+        <Text style={styles.inputLabel}>{info.label}</Text>
+        <View style={styles.inputContainer}>
+          <TextInput
+            style={styles.input}
+            value={microTargetDrafts[info.key] ?? ''}
+            onChangeText={(text) => setMicroTargetDrafts((prev) => ({ ...prev, [info.key]: text }))}
+            keyboardType="decimal-pad"
+            placeholder="Off"
+            placeholderTextColor="#555"
+            selectTextOnFocus
+          />
+          <Text style={styles.inputUnit}>{info.unit}</Text>
+        </View>
+      </View>
+    );
+  };
+
   return (
     <SafeAreaView style={styles.container}>
       <KeyboardAvoidingView
@@ -221,6 +579,104 @@ export function ProfileScreen() {
             )}
           </View>
 
+          {/* Profiles */}
+          {!isEditingUser && !isEditingMacros && (
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionLabel}>PROFILES</Text>
+                {!isAddingProfile && (
+                  <TouchableOpacity
+                    style={styles.editButton}
+                    onPress={() => setIsAddingProfile(true)}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={styles.editButtonText}>Add</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+
+              {profiles.map((profile) => {
+                const isActive = profile.userID === user?.userID;
+                return (
+                  <TouchableOpacity
+                    key={profile.userID}
+                    style={styles.infoRow}
+                    onPress={() => handleSwitchProfile(profile.userID)}
+                    disabled={isActive}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={isActive ? styles.infoValue : styles.infoLabel}>
+                      {profile.firstName} {profile.lastName}
+                    </Text>
+                    {isActive ? (
+                      <Ionicons name="checkmark" size={18} color="#3FE0DB" />
+                    ) : (
+                      <TouchableOpacity onPress={() => handleDeleteProfile(profile)} hitSlop={10}>
+                        <Ionicons name="trash-outline" size={18} color="#555" />
+                      </TouchableOpacity>
+                    )}
+                  </TouchableOpacity>
+                );
+              })}
+
+              {isAddingProfile && (
+                <>
+                  <View style={styles.inputRow}>
+                    <Text style={styles.inputLabel}>First Name</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={newFirstName}
+                      onChangeText={setNewFirstName}
+                      placeholder="First Name"
+                      placeholderTextColor="#555"
+                      autoFocus
+                    />
+                  </View>
+                  <View style={styles.inputRow}>
+                    <Text style={styles.inputLabel}>Last Name</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={newLastName}
+                      onChangeText={setNewLastName}
+                      placeholder="Last Name"
+                      placeholderTextColor="#555"
+                    />
+                  </View>
+                  <View style={styles.profileButtonRow}>
+                    <TouchableOpacity
+                      style={styles.cancelButton}
+                      onPress={handleCancelAddProfile}
+                      activeOpacity={0.7}
+                    >
+                      <Text style={styles.cancelButtonText}>Cancel</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.saveButton, (!newFirstName.trim() || !newLastName.trim() || isSaving) && styles.saveButtonDisabled]}
+                      onPress={handleAddProfile}
+                      activeOpacity={0.7}
+                      disabled={!newFirstName.trim() || !newLastName.trim() || isSaving}
+                    >
+                      <Text
+                        style={[
+                          styles.saveButtonText,
+                          (!newFirstName.trim() || !newLastName.trim() || isSaving) && styles.saveButtonTextDisabled,
+                        ]}
+                      >
+                        Create & Switch
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                </>
+              )}
+
+              {profileError && (
+                <View style={styles.errorContainer}>
+                  <Text style={styles.errorText}>{profileError}</Text>
+                </View>
+              )}
+            </View>
+          )}
+
           {/* Macro Targets */}
           <View style={styles.section}>
             <View style={styles.sectionHeader}>
@@ -249,13 +705,240 @@ export function ProfileScreen() {
             {renderMacroRow('Carbs', 'carbs', 'g')}
             {renderMacroRow('Fat', 'fat', 'g')}
 
+            {isEditingMacros && (
+              <View style={[styles.hintContainer, styles.messageContainer]}>
+                <Text style={styles.hintText}>
+                  Optional nutrient targets - leave blank to not track
+                </Text>
+              </View>
+            )}
+            {MICRONUTRIENTS.map(renderMicroTargetRow)}
+
+            {!isEditingMacros && (
+              <TouchableOpacity
+                style={styles.infoRow}
+                onPress={() => navigation.navigate('TargetSchedule')}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.infoLabel}>Weekday & day type schedule</Text>
+                <Ionicons name="chevron-forward" size={18} color="#888" />
+              </TouchableOpacity>
+            )}
+            {!isEditingMacros && (
+              <TouchableOpacity
+                style={styles.infoRow}
+                onPress={() => {
+                  setTargetsMessage(null);
+                  setShowApplyTargets(true);
+                }}
+                disabled={!user}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.infoLabel}>Apply targets to past days</Text>
+                <Ionicons name="calendar-outline" size={18} color="#888" />
+              </TouchableOpacity>
+            )}
+            {!isEditingMacros && targetsMessage && (
+              <View style={[styles.hintContainer, styles.messageContainer]}>
+                <Text style={styles.hintText}>{targetsMessage}</Text>
+              </View>
+            )}
+
             {calculator.error && (
               <View style={styles.errorContainer}>
                 <Text style={styles.errorText}>{calculator.error}</Text>
               </View>
             )}
+            {microTargetError && (
+              <View style={styles.errorContainer}>
+                <Text style={styles.errorText}>{microTargetError}</Text>
+              </View>
+            )}
           </View>
 
+          {/* Logging Preferences */}
+          {!isEditingMacros && (
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionLabel}>LOGGING</Text>
+              </View>
+              <TouchableOpacity
+                style={styles.infoRow}
+                onPress={() => navigation.navigate('MealSlots')}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.infoLabel}>Meals</Text>
+                <Ionicons name="chevron-forward" size={18} color="#888" />
+              </TouchableOpacity>
+              <View style={styles.infoRow}>
+                <Text style={styles.infoLabel}>Review before saving</Text>
+                <Switch
+                  value={settings?.reviewBeforeSave ?? false}
+                  onValueChange={handleToggleReview}
+                  disabled={!settings}
+                  trackColor={{ true: '#3FE0DB', false: '#333' }}
+                />
+              </View>
+              <View style={styles.infoRow}>
+                <Text style={styles.infoLabel}>Add exercise to calorie target</Text>
+                <Switch
+                  value={settings?.exerciseAdjustsTarget ?? false}
+                  onValueChange={handleToggleExerciseTarget}
+                  disabled={!settings}
+                  trackColor={{ true: '#3FE0DB', false: '#333' }}
+                />
+              </View>
+              <View style={styles.inputRow}>
+                <Text style={styles.inputLabel}>Daily water goal</Text>
+                <View style={styles.inputContainer}>
+                  <TextInput
+                    style={styles.input}
+                    value={waterTargetDraft}
+                    onChangeText={setWaterTargetDraft}
+                    onEndEditing={handleSaveWaterTarget}
+                    editable={!!settings}
+                    keyboardType="numeric"
+                    placeholderTextColor="#555"
+                    selectTextOnFocus
+                  />
+                  <Text style={styles.inputUnit}>oz</Text>
+                </View>
+              </View>
+            </View>
+          )}
+
+          {/* Library */}
+          {!isEditingMacros && !isEditingUser && (
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionLabel}>LIBRARY</Text>
+              </View>
+              <TouchableOpacity
+                style={styles.infoRow}
+                onPress={() => navigation.navigate('Recipes')}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.infoLabel}>Recipes</Text>
+                <Ionicons name="chevron-forward" size={18} color="#888" />
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {/* Backup & Restore */}
+          {!isEditingMacros && !isEditingUser && (
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionLabel}>DATA</Text>
+              </View>
+              <TouchableOpacity
+                style={styles.infoRow}
+                onPress={handleExportBackup}
+                disabled={isBackupBusy}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.infoLabel}>Export backup</Text>
+                <Ionicons name="share-outline" size={18} color="#888" />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.infoRow}
+                onPress={handleRestoreBackup}
+                disabled={isBackupBusy}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.infoLabel}>Restore backup</Text>
+                <Ionicons name="download-outline" size={18} color="#888" />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.infoRow}
+                onPress={() => setShowCsvExport(true)}
+                disabled={!user}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.infoLabel}>Export CSV</Text>
+                <Ionicons name="document-text-outline" size={18} color="#888" />
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.infoRow}
+                onPress={handlePickHistoryImport}
+                disabled={!user || isImporting}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.infoLabel}>Import from MyFitnessPal / Cronometer</Text>
+                <Ionicons name="cloud-download-outline" size={18} color="#888" />
+              </TouchableOpacity>
+              {__DEV__ && (
+                <TouchableOpacity
+                  style={styles.infoRow}
+                  onPress={handleRunBenchmark}
+                  disabled={isBackupBusy}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.infoLabel}>Benchmark day loading</Text>
+                  <Ionicons name="speedometer-outline" size={18} color="#888" />
+                </TouchableOpacity>
+              )}
+              {backupMessage && (
+                <View style={backupMessage.isError ? styles.errorContainer : styles.hintContainer}>
+                  <Text style={backupMessage.isError ? styles.errorText : styles.hintText}>{backupMessage.text}</Text>
+                </View>
+              )}
+            </View>
+          )}
+
+          {/* Diagnostics */}
+          {!isEditingMacros && !isEditingUser && (
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionLabel}>DIAGNOSTICS</Text>
+              </View>
+              <TouchableOpacity
+                style={styles.infoRow}
+                onPress={handleCheckIntegrity}
+                disabled={isCheckingIntegrity}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.infoLabel}>{isCheckingIntegrity ? 'Checking...' : 'Check data'}</Text>
+                <Ionicons name="pulse-outline" size={18} color="#888" />
+              </TouchableOpacity>
+              <View style={styles.infoRow}>
+                <Text style={styles.infoLabel}>Check data at launch</Text>
+                <Switch
+                  value={settings?.integrityCheckOnLaunch ?? false}
+                  onValueChange={handleToggleLaunchCheck}
+                  disabled={!settings}
+                  trackColor={{ true: '#3FE0DB', false: '#333' }}
+                />
+              </View>
+              {integrityReport?.issues.map((issue) => (
+                <View key={issue.kind} style={styles.infoRow}>
+                  <Text style={[styles.infoLabel, styles.issueLabel]}>{issue.description}</Text>
+                  <Text style={styles.infoValue}>{issue.count}</Text>
+                </View>
+              ))}
+              {integrityReport && integrityReport.issues.length > 0 && (
+                <TouchableOpacity
+                  style={styles.infoRow}
+                  onPress={handleRepairIntegrity}
+                  disabled={isCheckingIntegrity}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.repairText}>Repair</Text>
+                  <Ionicons name="construct-outline" size={18} color="#3FE0DB" />
+                </TouchableOpacity>
+              )}
+              {integrityReport && integrityReport.issues.length === 0 && (
+                <View style={[styles.hintContainer, styles.messageContainer]}>
+                  <Text style={styles.hintText}>No problems found</Text>
+                </View>
+              )}
+              {integrityError && (
+                <View style={styles.errorContainer}>
+                  <Text style={styles.errorText}>{integrityError}</Text>
+                </View>
+              )}
+            </View>
+          )}
+
           {/* Formula Reference */}
           {isEditingMacros && (
             <View style={styles.formulaSection}>
@@ -329,6 +1012,32 @@ export function ProfileScreen() {
           </View>
         )}
       </KeyboardAvoidingView>
+
+      {user && (
+        <CsvExportSheet
+          visible={showCsvExport}
+          userID={user.userID}
+          onClose={() => setShowCsvExport(false)}
+        />
+      )}
+
+      {user && (
+        <ApplyTargetsSheet
+          visible={showApplyTargets}
+          userID={user.userID}
+          targets={targets}
+          onClose={() => setShowApplyTargets(false)}
+          onApplied={handleTargetsApplied}
+        />
+      )}
+
+      <HistoryImportSheet
+        visible={importReport !== null}
+        report={importReport}
+        importing={isImporting}
+        onConfirm={handleConfirmHistoryImport}
+        onCancel={() => setImportReport(null)}
+      />
     </SafeAreaView>
   );
 }
@@ -430,6 +1139,16 @@ const styles = StyleSheet.create({
     fontFamily: 'DIN Alternate',
     fontWeight: '600',
   },
+  issueLabel: {
+    flex: 1,
+    marginRight: 12,
+  },
+  repairText: {
+    color: '#3FE0DB',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
 
   // Input Row (Edit Mode)
   inputRow: {
@@ -502,6 +1221,17 @@ const styles = StyleSheet.create({
     textAlign: 'center',
   },
 
+  messageContainer: {
+    marginTop: 16,
+    marginBottom: 0,
+  },
+
+  profileButtonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+
   // Error
   errorContainer: {
     backgroundColor: '#2a1a1a',
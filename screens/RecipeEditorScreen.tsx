@@ -0,0 +1,575 @@
+import { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useAppDataContext } from '../contexts/AppDataContext';
+import { RecipeEditorScreenNavigationProp, RecipeEditorScreenRouteProp } from '../navigation/types';
+import { getRecipe, saveRecipe, deleteRecipe } from '../services/storage';
+import { getRecipeTotals, getRecipePerServing } from '../services/recipes';
+import { FoodItem, Micronutrients } from '../types';
+import { getMicronutrients } from '../services/micronutrients';
+
+// Form state keeps numbers as strings so partially typed values survive re-renders
+interface IngredientDraft {
+  key: string;
+  name: string;
+  quantity: string;
+  calories: string;
+  protein: string;
+  carbs: string;
+  fat: string;
+  micronutrients: Micronutrients; // not editable here; kept so saving does not drop them
+}
+
+let draftCounter = 0;
+
+function createDraft(item?: FoodItem): IngredientDraft {
+  draftCounter += 1;
+  return {
+    key: `draft-${draftCounter}`,
+    name: item?.name ?? '',
+    quantity: item?.quantity ?? '',
+    calories: item ? String(item.calories) : '',
+    protein: item ? String(item.protein) : '',
+    carbs: item ? String(item.carbs) : '',
+    fat: item ? String(item.fat) : '',
+    micronutrients: item ? getMicronutrients(item) : {},
+  };
+}
+
+function parseMacro(value: string): number {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? Math.round(parsed) : 0;
+}
+
+function toFoodItem(draft: IngredientDraft): FoodItem {
+  return {
+    name: draft.name.trim(),
+    quantity: draft.quantity.trim() || '1 serving',
+    calories: parseMacro(draft.calories),
+    protein: parseMacro(draft.protein),
+    carbs: parseMacro(draft.carbs),
+    fat: parseMacro(draft.fat),
+    ...draft.micronutrients,
+  };
+}
+
+const MACRO_FIELDS: { field: 'calories' | 'protein' | 'carbs' | 'fat'; label: string }[] = [
+  { field: 'calories', label: 'Cal' },
+  { field: 'protein', label: 'P' },
+  { field: 'carbs', label: 'C' },
+  { field: 'fat', label: 'F' },
+];
+
+export function RecipeEditorScreen() {
+  const navigation = useNavigation<RecipeEditorScreenNavigationProp>();
+  const route = useRoute<RecipeEditorScreenRouteProp>();
+  const recipeID = route.params?.recipeID;
+  const { user } = useAppDataContext();
+  const [name, setName] = useState('');
+  const [servings, setServings] = useState('1');
+  const [ingredients, setIngredients] = useState<IngredientDraft[]>([createDraft()]);
+  const [loading, setLoading] = useState(recipeID !== undefined);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the recipe being edited
+  useEffect(() => {
+    if (!recipeID) return;
+    getRecipe(recipeID)
+      .then((recipe) => {
+        if (!recipe) {
+          setError('Recipe not found');
+          return;
+        }
+        setName(recipe.name);
+        setServings(String(recipe.servings));
+        setIngredients(recipe.ingredients.length > 0 ? recipe.ingredients.map(createDraft) : [createDraft()]);
+      })
+      .catch(() => setError('Failed to load recipe'))
+      .finally(() => setLoading(false));
+  }, [recipeID]);
+
+  const updateIngredient = (key: string, changes: Partial<IngredientDraft>) => {
+    setIngredients((prev) => prev.map((i) => (i.key === key ? { ...i, ...changes } : i)));
+  };
+
+  const removeIngredient = (key: string) => {
+    setIngredients((prev) => prev.filter((i) => i.key !== key));
+  };
+
+  const completeIngredients = ingredients.filter((i) => i.name.trim()).map(toFoodItem);
+  const servingsNum = parseFloat(servings);
+  const isValid = name.trim().length > 0 && servingsNum > 0 && completeIngredients.length > 0;
+  const totals = getRecipeTotals(completeIngredients);
+  const perServing = getRecipePerServing({
+    name: name.trim(),
+    servings: servingsNum > 0 ? servingsNum : 1,
+    ingredients: completeIngredients,
+  });
+
+  const handleSave = async () => {
+    if (!user || !isValid) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveRecipe(user.userID, {
+        recipeID,
+        name: name.trim(),
+        servings: servingsNum,
+        ingredients: completeIngredients,
+      });
+      navigation.goBack();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save recipe');
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!recipeID) return;
+
+    Alert.alert(
+      'Delete recipe?',
+      'Food you already logged from this recipe will not change.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteRecipe(recipeID);
+              navigation.goBack();
+            } catch (err) {
+              setError(err instanceof Error ? err.message : 'Failed to delete recipe');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        style={styles.keyboardView}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={() => navigation.goBack()}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="chevron-back" size={24} color="#fff" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{recipeID ? 'Edit Recipe' : 'New Recipe'}</Text>
+          {recipeID ? (
+            <TouchableOpacity style={styles.headerButton} onPress={handleDelete} activeOpacity={0.7}>
+              <Ionicons name="trash-outline" size={20} color="#ff6b6b" />
+            </TouchableOpacity>
+          ) : (
+            <View style={styles.headerButton} />
+          )}
+        </View>
+
+        {loading ? (
+          <ActivityIndicator style={styles.loading} color="#fff" />
+        ) : (
+          <ScrollView
+            style={styles.content}
+            contentContainerStyle={styles.contentContainer}
+            keyboardShouldPersistTaps="handled"
+          >
+            {/* Details */}
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionLabel}>RECIPE</Text>
+              </View>
+              <View style={styles.inputRow}>
+                <Text style={styles.inputLabel}>Name</Text>
+                <TextInput
+                  style={[styles.input, styles.nameInput]}
+                  value={name}
+                  onChangeText={setName}
+                  placeholder="e.g. Turkey chili"
+                  placeholderTextColor="#555"
+                />
+              </View>
+              <View style={styles.inputRow}>
+                <Text style={styles.inputLabel}>Servings</Text>
+                <TextInput
+                  style={styles.input}
+                  value={servings}
+                  onChangeText={setServings}
+                  keyboardType="decimal-pad"
+                  placeholder="1"
+                  placeholderTextColor="#555"
+                  selectTextOnFocus
+                />
+              </View>
+            </View>
+
+            {/* Ingredients */}
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionLabel}>INGREDIENTS</Text>
+              </View>
+              {ingredients.map((ingredient) => (
+                <View key={ingredient.key} style={styles.ingredientRow}>
+                  <View style={styles.ingredientHeader}>
+                    <TextInput
+                      style={[styles.ingredientInput, styles.ingredientName]}
+                      value={ingredient.name}
+                      onChangeText={(text) => updateIngredient(ingredient.key, { name: text })}
+                      placeholder="Ingredient"
+                      placeholderTextColor="#555"
+                    />
+                    <TextInput
+                      style={[styles.ingredientInput, styles.ingredientQuantity]}
+                      value={ingredient.quantity}
+                      onChangeText={(text) => updateIngredient(ingredient.key, { quantity: text })}
+                      placeholder="Amount"
+                      placeholderTextColor="#555"
+                    />
+                    <TouchableOpacity
+                      onPress={() => removeIngredient(ingredient.key)}
+                      hitSlop={8}
+                      activeOpacity={0.7}
+                    >
+                      <Ionicons name="close-circle" size={20} color="#555" />
+                    </TouchableOpacity>
+                  </View>
+                  <View style={styles.macroRow}>
+                    {MACRO_FIELDS.map(({ field, label }) => (
+                      <View key={field} style={styles.macroField}>
+                        <TextInput
+                          style={[styles.ingredientInput, styles.macroInput]}
+                          value={ingredient[field]}
+                          onChangeText={(text) => updateIngredient(ingredient.key, { [field]: text })}
+                          keyboardType="numeric"
+                          placeholder="0"
+                          placeholderTextColor="#555"
+                          selectTextOnFocus
+                        />
+                        <Text style={styles.macroLabel}>{label}</Text>
+                      </View>
+                    ))}
+                  </View>
+                </View>
+              ))}
+              <TouchableOpacity
+                style={styles.addIngredientButton}
+                onPress={() => setIngredients((prev) => [...prev, createDraft()])}
+                activeOpacity={0.7}
+              >
+                <Ionicons name="add" size={18} color="#3FE0DB" />
+                <Text style={styles.addIngredientText}>Add ingredient</Text>
+              </TouchableOpacity>
+            </View>
+
+            {/* Totals */}
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionLabel}>NUTRITION</Text>
+              </View>
+              <View style={styles.infoRow}>
+                <Text style={styles.infoLabel}>Whole recipe</Text>
+                <Text style={styles.infoValue}>
+                  {totals.calories} cal · {totals.protein}P {totals.carbs}C {totals.fat}F
+                </Text>
+              </View>
+              <View style={styles.infoRow}>
+                <Text style={styles.infoLabel}>Per serving</Text>
+                <Text style={styles.infoValue}>
+                  {perServing.calories} cal · {perServing.protein}P {perServing.carbs}C {perServing.fat}F
+                </Text>
+              </View>
+            </View>
+
+            {error && (
+              <View style={styles.errorContainer}>
+                <Text style={styles.errorText}>{error}</Text>
+              </View>
+            )}
+          </ScrollView>
+        )}
+
+        {/* Bottom Buttons */}
+        <View style={styles.buttonContainer}>
+          <TouchableOpacity
+            style={styles.cancelButton}
+            onPress={() => navigation.goBack()}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.cancelButtonText}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.saveButton, (!isValid || isSaving) && styles.saveButtonDisabled]}
+            onPress={handleSave}
+            activeOpacity={0.7}
+            disabled={!isValid || isSaving}
+          >
+            <Text style={[styles.saveButtonText, (!isValid || isSaving) && styles.saveButtonTextDisabled]}>
+              {isSaving ? 'Saving...' : 'Save'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  keyboardView: {
+    flex: 1,
+  },
+
+  // Header
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 18,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+
+  // Content
+  loading: {
+    paddingVertical: 48,
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 24,
+    paddingBottom: 100,
+  },
+
+  // Section
+  section: {
+    marginBottom: 32,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  sectionLabel: {
+    color: '#666',
+    fontSize: 12,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+
+  // Input Row
+  inputRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+  },
+  inputLabel: {
+    color: '#888',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+  },
+  input: {
+    backgroundColor: '#1a1a1a',
+    borderWidth: 1,
+    borderColor: '#333',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    minWidth: 100,
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'DIN Alternate',
+    fontWeight: '600',
+    textAlign: 'right',
+  },
+  nameInput: {
+    flex: 1,
+    marginLeft: 24,
+    fontFamily: 'Avenir Next',
+  },
+
+  // Ingredients
+  ingredientRow: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+    gap: 8,
+  },
+  ingredientHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  ingredientInput: {
+    backgroundColor: '#1a1a1a',
+    borderWidth: 1,
+    borderColor: '#333',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    color: '#fff',
+    fontSize: 15,
+    fontFamily: 'Avenir Next',
+  },
+  ingredientName: {
+    flex: 2,
+  },
+  ingredientQuantity: {
+    flex: 1,
+  },
+  macroRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingRight: 28,
+  },
+  macroField: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  macroInput: {
+    flex: 1,
+    fontFamily: 'DIN Alternate',
+    fontWeight: '600',
+    textAlign: 'right',
+  },
+  macroLabel: {
+    color: '#666',
+    fontSize: 13,
+    fontFamily: 'Avenir Next',
+  },
+  addIngredientButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 14,
+  },
+  addIngredientText: {
+    color: '#3FE0DB',
+    fontSize: 15,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+
+  // Info Row
+  infoRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+  },
+  infoLabel: {
+    color: '#888',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+  },
+  infoValue: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'DIN Alternate',
+    fontWeight: '600',
+  },
+
+  // Error
+  errorContainer: {
+    backgroundColor: '#2a1a1a',
+    borderRadius: 8,
+    padding: 12,
+  },
+  errorText: {
+    color: '#ff6b6b',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    textAlign: 'center',
+  },
+
+  // Bottom Buttons
+  buttonContainer: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#2a2a2a',
+  },
+  cancelButton: {
+    flex: 1,
+    backgroundColor: '#2a2a2a',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  saveButton: {
+    flex: 1,
+    backgroundColor: '#fff',
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    backgroundColor: '#333',
+  },
+  saveButtonText: {
+    color: '#000',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  saveButtonTextDisabled: {
+    color: '#666',
+  },
+});
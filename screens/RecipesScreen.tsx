@@ -0,0 +1,222 @@
+import { useState, useCallback } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  FlatList,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useAppDataContext } from '../contexts/AppDataContext';
+import { RecipesScreenNavigationProp } from '../navigation/types';
+import { getRecipes } from '../services/storage';
+import { getRecipePerServing } from '../services/recipes';
+import { Recipe } from '../types';
+
+export function RecipesScreen() {
+  const navigation = useNavigation<RecipesScreenNavigationProp>();
+  const { user } = useAppDataContext();
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload whenever we come back from the editor
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) return;
+      getRecipes(user.userID)
+        .then((result) => {
+          setRecipes(result);
+          setError(null);
+        })
+        .catch(() => setError('Failed to load recipes'))
+        .finally(() => setLoading(false));
+    }, [user])
+  );
+
+  const renderRecipe = ({ item }: { item: Recipe }) => {
+    const perServing = getRecipePerServing(item);
+    return (
+      <TouchableOpacity
+        style={styles.recipeRow}
+        onPress={() => navigation.navigate('RecipeEditor', { recipeID: item.recipeID })}
+        activeOpacity={0.7}
+      >
+        <View style={styles.recipeInfo}>
+          <Text style={styles.recipeName} numberOfLines={1}>{item.name}</Text>
+          <Text style={styles.recipeDetail} numberOfLines={1}>
+            {item.servings} {item.servings === 1 ? 'serving' : 'servings'}  ·  {item.ingredients.length}{' '}
+            {item.ingredients.length === 1 ? 'ingredient' : 'ingredients'}
+          </Text>
+        </View>
+        <View style={styles.recipeMacros}>
+          <Text style={styles.recipeCalories}>{perServing.calories} cal</Text>
+          <Text style={styles.recipeDetail}>
+            {perServing.protein}P {perServing.carbs}C {perServing.fat}F
+          </Text>
+        </View>
+        <Ionicons name="chevron-forward" size={18} color="#555" />
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={() => navigation.goBack()}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="chevron-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Recipes</Text>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={() => navigation.navigate('RecipeEditor')}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="add" size={26} color="#fff" />
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <ActivityIndicator style={styles.loading} color="#fff" />
+      ) : (
+        <FlatList
+          data={recipes}
+          keyExtractor={(item) => item.recipeID}
+          renderItem={renderRecipe}
+          contentContainerStyle={styles.listContent}
+          ListHeaderComponent={
+            error ? (
+              <View style={styles.errorContainer}>
+                <Text style={styles.errorText}>{error}</Text>
+              </View>
+            ) : null
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Text style={styles.emptyTitle}>No recipes yet</Text>
+              <Text style={styles.emptyText}>
+                Add the dishes you cook often. Say "a bowl of my chili" and it will be logged with the
+                recipe's per-serving macros.
+              </Text>
+            </View>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+
+  // Header
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 18,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+
+  // List
+  loading: {
+    paddingVertical: 48,
+  },
+  listContent: {
+    padding: 24,
+    paddingBottom: 100,
+  },
+  recipeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+  },
+  recipeInfo: {
+    flex: 1,
+  },
+  recipeName: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  recipeDetail: {
+    color: '#888',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    marginTop: 2,
+  },
+  recipeMacros: {
+    alignItems: 'flex-end',
+  },
+  recipeCalories: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'DIN Alternate',
+    fontWeight: '600',
+  },
+
+  // Empty
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 48,
+    paddingHorizontal: 16,
+  },
+  emptyTitle: {
+    color: '#fff',
+    fontSize: 18,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  emptyText: {
+    color: '#666',
+    fontSize: 15,
+    fontFamily: 'Avenir Next',
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+
+  // Error
+  errorContainer: {
+    backgroundColor: '#2a1a1a',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 16,
+  },
+  errorText: {
+    color: '#ff6b6b',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,347 @@
+import { useState, useEffect } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  TextInput,
+  SectionList,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useAppDataContext } from '../contexts/AppDataContext';
+import { SearchScreenNavigationProp } from '../navigation/types';
+import { searchFoodEntries, copyFoodEntries, formatLocalDate } from '../services/storage';
+import { getMealName } from '../services/mealSlots';
+import { FoodEntryWithDate } from '../types';
+
+const ACCENT_COLOR = '#3FE0DB';
+const SEARCH_DEBOUNCE_MS = 250;
+
+interface DateSection {
+  date: string;
+  data: FoodEntryWithDate[];
+}
+
+// "Today", "Yesterday", or e.g. "Mon, Mar 3, 2025"
+function formatSectionDate(dateStr: string): string {
+  const now = new Date();
+  if (dateStr === formatLocalDate(now)) return 'Today';
+  if (dateStr === formatLocalDate(new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1))) {
+    return 'Yesterday';
+  }
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+// Results arrive sorted by date, so consecutive entries share a section
+function groupByDate(entries: FoodEntryWithDate[]): DateSection[] {
+  const sections: DateSection[] = [];
+  for (const entry of entries) {
+    const last = sections[sections.length - 1];
+    if (last && last.date === entry.date) {
+      last.data.push(entry);
+    } else {
+      sections.push({ date: entry.date, data: [entry] });
+    }
+  }
+  return sections;
+}
+
+export function SearchScreen() {
+  const navigation = useNavigation<SearchScreenNavigationProp>();
+  const { user, mealSlots, changeDate, invalidateCache, refresh } = useAppDataContext();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<FoodEntryWithDate[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [relogID, setRelogID] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  // Search as the user types, ignoring responses for stale queries
+  useEffect(() => {
+    if (!user || !query.trim()) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+    const timeout = setTimeout(() => {
+      searchFoodEntries(user.userID, query)
+        .then((entries) => {
+          if (!cancelled) setResults(entries);
+        })
+        .catch(() => {
+          if (!cancelled) setMessage({ text: 'Search failed', isError: true });
+        })
+        .finally(() => {
+          if (!cancelled) setSearching(false);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [user, query]);
+
+  const handleOpenDay = (entry: FoodEntryWithDate) => {
+    changeDate(entry.date);
+    navigation.navigate('Home');
+  };
+
+  const handleRelog = async (entry: FoodEntryWithDate) => {
+    if (!user) return;
+    const today = formatLocalDate(new Date());
+    setRelogID(entry.foodEntryID);
+    setMessage(null);
+    try {
+      await copyFoodEntries(user.userID, [entry.foodEntryID], today);
+      invalidateCache(today);
+      await refresh();
+      setMessage({ text: `Added ${entry.name} to today's ${getMealName(mealSlots, entry.mealType).toLowerCase()}`, isError: false });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Failed to log item', isError: true });
+    } finally {
+      setRelogID(null);
+    }
+  };
+
+  const renderEntry = ({ item }: { item: FoodEntryWithDate }) => (
+    <TouchableOpacity style={styles.entryRow} onPress={() => handleOpenDay(item)} activeOpacity={0.7}>
+      <View style={styles.entryInfo}>
+        <Text style={styles.entryName} numberOfLines={1}>{item.name}</Text>
+        <Text style={styles.entryDetail} numberOfLines={1}>
+          {item.quantity}  ·  {getMealName(mealSlots, item.mealType)}
+        </Text>
+      </View>
+      <View style={styles.entryMacros}>
+        <Text style={styles.entryCalories}>{item.calories} cal</Text>
+        <Text style={styles.entryDetail}>
+          {item.protein}P {item.carbs}C {item.fat}F
+        </Text>
+      </View>
+      <TouchableOpacity
+        onPress={() => handleRelog(item)}
+        disabled={relogID !== null}
+        hitSlop={10}
+        activeOpacity={0.7}
+      >
+        {relogID === item.foodEntryID ? (
+          <ActivityIndicator size="small" color={ACCENT_COLOR} />
+        ) : (
+          <Ionicons name="add-circle-outline" size={24} color={ACCENT_COLOR} />
+        )}
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.headerButton}
+          onPress={() => navigation.goBack()}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="chevron-back" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Search</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      {/* Search Field */}
+      <View style={styles.searchRow}>
+        <Ionicons name="search" size={18} color="#666" />
+        <TextInput
+          style={styles.searchInput}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search everything you've logged"
+          placeholderTextColor="#555"
+          autoFocus
+          autoCorrect={false}
+          returnKeyType="search"
+          clearButtonMode="while-editing"
+        />
+        {searching && <ActivityIndicator size="small" color="#888" />}
+      </View>
+
+      {message && (
+        <View style={message.isError ? styles.errorContainer : styles.messageContainer}>
+          <Text style={message.isError ? styles.errorText : styles.messageText}>{message.text}</Text>
+        </View>
+      )}
+
+      <SectionList
+        sections={groupByDate(results)}
+        keyExtractor={(item) => item.foodEntryID}
+        renderItem={renderEntry}
+        renderSectionHeader={({ section }) => (
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>{formatSectionDate(section.date)}</Text>
+          </View>
+        )}
+        stickySectionHeadersEnabled={false}
+        keyboardShouldPersistTaps="handled"
+        contentContainerStyle={styles.listContent}
+        ListEmptyComponent={
+          query.trim() && !searching ? (
+            <View style={styles.emptyContainer}>
+              <Text style={styles.emptyText}>No matches for "{query.trim()}"</Text>
+            </View>
+          ) : null
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+
+  // Header
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 18,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+
+  // Search Field
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginHorizontal: 24,
+    marginTop: 16,
+    paddingHorizontal: 14,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 12,
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+  },
+
+  // List
+  listContent: {
+    paddingHorizontal: 24,
+    paddingBottom: 100,
+  },
+  sectionHeader: {
+    paddingTop: 24,
+    paddingBottom: 4,
+  },
+  sectionTitle: {
+    color: '#666',
+    fontSize: 12,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryName: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  entryDetail: {
+    color: '#888',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    marginTop: 2,
+  },
+  entryMacros: {
+    alignItems: 'flex-end',
+  },
+  entryCalories: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'DIN Alternate',
+    fontWeight: '600',
+  },
+
+  // Empty
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 48,
+  },
+  emptyText: {
+    color: '#666',
+    fontSize: 15,
+    fontFamily: 'Avenir Next',
+    textAlign: 'center',
+  },
+
+  // Messages
+  messageContainer: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 8,
+    padding: 12,
+    marginHorizontal: 24,
+    marginTop: 12,
+  },
+  messageText: {
+    color: '#888',
+    fontSize: 13,
+    fontFamily: 'Avenir Next',
+    textAlign: 'center',
+  },
+  errorContainer: {
+    backgroundColor: '#2a1a1a',
+    borderRadius: 8,
+    padding: 12,
+    marginHorizontal: 24,
+    marginTop: 12,
+  },
+  errorText: {
+    color: '#ff6b6b',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    textAlign: 'center',
+  },
+});
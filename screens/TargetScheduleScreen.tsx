@@ -0,0 +1,651 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  StyleSheet,
+  Text,
+  View,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useAppDataContext } from '../contexts/AppDataContext';
+import { TargetScheduleScreenNavigationProp } from '../navigation/types';
+import {
+  getWeekdayTargets,
+  setWeekdayTargets,
+  getDayTypes,
+  saveDayType,
+  deleteDayType,
+  getDayTypeAssignments,
+  assignDayType,
+  formatLocalDate,
+} from '../services/storage';
+import { DayType, TargetValues, WeekdayTargets } from '../types';
+
+const ACCENT_COLOR = '#3FE0DB';
+const UPCOMING_DAYS = 14;
+
+// Monday first; values are Date.getDay() numbers
+const WEEKDAYS: { weekday: number; label: string }[] = [
+  { weekday: 1, label: 'Monday' },
+  { weekday: 2, label: 'Tuesday' },
+  { weekday: 3, label: 'Wednesday' },
+  { weekday: 4, label: 'Thursday' },
+  { weekday: 5, label: 'Friday' },
+  { weekday: 6, label: 'Saturday' },
+  { weekday: 0, label: 'Sunday' },
+];
+
+const MACRO_FIELDS: { field: keyof TargetValues; label: string }[] = [
+  { field: 'calories', label: 'Cal' },
+  { field: 'protein', label: 'P' },
+  { field: 'carbs', label: 'C' },
+  { field: 'fat', label: 'F' },
+];
+
+function formatTargets(targets: TargetValues): string {
+  return `${targets.calories} cal · ${targets.protein}P ${targets.carbs}C ${targets.fat}F`;
+}
+
+function TargetEditor({
+  initial,
+  initialName,
+  onSave,
+  onCancel,
+  onRemove,
+  removeLabel,
+}: {
+  initial: TargetValues;
+  initialName?: string; // shows a name field when set
+  onSave: (values: TargetValues, name: string) => Promise<void>;
+  onCancel: () => void;
+  onRemove?: () => void;
+  removeLabel?: string;
+}) {
+  const [name, setName] = useState(initialName ?? '');
+  const [values, setValues] = useState<Record<keyof TargetValues, string>>({
+    calories: String(initial.calories),
+    protein: String(initial.protein),
+    carbs: String(initial.carbs),
+    fat: String(initial.fat),
+  });
+  const [saving, setSaving] = useState(false);
+
+  const parsed = {
+    calories: parseInt(values.calories, 10),
+    protein: parseInt(values.protein, 10),
+    carbs: parseInt(values.carbs, 10),
+    fat: parseInt(values.fat, 10),
+  };
+  const isValid = Object.values(parsed).every((v) => Number.isFinite(v) && v >= 0) &&
+    (initialName === undefined || name.trim().length > 0);
+
+  const handleSave = async () => {
+    if (!isValid) return;
+    setSaving(true);
+    try {
+      await onSave(parsed, name.trim());
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.editor}>
+      {initialName !== undefined && (
+        <TextInput
+          style={[styles.editorInput, styles.editorNameInput]}
+          value={name}
+          onChangeText={setName}
+          placeholder="Name, e.g. Training"
+          placeholderTextColor="#555"
+        />
+      )}
+      <View style={styles.editorMacros}>
+        {MACRO_FIELDS.map(({ field, label }) => (
+          <View key={field} style={styles.editorField}>
+            <TextInput
+              style={[styles.editorInput, styles.editorMacroInput]}
+              value={values[field]}
+              onChangeText={(text) => setValues((prev) => ({ ...prev, [field]: text }))}
+              keyboardType="numeric"
+              placeholder="0"
+              placeholderTextColor="#555"
+              selectTextOnFocus
+            />
+            <Text style={styles.editorLabel}>{label}</Text>
+          </View>
+        ))}
+      </View>
+      <View style={styles.editorActions}>
+        {onRemove ? (
+          <TouchableOpacity onPress={onRemove} activeOpacity={0.7}>
+            <Text style={styles.removeText}>{removeLabel}</Text>
+          </TouchableOpacity>
+        ) : (
+          <View />
+        )}
+        <View style={styles.editorButtons}>
+          <TouchableOpacity style={styles.smallCancelButton} onPress={onCancel} activeOpacity={0.7}>
+            <Text style={styles.smallCancelText}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.smallSaveButton, (!isValid || saving) && styles.smallSaveButtonDisabled]}
+            onPress={handleSave}
+            disabled={!isValid || saving}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.smallSaveText}>{saving ? 'Saving...' : 'Save'}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+export function TargetScheduleScreen() {
+  const navigation = useNavigation<TargetScheduleScreenNavigationProp>();
+  const { user, targets, invalidateCache, refresh } = useAppDataContext();
+  const [weekdayTargets, setWeekdayTargetsState] = useState<WeekdayTargets[]>([]);
+  const [dayTypes, setDayTypes] = useState<DayType[]>([]);
+  const [assignments, setAssignments] = useState<Record<string, string>>({});
+  // Which row is open for editing: "weekday-<n>", "daytype-<id>" or "daytype-new"
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const upcomingDates = Array.from({ length: UPCOMING_DAYS }, (_, i) => {
+    const date = new Date();
+    date.setDate(date.getDate() + i);
+    return date;
+  });
+  const startDate = formatLocalDate(upcomingDates[0]);
+  const endDate = formatLocalDate(upcomingDates[upcomingDates.length - 1]);
+
+  const loadSchedule = useCallback(async () => {
+    if (!user) return;
+    try {
+      const [weekdays, types, assigned] = await Promise.all([
+        getWeekdayTargets(user.userID),
+        getDayTypes(user.userID),
+        getDayTypeAssignments(user.userID, startDate, endDate),
+      ]);
+      setWeekdayTargetsState(weekdays);
+      setDayTypes(types);
+      setAssignments(assigned);
+    } catch {
+      setError('Failed to load schedule');
+    }
+  }, [user, startDate, endDate]);
+
+  useEffect(() => {
+    loadSchedule();
+  }, [loadSchedule]);
+
+  // Schedule changes can re-snapshot any cached day, so drop the whole cache
+  const afterChange = async () => {
+    setEditingKey(null);
+    setError(null);
+    await loadSchedule();
+    invalidateCache();
+    await refresh();
+  };
+
+  const runChange = async (change: () => Promise<void>) => {
+    try {
+      await change();
+      await afterChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update schedule');
+    }
+  };
+
+  const handleDeleteDayType = (dayType: DayType) => {
+    if (!user) return;
+    Alert.alert(
+      'Delete day type?',
+      `"${dayType.name}" will be unassigned from every date. Past days keep their targets.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => runChange(() => deleteDayType(user.userID, dayType.dayTypeID)),
+        },
+      ]
+    );
+  };
+
+  const renderWeekdayRow = ({ weekday, label }: { weekday: number; label: string }) => {
+    const key = `weekday-${weekday}`;
+    const custom = weekdayTargets.find((w) => w.weekday === weekday);
+
+    if (editingKey === key && user) {
+      return (
+        <View key={key} style={styles.editingRow}>
+          <Text style={styles.infoLabel}>{label}</Text>
+          <TargetEditor
+            initial={custom ?? targets}
+            onSave={(values) => runChange(() => setWeekdayTargets(user.userID, weekday, values))}
+            onCancel={() => setEditingKey(null)}
+            onRemove={custom ? () => runChange(() => setWeekdayTargets(user.userID, weekday, null)) : undefined}
+            removeLabel="Use base targets"
+          />
+        </View>
+      );
+    }
+
+    return (
+      <TouchableOpacity key={key} style={styles.infoRow} onPress={() => setEditingKey(key)} activeOpacity={0.7}>
+        <Text style={styles.infoLabel}>{label}</Text>
+        <Text style={custom ? styles.infoValue : styles.infoValueMuted}>
+          {custom ? formatTargets(custom) : 'Base'}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderDayTypeRow = (dayType: DayType) => {
+    const key = `daytype-${dayType.dayTypeID}`;
+
+    if (editingKey === key && user) {
+      return (
+        <View key={key} style={styles.editingRow}>
+          <TargetEditor
+            initial={dayType}
+            initialName={dayType.name}
+            onSave={(values, name) =>
+              runChange(async () => {
+                await saveDayType(user.userID, { dayTypeID: dayType.dayTypeID, name, ...values });
+              })
+            }
+            onCancel={() => setEditingKey(null)}
+            onRemove={() => handleDeleteDayType(dayType)}
+            removeLabel="Delete"
+          />
+        </View>
+      );
+    }
+
+    return (
+      <TouchableOpacity key={key} style={styles.infoRow} onPress={() => setEditingKey(key)} activeOpacity={0.7}>
+        <Text style={styles.infoLabel}>{dayType.name}</Text>
+        <Text style={styles.infoValue}>{formatTargets(dayType)}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        style={styles.keyboardView}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => navigation.goBack()}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="chevron-back" size={24} color="#fff" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Target Schedule</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={styles.contentContainer}
+          keyboardShouldPersistTaps="handled"
+        >
+          <View style={styles.hintContainer}>
+            <Text style={styles.hintText}>
+              New days use their assigned day type, then their weekday, then your base targets ({targets.calories} cal)
+            </Text>
+          </View>
+
+          {error && (
+            <View style={styles.errorContainer}>
+              <Text style={styles.errorText}>{error}</Text>
+            </View>
+          )}
+
+          {/* Weekdays */}
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionLabel}>WEEKDAYS</Text>
+            </View>
+            {WEEKDAYS.map(renderWeekdayRow)}
+          </View>
+
+          {/* Day Types */}
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionLabel}>DAY TYPES</Text>
+            </View>
+            {dayTypes.map(renderDayTypeRow)}
+            {editingKey === 'daytype-new' && user ? (
+              <View style={styles.editingRow}>
+                <TargetEditor
+                  initial={targets}
+                  initialName=""
+                  onSave={(values, name) =>
+                    runChange(async () => {
+                      await saveDayType(user.userID, { name, ...values });
+                    })
+                  }
+                  onCancel={() => setEditingKey(null)}
+                />
+              </View>
+            ) : (
+              <TouchableOpacity style={styles.addRow} onPress={() => setEditingKey('daytype-new')} activeOpacity={0.7}>
+                <Ionicons name="add" size={18} color={ACCENT_COLOR} />
+                <Text style={styles.addRowText}>Add day type</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {/* Assignments */}
+          {dayTypes.length > 0 && user && (
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionLabel}>NEXT {UPCOMING_DAYS} DAYS</Text>
+              </View>
+              {upcomingDates.map((date) => {
+                const dateStr = formatLocalDate(date);
+                const assigned = assignments[dateStr];
+                return (
+                  <View key={dateStr} style={styles.assignmentRow}>
+                    <Text style={styles.assignmentDate}>
+                      {date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}
+                    </Text>
+                    <View style={styles.chips}>
+                      {dayTypes.map((dayType) => {
+                        const active = assigned === dayType.dayTypeID;
+                        return (
+                          <TouchableOpacity
+                            key={dayType.dayTypeID}
+                            style={[styles.chip, active && styles.chipActive]}
+                            onPress={() => runChange(() => assignDayType(user.userID, dateStr, active ? null : dayType.dayTypeID))}
+                            activeOpacity={0.7}
+                          >
+                            <Text style={[styles.chipText, active && styles.chipTextActive]}>{dayType.name}</Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                  </View>
+                );
+              })}
+            </View>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  keyboardView: {
+    flex: 1,
+  },
+
+  // Header
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: -8,
+  },
+  headerTitle: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 18,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+
+  // Content
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 24,
+    paddingBottom: 100,
+  },
+
+  // Section
+  section: {
+    marginBottom: 32,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  sectionLabel: {
+    color: '#666',
+    fontSize: 12,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+
+  // Info Row
+  infoRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+  },
+  infoLabel: {
+    color: '#888',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+  },
+  infoValue: {
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'DIN Alternate',
+    fontWeight: '600',
+  },
+  infoValueMuted: {
+    color: '#555',
+    fontSize: 16,
+    fontFamily: 'Avenir Next',
+  },
+  editingRow: {
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+    gap: 12,
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 14,
+  },
+  addRowText: {
+    color: ACCENT_COLOR,
+    fontSize: 15,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+
+  // Editor
+  editor: {
+    gap: 12,
+  },
+  editorInput: {
+    backgroundColor: '#1a1a1a',
+    borderWidth: 1,
+    borderColor: '#333',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    color: '#fff',
+    fontSize: 15,
+  },
+  editorNameInput: {
+    fontFamily: 'Avenir Next',
+  },
+  editorMacros: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  editorField: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  editorMacroInput: {
+    flex: 1,
+    fontFamily: 'DIN Alternate',
+    fontWeight: '600',
+    textAlign: 'right',
+  },
+  editorLabel: {
+    color: '#666',
+    fontSize: 13,
+    fontFamily: 'Avenir Next',
+  },
+  editorActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  editorButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  removeText: {
+    color: '#ff6b6b',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  smallCancelButton: {
+    backgroundColor: '#2a2a2a',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  smallCancelText: {
+    color: '#fff',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  smallSaveButton: {
+    backgroundColor: '#fff',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  smallSaveButtonDisabled: {
+    backgroundColor: '#333',
+  },
+  smallSaveText: {
+    color: '#000',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+
+  // Assignments
+  assignmentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#2a2a2a',
+  },
+  assignmentDate: {
+    color: '#888',
+    fontSize: 15,
+    fontFamily: 'Avenir Next',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'flex-end',
+    gap: 6,
+    flexShrink: 1,
+    marginLeft: 12,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 12,
+    backgroundColor: '#1a1a1a',
+  },
+  chipActive: {
+    backgroundColor: ACCENT_COLOR,
+  },
+  chipText: {
+    color: '#888',
+    fontSize: 13,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  chipTextActive: {
+    color: '#000',
+  },
+
+  // Hint
+  hintContainer: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 24,
+  },
+  hintText: {
+    color: '#888',
+    fontSize: 13,
+    fontFamily: 'Avenir Next',
+    textAlign: 'center',
+  },
+
+  // Error
+  errorContainer: {
+    backgroundColor: '#2a1a1a',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 24,
+  },
+  errorText: {
+    color: '#ff6b6b',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+    textAlign: 'center',
+  },
+});
@@ -11,12 +11,17 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import Svg, { Line, Circle, Polyline, Rect, Text as SvgText } from 'react-native-svg';
-import { getTrendData } from '../services/storage';
-import { TrendDataPoint } from '../types';
+import { getTrendData, formatLocalDate } from '../services/storage';
+import { useAppDataContext } from '../contexts/AppDataContext';
+import { TrendDataPoint, MeasurementKey } from '../types';
+import { MEASUREMENTS } from '../services/measurements';
 
 const ACCENT_COLOR = '#3FE0DB';
 const CALORIE_COLOR = ACCENT_COLOR;
 const WEIGHT_COLOR = '#F59E0B';
+const WATER_COLOR = '#4DA3FF';
+const BODY_COLOR = '#A78BFA';
+const EXERCISE_COLOR = '#F97316';
 
 const CHART_HEIGHT = 220;
 const CHART_PADDING_LEFT = 50;
@@ -27,19 +32,20 @@ const CHART_PADDING_BOTTOM = 32;
 
 type RangeKey = '7d' | '30d' | '90d';
 
+type BodySeriesKey = MeasurementKey | 'leanMass';
+
+// Measurement series plus lean mass, which is only present on days with a body-fat reading
+const BODY_SERIES: { key: BodySeriesKey; label: string; unit: string }[] = [
+  ...MEASUREMENTS.map((m) => ({ key: m.key, label: m.label, unit: m.unit === '%' ? '%' : ' in' })),
+  { key: 'leanMass', label: 'Lean mass', unit: ' lbs' },
+];
+
 const RANGES: { key: RangeKey; label: string; days: number }[] = [
   { key: '7d', label: '7D', days: 7 },
   { key: '30d', label: '30D', days: 30 },
   { key: '90d', label: '90D', days: 90 },
 ];
 
-function formatLocalDate(date: Date): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  return `${year}-${month}-${day}`;
-}
-
 function getDateNDaysAgo(n: number): string {
   const d = new Date();
   d.setDate(d.getDate() - n);
@@ -274,6 +280,273 @@ function LineChart({
   );
 }
 
+/** One body series on the left axis with weight on the right, both as lines with dots */
+function BodyChart({
+  data,
+  seriesKey,
+  chartWidth,
+}: {
+  data: TrendDataPoint[];
+  seriesKey: BodySeriesKey;
+  chartWidth: number;
+}) {
+  const seriesPoints = data.filter((d) => d[seriesKey] !== null);
+  if (seriesPoints.length === 0) {
+    return (
+      <View style={[chartStyles.emptyContainer, { height: CHART_HEIGHT }]}>
+        <Text style={chartStyles.emptyText}>No measurements in this range</Text>
+      </View>
+    );
+  }
+
+  const weightPoints = data.filter((d) => d.weight !== null);
+  const plotWidth = chartWidth - CHART_PADDING_LEFT - CHART_PADDING_RIGHT_DUAL;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING_TOP - CHART_PADDING_BOTTOM;
+
+  const seriesRange = niceRange(seriesPoints.map((d) => d[seriesKey]!));
+  const weightRange = niceRange(weightPoints.map((d) => d.weight!));
+
+  const xScale = (i: number) =>
+    CHART_PADDING_LEFT + (data.length === 1 ? plotWidth / 2 : (i / (data.length - 1)) * plotWidth);
+  const ySeries = (val: number) =>
+    CHART_PADDING_TOP + plotHeight - ((val - seriesRange.min) / (seriesRange.max - seriesRange.min)) * plotHeight;
+  const yWeight = (val: number) =>
+    CHART_PADDING_TOP + plotHeight - ((val - weightRange.min) / (weightRange.max - weightRange.min)) * plotHeight;
+
+  const buildPolyline = (points: TrendDataPoint[], yFn: (val: number) => number, valueKey: BodySeriesKey | 'weight') =>
+    points.map((p) => `${xScale(data.indexOf(p))},${yFn(p[valueKey]!)}`).join(' ');
+
+  const seriesTicks: number[] = [];
+  for (let v = seriesRange.min; v <= seriesRange.max; v += seriesRange.step) seriesTicks.push(Math.round(v * 100) / 100);
+  const weightTicks: number[] = [];
+  if (weightPoints.length > 0) {
+    for (let v = weightRange.min; v <= weightRange.max; v += weightRange.step) weightTicks.push(Math.round(v * 100) / 100);
+  }
+
+  const labelCount = Math.min(5, data.length);
+  const labelIndices: number[] = [];
+  if (data.length <= labelCount) {
+    for (let i = 0; i < data.length; i++) labelIndices.push(i);
+  } else {
+    for (let i = 0; i < labelCount; i++) {
+      labelIndices.push(Math.round((i / (labelCount - 1)) * (data.length - 1)));
+    }
+  }
+
+  const formatTick = (tick: number) => (Number.isInteger(tick) ? String(tick) : tick.toFixed(1));
+
+  return (
+    <Svg width={chartWidth} height={CHART_HEIGHT}>
+      {/* Grid and left Y-axis labels */}
+      {seriesTicks.map((tick) => (
+        <Line
+          key={`grid-${tick}`}
+          x1={CHART_PADDING_LEFT}
+          x2={chartWidth - CHART_PADDING_RIGHT_DUAL}
+          y1={ySeries(tick)}
+          y2={ySeries(tick)}
+          stroke="#222"
+          strokeWidth={1}
+        />
+      ))}
+      {seriesTicks.map((tick) => (
+        <SvgText
+          key={`ytick-${tick}`}
+          x={CHART_PADDING_LEFT - 6}
+          y={ySeries(tick) + 4}
+          textAnchor="end"
+          fontSize={11}
+          fill="#666"
+          fontFamily="DIN Alternate"
+        >
+          {formatTick(tick)}
+        </SvgText>
+      ))}
+
+      {/* Right Y-axis labels (weight) */}
+      {weightTicks.map((tick) => (
+        <SvgText
+          key={`wytick-${tick}`}
+          x={chartWidth - CHART_PADDING_RIGHT_DUAL + 6}
+          y={yWeight(tick) + 4}
+          textAnchor="start"
+          fontSize={11}
+          fill={WEIGHT_COLOR}
+          fontFamily="DIN Alternate"
+        >
+          {formatTick(tick)}
+        </SvgText>
+      ))}
+
+      {/* X-axis labels */}
+      {labelIndices.map((idx) => (
+        <SvgText
+          key={`xlabel-${idx}`}
+          x={xScale(idx)}
+          y={CHART_HEIGHT - 6}
+          textAnchor="middle"
+          fontSize={11}
+          fill="#666"
+          fontFamily="DIN Alternate"
+        >
+          {formatAxisDate(data[idx].date)}
+        </SvgText>
+      ))}
+
+      {/* Weight line and dots */}
+      {weightPoints.length > 1 && (
+        <Polyline
+          points={buildPolyline(weightPoints, yWeight, 'weight')}
+          fill="none"
+          stroke={WEIGHT_COLOR}
+          strokeWidth={2}
+          strokeOpacity={0.5}
+          strokeLinejoin="round"
+          strokeLinecap="round"
+        />
+      )}
+      {weightPoints.map((p) => {
+        const idx = data.indexOf(p);
+        return <Circle key={`wt-${idx}`} cx={xScale(idx)} cy={yWeight(p.weight!)} r={2} fill={WEIGHT_COLOR} />;
+      })}
+
+      {/* Body series line and dots */}
+      {seriesPoints.length > 1 && (
+        <Polyline
+          points={buildPolyline(seriesPoints, ySeries, seriesKey)}
+          fill="none"
+          stroke={BODY_COLOR}
+          strokeWidth={2}
+          strokeLinejoin="round"
+          strokeLinecap="round"
+        />
+      )}
+      {seriesPoints.map((p) => {
+        const idx = data.indexOf(p);
+        return <Circle key={`body-${idx}`} cx={xScale(idx)} cy={ySeries(p[seriesKey]!)} r={3} fill={BODY_COLOR} />;
+      })}
+    </Svg>
+  );
+}
+
+/** Daily water as bars against the current goal, which is drawn as a dashed line */
+function HydrationChart({
+  data,
+  target,
+  chartWidth,
+}: {
+  data: TrendDataPoint[];
+  target: number;
+  chartWidth: number;
+}) {
+  const waterPoints = data.filter((d) => d.water !== null);
+  if (waterPoints.length === 0) {
+    return (
+      <View style={[chartStyles.emptyContainer, { height: CHART_HEIGHT }]}>
+        <Text style={chartStyles.emptyText}>No water logged in this range</Text>
+      </View>
+    );
+  }
+
+  const plotWidth = chartWidth - CHART_PADDING_LEFT - CHART_PADDING_RIGHT_DEFAULT;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING_TOP - CHART_PADDING_BOTTOM;
+  const range = niceRange([0, target, ...waterPoints.map((d) => d.water!)]);
+  const yWater = (val: number) =>
+    CHART_PADDING_TOP + plotHeight - ((val - range.min) / (range.max - range.min)) * plotHeight;
+
+  // One slot per date, with the bar centred in it
+  const slotWidth = plotWidth / data.length;
+  const barWidth = Math.max(Math.min(slotWidth * 0.6, 16), 2);
+  const xCenter = (i: number) => CHART_PADDING_LEFT + slotWidth * i + slotWidth / 2;
+
+  const ticks: number[] = [];
+  for (let v = range.min; v <= range.max; v += range.step) ticks.push(v);
+
+  const labelCount = Math.min(5, data.length);
+  const labelIndices: number[] = [];
+  if (data.length <= labelCount) {
+    for (let i = 0; i < data.length; i++) labelIndices.push(i);
+  } else {
+    for (let i = 0; i < labelCount; i++) {
+      labelIndices.push(Math.round((i / (labelCount - 1)) * (data.length - 1)));
+    }
+  }
+
+  return (
+    <Svg width={chartWidth} height={CHART_HEIGHT}>
+      {/* Grid and Y-axis labels */}
+      {ticks.map((tick) => (
+        <Line
+          key={`grid-${tick}`}
+          x1={CHART_PADDING_LEFT}
+          x2={chartWidth - CHART_PADDING_RIGHT_DEFAULT}
+          y1={yWater(tick)}
+          y2={yWater(tick)}
+          stroke="#222"
+          strokeWidth={1}
+        />
+      ))}
+      {ticks.map((tick) => (
+        <SvgText
+          key={`ytick-${tick}`}
+          x={CHART_PADDING_LEFT - 6}
+          y={yWater(tick) + 4}
+          textAnchor="end"
+          fontSize={11}
+          fill="#666"
+          fontFamily="DIN Alternate"
+        >
+          {String(tick)}
+        </SvgText>
+      ))}
+
+      {/* X-axis labels */}
+      {labelIndices.map((idx) => (
+        <SvgText
+          key={`xlabel-${idx}`}
+          x={xCenter(idx)}
+          y={CHART_HEIGHT - 6}
+          textAnchor="middle"
+          fontSize={11}
+          fill="#666"
+          fontFamily="DIN Alternate"
+        >
+          {formatAxisDate(data[idx].date)}
+        </SvgText>
+      ))}
+
+      {/* Bars */}
+      {waterPoints.map((p) => {
+        const idx = data.indexOf(p);
+        const y = yWater(p.water!);
+        return (
+          <Rect
+            key={`water-${idx}`}
+            x={xCenter(idx) - barWidth / 2}
+            y={y}
+            width={barWidth}
+            height={yWater(range.min) - y}
+            rx={2}
+            fill={WATER_COLOR}
+            opacity={p.water! >= target ? 1 : 0.6}
+          />
+        );
+      })}
+
+      {/* Goal line */}
+      <Line
+        x1={CHART_PADDING_LEFT}
+        x2={chartWidth - CHART_PADDING_RIGHT_DEFAULT}
+        y1={yWater(target)}
+        y2={yWater(target)}
+        stroke="#fff"
+        strokeWidth={1}
+        strokeDasharray="4,4"
+      />
+    </Svg>
+  );
+}
+
 const chartStyles = StyleSheet.create({
   emptyContainer: {
     alignItems: 'center',
@@ -288,26 +561,29 @@ const chartStyles = StyleSheet.create({
 
 export function TrendsScreen() {
   const navigation = useNavigation();
+  const { user, settings } = useAppDataContext();
   const [data, setData] = useState<TrendDataPoint[]>([]);
   const [loading, setLoading] = useState(true);
   const [range, setRange] = useState<RangeKey>('30d');
   const [showCalories, setShowCalories] = useState(true);
   const [showWeight, setShowWeight] = useState(true);
   const [chartWidth, setChartWidth] = useState(0);
+  const [bodySeries, setBodySeries] = useState<BodySeriesKey>('waist');
 
   const loadData = useCallback(async (days: number) => {
+    if (!user) return;
     setLoading(true);
     try {
       const endDate = formatLocalDate(new Date());
       const startDate = getDateNDaysAgo(days);
-      const result = await getTrendData('default-user', startDate, endDate);
+      const result = await getTrendData(user.userID, startDate, endDate);
       setData(result);
     } catch {
       setData([]);
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [user]);
 
   useEffect(() => {
     const days = RANGES.find((r) => r.key === range)!.days;
@@ -320,6 +596,27 @@ export function TrendsScreen() {
     return vals.length > 0 ? Math.round(vals.reduce((a, b) => a + b, 0) / vals.length) : null;
   })();
 
+  // Averaged over active days only
+  const burnedAvg = (() => {
+    const vals = data.filter((d) => d.caloriesBurned !== null && d.caloriesBurned > 0).map((d) => d.caloriesBurned!);
+    return vals.length > 0 ? Math.round(vals.reduce((a, b) => a + b, 0) / vals.length) : null;
+  })();
+
+  const bodySeriesInfo = BODY_SERIES.find((s) => s.key === bodySeries)!;
+
+  const bodyChange = (() => {
+    const values = data.filter((d) => d[bodySeries] !== null).map((d) => d[bodySeries]!);
+    if (values.length < 2) return null;
+    return Math.round((values[values.length - 1] - values[0]) * 10) / 10;
+  })();
+
+  const waterTarget = settings?.waterTarget ?? 64;
+
+  const waterAvg = (() => {
+    const vals = data.filter((d) => d.water !== null).map((d) => d.water!);
+    return vals.length > 0 ? Math.round(vals.reduce((a, b) => a + b, 0) / vals.length) : null;
+  })();
+
   const weightStart = (() => {
     const first = data.find((d) => d.weight !== null);
     return first?.weight ?? null;
@@ -422,6 +719,14 @@ export function TrendsScreen() {
               </Text>
             </View>
           )}
+          {burnedAvg !== null && (
+            <View style={styles.statCard}>
+              <Text style={styles.statLabel}>Avg Burned</Text>
+              <Text style={[styles.statValue, { color: EXERCISE_COLOR }]}>
+                {burnedAvg.toLocaleString()}
+              </Text>
+            </View>
+          )}
           {weightChange !== null && (
             <View style={styles.statCard}>
               <Text style={styles.statLabel}>Weight Change</Text>
@@ -431,6 +736,69 @@ export function TrendsScreen() {
             </View>
           )}
         </View>
+
+        {/* Body */}
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Body</Text>
+          <Text style={[styles.sectionSubtitle, { color: WEIGHT_COLOR }]}>vs weight</Text>
+        </View>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.toggleRow}>
+          {BODY_SERIES.map((series) => (
+            <TouchableOpacity
+              key={series.key}
+              style={[styles.toggleButton, bodySeries === series.key && styles.toggleButtonActiveBody]}
+              onPress={() => setBodySeries(series.key)}
+            >
+              <Text style={[styles.toggleText, bodySeries === series.key && styles.toggleTextActive]}>
+                {series.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+        <View style={styles.chartContainer}>
+          {loading ? (
+            <View style={{ height: CHART_HEIGHT, alignItems: 'center', justifyContent: 'center' }}>
+              <ActivityIndicator color="#fff" />
+            </View>
+          ) : chartWidth > 0 ? (
+            <BodyChart data={data} seriesKey={bodySeries} chartWidth={chartWidth} />
+          ) : null}
+        </View>
+        {bodyChange !== null && (
+          <View style={styles.statsRow}>
+            <View style={styles.statCard}>
+              <Text style={styles.statLabel}>{bodySeriesInfo.label} Change</Text>
+              <Text style={[styles.statValue, { color: BODY_COLOR }]}>
+                {bodyChange > 0 ? '+' : ''}{bodyChange}{bodySeriesInfo.unit}
+              </Text>
+            </View>
+          </View>
+        )}
+
+        {/* Hydration */}
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Hydration</Text>
+          <Text style={styles.sectionSubtitle}>Goal {waterTarget} oz</Text>
+        </View>
+        <View style={styles.chartContainer}>
+          {loading ? (
+            <View style={{ height: CHART_HEIGHT, alignItems: 'center', justifyContent: 'center' }}>
+              <ActivityIndicator color="#fff" />
+            </View>
+          ) : chartWidth > 0 ? (
+            <HydrationChart data={data} target={waterTarget} chartWidth={chartWidth} />
+          ) : null}
+        </View>
+        {waterAvg !== null && (
+          <View style={styles.statsRow}>
+            <View style={styles.statCard}>
+              <Text style={styles.statLabel}>Avg Water</Text>
+              <Text style={[styles.statValue, { color: WATER_COLOR }]}>
+                {waterAvg} oz
+              </Text>
+            </View>
+          </View>
+        )}
       </ScrollView>
     </SafeAreaView>
   );
@@ -510,6 +878,9 @@ const styles = StyleSheet.create({
   toggleButtonActiveWeight: {
     borderColor: WEIGHT_COLOR,
   },
+  toggleButtonActiveBody: {
+    borderColor: BODY_COLOR,
+  },
   toggleDot: {
     width: 8,
     height: 8,
@@ -524,6 +895,22 @@ const styles = StyleSheet.create({
   toggleTextActive: {
     color: '#fff',
   },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    justifyContent: 'space-between',
+  },
+  sectionTitle: {
+    color: '#fff',
+    fontSize: 18,
+    fontFamily: 'Avenir Next',
+    fontWeight: '600',
+  },
+  sectionSubtitle: {
+    color: '#888',
+    fontSize: 14,
+    fontFamily: 'Avenir Next',
+  },
   chartContainer: {
     backgroundColor: '#1a1a1a',
     borderRadius: 12,
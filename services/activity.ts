@@ -0,0 +1,56 @@
+/**
+ * Exercise helpers: intensity metadata, calorie-burn estimates and validation
+ */
+
+import type { ActivityIntensity, ActivityItem, ActivityLog } from '../types';
+
+export interface ActivityIntensityInfo {
+  key: ActivityIntensity;
+  label: string;
+  met: number; // metabolic equivalent used for offline estimates
+}
+
+export const ACTIVITY_INTENSITIES: ActivityIntensityInfo[] = [
+  { key: 'light', label: 'Light', met: 3.5 },
+  { key: 'moderate', label: 'Moderate', met: 6 },
+  { key: 'vigorous', label: 'Vigorous', met: 9 },
+];
+
+// Used for estimates when the user has never logged a weight
+const FALLBACK_WEIGHT_LBS = 170;
+const MAX_DURATION_MINUTES = 24 * 60;
+
+/**
+ * Estimate calories burned from intensity, duration and body weight
+ * kcal = MET × 3.5 × kg / 200 per minute
+ */
+export function estimateCaloriesBurned(
+  intensity: ActivityIntensity,
+  durationMinutes: number,
+  weightLbs: number | null
+): number {
+  const info = ACTIVITY_INTENSITIES.find((i) => i.key === intensity) ?? ACTIVITY_INTENSITIES[1];
+  const kg = (weightLbs ?? FALLBACK_WEIGHT_LBS) * 0.4536;
+  return Math.max(0, Math.round(((info.met * 3.5 * kg) / 200) * durationMinutes));
+}
+
+/**
+ * Clamp an activity to sane values: whole minutes and calories, a known intensity, a non-empty name
+ * Returns null when there is nothing worth logging
+ */
+export function normalizeActivityItem(item: ActivityItem): ActivityItem | null {
+  const name = item.name.trim();
+  const durationMinutes = Math.min(Math.round(item.durationMinutes), MAX_DURATION_MINUTES);
+  if (!name || !Number.isFinite(durationMinutes) || durationMinutes <= 0) return null;
+
+  const intensity = ACTIVITY_INTENSITIES.some((i) => i.key === item.intensity) ? item.intensity : 'moderate';
+  const caloriesBurned = Number.isFinite(item.caloriesBurned) ? Math.max(0, Math.round(item.caloriesBurned)) : 0;
+  return { name, durationMinutes, intensity, caloriesBurned };
+}
+
+/**
+ * Total calories burned across a day's activities
+ */
+export function sumCaloriesBurned(logs: ActivityLog[]): number {
+  return logs.reduce((sum, log) => sum + log.caloriesBurned, 0);
+}
@@ -0,0 +1,376 @@
+/**
+ * Full JSON backup and restore of all user data
+ * A backup is a versioned document with a checksum over its data, validated with zod on import
+ */
+
+import { z } from 'zod';
+import { File } from 'expo-file-system';
+import * as DocumentPicker from 'expo-document-picker';
+import { exportAllData, importAllData, getDatabaseSchemaVersion } from './storage';
+import { MIGRATIONS } from './migrations';
+import { shareTextFile } from './fileShare';
+import type { BackupDocument, BackupImportMode, BackupImportResult } from '../types';
+
+const BACKUP_FORMAT = 'heymacro-backup';
+const BACKUP_FORMAT_VERSION = 1;
+
+// Zod schemas for backup documents
+const timestamps = {
+  createdAt: z.string(),
+  updatedAt: z.string(),
+};
+
+const MealTypeSchema = z.string().min(1);
+const TimeSchema = z.string().regex(/^\d{2}:\d{2}$/);
+
+// Micronutrients were added after format version 1 shipped; missing means unknown
+const optionalNutrient = z.number().nullable().optional();
+
+const micronutrients = {
+  fiber: optionalNutrient,
+  sugar: optionalNutrient,
+  addedSugar: optionalNutrient,
+  sodium: optionalNutrient,
+  saturatedFat: optionalNutrient,
+  cholesterol: optionalNutrient,
+};
+
+const micronutrientTotals = {
+  totalFiber: optionalNutrient,
+  totalSugar: optionalNutrient,
+  totalAddedSugar: optionalNutrient,
+  totalSodium: optionalNutrient,
+  totalSaturatedFat: optionalNutrient,
+  totalCholesterol: optionalNutrient,
+};
+
+const BackupDataSchema = z.object({
+  users: z.array(z.object({
+    userID: z.string(),
+    firstName: z.string(),
+    lastName: z.string(),
+    ...timestamps,
+  })),
+  macro_targets: z.array(z.object({
+    userID: z.string(),
+    calories: z.number(),
+    protein: z.number(),
+    carbs: z.number(),
+    fat: z.number(),
+    ...micronutrients,
+    ...timestamps,
+  })),
+  user_settings: z.array(z.object({
+    userID: z.string(),
+    reviewBeforeSave: z.boolean(),
+    waterTarget: z.number().default(64), // older backups predate water tracking
+    exerciseAdjustsTarget: z.boolean().default(false), // older backups predate exercise logging
+    timelineView: z.boolean().default(false), // older backups predate the timeline view
+    integrityCheckOnLaunch: z.boolean().default(false), // older backups predate the launch check
+    ...timestamps,
+  })),
+  daily_logs: z.array(z.object({
+    dailyLogID: z.string(),
+    userID: z.string(),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    totalCalories: z.number(),
+    totalProtein: z.number(),
+    totalCarbs: z.number(),
+    totalFat: z.number(),
+    targetCalories: z.number(),
+    targetProtein: z.number(),
+    targetCarbs: z.number(),
+    targetFat: z.number(),
+    ...micronutrientTotals,
+    ...timestamps,
+  })),
+  food_entries: z.array(z.object({
+    foodEntryID: z.string(),
+    userID: z.string(),
+    dailyLogID: z.string(),
+    mealType: MealTypeSchema,
+    name: z.string(),
+    quantity: z.string(),
+    calories: z.number(),
+    protein: z.number(),
+    carbs: z.number(),
+    fat: z.number(),
+    ...micronutrients,
+    eatenAt: z.string().nullable().default(null), // older backups predate eaten-at times; missing means unknown
+    ...timestamps,
+  })),
+  weight_logs: z.array(z.object({
+    weightLogID: z.string(),
+    userID: z.string(),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    weight: z.number(),
+    ...timestamps,
+  })),
+  // Added after format version 1 shipped; older backups have no water logs
+  water_logs: z.array(z.object({
+    waterLogID: z.string(),
+    userID: z.string(),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    amount: z.number(),
+    ...timestamps,
+  })).default([]),
+  // Added after format version 1 shipped; older backups have no body measurements
+  body_measurements: z.array(z.object({
+    measurementID: z.string(),
+    userID: z.string(),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    waist: z.number().nullable(),
+    hips: z.number().nullable(),
+    chest: z.number().nullable(),
+    arms: z.number().nullable(),
+    thighs: z.number().nullable(),
+    neck: z.number().nullable(),
+    bodyFat: z.number().nullable(),
+    ...timestamps,
+  })).default([]),
+  // Added after format version 1 shipped; older backups have no activity logs
+  activity_logs: z.array(z.object({
+    activityLogID: z.string(),
+    userID: z.string(),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    name: z.string(),
+    durationMinutes: z.number(),
+    intensity: z.enum(['light', 'moderate', 'vigorous']),
+    caloriesBurned: z.number(),
+    ...timestamps,
+  })).default([]),
+  // Added after format version 1 shipped; older backups have no meal slots and get the defaults on first use
+  meal_slots: z.array(z.object({
+    mealSlotID: z.string(),
+    userID: z.string(),
+    mealType: MealTypeSchema,
+    name: z.string().min(1),
+    startTime: TimeSchema.nullable(),
+    endTime: TimeSchema.nullable(),
+    sortOrder: z.number().int(),
+    ...timestamps,
+  })).default([]),
+  // Added after format version 1 shipped; older backups have no saved foods
+  saved_foods: z.array(z.object({
+    savedFoodID: z.string(),
+    userID: z.string(),
+    name: z.string(),
+    quantity: z.string(),
+    calories: z.number(),
+    protein: z.number(),
+    carbs: z.number(),
+    fat: z.number(),
+    ...micronutrients,
+    useCount: z.number(),
+    lastUsedAt: z.string(),
+    pinned: z.boolean(),
+    ...timestamps,
+  })).default([]),
+  recipes: z.array(z.object({
+    recipeID: z.string(),
+    userID: z.string(),
+    name: z.string(),
+    servings: z.number().positive(),
+    ...timestamps,
+  })).default([]),
+  recipe_ingredients: z.array(z.object({
+    ingredientID: z.string(),
+    recipeID: z.string(),
+    position: z.number().int(),
+    name: z.string(),
+    quantity: z.string(),
+    calories: z.number(),
+    protein: z.number(),
+    carbs: z.number(),
+    fat: z.number(),
+    ...micronutrients, // older backups predate recipe micronutrients
+    ...timestamps,
+  })).default([]),
+  meal_templates: z.array(z.object({
+    templateID: z.string(),
+    userID: z.string(),
+    name: z.string(),
+    ...timestamps,
+  })).default([]),
+  meal_template_items: z.array(z.object({
+    itemID: z.string(),
+    templateID: z.string(),
+    position: z.number().int(),
+    name: z.string(),
+    quantity: z.string(),
+    calories: z.number(),
+    protein: z.number(),
+    carbs: z.number(),
+    fat: z.number(),
+    ...micronutrients, // older backups predate template micronutrients
+    ...timestamps,
+  })).default([]),
+  weekday_targets: z.array(z.object({
+    userID: z.string(),
+    weekday: z.number().int().min(0).max(6),
+    calories: z.number(),
+    protein: z.number(),
+    carbs: z.number(),
+    fat: z.number(),
+    ...timestamps,
+  })).default([]),
+  day_types: z.array(z.object({
+    dayTypeID: z.string(),
+    userID: z.string(),
+    name: z.string(),
+    calories: z.number(),
+    protein: z.number(),
+    carbs: z.number(),
+    fat: z.number(),
+    ...timestamps,
+  })).default([]),
+  day_type_assignments: z.array(z.object({
+    userID: z.string(),
+    date: z.string(),
+    dayTypeID: z.string(),
+    ...timestamps,
+  })).default([]),
+});
+
+const BackupDocumentSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  formatVersion: z.number().int(),
+  schemaVersion: z.number().int(),
+  exportedAt: z.string(),
+  checksum: z.string(),
+  data: BackupDataSchema,
+});
+
+// CRC-32 lookup table (IEEE polynomial)
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let c = i;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[i] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Helper: CRC-32 of a string's UTF-8 bytes, as 8 hex characters
+ */
+function crc32(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return ((crc ^ 0xffffffff) >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Helper: JSON serialization with object keys sorted, so key order never affects the checksum
+ */
+function canonicalJSON(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJSON).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJSON((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Helper: Checksum over the canonical serialization of the data section
+ */
+function checksumData(data: unknown): string {
+  return crc32(canonicalJSON(data));
+}
+
+/**
+ * Build a backup document from the current database
+ */
+export async function createBackup(): Promise<BackupDocument> {
+  // Parse through the schema so only known columns are exported
+  const data = BackupDataSchema.parse(await exportAllData());
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion: await getDatabaseSchemaVersion(),
+    exportedAt: new Date().toISOString(),
+    checksum: checksumData(data),
+    data,
+  };
+}
+
+/**
+ * Parse and validate a backup document
+ * Throws if the JSON is malformed, the shape is invalid, the checksum does not match,
+ * or the backup comes from a newer app version
+ */
+export function parseBackup(json: string): BackupDocument {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('Backup file is not valid JSON');
+  }
+
+  const result = BackupDocumentSchema.safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Backup file is invalid at ${issue.path.join('.') || 'root'}: ${issue.message}`);
+  }
+
+  const doc = result.data;
+  if (doc.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new Error('Backup was created by a newer version of the app. Please update the app first.');
+  }
+  const latestSchemaVersion = MIGRATIONS[MIGRATIONS.length - 1].version;
+  if (doc.schemaVersion > latestSchemaVersion) {
+    throw new Error('Backup was created by a newer version of the app. Please update the app first.');
+  }
+
+  // Checksum the data as written, before zod fills in defaults for sections added later
+  if (checksumData((raw as { data: unknown }).data) !== doc.checksum) {
+    throw new Error('Backup checksum does not match. The file may be corrupted or edited.');
+  }
+
+  return doc;
+}
+
+/**
+ * Restore a validated backup into the database
+ */
+export async function restoreBackup(doc: BackupDocument, mode: BackupImportMode): Promise<BackupImportResult> {
+  return importAllData(doc.data, mode);
+}
+
+/**
+ * Write a backup file to the cache directory and open the share sheet
+ */
+export async function shareBackupFile(): Promise<void> {
+  const doc = await createBackup();
+  await shareTextFile(`heymacro-backup-${doc.exportedAt.slice(0, 10)}.json`, JSON.stringify(doc, null, 2), {
+    mimeType: 'application/json',
+    UTI: 'public.json',
+    dialogTitle: 'Save Hey Macro backup',
+  });
+}
+
+/**
+ * Let the user pick a backup file and parse it
+ * Returns null if the picker was cancelled
+ */
+export async function pickBackupFile(): Promise<BackupDocument | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: 'application/json',
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled) return null;
+
+  const file = new File(result.assets[0].uri);
+  return parseBackup(await file.text());
+}
@@ -0,0 +1,129 @@
+/**
+ * Dev benchmark for day loading: a year of days read one at a time vs. in one batch
+ * Seeds a scratch in-memory database, so the app's own data is never touched
+ */
+
+import 'react-native-get-random-values'; // Must be imported before uuid
+import * as SQLite from 'expo-sqlite';
+import { v4 as uuidv4 } from 'uuid';
+import type { DailyLogRow, FoodEntryRow } from '../types';
+import { runMigrations } from './migrations';
+import { formatLocalDate, loadDailyLogsInRange } from './storage';
+
+export interface DayLoadingBenchmarkResult {
+  days: number;
+  entries: number;
+  perDayMs: number; // one single-day read per day, as the history screens used to load
+  batchMs: number; // a single range read
+}
+
+const BENCHMARK_DAYS = 365;
+const ENTRIES_PER_DAY = 6;
+const SAMPLE_MEALS = ['breakfast', 'lunch', 'dinner', 'snacks'];
+
+/**
+ * Build the rows for one profile with food logged on each of the last `days` days
+ */
+function buildBenchmarkRows(userID: string, days: number): { dailyLogs: DailyLogRow[]; foodEntries: FoodEntryRow[] } {
+  const now = new Date().toISOString();
+  const dailyLogs: DailyLogRow[] = [];
+  const foodEntries: FoodEntryRow[] = [];
+
+  for (let i = 0; i < days; i++) {
+    const day = new Date();
+    day.setDate(day.getDate() - i);
+    const dailyLogID = uuidv4();
+    dailyLogs.push({
+      dailyLogID,
+      userID,
+      date: formatLocalDate(day),
+      totalCalories: 0,
+      totalProtein: 0,
+      totalCarbs: 0,
+      totalFat: 0,
+      targetCalories: 2000,
+      targetProtein: 150,
+      targetCarbs: 200,
+      targetFat: 65,
+      createdAt: now,
+      updatedAt: now,
+    });
+    for (let j = 0; j < ENTRIES_PER_DAY; j++) {
+      foodEntries.push({
+        foodEntryID: uuidv4(),
+        userID,
+        dailyLogID,
+        mealType: SAMPLE_MEALS[j % SAMPLE_MEALS.length],
+        name: `Benchmark food ${j + 1}`,
+        quantity: '1 serving',
+        calories: 300,
+        protein: 20,
+        carbs: 30,
+        fat: 10,
+        eatenAt: null,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+  }
+
+  return { dailyLogs, foodEntries };
+}
+
+/**
+ * Helper: Insert rows into a table with one prepared statement
+ */
+async function insertRows(
+  database: SQLite.SQLiteDatabase,
+  table: string,
+  rows: object[]
+): Promise<void> {
+  if (rows.length === 0) return;
+  const columns = Object.keys(rows[0]);
+  const statement = await database.prepareAsync(
+    `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`
+  );
+  try {
+    for (const row of rows) {
+      const values = row as Record<string, string | number | null>;
+      await statement.executeAsync(columns.map((column) => values[column] ?? null));
+    }
+  } finally {
+    await statement.finalizeAsync();
+  }
+}
+
+/**
+ * Time loading a year of logged days per day and in one batch
+ * Runs on a fresh in-memory database with the app's schema, closed even if a timing run fails
+ */
+export async function benchmarkDayLoading(days: number = BENCHMARK_DAYS): Promise<DayLoadingBenchmarkResult> {
+  const database = await SQLite.openDatabaseAsync(':memory:');
+  try {
+    await runMigrations(database);
+
+    const userID = `benchmark-${uuidv4()}`;
+    const now = new Date().toISOString();
+    const { dailyLogs, foodEntries } = buildBenchmarkRows(userID, days);
+    await database.withTransactionAsync(async () => {
+      await insertRows(database, 'users', [{ userID, firstName: 'Benchmark', lastName: 'Profile', createdAt: now, updatedAt: now }]);
+      await insertRows(database, 'daily_logs', dailyLogs);
+      await insertRows(database, 'food_entries', foodEntries);
+    });
+    const dates = dailyLogs.map((log) => log.date).sort();
+
+    const perDayStart = performance.now();
+    for (const date of dates) {
+      await loadDailyLogsInRange(database, userID, date, date);
+    }
+    const perDayMs = performance.now() - perDayStart;
+
+    const batchStart = performance.now();
+    await loadDailyLogsInRange(database, userID, dates[0], dates[dates.length - 1]);
+    const batchMs = performance.now() - batchStart;
+
+    return { days, entries: foodEntries.length, perDayMs, batchMs };
+  } finally {
+    await database.closeAsync();
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Minimal RFC 4180 CSV formatting and parsing
+ * Fields containing commas, quotes or line breaks are quoted, with quotes doubled
+ */
+
+export type CSVValue = string | number | boolean | null | undefined;
+
+/**
+ * Escape a single field for CSV output
+ */
+export function escapeCSVField(value: CSVValue): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  if (/[",\r\n]/.test(text) || text !== text.trim()) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+/**
+ * Build a CSV document from a header row and data rows
+ */
+export function toCSV(headers: string[], rows: CSVValue[][]): string {
+  return [headers, ...rows]
+    .map((row) => row.map(escapeCSVField).join(','))
+    .join('\r\n') + '\r\n';
+}
+
+/**
+ * Parse a CSV document into rows of fields
+ * Handles quoted fields with embedded commas, doubled quotes and line breaks,
+ * CRLF or LF line endings, and a leading byte order mark
+ */
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      if (char === '\r' && text[i + 1] === '\n') i++;
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  // Last row without a trailing newline
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Parse a CSV document with a header row into objects keyed by header name
+ */
+export function parseCSVRecords(text: string): Record<string, string>[] {
+  const [headers, ...rows] = parseCSV(text);
+  if (!headers) return [];
+  return rows
+    .filter((row) => row.some((field) => field.trim() !== ''))
+    .map((row) => Object.fromEntries(headers.map((header, index) => [header.trim(), row[index] ?? ''])));
+}
@@ -0,0 +1,76 @@
+/**
+ * CSV exports of food entries, daily totals and weight history for a date range
+ */
+
+import { toCSV } from './csv';
+import { shareTextFile } from './fileShare';
+import { getFoodEntriesInRange, getDailyLogRowsInRange, getWeightLogsInRange } from './storage';
+
+export type CSVExportKind = 'food_entries' | 'daily_totals' | 'weight';
+
+const FILE_PREFIXES: Record<CSVExportKind, string> = {
+  food_entries: 'heymacro-food-entries',
+  daily_totals: 'heymacro-daily-totals',
+  weight: 'heymacro-weight',
+};
+
+/**
+ * One row per food entry, with its date and meal type
+ */
+export async function buildFoodEntriesCSV(userID: string, startDate: string, endDate: string): Promise<string> {
+  const entries = await getFoodEntriesInRange(userID, startDate, endDate);
+  return toCSV(
+    ['date', 'meal_type', 'name', 'quantity', 'calories', 'protein_g', 'carbs_g', 'fat_g', 'eaten_at', 'created_at'],
+    entries.map((e) => [e.date, e.mealType, e.name, e.quantity, e.calories, e.protein, e.carbs, e.fat, e.eatenAt, e.createdAt])
+  );
+}
+
+/**
+ * One row per daily log, with totals and the per-day target snapshot
+ */
+export async function buildDailyTotalsCSV(userID: string, startDate: string, endDate: string): Promise<string> {
+  const logs = await getDailyLogRowsInRange(userID, startDate, endDate);
+  return toCSV(
+    [
+      'date',
+      'calories', 'protein_g', 'carbs_g', 'fat_g',
+      'target_calories', 'target_protein_g', 'target_carbs_g', 'target_fat_g',
+    ],
+    logs.map((log) => [
+      log.date,
+      log.totalCalories, log.totalProtein, log.totalCarbs, log.totalFat,
+      log.targetCalories, log.targetProtein, log.targetCarbs, log.targetFat,
+    ])
+  );
+}
+
+/**
+ * One row per weight log
+ */
+export async function buildWeightCSV(userID: string, startDate: string, endDate: string): Promise<string> {
+  const weights = await getWeightLogsInRange(userID, startDate, endDate);
+  return toCSV(['date', 'weight'], weights.map((w) => [w.date, w.weight]));
+}
+
+/**
+ * Build a CSV export and open the share sheet
+ */
+export async function shareCSVExport(
+  kind: CSVExportKind,
+  userID: string,
+  startDate: string,
+  endDate: string
+): Promise<void> {
+  const builders: Record<CSVExportKind, typeof buildFoodEntriesCSV> = {
+    food_entries: buildFoodEntriesCSV,
+    daily_totals: buildDailyTotalsCSV,
+    weight: buildWeightCSV,
+  };
+  const csv = await builders[kind](userID, startDate, endDate);
+
+  await shareTextFile(`${FILE_PREFIXES[kind]}-${startDate}-to-${endDate}.csv`, csv, {
+    mimeType: 'text/csv',
+    UTI: 'public.comma-separated-values-text',
+    dialogTitle: 'Export CSV',
+  });
+}
@@ -0,0 +1,27 @@
+/**
+ * Write text files to the cache directory and hand them to the system share sheet
+ */
+
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+export interface ShareFileOptions {
+  mimeType: string;
+  UTI: string; // iOS uniform type identifier
+  dialogTitle: string;
+}
+
+/**
+ * Write contents to a cache file (overwriting any previous one) and open the share sheet
+ */
+export async function shareTextFile(fileName: string, contents: string, options: ShareFileOptions): Promise<void> {
+  const file = new File(Paths.cache, fileName);
+  if (file.exists) file.delete();
+  file.create();
+  file.write(contents);
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  await Sharing.shareAsync(file.uri, options);
+}
@@ -0,0 +1,157 @@
+/**
+ * Diff between a daily log and proposed LLM edit operations
+ * Used by the review step so changes can be inspected before they are saved
+ */
+
+import type { DailyLog, FoodEntry, FoodEditOperation, FoodItem, MealType } from '../types';
+import { MealSlotInfo, getMealEntries, getMealOrder } from './mealSlots';
+
+export interface MacroDelta {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+export interface FoodChange {
+  key: string; // stable key for list rendering / selection
+  operation: FoodEditOperation;
+  mealType: MealType; // meal the change is shown under
+  fromMealType?: MealType; // set for moves
+  before: FoodItem | null; // null for adds
+  after: FoodItem | null; // null for removes
+  eatenAt: string | null; // when the food was eaten, if known
+  timeChanged?: boolean; // set for updates that change eatenAt
+  delta: MacroDelta;
+}
+
+export interface MealChanges {
+  mealType: MealType;
+  changes: FoodChange[];
+}
+
+const ZERO_DELTA: MacroDelta = { calories: 0, protein: 0, carbs: 0, fat: 0 };
+
+function macroDelta(before: FoodItem | null, after: FoodItem | null): MacroDelta {
+  return {
+    calories: (after?.calories ?? 0) - (before?.calories ?? 0),
+    protein: (after?.protein ?? 0) - (before?.protein ?? 0),
+    carbs: (after?.carbs ?? 0) - (before?.carbs ?? 0),
+    fat: (after?.fat ?? 0) - (before?.fat ?? 0),
+  };
+}
+
+/**
+ * Build one FoodChange per operation, resolved against the current log
+ * Operations referencing entries not in the log are skipped
+ */
+export function buildFoodChanges(log: DailyLog, operations: FoodEditOperation[]): FoodChange[] {
+  const entries = new Map<string, { entry: FoodEntry; mealType: MealType }>();
+  for (const mealType of Object.keys(log.meals)) {
+    for (const entry of getMealEntries(log, mealType)) {
+      entries.set(entry.foodEntryID, { entry, mealType });
+    }
+  }
+
+  const changes: FoodChange[] = [];
+
+  operations.forEach((operation, index) => {
+    const key = `${index}-${operation.type}`;
+
+    if (operation.type === 'add') {
+      changes.push({
+        key,
+        operation,
+        mealType: operation.mealType,
+        before: null,
+        after: operation.item,
+        eatenAt: operation.eatenAt ?? null,
+        delta: macroDelta(null, operation.item),
+      });
+      return;
+    }
+
+    const existing = entries.get(operation.foodEntryID);
+    if (!existing) return;
+    const before: FoodItem = {
+      name: existing.entry.name,
+      quantity: existing.entry.quantity,
+      calories: existing.entry.calories,
+      protein: existing.entry.protein,
+      carbs: existing.entry.carbs,
+      fat: existing.entry.fat,
+    };
+
+    switch (operation.type) {
+      case 'update': {
+        const { eatenAt, ...itemUpdates } = operation.updates;
+        const after = { ...before, ...itemUpdates };
+        const timeChanged = eatenAt !== undefined && eatenAt !== existing.entry.eatenAt;
+        changes.push({
+          key,
+          operation,
+          mealType: existing.mealType,
+          before,
+          after,
+          eatenAt: timeChanged ? eatenAt : existing.entry.eatenAt,
+          timeChanged,
+          delta: macroDelta(before, after),
+        });
+        break;
+      }
+      case 'remove':
+        changes.push({
+          key,
+          operation,
+          mealType: existing.mealType,
+          before,
+          after: null,
+          eatenAt: existing.entry.eatenAt,
+          delta: macroDelta(before, null),
+        });
+        break;
+      case 'move':
+        changes.push({
+          key,
+          operation,
+          mealType: operation.mealType,
+          fromMealType: existing.mealType,
+          before,
+          after: before,
+          eatenAt: existing.entry.eatenAt,
+          delta: ZERO_DELTA,
+        });
+        break;
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Group changes by the meal they are shown under, in slot order, omitting empty meals
+ */
+export function groupChangesByMeal(changes: FoodChange[], slots: MealSlotInfo[]): MealChanges[] {
+  const order = getMealOrder(slots);
+  for (const change of changes) {
+    if (!order.includes(change.mealType)) order.push(change.mealType);
+  }
+  return order
+    .map((mealType) => ({ mealType, changes: changes.filter((c) => c.mealType === mealType) }))
+    .filter((group) => group.changes.length > 0);
+}
+
+/**
+ * Sum the macro deltas of a set of changes
+ */
+export function sumDeltas(changes: FoodChange[]): MacroDelta {
+  return changes.reduce(
+    (acc, change) => ({
+      calories: acc.calories + change.delta.calories,
+      protein: acc.protein + change.delta.protein,
+      carbs: acc.carbs + change.delta.carbs,
+      fat: acc.fat + change.delta.fat,
+    }),
+    { ...ZERO_DELTA }
+  );
+}
@@ -0,0 +1,83 @@
+/**
+ * Portion math shared by inline edits and saved food re-logging
+ */
+
+import type { FoodItem } from '../types';
+import { scaleMicronutrients } from './micronutrients';
+
+// Calculate calories from macros: protein*4 + carbs*4 + fat*9
+export function calculateCaloriesFromMacros(protein: number, carbs: number, fat: number): number {
+  return Math.round(protein * 4 + carbs * 4 + fat * 9);
+}
+
+// Scale macros proportionally to match a new calorie target
+export function scaleMacrosToCalories(
+  originalProtein: number,
+  originalCarbs: number,
+  originalFat: number,
+  originalCalories: number,
+  newCalories: number
+): { protein: number; carbs: number; fat: number } {
+  if (originalCalories === 0) {
+    // Can't scale from zero - return zeros
+    return { protein: 0, carbs: 0, fat: 0 };
+  }
+
+  const ratio = newCalories / originalCalories;
+  return {
+    protein: Math.round(originalProtein * ratio),
+    carbs: Math.round(originalCarbs * ratio),
+    fat: Math.round(originalFat * ratio),
+  };
+}
+
+// Parse quantity string into number and unit (e.g., "100g" -> { number: 100, unit: "g" })
+export function parseQuantity(quantity: string): { number: number | null; unit: string } {
+  const trimmed = quantity.trim();
+  // Match number at start (including decimals) followed by optional unit
+  const match = trimmed.match(/^(\d+(?:\.\d+)?)\s*(.*)$/);
+  if (match) {
+    return {
+      number: parseFloat(match[1]),
+      unit: match[2] || '',
+    };
+  }
+  // No number found - return null number with full string as "unit"
+  return { number: null, unit: trimmed };
+}
+
+// Format quantity from number and unit
+export function formatQuantity(num: number | null, unit: string): string {
+  if (num === null) return unit;
+  return unit ? `${num}${unit}` : String(num);
+}
+
+/**
+ * Scale a food to a new amount of its own unit (e.g. "150g" of a saved "100g" portion)
+ * Calories scale with the quantity and macros follow via scaleMacrosToCalories,
+ * so the macro split of the saved portion is kept
+ * Foods without a numeric quantity are treated as one portion and scaled by multiplier
+ */
+export function scaleFoodToQuantity(food: FoodItem, newAmount: number): FoodItem {
+  const parsed = parseQuantity(food.quantity);
+  const baseAmount = parsed.number !== null && parsed.number > 0 ? parsed.number : 1;
+  const ratio = newAmount / baseAmount;
+  const calories = Math.round(food.calories * ratio);
+  const macros = food.calories > 0
+    ? scaleMacrosToCalories(food.protein, food.carbs, food.fat, food.calories, calories)
+    : {
+      protein: Math.round(food.protein * ratio),
+      carbs: Math.round(food.carbs * ratio),
+      fat: Math.round(food.fat * ratio),
+    };
+
+  return {
+    name: food.name,
+    quantity: parsed.number !== null
+      ? formatQuantity(newAmount, parsed.unit)
+      : newAmount === 1 ? food.quantity : `${newAmount} × ${food.quantity}`,
+    calories,
+    ...macros,
+    ...scaleMicronutrients(food, ratio),
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Eaten-at helpers: entries store an ISO timestamp, edited and prompted as HH:MM on the log's date
+ */
+
+import type { DailyLog, FoodEntry, MealType } from '../types';
+import { MealSlotInfo, getMealEntries, getMealOrder, normalizeTime } from './mealSlots';
+
+export interface TimelineEntry {
+  entry: FoodEntry;
+  mealType: MealType;
+}
+
+/**
+ * Combine a log's date (YYYY-MM-DD) and a local time of day into an eatenAt timestamp
+ * Returns null for a blank or invalid time
+ */
+export function toEatenAt(date: string, time: string | null | undefined): string | null {
+  const normalized = normalizeTime(time);
+  if (!normalized) return null;
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = normalized.split(':').map(Number);
+  return new Date(year, month - 1, day, hours, minutes).toISOString();
+}
+
+/**
+ * Local time of day (HH:MM) of an eatenAt timestamp, or null when unknown
+ */
+export function getEatenTime(eatenAt: string | null | undefined): string | null {
+  if (!eatenAt) return null;
+  const date = new Date(eatenAt);
+  if (Number.isNaN(date.getTime())) return null;
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+/**
+ * Display form of an eatenAt timestamp, e.g. "3:05 PM", or null when unknown
+ */
+export function formatEatenTime(eatenAt: string | null | undefined): string | null {
+  if (!getEatenTime(eatenAt)) return null;
+  return new Date(eatenAt!).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+}
+
+/**
+ * Keep an entry's time of day when it is copied to another date
+ */
+export function moveEatenAtToDate(eatenAt: string | null | undefined, date: string): string | null {
+  return toEatenAt(date, getEatenTime(eatenAt));
+}
+
+/**
+ * A day's entries in eating order across meals
+ * Entries without a time follow, in meal order
+ */
+export function getTimeline(log: Pick<DailyLog, 'meals'>, slots: MealSlotInfo[]): TimelineEntry[] {
+  const timeline = getMealOrder(slots, log).flatMap((mealType) =>
+    getMealEntries(log, mealType).map((entry) => ({ entry, mealType }))
+  );
+  const timed = timeline
+    .filter((t) => getEatenTime(t.entry.eatenAt) !== null)
+    .sort((a, b) => new Date(a.entry.eatenAt!).getTime() - new Date(b.entry.eatenAt!).getTime());
+  return [...timed, ...timeline.filter((t) => getEatenTime(t.entry.eatenAt) === null)];
+}
@@ -50,6 +50,14 @@ function zodToGeminiSchema(schema: z.ZodTypeAny): Schema {
     };
   }
 
+  if (schema instanceof z.ZodNullable) {
+    return {
+      ...zodToGeminiSchema(schema.unwrap() as z.ZodTypeAny),
+      nullable: true,
+      description: schema.description,
+    };
+  }
+
   if (schema instanceof z.ZodArray) {
     return {
       type: Type.ARRAY,
@@ -64,6 +72,15 @@ function zodToGeminiSchema(schema: z.ZodTypeAny): Schema {
     };
   }
 
+  if (schema instanceof z.ZodEnum) {
+    return {
+      type: Type.STRING,
+      format: 'enum',
+      enum: schema.options.map(String),
+      description: schema.description,
+    };
+  }
+
   if (schema instanceof z.ZodNumber) {
     return {
       type: Type.NUMBER,
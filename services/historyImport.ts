@@ -0,0 +1,319 @@
+/**
+ * Import food history from other trackers' CSV exports
+ * Supports the MyFitnessPal "Nutrition" export (one row per meal per day)
+ * and the Cronometer "servings" export (one row per food)
+ */
+
+import { File } from 'expo-file-system';
+import * as DocumentPicker from 'expo-document-picker';
+import { parseCSVRecords } from './csv';
+import { getDailyLog, applyFoodEditOperations, getFoodEntryCountsInRange, getMealSlots } from './storage';
+import { getMicronutrients } from './micronutrients';
+import { getCatchAllMealType, type MealSlotInfo } from './mealSlots';
+import type { FoodItem, MealType, FoodEditOperation } from '../types';
+
+export type ImportSource = 'myfitnesspal' | 'cronometer';
+
+export type ImportConflictMode = 'skip' | 'append';
+
+export interface ImportedFoodItem {
+  date: string; // YYYY-MM-DD
+  mealType: MealType;
+  item: FoodItem;
+}
+
+export interface ImportDayPreview {
+  date: string;
+  items: ImportedFoodItem[];
+  calories: number;
+  existingEntryCount: number; // entries already logged locally for this date
+  conflict: boolean;
+}
+
+export interface HistoryImportReport {
+  source: ImportSource;
+  days: ImportDayPreview[]; // sorted by date
+  itemCount: number;
+  newDayCount: number;
+  conflictDayCount: number;
+  skippedRowCount: number; // rows without a valid date or any nutrition
+}
+
+export interface HistoryImportResult {
+  daysImported: number;
+  itemsImported: number;
+  daysSkipped: number;
+}
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  myfitnesspal: 'MyFitnessPal',
+  cronometer: 'Cronometer',
+};
+
+/**
+ * Helper: Case-insensitive column lookup, trying each candidate header in order
+ */
+function getColumn(record: Record<string, string>, candidates: string[]): string {
+  const keys = Object.keys(record);
+  for (const candidate of candidates) {
+    const key = keys.find((k) => k.toLowerCase() === candidate.toLowerCase());
+    if (key !== undefined) return record[key].trim();
+  }
+  return '';
+}
+
+/**
+ * Helper: Parse a numeric cell, treating blanks and junk as 0
+ */
+function parseAmount(value: string): number {
+  const parsed = parseFloat(value.replace(/,/g, ''));
+  return Number.isFinite(parsed) ? Math.round(parsed) : 0;
+}
+
+/**
+ * Helper: Parse an optional nutrient cell, treating blanks and junk as unknown
+ */
+function parseOptionalAmount(value: string): number | null {
+  const parsed = parseFloat(value.replace(/,/g, ''));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Helper: Normalize YYYY-MM-DD or MM/DD/YYYY to YYYY-MM-DD, or null if unparseable
+ */
+function parseDate(value: string): string | null {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) {
+    return `${iso[1]}-${iso[2].padStart(2, '0')}-${iso[3].padStart(2, '0')}`;
+  }
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (us) {
+    return `${us[3]}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`;
+  }
+  return null;
+}
+
+/**
+ * Map a tracker's meal or group name onto the user's meal slots
+ * A slot with a matching name wins, then the usual breakfast/lunch/dinner names;
+ * custom meals (e.g. "Pre-workout", "Uncategorized") land in the catch-all slot
+ */
+export function mapMealName(name: string, slots: MealSlotInfo[]): MealType {
+  const normalized = name.trim().toLowerCase();
+  const named = slots.find((slot) => normalized.startsWith(slot.name.toLowerCase()));
+  if (named) return named.mealType;
+
+  let mealType: MealType | null = null;
+  if (normalized.startsWith('breakfast')) mealType = 'breakfast';
+  else if (normalized.startsWith('lunch')) mealType = 'lunch';
+  else if (normalized.startsWith('dinner') || normalized.startsWith('supper')) mealType = 'dinner';
+  return mealType && slots.some((slot) => slot.mealType === mealType) ? mealType : getCatchAllMealType(slots);
+}
+
+/**
+ * Detect the export format from its header row
+ */
+export function detectImportSource(records: Record<string, string>[]): ImportSource | null {
+  if (records.length === 0) return null;
+  const headers = Object.keys(records[0]).map((h) => h.toLowerCase());
+  if (headers.includes('food name') && headers.includes('day') && headers.includes('group')) {
+    return 'cronometer';
+  }
+  if (headers.includes('date') && headers.includes('meal') && headers.includes('calories')) {
+    return 'myfitnesspal';
+  }
+  return null;
+}
+
+/**
+ * Parse MyFitnessPal Nutrition export rows
+ * The export only has per-meal totals, so each row becomes a single entry named after the meal
+ */
+function parseMyFitnessPalRecords(
+  records: Record<string, string>[],
+  slots: MealSlotInfo[]
+): { items: ImportedFoodItem[]; skipped: number } {
+  const items: ImportedFoodItem[] = [];
+  let skipped = 0;
+
+  for (const record of records) {
+    const date = parseDate(getColumn(record, ['Date']));
+    const meal = getColumn(record, ['Meal']);
+    const item: FoodItem = {
+      name: `${meal || 'Meal'} (MyFitnessPal)`,
+      quantity: '1 meal',
+      calories: parseAmount(getColumn(record, ['Calories'])),
+      protein: parseAmount(getColumn(record, ['Protein (g)', 'Protein'])),
+      carbs: parseAmount(getColumn(record, ['Carbohydrates (g)', 'Carbohydrates', 'Carbs'])),
+      fat: parseAmount(getColumn(record, ['Fat (g)', 'Fat'])),
+      ...getMicronutrients({
+        fiber: parseOptionalAmount(getColumn(record, ['Fiber', 'Fiber (g)'])),
+        sugar: parseOptionalAmount(getColumn(record, ['Sugar', 'Sugar (g)'])),
+        sodium: parseOptionalAmount(getColumn(record, ['Sodium (mg)', 'Sodium'])),
+        saturatedFat: parseOptionalAmount(getColumn(record, ['Saturated Fat', 'Saturated Fat (g)'])),
+        cholesterol: parseOptionalAmount(getColumn(record, ['Cholesterol', 'Cholesterol (mg)'])),
+      }),
+    };
+
+    if (!date || (item.calories === 0 && item.protein === 0 && item.carbs === 0 && item.fat === 0)) {
+      skipped++;
+      continue;
+    }
+    items.push({ date, mealType: mapMealName(meal, slots), item });
+  }
+
+  return { items, skipped };
+}
+
+/**
+ * Parse Cronometer servings export rows
+ */
+function parseCronometerRecords(
+  records: Record<string, string>[],
+  slots: MealSlotInfo[]
+): { items: ImportedFoodItem[]; skipped: number } {
+  const items: ImportedFoodItem[] = [];
+  let skipped = 0;
+
+  for (const record of records) {
+    const date = parseDate(getColumn(record, ['Day']));
+    const name = getColumn(record, ['Food Name']);
+    const item: FoodItem = {
+      name,
+      quantity: getColumn(record, ['Amount']) || '1 serving',
+      calories: parseAmount(getColumn(record, ['Energy (kcal)', 'Energy'])),
+      protein: parseAmount(getColumn(record, ['Protein (g)'])),
+      carbs: parseAmount(getColumn(record, ['Carbs (g)', 'Net Carbs (g)'])),
+      fat: parseAmount(getColumn(record, ['Fat (g)'])),
+      ...getMicronutrients({
+        fiber: parseOptionalAmount(getColumn(record, ['Fiber (g)'])),
+        sugar: parseOptionalAmount(getColumn(record, ['Sugars (g)'])),
+        addedSugar: parseOptionalAmount(getColumn(record, ['Added Sugars (g)'])),
+        sodium: parseOptionalAmount(getColumn(record, ['Sodium (mg)'])),
+        saturatedFat: parseOptionalAmount(getColumn(record, ['Saturated (g)'])),
+        cholesterol: parseOptionalAmount(getColumn(record, ['Cholesterol (mg)'])),
+      }),
+    };
+
+    if (!date || !name || (item.calories === 0 && item.protein === 0 && item.carbs === 0 && item.fat === 0)) {
+      skipped++;
+      continue;
+    }
+    items.push({ date, mealType: mapMealName(getColumn(record, ['Group']), slots), item });
+  }
+
+  return { items, skipped };
+}
+
+/**
+ * Dry run: parse an export and report what would be created, without writing anything
+ * Days that already have local entries are flagged as conflicts
+ */
+export async function previewHistoryImport(userID: string, csvText: string): Promise<HistoryImportReport> {
+  const records = parseCSVRecords(csvText);
+  const source = detectImportSource(records);
+  if (!source) {
+    throw new Error('Unrecognized file. Expected a MyFitnessPal Nutrition export or a Cronometer servings export.');
+  }
+
+  const slots = await getMealSlots(userID);
+  const { items, skipped } = source === 'myfitnesspal'
+    ? parseMyFitnessPalRecords(records, slots)
+    : parseCronometerRecords(records, slots);
+
+  const byDate = new Map<string, ImportedFoodItem[]>();
+  for (const item of items) {
+    const dayItems = byDate.get(item.date) ?? [];
+    dayItems.push(item);
+    byDate.set(item.date, dayItems);
+  }
+
+  const dates = [...byDate.keys()].sort();
+  const existingCounts = dates.length > 0
+    ? await getFoodEntryCountsInRange(userID, dates[0], dates[dates.length - 1])
+    : {};
+
+  const days: ImportDayPreview[] = dates.map((date) => {
+    const dayItems = byDate.get(date)!;
+    const existingEntryCount = existingCounts[date] ?? 0;
+    return {
+      date,
+      items: dayItems,
+      calories: dayItems.reduce((sum, i) => sum + i.item.calories, 0),
+      existingEntryCount,
+      conflict: existingEntryCount > 0,
+    };
+  });
+
+  const conflictDayCount = days.filter((d) => d.conflict).length;
+
+  return {
+    source,
+    days,
+    itemCount: items.length,
+    newDayCount: days.length - conflictDayCount,
+    conflictDayCount,
+    skippedRowCount: skipped,
+  };
+}
+
+/**
+ * Create daily logs and food entries for a previewed import
+ * - skip: days that already have entries are left untouched
+ * - append: imported items are added alongside existing entries
+ * Each day is written in its own transaction
+ * Nothing is written if food was logged on an imported day since the preview
+ */
+export async function applyHistoryImport(
+  userID: string,
+  report: HistoryImportReport,
+  conflictMode: ImportConflictMode
+): Promise<HistoryImportResult> {
+  const result: HistoryImportResult = { daysImported: 0, itemsImported: 0, daysSkipped: 0 };
+  if (report.days.length === 0) return result;
+
+  // Conflict flags come from the preview; they are only valid while the days are unchanged
+  const currentCounts = await getFoodEntryCountsInRange(
+    userID,
+    report.days[0].date,
+    report.days[report.days.length - 1].date
+  );
+  if (report.days.some((day) => (currentCounts[day.date] ?? 0) !== day.existingEntryCount)) {
+    throw new Error('Food was logged on some of these days since the preview. Preview the import again.');
+  }
+
+  for (const day of report.days) {
+    if (day.conflict && conflictMode === 'skip') {
+      result.daysSkipped++;
+      continue;
+    }
+
+    const log = await getDailyLog(userID, day.date);
+    const operations: FoodEditOperation[] = day.items.map((i) => ({
+      type: 'add',
+      mealType: i.mealType,
+      item: i.item,
+    }));
+    await applyFoodEditOperations(userID, log.dailyLogID, operations, 'import');
+
+    result.daysImported++;
+    result.itemsImported += operations.length;
+  }
+
+  return result;
+}
+
+/**
+ * Let the user pick a CSV export and return its contents
+ * Returns null if the picker was cancelled
+ */
+export async function pickImportFile(): Promise<string | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['text/csv', 'text/comma-separated-values', 'text/plain'],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled) return null;
+
+  const file = new File(result.assets[0].uri);
+  return file.text();
+}
@@ -1,8 +1,14 @@
-import { LLMResponse, FoodItem, DailyLog, MacroTargets } from '../types';
-import { foodParsingPrompt, recommendationPrompt } from '../constants';
+import { FoodItem, FoodEntry, FoodEntryUpdates, DailyLog, MacroTargets, MealType, FoodEditOperation, ParsedFoodInput, ActivityItem, Recipe, MealTemplate } from '../types';
+import { foodParsingPrompt, activityParsingPrompt, recommendationPrompt } from '../constants';
+import { getRecipePerServing } from './recipes';
+import { normalizeActivityItem } from './activity';
+import { DEFAULT_MEAL_SLOTS, MealSlotInfo, formatMealWindow, getMealEntries, getMealName, getMealOrder, getMealTypeForTime } from './mealSlots';
+import { getEatenTime, toEatenAt } from './foodTimes';
+import { formatLocalDate } from './storage';
+import { MICRONUTRIENTS, MICRONUTRIENT_KEYS, getMicronutrients, getDailyMicronutrients, formatMicronutrient } from './micronutrients';
 import { openaiProvider, OPENAI_DEFAULT_MODEL } from './openai';
 import { geminiProvider, GEMINI_DEFAULT_MODEL, GEMINI3_DEFAULT_MODEL } from './gemini';
-import { LLMMessage, LLMResponseSchema, LLMProvider, FoodItemParsed, LLMResponseParsed, RecommendationResponseSchema } from './llmTypes';
+import { LLMMessage, createLLMEditResponseSchema, LLMActivityResponseSchema, LLMProvider, FoodItemParsed, LLMEditResponseParsed, RecommendationResponseSchema } from './llmTypes';
 
 // Provider selection - gemini3 is the recommended default (supports web search + structured output)
 type ProviderType = 'openai' | 'gemini' | 'gemini3';
@@ -40,6 +46,10 @@ interface ParseFoodInputParams {
   currentTime?: Date;
   todayLog?: DailyLog;
   previousDayLogs?: DailyLog[];
+  recipes?: Recipe[]; // User's saved recipes, resolvable by name
+  mealTemplates?: MealTemplate[]; // User's saved meals, resolvable by name
+  mealSlots?: MealSlotInfo[]; // User's meals in order; defaults to breakfast, lunch, dinner and snacks
+  bodyWeight?: number | null; // lbs, for calorie-burn estimates
   provider?: ProviderType;
   model?: string;
   enableWebSearch?: boolean; // Enable Google Search grounding (default: true for Gemini 3)
@@ -50,14 +60,19 @@ export async function parseFoodInput({
   currentTime = new Date(),
   todayLog,
   previousDayLogs,
+  recipes,
+  mealTemplates,
+  mealSlots,
+  bodyWeight,
   provider = DEFAULT_PROVIDER,
   model,
   enableWebSearch = true,
-}: ParseFoodInputParams): Promise<LLMResponse> {
+}: ParseFoodInputParams): Promise<ParsedFoodInput> {
   try {
     const llmProvider = getProvider(provider);
     const modelToUse = model || getDefaultModel(provider);
-    const messages = buildMessages(transcript, currentTime, todayLog, previousDayLogs);
+    const slots = getSlotsOrDefault(mealSlots);
+    const messages = buildMessages(transcript, currentTime, slots, todayLog, previousDayLogs, recipes, mealTemplates, bodyWeight);
 
     // Web search: OpenAI and Gemini 3 support it with structured output; Gemini 2.5 does not
     const supportsWebSearch = provider !== 'gemini';
@@ -66,8 +81,8 @@ export async function parseFoodInput({
     const result = await llmProvider.generate({
       model: modelToUse,
       messages,
-      schema: LLMResponseSchema,
-      schemaName: 'food_log_response',
+      schema: createLLMEditResponseSchema(slots),
+      schemaName: 'food_log_edits',
       webSearch: useWebSearch,
       reasoning: {
         effort: 'low', // Low thinking for speed, web search provides accuracy
@@ -76,7 +91,11 @@ export async function parseFoodInput({
       // maxTokens: omit to use model default (8192 for Gemini 2.0, 65536 for Gemini 2.5)
     });
 
-    return validateAndNormalizeLLMResponse(result);
+    return {
+      operations: validateAndNormalizeEditResponse(result, slots, currentTime, todayLog),
+      water: Number.isFinite(result.water) && result.water > 0 ? Math.round(result.water * 10) / 10 : 0,
+      activities: normalizeActivities(result.activities),
+    };
   } catch (error) {
     throw new Error(
       `Failed to parse food input: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -84,32 +103,114 @@ export async function parseFoodInput({
   }
 }
 
-function formatFoodItem(f: { name: string; quantity: string; calories: number; protein: number; carbs: number; fat: number }): string {
-  return `${f.name} (${f.quantity}) [${f.calories} cal, ${f.protein}g P, ${f.carbs}g C, ${f.fat}g F]`;
+interface ParseActivityInputParams {
+  description: string;
+  bodyWeight?: number | null; // lbs, for calorie-burn estimates
+  provider?: ProviderType;
+  model?: string;
 }
 
-function formatMealsFromLog(log: DailyLog): string[] {
-  const meals: string[] = [];
-  if (log.breakfast.length > 0) {
-    meals.push(`Breakfast: ${log.breakfast.map(formatFoodItem).join(', ')}`);
-  }
-  if (log.lunch.length > 0) {
-    meals.push(`Lunch: ${log.lunch.map(formatFoodItem).join(', ')}`);
+/**
+ * Parse a workout description (e.g. "45 minutes of cycling, moderate") into activities with burn estimates
+ */
+export async function parseActivityInput({
+  description,
+  bodyWeight,
+  provider = DEFAULT_PROVIDER,
+  model,
+}: ParseActivityInputParams): Promise<ActivityItem[]> {
+  try {
+    const llmProvider = getProvider(provider);
+    const modelToUse = model || getDefaultModel(provider);
+
+    const result = await llmProvider.generate({
+      model: modelToUse,
+      messages: [
+        { role: 'system', content: activityParsingPrompt },
+        { role: 'user', content: `${formatBodyWeight(bodyWeight)}\n\nDescription: ${description}` },
+      ],
+      schema: LLMActivityResponseSchema,
+      schemaName: 'activity_log',
+      reasoning: { effort: 'low' },
+      temperature: 0.3,
+    });
+
+    return normalizeActivities(result.activities);
+  } catch (error) {
+    throw new Error(
+      `Failed to parse activity: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
   }
-  if (log.dinner.length > 0) {
-    meals.push(`Dinner: ${log.dinner.map(formatFoodItem).join(', ')}`);
+}
+
+function getSlotsOrDefault(mealSlots?: MealSlotInfo[]): MealSlotInfo[] {
+  return mealSlots && mealSlots.length > 0 ? mealSlots : DEFAULT_MEAL_SLOTS;
+}
+
+function formatBodyWeight(bodyWeight?: number | null): string {
+  return bodyWeight ? `Body weight: ${bodyWeight} lbs` : 'Body weight: unknown (assume 170 lbs)';
+}
+
+// Drop activities without a name or duration
+function normalizeActivities(activities: ActivityItem[] | undefined): ActivityItem[] {
+  return (activities ?? [])
+    .map(normalizeActivityItem)
+    .filter((activity): activity is ActivityItem => activity !== null);
+}
+
+function formatFoodItem(f: FoodItem): string {
+  // Only known micronutrients are listed, so the context stays short for older entries
+  const micros = MICRONUTRIENTS
+    .filter((m) => f[m.key] !== null && f[m.key] !== undefined)
+    .map((m) => `${f[m.key]}${m.unit} ${m.label.toLowerCase()}`);
+  return `${f.name} (${f.quantity}) [${[`${f.calories} cal, ${f.protein}g P, ${f.carbs}g C, ${f.fat}g F`, ...micros].join(', ')}]`;
+}
+
+function formatMealsFromLog(log: DailyLog, slots: MealSlotInfo[]): string[] {
+  const meals: string[] = [];
+  for (const mealType of getMealOrder(slots, log)) {
+    const entries = getMealEntries(log, mealType);
+    if (entries.length > 0) {
+      meals.push(`${getMealName(slots, mealType)}: ${entries.map(formatFoodItem).join(', ')}`);
+    }
   }
-  if (log.snacks.length > 0) {
-    meals.push(`Snacks: ${log.snacks.map(formatFoodItem).join(', ')}`);
+  return meals;
+}
+
+// Today's entries carry their IDs so the model can reference them in edit operations
+function formatMealsWithIDsFromLog(log: DailyLog, slots: MealSlotInfo[]): string[] {
+  const meals: string[] = [];
+  for (const mealType of getMealOrder(slots, log)) {
+    const entries = getMealEntries(log, mealType);
+    if (entries.length > 0) {
+      const lines = entries.map((e) => {
+        const time = getEatenTime(e.eatenAt);
+        return `- id=${e.foodEntryID}${time ? ` at ${time}` : ''} ${formatFoodItem(e)}`;
+      });
+      meals.push(`${getMealName(slots, mealType)} (${mealType}):\n${lines.join('\n')}`);
+    }
   }
   return meals;
 }
 
+// Slot keys are what the model must return; names and windows help it match what the user said
+function formatMealSlots(slots: MealSlotInfo[], currentTime: Date): string {
+  const lines = slots.map((slot) => {
+    const window = formatMealWindow(slot);
+    return `- ${slot.mealType}: ${slot.name}${window ? ` (${window})` : ''}`;
+  });
+  return `${lines.join('\n')}\nCurrent meal: ${getMealTypeForTime(slots, currentTime)}`;
+}
+
 function buildMessages(
   transcript: string,
   currentTime: Date,
+  slots: MealSlotInfo[],
   todayLog?: DailyLog,
-  previousDayLogs?: DailyLog[]
+  previousDayLogs?: DailyLog[],
+  recipes?: Recipe[],
+  mealTemplates?: MealTemplate[],
+  bodyWeight?: number | null
 ): LLMMessage[] {
   const systemPrompt = foodParsingPrompt;
 
@@ -117,23 +218,41 @@ function buildMessages(
   if (previousDayLogs && previousDayLogs.length > 0) {
     previousMealsContext = previousDayLogs
       .map((log) => {
-        const meals = formatMealsFromLog(log);
+        const meals = formatMealsFromLog(log, slots);
         return `${log.date}:\n${meals.join('\n')}`;
       })
       .join('\n\n');
   }
 
+  let recipesContext = '';
+  if (recipes && recipes.length > 0) {
+    recipesContext = recipes
+      .map((recipe) => `- ${formatFoodItem(getRecipePerServing(recipe))}`)
+      .join('\n');
+  }
+
+  let templatesContext = '';
+  if (mealTemplates && mealTemplates.length > 0) {
+    templatesContext = mealTemplates
+      .map((template) => `${template.name}:\n${template.items.map((item) => `- ${formatFoodItem(item)}`).join('\n')}`)
+      .join('\n\n');
+  }
+
   let todayFoodContext = 'Empty';
   if (todayLog) {
-    const meals = formatMealsFromLog(todayLog);
+    const meals = formatMealsWithIDsFromLog(todayLog, slots);
     if (meals.length > 0) {
       todayFoodContext = meals.join('\n');
     }
   }
 
-  const userPrompt = `Current Date/Time: ${currentTime.toISOString()}
+  const userPrompt = `Current Date/Time: ${currentTime.toISOString()} (local time ${getEatenTime(currentTime.toISOString())})
+${formatBodyWeight(bodyWeight)}
 
-${previousMealsContext ? `Previous meals for reference:\n${previousMealsContext}\n\n` : ''}Today's food so far:
+Meal slots:
+${formatMealSlots(slots, currentTime)}
+
+${previousMealsContext ? `Previous meals for reference:\n${previousMealsContext}\n\n` : ''}${recipesContext ? `Saved recipes (per serving):\n${recipesContext}\n\n` : ''}${templatesContext ? `Meal templates:\n${templatesContext}\n\n` : ''}Today's food so far:
 ${todayFoodContext}
 
 Transcript: ${transcript}`;
@@ -144,23 +263,84 @@ Transcript: ${transcript}`;
   ];
 }
 
-function validateAndNormalizeLLMResponse(response: LLMResponseParsed): LLMResponse {
-  const normalized: LLMResponse = {
-    breakfast: [],
-    lunch: [],
-    dinner: [],
-    snacks: [],
-  };
+// Drop operations that reference unknown entries or would not change anything,
+// and reduce updates to the fields that actually differ so manual edits survive
+// Eaten times are given as HH:MM and placed on the log's date
+function validateAndNormalizeEditResponse(
+  response: LLMEditResponseParsed,
+  slots: MealSlotInfo[],
+  currentTime: Date,
+  todayLog?: DailyLog
+): FoodEditOperation[] {
+  const existing = new Map<string, { entry: FoodEntry; mealType: MealType }>();
+  if (todayLog) {
+    for (const mealType of getMealOrder(slots, todayLog)) {
+      for (const entry of getMealEntries(todayLog, mealType)) {
+        existing.set(entry.foodEntryID, { entry, mealType });
+      }
+    }
+  }
 
-  const mealTypes: Array<keyof LLMResponse> = ['breakfast', 'lunch', 'dinner', 'snacks'];
+  // Unknown keys fall back to the meal for the time of day
+  const mealTypes = new Set(slots.map((slot) => slot.mealType));
+  const fallbackMealType = getMealTypeForTime(slots, currentTime);
+  const logDate = todayLog?.date ?? formatLocalDate(currentTime);
+
+  const operations: FoodEditOperation[] = [];
+  const removed = new Set<string>();
+
+  for (const parsed of response.operations ?? []) {
+    const op = mealTypes.has(parsed.mealType) ? parsed : { ...parsed, mealType: fallbackMealType };
+    const eatenAt = toEatenAt(logDate, op.eatenAt);
+    if (op.type === 'add') {
+      // Without a stated time, storage stamps the entry when it is saved
+      operations.push({ type: 'add', mealType: op.mealType, item: validateFoodItem(op.item), ...(eatenAt && { eatenAt }) });
+      continue;
+    }
 
-  for (const mealType of mealTypes) {
-    if (Array.isArray(response[mealType])) {
-      normalized[mealType] = response[mealType].map((item: FoodItemParsed) => validateFoodItem(item));
+    const target = existing.get(op.foodEntryID);
+    if (!target || removed.has(op.foodEntryID)) continue;
+
+    switch (op.type) {
+      case 'update': {
+        const item = validateFoodItem(op.item);
+        const updates: FoodEntryUpdates = {};
+        if (item.name !== target.entry.name) updates.name = item.name;
+        if (item.quantity !== target.entry.quantity) updates.quantity = item.quantity;
+        if (item.calories !== target.entry.calories) updates.calories = item.calories;
+        if (item.protein !== target.entry.protein) updates.protein = item.protein;
+        if (item.carbs !== target.entry.carbs) updates.carbs = item.carbs;
+        if (item.fat !== target.entry.fat) updates.fat = item.fat;
+        // A micronutrient left out of the update keeps its current value
+        for (const key of MICRONUTRIENT_KEYS) {
+          const value = item[key];
+          if (typeof value === 'number' && value !== target.entry[key]) updates[key] = value;
+        }
+        if (eatenAt && eatenAt !== target.entry.eatenAt) updates.eatenAt = eatenAt;
+        if (Object.keys(updates).length > 0) {
+          operations.push({ type: 'update', foodEntryID: op.foodEntryID, updates });
+        }
+        // An update may also name a different meal - treat that as a move
+        if (op.mealType !== target.mealType) {
+          operations.push({ type: 'move', foodEntryID: op.foodEntryID, mealType: op.mealType });
+          target.mealType = op.mealType;
+        }
+        break;
+      }
+      case 'remove':
+        operations.push({ type: 'remove', foodEntryID: op.foodEntryID });
+        removed.add(op.foodEntryID);
+        break;
+      case 'move':
+        if (op.mealType !== target.mealType) {
+          operations.push({ type: 'move', foodEntryID: op.foodEntryID, mealType: op.mealType });
+          target.mealType = op.mealType;
+        }
+        break;
     }
   }
 
-  return normalized;
+  return operations;
 }
 
 interface GetRecommendationParams {
@@ -170,6 +350,7 @@ interface GetRecommendationParams {
   todayLog: DailyLog;
   previousDayLogs?: DailyLog[];
   macroTargets: MacroTargets;
+  mealSlots?: MealSlotInfo[];
   provider?: ProviderType;
   enableWebSearch?: boolean;
 }
@@ -181,6 +362,7 @@ export async function getRecommendation({
   todayLog,
   previousDayLogs,
   macroTargets,
+  mealSlots,
   provider = DEFAULT_PROVIDER,
   enableWebSearch = true,
 }: GetRecommendationParams): Promise<{ isValid: boolean; answer: string }> {
@@ -197,13 +379,20 @@ export async function getRecommendation({
       fat: macroTargets.fat - todayLog.totalFat,
     };
 
-    const mealsContext = formatMealsFromLog(todayLog);
+    const slots = getSlotsOrDefault(mealSlots);
+    const mealsContext = formatMealsFromLog(todayLog, slots);
+
+    // Only nutrients the user has a target for; unknown intake is stated as such
+    const consumedMicros = getDailyMicronutrients(todayLog);
+    const microTargets = MICRONUTRIENTS
+      .filter((m) => macroTargets[m.key] !== null && macroTargets[m.key] !== undefined)
+      .map((m) => `${m.label}: ${formatMicronutrient(m, consumedMicros[m.key])} of ${macroTargets[m.key]}${m.unit}`);
 
     let previousDaysContext = '';
     if (previousDayLogs && previousDayLogs.length > 0) {
       previousDaysContext = previousDayLogs
         .map((log) => {
-          const meals = formatMealsFromLog(log);
+          const meals = formatMealsFromLog(log, slots);
           return `${log.date}: ${meals.length > 0 ? meals.join(', ') : 'Nothing logged'}`;
         })
         .join('\n');
@@ -216,7 +405,7 @@ Macro Targets: Calories: ${macroTargets.calories}, Protein: ${macroTargets.prote
 Consumed Today: Calories: ${todayLog.totalCalories}, Protein: ${todayLog.totalProtein}g, Carbs: ${todayLog.totalCarbs}g, Fat: ${todayLog.totalFat}g
 
 Remaining: Calories: ${remaining.calories}, Protein: ${remaining.protein}g, Carbs: ${remaining.carbs}g, Fat: ${remaining.fat}g
-
+${microTargets.length > 0 ? `\nMicronutrients Today (consumed of target, — = unknown): ${microTargets.join(', ')}\n` : ''}
 Today's meals:
 ${mealsContext.length > 0 ? mealsContext.join('\n') : 'Nothing logged yet'}
 ${previousDaysContext ? `\nPrevious days:\n${previousDaysContext}` : ''}
@@ -266,5 +455,6 @@ function validateFoodItem(item: FoodItemParsed): FoodItem {
     protein: Math.round(Number(item.protein) || 0),
     carbs: Math.round(Number(item.carbs) || 0),
     fat: Math.round(Number(item.fat) || 0),
+    ...getMicronutrients(item),
   };
 }
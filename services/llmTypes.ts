@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import type { MealType } from '../types';
+import { DEFAULT_MEAL_SLOTS, MealSlotInfo } from './mealSlots';
 
 // Common message format for all LLM providers
 export interface LLMMessage {
@@ -32,18 +34,58 @@ export const FoodItemSchema = z.object({
   protein: z.number().describe('Protein in grams'),
   carbs: z.number().describe('Carbohydrates in grams'),
   fat: z.number().describe('Fat in grams'),
+  fiber: z.number().nullable().describe('Dietary fiber in grams, or null if unknown'),
+  sugar: z.number().nullable().describe('Total sugars in grams, or null if unknown'),
+  addedSugar: z.number().nullable().describe('Added sugars in grams, or null if unknown'),
+  sodium: z.number().nullable().describe('Sodium in milligrams, or null if unknown'),
+  saturatedFat: z.number().nullable().describe('Saturated fat in grams, or null if unknown'),
+  cholesterol: z.number().nullable().describe('Cholesterol in milligrams, or null if unknown'),
 });
 
-export const LLMResponseSchema = z.object({
-  breakfast: z.array(FoodItemSchema).describe('Food items for breakfast'),
-  lunch: z.array(FoodItemSchema).describe('Food items for lunch'),
-  dinner: z.array(FoodItemSchema).describe('Food items for dinner'),
-  snacks: z.array(FoodItemSchema).describe('Food items for snacks'),
+// Zod schemas for exercise parsing
+export const ActivityIntensitySchema = z.enum(['light', 'moderate', 'vigorous']);
+
+export const ActivityItemSchema = z.object({
+  name: z.string().describe('Name of the activity (e.g., "Cycling", "Weight training")'),
+  durationMinutes: z.number().describe('Duration in minutes'),
+  intensity: ActivityIntensitySchema.describe('How hard the user worked'),
+  caloriesBurned: z.number().describe('Estimated kcal burned, using the user\'s body weight when given'),
+});
+
+export const LLMActivityResponseSchema = z.object({
+  activities: z.array(ActivityItemSchema).describe('Workouts the user described. Empty if none'),
 });
 
+// Zod schemas for incremental food log edits
+// Meal slots are configured per user, so the meal key enum is built from the user's slots
+// Flat object (no unions/optionals, only nullable numbers) so both OpenAI and Gemini structured output accept it
+export function createMealTypeSchema(slots: MealSlotInfo[]) {
+  const mealTypes = slots.map((slot) => slot.mealType);
+  return z.enum((mealTypes.length > 0 ? mealTypes : DEFAULT_MEAL_SLOTS.map((slot) => slot.mealType)) as [MealType, ...MealType[]]);
+}
+
+export function createFoodEditOperationSchema(slots: MealSlotInfo[]) {
+  return z.object({
+    type: z.enum(['add', 'update', 'remove', 'move']).describe('Kind of change to apply'),
+    foodEntryID: z.string().describe('ID of the existing entry to update, remove or move. Empty string for add'),
+    mealType: createMealTypeSchema(slots).describe('Meal slot key to add or move the item to. For update and remove, the meal the entry is currently in'),
+    item: FoodItemSchema.describe('The item after the change. For remove and move, repeat the existing item unchanged'),
+    eatenAt: z.string().describe('When the food was eaten as 24-hour HH:MM, only if the user said or implied a time (e.g. "at 3pm" -> "15:00"). Empty string otherwise'),
+  });
+}
+
+export function createLLMEditResponseSchema(slots: MealSlotInfo[]) {
+  return z.object({
+    operations: z.array(createFoodEditOperationSchema(slots)).describe('Changes to apply to today\'s food log, in order. Empty if nothing changes'),
+    water: z.number().describe('Fluid ounces of plain water the user drank, logged as hydration instead of food. 0 if none'),
+    activities: z.array(ActivityItemSchema).describe('Workouts the user did, logged as exercise instead of food. Empty if none'),
+  });
+}
+
 // Infer types from schemas
 export type FoodItemParsed = z.infer<typeof FoodItemSchema>;
-export type LLMResponseParsed = z.infer<typeof LLMResponseSchema>;
+export type LLMEditResponseParsed = z.infer<ReturnType<typeof createLLMEditResponseSchema>>;
+export type LLMActivityResponseParsed = z.infer<typeof LLMActivityResponseSchema>;
 
 // Provider interface
 export interface LLMProvider {
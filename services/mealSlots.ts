@@ -0,0 +1,117 @@
+/**
+ * Meal slot helpers: the default slots, time windows and lookups by meal key
+ * Food entries store a slot's key (mealType), so renaming a slot never touches them
+ */
+
+import type { DailyLog, FoodEntry, MealSlot, MealType } from '../types';
+
+export type MealSlotInput = Pick<MealSlot, 'name' | 'startTime' | 'endTime'>;
+
+// What the lookups below need; stored slots and the defaults both satisfy it
+export type MealSlotInfo = MealSlotInput & Pick<MealSlot, 'mealType'>;
+
+// Every user starts with these; their keys match the meal types stored before slots were configurable
+export const DEFAULT_MEAL_SLOTS: MealSlotInfo[] = [
+  { mealType: 'breakfast', name: 'Breakfast', startTime: '05:00', endTime: '11:00' },
+  { mealType: 'lunch', name: 'Lunch', startTime: '11:00', endTime: '14:00' },
+  { mealType: 'dinner', name: 'Dinner', startTime: '17:00', endTime: '21:00' },
+  { mealType: 'snacks', name: 'Snacks', startTime: null, endTime: null },
+];
+
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})$/;
+
+/**
+ * Normalize "7:30" style input to HH:MM
+ * Returns null for blank or invalid times
+ */
+export function normalizeTime(value: string | null | undefined): string | null {
+  const match = value?.trim().match(TIME_PATTERN);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return `${String(hours).padStart(2, '0')}:${match[2]}`;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * True when a time of day (minutes since midnight) falls in the slot's window
+ * The end is exclusive, and windows ending before they start wrap past midnight
+ */
+function isInWindow(slot: MealSlotInput, minutes: number): boolean {
+  if (!slot.startTime || !slot.endTime) return false;
+  const start = toMinutes(slot.startTime);
+  const end = toMinutes(slot.endTime);
+  return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+/**
+ * The meal for a time of day: the first slot whose window contains it, else the catch-all slot
+ */
+export function getMealTypeForTime(slots: MealSlotInfo[], date: Date = new Date()): MealType {
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const inWindow = slots.find((slot) => isInWindow(slot, minutes));
+  return inWindow ? inWindow.mealType : getCatchAllMealType(slots);
+}
+
+/**
+ * Where food with no better match goes: the last slot without a window, else the last slot
+ */
+export function getCatchAllMealType(slots: MealSlotInfo[]): MealType {
+  const unscheduled = [...slots].reverse().find((slot) => !slot.startTime || !slot.endTime);
+  return (unscheduled ?? slots[slots.length - 1])?.mealType ?? DEFAULT_MEAL_SLOTS[3].mealType;
+}
+
+/**
+ * Build the key for a new slot from its name ("Pre-workout" → "pre-workout"),
+ * adding a numeric suffix when another slot already uses it
+ */
+export function createMealTypeKey(name: string, existing: MealType[]): MealType {
+  const base = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'meal';
+  let key = base;
+  for (let i = 2; existing.includes(key); i++) {
+    key = `${base}-${i}`;
+  }
+  return key;
+}
+
+/**
+ * Display name for a meal key
+ * Keys without a slot (e.g. from an older backup) fall back to the capitalized key
+ */
+export function getMealName(slots: MealSlotInfo[], mealType: MealType): string {
+  const slot = slots.find((s) => s.mealType === mealType);
+  if (slot) return slot.name;
+  const words = mealType.replace(/-/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * A day's entries for one meal
+ */
+export function getMealEntries(log: Pick<DailyLog, 'meals'>, mealType: MealType): FoodEntry[] {
+  return log.meals[mealType] ?? [];
+}
+
+/**
+ * Meal keys in display order: the user's slots, then any keys in the log that have no slot
+ */
+export function getMealOrder(slots: MealSlotInfo[], log?: Pick<DailyLog, 'meals'>): MealType[] {
+  const order = slots.map((slot) => slot.mealType);
+  for (const mealType of Object.keys(log?.meals ?? {})) {
+    if (!order.includes(mealType)) order.push(mealType);
+  }
+  return order;
+}
+
+/**
+ * Time window for display, e.g. "05:00–11:00", or null when the slot has none
+ */
+export function formatMealWindow(slot: MealSlotInput): string | null {
+  if (!slot.startTime || !slot.endTime) return null;
+  return `${slot.startTime}–${slot.endTime}`;
+}
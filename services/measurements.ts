@@ -0,0 +1,70 @@
+/**
+ * Body measurement metadata and math: tape measurements, body fat and derived lean mass
+ * Every value is optional; null means not measured
+ */
+
+import type { BodyMeasurementValues, MeasurementKey } from '../types';
+
+export interface MeasurementInfo {
+  key: MeasurementKey;
+  label: string;
+  unit: 'in' | '%';
+  max: number; // upper bound for a plausible value
+}
+
+export const MEASUREMENTS: MeasurementInfo[] = [
+  { key: 'waist', label: 'Waist', unit: 'in', max: 100 },
+  { key: 'hips', label: 'Hips', unit: 'in', max: 100 },
+  { key: 'chest', label: 'Chest', unit: 'in', max: 100 },
+  { key: 'arms', label: 'Arms', unit: 'in', max: 40 },
+  { key: 'thighs', label: 'Thighs', unit: 'in', max: 60 },
+  { key: 'neck', label: 'Neck', unit: 'in', max: 40 },
+  { key: 'bodyFat', label: 'Body fat', unit: '%', max: 75 },
+];
+
+export const MEASUREMENT_KEYS: MeasurementKey[] = MEASUREMENTS.map((m) => m.key);
+
+/**
+ * Round a value to one decimal for storage
+ * Non-numeric, non-positive or implausibly large values become null
+ */
+export function normalizeMeasurement(info: MeasurementInfo, value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const num = Number(value);
+  if (!Number.isFinite(num) || num <= 0 || num > info.max) return null;
+  return Math.round(num * 10) / 10;
+}
+
+/**
+ * Measurements with every key present, unmeasured as null
+ */
+export function getMeasurementValues(values: Partial<BodyMeasurementValues>): BodyMeasurementValues {
+  const result = {} as BodyMeasurementValues;
+  for (const info of MEASUREMENTS) {
+    result[info.key] = normalizeMeasurement(info, values[info.key]);
+  }
+  return result;
+}
+
+/**
+ * True when no measurement was taken
+ */
+export function isEmptyMeasurement(values: BodyMeasurementValues): boolean {
+  return MEASUREMENT_KEYS.every((key) => values[key] === null);
+}
+
+/**
+ * Lean body mass in lbs from weight and body-fat percentage
+ */
+export function calculateLeanMass(weight: number | null, bodyFat: number | null): number | null {
+  if (weight === null || bodyFat === null) return null;
+  return Math.round(weight * (1 - bodyFat / 100) * 10) / 10;
+}
+
+/**
+ * Format a value with its unit, or a dash when not measured
+ */
+export function formatMeasurement(info: MeasurementInfo, value: number | null | undefined): string {
+  if (value === null || value === undefined) return '—';
+  return info.unit === '%' ? `${value}%` : `${value} in`;
+}
@@ -0,0 +1,103 @@
+/**
+ * Micronutrient metadata and math: fiber, sugar, added sugar, sodium, saturated fat, cholesterol
+ * Every value is optional; null means unknown and is never counted as zero
+ */
+
+import type { Micronutrients, MicronutrientKey, MicronutrientTotals } from '../types';
+
+export interface MicronutrientInfo {
+  key: MicronutrientKey;
+  totalKey: keyof MicronutrientTotals; // matching daily_logs column
+  label: string;
+  unit: 'g' | 'mg';
+}
+
+export const MICRONUTRIENTS: MicronutrientInfo[] = [
+  { key: 'fiber', totalKey: 'totalFiber', label: 'Fiber', unit: 'g' },
+  { key: 'sugar', totalKey: 'totalSugar', label: 'Sugar', unit: 'g' },
+  { key: 'addedSugar', totalKey: 'totalAddedSugar', label: 'Added sugar', unit: 'g' },
+  { key: 'sodium', totalKey: 'totalSodium', label: 'Sodium', unit: 'mg' },
+  { key: 'saturatedFat', totalKey: 'totalSaturatedFat', label: 'Saturated fat', unit: 'g' },
+  { key: 'cholesterol', totalKey: 'totalCholesterol', label: 'Cholesterol', unit: 'mg' },
+];
+
+export const MICRONUTRIENT_KEYS: MicronutrientKey[] = MICRONUTRIENTS.map((m) => m.key);
+
+/**
+ * Round a value for storage: grams to one decimal, milligrams to whole numbers
+ * Negative or non-numeric values become unknown
+ */
+export function normalizeMicronutrient(info: MicronutrientInfo, value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const num = Number(value);
+  if (!Number.isFinite(num) || num < 0) return null;
+  return info.unit === 'mg' ? Math.round(num) : Math.round(num * 10) / 10;
+}
+
+/**
+ * A food's micronutrients with every key present, unknowns as null
+ */
+export function getMicronutrients(food: Micronutrients): Required<Micronutrients> {
+  const result = {} as Required<Micronutrients>;
+  for (const info of MICRONUTRIENTS) {
+    result[info.key] = normalizeMicronutrient(info, food[info.key]);
+  }
+  return result;
+}
+
+/**
+ * Values in MICRONUTRIENT_KEYS order, for SQL parameters
+ */
+export function getMicronutrientValues(food: Micronutrients): (number | null)[] {
+  const values = getMicronutrients(food);
+  return MICRONUTRIENT_KEYS.map((key) => values[key]);
+}
+
+/**
+ * Sum micronutrients across foods; a nutrient stays null only when no food knows it
+ */
+export function sumMicronutrients(foods: Micronutrients[]): Required<Micronutrients> {
+  const result = {} as Required<Micronutrients>;
+  for (const info of MICRONUTRIENTS) {
+    let total: number | null = null;
+    for (const food of foods) {
+      const value = food[info.key];
+      if (value !== null && value !== undefined) {
+        total = (total ?? 0) + value;
+      }
+    }
+    result[info.key] = normalizeMicronutrient(info, total);
+  }
+  return result;
+}
+
+/**
+ * Scale known micronutrients by a portion ratio
+ */
+export function scaleMicronutrients(food: Micronutrients, ratio: number): Required<Micronutrients> {
+  const result = {} as Required<Micronutrients>;
+  for (const info of MICRONUTRIENTS) {
+    const value = food[info.key];
+    result[info.key] = value === null || value === undefined ? null : normalizeMicronutrient(info, value * ratio);
+  }
+  return result;
+}
+
+/**
+ * Read a daily log's micronutrient totals back as nutrient values
+ */
+export function getDailyMicronutrients(totals: MicronutrientTotals): Required<Micronutrients> {
+  const result = {} as Required<Micronutrients>;
+  for (const info of MICRONUTRIENTS) {
+    result[info.key] = totals[info.totalKey] ?? null;
+  }
+  return result;
+}
+
+/**
+ * Format a value with its unit, or a dash when unknown
+ */
+export function formatMicronutrient(info: MicronutrientInfo, value: number | null | undefined): string {
+  if (value === null || value === undefined) return '—';
+  return `${value}${info.unit}`;
+}
@@ -0,0 +1,721 @@
+/**
+ * Versioned schema migrations for the Hey Macro database
+ * The applied version is tracked in PRAGMA user_version and every run is recorded in schema_migrations
+ */
+
+import type * as SQLite from 'expo-sqlite';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: SQLite.SQLiteDatabase) => Promise<void>;
+}
+
+export interface MigrationRecord {
+  version: number;
+  name: string;
+  appliedAt: string;
+}
+
+/**
+ * Ordered list of migrations. Append new migrations with the next version number;
+ * never edit or reorder one that has shipped.
+ *
+ * Migrations 1-4 replace the old ad-hoc setup and must stay idempotent,
+ * since installs from before versioning already have some or all of their changes.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: async (db) => {
+      await db.execAsync(`
+        -- Users table
+        CREATE TABLE IF NOT EXISTS users (
+          userID TEXT PRIMARY KEY,
+          firstName TEXT NOT NULL,
+          lastName TEXT NOT NULL,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL
+        );
+
+        -- Macro targets table
+        CREATE TABLE IF NOT EXISTS macro_targets (
+          userID TEXT PRIMARY KEY,
+          calories INTEGER NOT NULL,
+          protein INTEGER NOT NULL,
+          carbs INTEGER NOT NULL,
+          fat INTEGER NOT NULL,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL,
+          FOREIGN KEY (userID) REFERENCES users(userID)
+        );
+
+        -- Daily logs table
+        CREATE TABLE IF NOT EXISTS daily_logs (
+          dailyLogID TEXT PRIMARY KEY,
+          userID TEXT NOT NULL,
+          date TEXT NOT NULL,
+          totalCalories INTEGER DEFAULT 0,
+          totalProtein INTEGER DEFAULT 0,
+          totalCarbs INTEGER DEFAULT 0,
+          totalFat INTEGER DEFAULT 0,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL,
+          FOREIGN KEY (userID) REFERENCES users(userID)
+        );
+
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_daily_logs_user_date
+          ON daily_logs(userID, date);
+
+        -- Food entries table
+        CREATE TABLE IF NOT EXISTS food_entries (
+          foodEntryID TEXT PRIMARY KEY,
+          userID TEXT NOT NULL,
+          dailyLogID TEXT NOT NULL,
+          mealType TEXT NOT NULL,
+          name TEXT NOT NULL,
+          quantity TEXT NOT NULL,
+          calories INTEGER NOT NULL,
+          protein INTEGER NOT NULL,
+          carbs INTEGER NOT NULL,
+          fat INTEGER NOT NULL,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL,
+          FOREIGN KEY (userID) REFERENCES users(userID),
+          FOREIGN KEY (dailyLogID) REFERENCES daily_logs(dailyLogID)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_food_entries_daily_log
+          ON food_entries(dailyLogID);
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'daily_log_targets',
+    up: async (db) => {
+      // Per-day target snapshot columns
+      if (!(await hasColumn(db, 'daily_logs', 'targetCalories'))) {
+        await db.execAsync(`
+          ALTER TABLE daily_logs ADD COLUMN targetCalories INTEGER DEFAULT 2690;
+          ALTER TABLE daily_logs ADD COLUMN targetProtein INTEGER DEFAULT 170;
+          ALTER TABLE daily_logs ADD COLUMN targetCarbs INTEGER DEFAULT 300;
+          ALTER TABLE daily_logs ADD COLUMN targetFat INTEGER DEFAULT 90;
+        `);
+      }
+    },
+  },
+  {
+    version: 3,
+    name: 'weight_logs',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS weight_logs (
+          weightLogID TEXT PRIMARY KEY,
+          userID TEXT NOT NULL,
+          date TEXT NOT NULL,
+          weight REAL NOT NULL,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL,
+          FOREIGN KEY (userID) REFERENCES users(userID)
+        );
+
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_weight_logs_user_date
+          ON weight_logs(userID, date);
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: 'user_settings',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS user_settings (
+          userID TEXT PRIMARY KEY,
+          reviewBeforeSave INTEGER NOT NULL DEFAULT 0,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL,
+          FOREIGN KEY (userID) REFERENCES users(userID)
+        );
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: 'daily_log_revisions',
+    up: async (db) => {
+      // Snapshot of a day's food entries taken before each mutation
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS daily_log_revisions (
+          revisionID TEXT PRIMARY KEY,
+          dailyLogID TEXT NOT NULL,
+          userID TEXT NOT NULL,
+          source TEXT NOT NULL,
+          entries TEXT NOT NULL,
+          createdAt TEXT NOT NULL,
+          FOREIGN KEY (userID) REFERENCES users(userID),
+          FOREIGN KEY (dailyLogID) REFERENCES daily_logs(dailyLogID)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_daily_log_revisions_log
+          ON daily_log_revisions(dailyLogID, createdAt);
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: 'saved_foods',
+    up: async (db) => {
+      // One row per distinct food name, holding the most recently logged portion
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS saved_foods (
+          savedFoodID TEXT PRIMARY KEY,
+          userID TEXT NOT NULL,
+          name TEXT NOT NULL,
+          nameKey TEXT GENERATED ALWAYS AS (lower(trim(name))) STORED,
+          quantity TEXT NOT NULL,
+          calories INTEGER NOT NULL,
+          protein INTEGER NOT NULL,
+          carbs INTEGER NOT NULL,
+          fat INTEGER NOT NULL,
+          useCount INTEGER NOT NULL DEFAULT 0,
+          lastUsedAt TEXT NOT NULL,
+          pinned INTEGER NOT NULL DEFAULT 0,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL,
+          FOREIGN KEY (userID) REFERENCES users(userID)
+        );
+
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_saved_foods_user_name
+          ON saved_foods(userID, nameKey);
+
+        -- Backfill from existing history, taking the portion from the latest entry per name
+        INSERT OR IGNORE INTO saved_foods (
+          savedFoodID, userID, name, quantity, calories, protein, carbs, fat,
+          useCount, lastUsedAt, pinned, createdAt, updatedAt
+        )
+        SELECT
+          lower(hex(randomblob(16))), fe.userID, trim(fe.name), fe.quantity, fe.calories, fe.protein, fe.carbs, fe.fat,
+          agg.useCount, agg.lastUsedAt, 0, agg.firstUsedAt, agg.lastUsedAt
+        FROM food_entries fe
+        INNER JOIN (
+          SELECT userID, lower(trim(name)) AS nameKey, COUNT(*) AS useCount,
+            MAX(createdAt) AS lastUsedAt, MIN(createdAt) AS firstUsedAt
+          FROM food_entries
+          GROUP BY userID, lower(trim(name))
+        ) agg ON agg.userID = fe.userID AND agg.nameKey = lower(trim(fe.name)) AND agg.lastUsedAt = fe.createdAt;
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: 'recipes',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS recipes (
+          recipeID TEXT PRIMARY KEY,
+          userID TEXT NOT NULL,
+          name TEXT NOT NULL,
+          servings REAL NOT NULL DEFAULT 1,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL,
+          FOREIGN KEY (userID) REFERENCES users(userID)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_recipes_user
+          ON recipes(userID);
+
+        CREATE TABLE IF NOT EXISTS recipe_ingredients (
+          ingredientID TEXT PRIMARY KEY,
+          recipeID TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          name TEXT NOT NULL,
+          quantity TEXT NOT NULL,
+          calories INTEGER NOT NULL,
+          protein INTEGER NOT NULL,
+          carbs INTEGER NOT NULL,
+          fat INTEGER NOT NULL,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL,
+          FOREIGN KEY (recipeID) REFERENCES recipes(recipeID)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_recipe_ingredients_recipe
+          ON recipe_ingredients(recipeID, position);
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: 'meal_templates',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS meal_templates (
+          templateID TEXT PRIMARY KEY,
+          userID TEXT NOT NULL,
+          name TEXT NOT NULL,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL,
+          FOREIGN KEY (userID) REFERENCES users(userID)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_meal_templates_user
+          ON meal_templates(userID);
+
+        CREATE TABLE IF NOT EXISTS meal_template_items (
+          itemID TEXT PRIMARY KEY,
+          templateID TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          name TEXT NOT NULL,
+          quantity TEXT NOT NULL,
+          calories INTEGER NOT NULL,
+          protein INTEGER NOT NULL,
+          carbs INTEGER NOT NULL,
+          fat INTEGER NOT NULL,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL,
+          FOREIGN KEY (templateID) REFERENCES meal_templates(templateID)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_meal_template_items_template
+          ON meal_template_items(templateID, position);
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: 'target_schedule',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS weekday_targets (
+          userID TEXT NOT NULL,
+          weekday INTEGER NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+          calories INTEGER NOT NULL,
+          protein INTEGER NOT NULL,
+          carbs INTEGER NOT NULL,
+          fat INTEGER NOT NULL,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL,
+          PRIMARY KEY (userID, weekday),
+          FOREIGN KEY (userID) REFERENCES users(userID)
+        );
+
+        CREATE TABLE IF NOT EXISTS day_types (
+          dayTypeID TEXT PRIMARY KEY,
+          userID TEXT NOT NULL,
+          name TEXT NOT NULL,
+          calories INTEGER NOT NULL,
+          protein INTEGER NOT NULL,
+          carbs INTEGER NOT NULL,
+          fat INTEGER NOT NULL,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL,
+          FOREIGN KEY (userID) REFERENCES users(userID)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_day_types_user
+          ON day_types(userID);
+
+        CREATE TABLE IF NOT EXISTS day_type_assignments (
+          userID TEXT NOT NULL,
+          date TEXT NOT NULL,
+          dayTypeID TEXT NOT NULL,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL,
+          PRIMARY KEY (userID, date),
+          FOREIGN KEY (userID) REFERENCES users(userID),
+          FOREIGN KEY (dayTypeID) REFERENCES day_types(dayTypeID)
+        );
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: 'app_state',
+    up: async (db) => {
+      // Device-level key/value state (e.g. the active profile); not part of backups
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS app_state (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: 'food_entries_fts',
+    up: async (db) => {
+      // Search index over entry names and quantities, kept in sync by triggers.
+      // These triggers matched on food_entries.rowid, which VACUUM can renumber; migration 22 replaces them
+      await db.execAsync(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS food_entries_fts USING fts5(
+          foodEntryID UNINDEXED,
+          name,
+          quantity,
+          tokenize = 'unicode61 remove_diacritics 2'
+        );
+
+        CREATE TRIGGER IF NOT EXISTS food_entries_fts_insert AFTER INSERT ON food_entries BEGIN
+          INSERT INTO food_entries_fts (rowid, foodEntryID, name, quantity)
+            VALUES (new.rowid, new.foodEntryID, new.name, new.quantity);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS food_entries_fts_delete AFTER DELETE ON food_entries BEGIN
+          DELETE FROM food_entries_fts WHERE rowid = old.rowid;
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS food_entries_fts_update AFTER UPDATE OF name, quantity ON food_entries BEGIN
+          UPDATE food_entries_fts SET name = new.name, quantity = new.quantity WHERE rowid = old.rowid;
+        END;
+
+        INSERT INTO food_entries_fts (rowid, foodEntryID, name, quantity)
+          SELECT rowid, foodEntryID, name, quantity FROM food_entries;
+      `);
+    },
+  },
+  {
+    version: 12,
+    name: 'micronutrients',
+    up: async (db) => {
+      // All nullable: existing rows stay unknown rather than zero
+      await db.execAsync(`
+        ALTER TABLE food_entries ADD COLUMN fiber REAL;
+        ALTER TABLE food_entries ADD COLUMN sugar REAL;
+        ALTER TABLE food_entries ADD COLUMN addedSugar REAL;
+        ALTER TABLE food_entries ADD COLUMN sodium REAL;
+        ALTER TABLE food_entries ADD COLUMN saturatedFat REAL;
+        ALTER TABLE food_entries ADD COLUMN cholesterol REAL;
+
+        ALTER TABLE saved_foods ADD COLUMN fiber REAL;
+        ALTER TABLE saved_foods ADD COLUMN sugar REAL;
+        ALTER TABLE saved_foods ADD COLUMN addedSugar REAL;
+        ALTER TABLE saved_foods ADD COLUMN sodium REAL;
+        ALTER TABLE saved_foods ADD COLUMN saturatedFat REAL;
+        ALTER TABLE saved_foods ADD COLUMN cholesterol REAL;
+
+        ALTER TABLE macro_targets ADD COLUMN fiber REAL;
+        ALTER TABLE macro_targets ADD COLUMN sugar REAL;
+        ALTER TABLE macro_targets ADD COLUMN addedSugar REAL;
+        ALTER TABLE macro_targets ADD COLUMN sodium REAL;
+        ALTER TABLE macro_targets ADD COLUMN saturatedFat REAL;
+        ALTER TABLE macro_targets ADD COLUMN cholesterol REAL;
+
+        ALTER TABLE daily_logs ADD COLUMN totalFiber REAL;
+        ALTER TABLE daily_logs ADD COLUMN totalSugar REAL;
+        ALTER TABLE daily_logs ADD COLUMN totalAddedSugar REAL;
+        ALTER TABLE daily_logs ADD COLUMN totalSodium REAL;
+        ALTER TABLE daily_logs ADD COLUMN totalSaturatedFat REAL;
+        ALTER TABLE daily_logs ADD COLUMN totalCholesterol REAL;
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: 'water_logs',
+    up: async (db) => {
+      // One row per drink, summed per day
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS water_logs (
+          waterLogID TEXT PRIMARY KEY,
+          userID TEXT NOT NULL,
+          date TEXT NOT NULL,
+          amount REAL NOT NULL,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL,
+          FOREIGN KEY (userID) REFERENCES users(userID)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_water_logs_user_date
+          ON water_logs(userID, date);
+
+        ALTER TABLE user_settings ADD COLUMN waterTarget INTEGER NOT NULL DEFAULT 64;
+      `);
+    },
+  },
+  {
+    version: 14,
+    name: 'body_measurements',
+    up: async (db) => {
+      // One row per date; every measurement is optional
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS body_measurements (
+          measurementID TEXT PRIMARY KEY,
+          userID TEXT NOT NULL,
+          date TEXT NOT NULL,
+          waist REAL,
+          hips REAL,
+          chest REAL,
+          arms REAL,
+          thighs REAL,
+          neck REAL,
+          bodyFat REAL,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL,
+          FOREIGN KEY (userID) REFERENCES users(userID)
+        );
+
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_body_measurements_user_date
+          ON body_measurements(userID, date);
+      `);
+    },
+  },
+  {
+    version: 15,
+    name: 'activity_logs',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS activity_logs (
+          activityLogID TEXT PRIMARY KEY,
+          userID TEXT NOT NULL,
+          date TEXT NOT NULL,
+          name TEXT NOT NULL,
+          durationMinutes INTEGER NOT NULL,
+          intensity TEXT NOT NULL CHECK (intensity IN ('light', 'moderate', 'vigorous')),
+          caloriesBurned INTEGER NOT NULL,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL,
+          FOREIGN KEY (userID) REFERENCES users(userID)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_activity_logs_user_date
+          ON activity_logs(userID, date);
+
+        ALTER TABLE user_settings ADD COLUMN exerciseAdjustsTarget INTEGER NOT NULL DEFAULT 0;
+      `);
+    },
+  },
+  {
+    // Existing users get the default four slots on first read; their keys match the old fixed meal types
+    version: 16,
+    name: 'meal_slots',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS meal_slots (
+          mealSlotID TEXT PRIMARY KEY,
+          userID TEXT NOT NULL,
+          mealType TEXT NOT NULL,
+          name TEXT NOT NULL,
+          startTime TEXT,
+          endTime TEXT,
+          sortOrder INTEGER NOT NULL,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL,
+          FOREIGN KEY (userID) REFERENCES users(userID),
+          UNIQUE (userID, mealType)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_meal_slots_user
+          ON meal_slots(userID, sortOrder);
+      `);
+    },
+  },
+  {
+    // Entries written on their own day were most likely logged as they were eaten,
+    // so their write time is the best guess; the rest stay unknown
+    version: 17,
+    name: 'food_entries_eaten_at',
+    up: async (db) => {
+      await db.execAsync(`
+        ALTER TABLE food_entries ADD COLUMN eatenAt TEXT;
+
+        UPDATE food_entries SET eatenAt = createdAt
+        WHERE date(createdAt, 'localtime') = (
+          SELECT date FROM daily_logs WHERE daily_logs.dailyLogID = food_entries.dailyLogID
+        );
+
+        ALTER TABLE user_settings ADD COLUMN timelineView INTEGER NOT NULL DEFAULT 0;
+      `);
+    },
+  },
+  {
+    // Viewing a day used to insert its row; drop the ones that never got an entry
+    // Days whose entries were all deleted keep their row for the revision history
+    version: 18,
+    name: 'remove_empty_daily_logs',
+    up: async (db) => {
+      await db.execAsync(`
+        DELETE FROM daily_logs
+        WHERE NOT EXISTS (SELECT 1 FROM food_entries WHERE food_entries.dailyLogID = daily_logs.dailyLogID)
+          AND NOT EXISTS (SELECT 1 FROM daily_log_revisions WHERE daily_log_revisions.dailyLogID = daily_logs.dailyLogID);
+      `);
+    },
+  },
+  {
+    // Totals follow every food_entries write, so reads and range queries can trust the stored columns
+    // Micronutrient totals stay NULL (unknown) while no entry in the day knows that nutrient
+    version: 19,
+    name: 'daily_log_totals_triggers',
+    up: async (db) => {
+      const recomputeTotals = `
+          totalCalories = (SELECT COALESCE(SUM(calories), 0) FROM food_entries WHERE food_entries.dailyLogID = daily_logs.dailyLogID),
+          totalProtein = (SELECT COALESCE(SUM(protein), 0) FROM food_entries WHERE food_entries.dailyLogID = daily_logs.dailyLogID),
+          totalCarbs = (SELECT COALESCE(SUM(carbs), 0) FROM food_entries WHERE food_entries.dailyLogID = daily_logs.dailyLogID),
+          totalFat = (SELECT COALESCE(SUM(fat), 0) FROM food_entries WHERE food_entries.dailyLogID = daily_logs.dailyLogID),
+          totalFiber = (SELECT SUM(fiber) FROM food_entries WHERE food_entries.dailyLogID = daily_logs.dailyLogID),
+          totalSugar = (SELECT SUM(sugar) FROM food_entries WHERE food_entries.dailyLogID = daily_logs.dailyLogID),
+          totalAddedSugar = (SELECT SUM(addedSugar) FROM food_entries WHERE food_entries.dailyLogID = daily_logs.dailyLogID),
+          totalSodium = (SELECT SUM(sodium) FROM food_entries WHERE food_entries.dailyLogID = daily_logs.dailyLogID),
+          totalSaturatedFat = (SELECT SUM(saturatedFat) FROM food_entries WHERE food_entries.dailyLogID = daily_logs.dailyLogID),
+          totalCholesterol = (SELECT SUM(cholesterol) FROM food_entries WHERE food_entries.dailyLogID = daily_logs.dailyLogID),
+          updatedAt = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')`;
+
+      await db.execAsync(`
+        CREATE TRIGGER IF NOT EXISTS food_entries_totals_insert
+        AFTER INSERT ON food_entries
+        BEGIN
+          UPDATE daily_logs SET ${recomputeTotals}
+          WHERE dailyLogID = NEW.dailyLogID;
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS food_entries_totals_delete
+        AFTER DELETE ON food_entries
+        BEGIN
+          UPDATE daily_logs SET ${recomputeTotals}
+          WHERE dailyLogID = OLD.dailyLogID;
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS food_entries_totals_update
+        AFTER UPDATE OF dailyLogID, calories, protein, carbs, fat,
+          fiber, sugar, addedSugar, sodium, saturatedFat, cholesterol ON food_entries
+        BEGIN
+          UPDATE daily_logs SET ${recomputeTotals}
+          WHERE dailyLogID IN (OLD.dailyLogID, NEW.dailyLogID);
+        END;
+
+        -- Bring totals that drifted before the triggers existed back in line
+        UPDATE daily_logs SET ${recomputeTotals};
+      `);
+    },
+  },
+  {
+    version: 20,
+    name: 'user_settings_integrity_check',
+    up: async (db) => {
+      await db.execAsync(`
+        ALTER TABLE user_settings ADD COLUMN integrityCheckOnLaunch INTEGER NOT NULL DEFAULT 0;
+      `);
+    },
+  },
+  {
+    version: 21,
+    name: 'recipe_and_template_micronutrients',
+    up: async (db) => {
+      // Nullable like food_entries: NULL means unknown
+      await db.execAsync(`
+        ALTER TABLE recipe_ingredients ADD COLUMN fiber REAL;
+        ALTER TABLE recipe_ingredients ADD COLUMN sugar REAL;
+        ALTER TABLE recipe_ingredients ADD COLUMN addedSugar REAL;
+        ALTER TABLE recipe_ingredients ADD COLUMN sodium REAL;
+        ALTER TABLE recipe_ingredients ADD COLUMN saturatedFat REAL;
+        ALTER TABLE recipe_ingredients ADD COLUMN cholesterol REAL;
+
+        ALTER TABLE meal_template_items ADD COLUMN fiber REAL;
+        ALTER TABLE meal_template_items ADD COLUMN sugar REAL;
+        ALTER TABLE meal_template_items ADD COLUMN addedSugar REAL;
+        ALTER TABLE meal_template_items ADD COLUMN sodium REAL;
+        ALTER TABLE meal_template_items ADD COLUMN saturatedFat REAL;
+        ALTER TABLE meal_template_items ADD COLUMN cholesterol REAL;
+      `);
+    },
+  },
+  {
+    version: 22,
+    name: 'food_entries_fts_match_by_id',
+    up: async (db) => {
+      // food_entries has a TEXT primary key, so its implicit rowid is not stable across VACUUM.
+      // Match index rows on the stored foodEntryID instead and rebuild the index from scratch
+      await db.execAsync(`
+        DROP TRIGGER IF EXISTS food_entries_fts_insert;
+        DROP TRIGGER IF EXISTS food_entries_fts_delete;
+        DROP TRIGGER IF EXISTS food_entries_fts_update;
+
+        CREATE TRIGGER food_entries_fts_insert AFTER INSERT ON food_entries BEGIN
+          INSERT INTO food_entries_fts (foodEntryID, name, quantity)
+            VALUES (new.foodEntryID, new.name, new.quantity);
+        END;
+
+        CREATE TRIGGER food_entries_fts_delete AFTER DELETE ON food_entries BEGIN
+          DELETE FROM food_entries_fts WHERE foodEntryID = old.foodEntryID;
+        END;
+
+        CREATE TRIGGER food_entries_fts_update AFTER UPDATE OF name, quantity ON food_entries BEGIN
+          UPDATE food_entries_fts SET name = new.name, quantity = new.quantity WHERE foodEntryID = old.foodEntryID;
+        END;
+
+        DELETE FROM food_entries_fts;
+        INSERT INTO food_entries_fts (foodEntryID, name, quantity)
+          SELECT foodEntryID, name, quantity FROM food_entries;
+      `);
+    },
+  },
+];
+
+/**
+ * Helper: Check whether a table already has a column
+ */
+async function hasColumn(db: SQLite.SQLiteDatabase, table: string, column: string): Promise<boolean> {
+  const tableInfo = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+  return tableInfo.some((col) => col.name === column);
+}
+
+/**
+ * Helper: Read the schema version stored in the database header
+ */
+export async function getSchemaVersion(db: SQLite.SQLiteDatabase): Promise<number> {
+  const result = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  return result?.user_version ?? 0;
+}
+
+/**
+ * Bring the database up to the latest schema version
+ * Each migration runs in its own transaction together with its history row and
+ * the user_version bump, so a failure rolls back to the last fully applied version
+ */
+export async function runMigrations(db: SQLite.SQLiteDatabase): Promise<void> {
+  await db.execAsync(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      appliedAt TEXT NOT NULL
+    );
+  `);
+
+  const latestVersion = MIGRATIONS[MIGRATIONS.length - 1].version;
+  const currentVersion = await getSchemaVersion(db);
+
+  if (currentVersion > latestVersion) {
+    throw new Error(
+      `Database schema version ${currentVersion} is newer than this app supports (${latestVersion}). Please update the app.`
+    );
+  }
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= currentVersion) continue;
+
+    try {
+      await db.withTransactionAsync(async () => {
+        await migration.up(db);
+        await db.runAsync(
+          'INSERT OR REPLACE INTO schema_migrations (version, name, appliedAt) VALUES (?, ?, ?)',
+          [migration.version, migration.name, new Date().toISOString()]
+        );
+        // PRAGMA does not accept bound parameters; version is a trusted integer
+        await db.execAsync(`PRAGMA user_version = ${migration.version}`);
+      });
+    } catch (error) {
+      const appliedVersion = await getSchemaVersion(db);
+      throw new Error(
+        `Migration ${migration.version} (${migration.name}) failed: ${error instanceof Error ? error.message : 'Unknown error'}. Database remains at schema version ${appliedVersion}.`
+      );
+    }
+  }
+}
+
+/**
+ * Get the list of applied migrations, oldest first
+ */
+export async function getMigrationHistory(db: SQLite.SQLiteDatabase): Promise<MigrationRecord[]> {
+  return db.getAllAsync<MigrationRecord>('SELECT * FROM schema_migrations ORDER BY version ASC');
+}
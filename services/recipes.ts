@@ -0,0 +1,38 @@
+/**
+ * Recipe nutrition math: batch totals and per-serving values
+ */
+
+import type { FoodItem, Recipe } from '../types';
+import { scaleMicronutrients, sumMicronutrients } from './micronutrients';
+
+/**
+ * Sum the macros of a recipe's ingredients
+ */
+export function getRecipeTotals(ingredients: FoodItem[]): Omit<FoodItem, 'name' | 'quantity'> {
+  return ingredients.reduce(
+    (acc, item) => ({
+      calories: acc.calories + item.calories,
+      protein: acc.protein + item.protein,
+      carbs: acc.carbs + item.carbs,
+      fat: acc.fat + item.fat,
+    }),
+    { calories: 0, protein: 0, carbs: 0, fat: 0 }
+  );
+}
+
+/**
+ * One serving of a recipe as a loggable food item
+ */
+export function getRecipePerServing(recipe: Pick<Recipe, 'name' | 'servings'> & { ingredients: FoodItem[] }): FoodItem {
+  const totals = getRecipeTotals(recipe.ingredients);
+  const servings = recipe.servings > 0 ? recipe.servings : 1;
+  return {
+    name: recipe.name,
+    quantity: '1 serving',
+    calories: Math.round(totals.calories / servings),
+    protein: Math.round(totals.protein / servings),
+    carbs: Math.round(totals.carbs / servings),
+    fat: Math.round(totals.fat / servings),
+    ...scaleMicronutrients(sumMicronutrients(recipe.ingredients), 1 / servings),
+  };
+}
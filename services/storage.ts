@@ -6,15 +6,35 @@
 import 'react-native-get-random-values'; // Must be imported before uuid
 import * as SQLite from 'expo-sqlite';
 import { v4 as uuidv4 } from 'uuid';
-import type { User, MacroTargets, FoodEntry, DailyLog, FoodItem, LLMResponse, DateCalorieData, WeightLog, TrendDataPoint } from '../types';
+import { runMigrations, getSchemaVersion } from './migrations';
+import { normalizeActivityItem } from './activity';
+import { DEFAULT_MEAL_SLOTS, MealSlotInput, createMealTypeKey, getCatchAllMealType, normalizeTime } from './mealSlots';
+import { moveEatenAtToDate } from './foodTimes';
+import { MEASUREMENT_KEYS, getMeasurementValues, isEmptyMeasurement, calculateLeanMass } from './measurements';
+import { MICRONUTRIENTS, MICRONUTRIENT_KEYS, getMicronutrients, getMicronutrientValues } from './micronutrients';
+import type { User, UserSettings, MacroTargets, FoodEntry, FoodEntryUpdates, DailyLog, FoodItem, DateCalorieData, WeightLog, WaterLog, ActivityLog, ActivityItem, BodyMeasurement, BodyMeasurementValues, TrendDataPoint, MealType, FoodEditOperation, BackupData, BackupImportMode, BackupImportResult, DailyLogRow, FoodEntryRow, FoodEntryWithDate, DailyLogRevision, RevisionSource, SavedFood, Recipe, RecipeRow, RecipeIngredient, MealTemplate, MealTemplateRow, MealTemplateItem, MealSlot, TargetValues, WeekdayTargets, DayType, DayTypeAssignment, IntegrityIssue, IntegrityReport } from '../types';
 
 const DATABASE_NAME = 'heymacro.db';
 const DEFAULT_USER_ID = 'default-user';
 const DEFAULT_USER_FIRST_NAME = 'Default';
 const DEFAULT_USER_LAST_NAME = 'Name';
+const MAX_REVISIONS_PER_LOG = 50;
+const DEFAULT_WATER_TARGET = 64; // fl oz, eight glasses
+const UNSLOTTED_SORT_ORDER = 1000000; // sorts entries whose meal slot was removed last
+const DEFAULT_MACRO_TARGETS: TargetValues = { calories: 2690, protein: 170, carbs: 300, fat: 90 };
 
 let db: SQLite.SQLiteDatabase | null = null;
 
+// Empty logs handed out by getDailyLog for days with no row yet, keyed by `userID|date`
+// The row is inserted with the pre-assigned ID when the first entry is written
+interface VirtualDailyLog {
+  dailyLogID: string;
+  userID: string;
+  date: string;
+}
+const virtualDailyLogs = new Map<string, VirtualDailyLog>();
+const virtualDailyLogKeys = new Map<string, string>(); // dailyLogID -> virtualDailyLogs key
+
 /**
  * Helper: Get current timestamp as ISO string
  */
@@ -23,9 +43,9 @@ function getCurrentTimestamp(): string {
 }
 
 /**
- * Helper: Format a date as YYYY-MM-DD in local timezone
+ * Format a date as YYYY-MM-DD in local timezone
  */
-function formatLocalDate(date: Date): string {
+export function formatLocalDate(date: Date): string {
   const year = date.getFullYear();
   const month = String(date.getMonth() + 1).padStart(2, '0');
   const day = String(date.getDate()).padStart(2, '0');
@@ -41,119 +61,16 @@ function getTodayDate(): string {
 
 
 /**
- * Initialize the database and create tables
+ * Initialize the database and bring the schema up to date
  */
 export async function initDatabase(): Promise<void> {
   try {
     db = await SQLite.openDatabaseAsync(DATABASE_NAME);
 
-    await db.execAsync(`
-      PRAGMA journal_mode = WAL;
-
-      -- Users table
-      CREATE TABLE IF NOT EXISTS users (
-        userID TEXT PRIMARY KEY,
-        firstName TEXT NOT NULL,
-        lastName TEXT NOT NULL,
-        createdAt TEXT NOT NULL,
-        updatedAt TEXT NOT NULL
-      );
-
-      -- Macro targets table
-      CREATE TABLE IF NOT EXISTS macro_targets (
-        userID TEXT PRIMARY KEY,
-        calories INTEGER NOT NULL,
-        protein INTEGER NOT NULL,
-        carbs INTEGER NOT NULL,
-        fat INTEGER NOT NULL,
-        createdAt TEXT NOT NULL,
-        updatedAt TEXT NOT NULL,
-        FOREIGN KEY (userID) REFERENCES users(userID)
-      );
-
-      -- Daily logs table
-      CREATE TABLE IF NOT EXISTS daily_logs (
-        dailyLogID TEXT PRIMARY KEY,
-        userID TEXT NOT NULL,
-        date TEXT NOT NULL,
-        totalCalories INTEGER DEFAULT 0,
-        totalProtein INTEGER DEFAULT 0,
-        totalCarbs INTEGER DEFAULT 0,
-        totalFat INTEGER DEFAULT 0,
-        createdAt TEXT NOT NULL,
-        updatedAt TEXT NOT NULL,
-        FOREIGN KEY (userID) REFERENCES users(userID)
-      );
-
-      CREATE UNIQUE INDEX IF NOT EXISTS idx_daily_logs_user_date
-        ON daily_logs(userID, date);
-
-      -- Food entries table
-      CREATE TABLE IF NOT EXISTS food_entries (
-        foodEntryID TEXT PRIMARY KEY,
-        userID TEXT NOT NULL,
-        dailyLogID TEXT NOT NULL,
-        mealType TEXT NOT NULL,
-        name TEXT NOT NULL,
-        quantity TEXT NOT NULL,
-        calories INTEGER NOT NULL,
-        protein INTEGER NOT NULL,
-        carbs INTEGER NOT NULL,
-        fat INTEGER NOT NULL,
-        createdAt TEXT NOT NULL,
-        updatedAt TEXT NOT NULL,
-        FOREIGN KEY (userID) REFERENCES users(userID),
-        FOREIGN KEY (dailyLogID) REFERENCES daily_logs(dailyLogID)
-      );
-
-      CREATE INDEX IF NOT EXISTS idx_food_entries_daily_log
-        ON food_entries(dailyLogID);
-    `);
+    await db.execAsync('PRAGMA journal_mode = WAL;');
 
     // Run migrations
-    await runMigrations();
-  } catch (error) {
-    throw error;
-  }
-}
-
-/**
- * Run database migrations
- */
-async function runMigrations(): Promise<void> {
-  if (!db) throw new Error('Database not initialized');
-
-  try {
-    // Check if target columns exist in daily_logs
-    const tableInfo = await db.getAllAsync<{ name: string }>(
-      'PRAGMA table_info(daily_logs)'
-    );
-    const columnNames = tableInfo.map((col) => col.name);
-
-    if (!columnNames.includes('targetCalories')) {
-      await db.execAsync(`
-        ALTER TABLE daily_logs ADD COLUMN targetCalories INTEGER DEFAULT 2690;
-        ALTER TABLE daily_logs ADD COLUMN targetProtein INTEGER DEFAULT 170;
-        ALTER TABLE daily_logs ADD COLUMN targetCarbs INTEGER DEFAULT 300;
-        ALTER TABLE daily_logs ADD COLUMN targetFat INTEGER DEFAULT 90;
-      `);
-    }
-
-    // Create weight_logs table if it doesn't exist
-    await db.execAsync(`
-      CREATE TABLE IF NOT EXISTS weight_logs (
-        weightLogID TEXT PRIMARY KEY,
-        userID TEXT NOT NULL,
-        date TEXT NOT NULL,
-        weight REAL NOT NULL,
-        createdAt TEXT NOT NULL,
-        updatedAt TEXT NOT NULL,
-        FOREIGN KEY (userID) REFERENCES users(userID)
-      );
-
-      CREATE UNIQUE INDEX IF NOT EXISTS idx_weight_logs_user_date
-        ON weight_logs(userID, date);
-    `);
+    await runMigrations(db);
   } catch (error) {
     throw error;
   }
@@ -227,299 +144,219 @@ export async function updateUser(
 }
 
 /**
- * Get or create macro targets for a user
+ * Get all profiles on this device, oldest first
  */
-export async function getOrCreateMacroTargets(userID: string): Promise<MacroTargets> {
+export async function getUsers(): Promise<User[]> {
   if (!db) throw new Error('Database not initialized');
 
   try {
-    const targets = await db.getFirstAsync<MacroTargets>(
-      'SELECT * FROM macro_targets WHERE userID = ?',
-      [userID]
-    );
-
-    if (targets) {
-      return targets;
-    }
-
-    // Create default targets
-    const now = getCurrentTimestamp();
-    const defaultTargets: MacroTargets = {
-      userID,
-      calories: 2690,
-      protein: 170,
-      carbs: 300,
-      fat: 90,
-      createdAt: now,
-      updatedAt: now,
-    };
-
-    await db.runAsync(
-      'INSERT INTO macro_targets (userID, calories, protein, carbs, fat, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?)',
-      [userID, defaultTargets.calories, defaultTargets.protein, defaultTargets.carbs, defaultTargets.fat, now, now]
-    );
-
-    return defaultTargets;
+    return await db.getAllAsync<User>('SELECT * FROM users ORDER BY createdAt ASC');
   } catch (error) {
     throw error;
   }
 }
 
 /**
- * Update macro targets
- * Also updates today's daily log targets so changes reflect immediately
+ * Create a new profile; targets and settings are created on first load
  */
-export async function updateMacroTargets(
-  targets: Omit<MacroTargets, 'createdAt' | 'updatedAt'>
-): Promise<MacroTargets> {
+export async function createUser(firstName: string, lastName: string): Promise<User> {
   if (!db) throw new Error('Database not initialized');
 
   try {
     const now = getCurrentTimestamp();
-    const today = getTodayDate();
-
-    const existing = await db.getFirstAsync<MacroTargets>(
-      'SELECT * FROM macro_targets WHERE userID = ?',
-      [targets.userID]
-    );
-
-    // Update global macro targets
-    await db.runAsync(
-      'UPDATE macro_targets SET calories = ?, protein = ?, carbs = ?, fat = ?, updatedAt = ? WHERE userID = ?',
-      [targets.calories, targets.protein, targets.carbs, targets.fat, now, targets.userID]
-    );
+    const user: User = {
+      userID: uuidv4(),
+      firstName: firstName.trim(),
+      lastName: lastName.trim(),
+      createdAt: now,
+      updatedAt: now,
+    };
 
-    // Also update today's daily log targets (if it exists)
     await db.runAsync(
-      'UPDATE daily_logs SET targetCalories = ?, targetProtein = ?, targetCarbs = ?, targetFat = ?, updatedAt = ? WHERE userID = ? AND date = ?',
-      [targets.calories, targets.protein, targets.carbs, targets.fat, now, targets.userID, today]
+      'INSERT INTO users (userID, firstName, lastName, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?)',
+      [user.userID, user.firstName, user.lastName, user.createdAt, user.updatedAt]
     );
 
-    return {
-      ...targets,
-      createdAt: existing?.createdAt || now,
-      updatedAt: now,
-    };
+    return user;
   } catch (error) {
     throw error;
   }
 }
 
 /**
- * Get or create daily log for a specific date
+ * Delete a profile and everything it owns
+ * The last remaining profile cannot be deleted
  */
-export async function getOrCreateDailyLog(userID: string, date: string): Promise<DailyLog> {
+export async function deleteUser(userID: string): Promise<void> {
   if (!db) throw new Error('Database not initialized');
 
   try {
-    // Get daily log
-    const log = await db.getFirstAsync<Omit<DailyLog, 'breakfast' | 'lunch' | 'dinner' | 'snacks'>>(
-      'SELECT * FROM daily_logs WHERE userID = ? AND date = ?',
-      [userID, date]
-    );
-
-    let dailyLogID: string;
-    let createdAt: string;
-    let targetCalories: number;
-    let targetProtein: number;
-    let targetCarbs: number;
-    let targetFat: number;
-
-    if (!log) {
-      // Create new log with current macro targets
-      dailyLogID = uuidv4();
-      const now = getCurrentTimestamp();
-      createdAt = now;
-
-      // Get current targets to snapshot for this day
-      const targets = await getOrCreateMacroTargets(userID);
-      targetCalories = targets.calories;
-      targetProtein = targets.protein;
-      targetCarbs = targets.carbs;
-      targetFat = targets.fat;
-
-      await db.runAsync(
-        'INSERT INTO daily_logs (dailyLogID, userID, date, totalCalories, totalProtein, totalCarbs, totalFat, targetCalories, targetProtein, targetCarbs, targetFat, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
-        [dailyLogID, userID, date, 0, 0, 0, 0, targetCalories, targetProtein, targetCarbs, targetFat, now, now]
+    const database = db; // Capture for use in transaction callback
+    await database.withTransactionAsync(async () => {
+      const count = await database.getFirstAsync<{ count: number }>(
+        'SELECT COUNT(*) as count FROM users'
       );
-    } else {
-      dailyLogID = log.dailyLogID;
-      createdAt = log.createdAt;
-      targetCalories = log.targetCalories;
-      targetProtein = log.targetProtein;
-      targetCarbs = log.targetCarbs;
-      targetFat = log.targetFat;
-    }
-
-    // Get all food entries for this log
-    const entries = await db.getAllAsync<FoodEntry & { mealType: string }>(
-      'SELECT * FROM food_entries WHERE dailyLogID = ? ORDER BY createdAt ASC',
-      [dailyLogID]
-    );
-
-    // Group by meal type
-    const breakfast: FoodEntry[] = [];
-    const lunch: FoodEntry[] = [];
-    const dinner: FoodEntry[] = [];
-    const snacks: FoodEntry[] = [];
-
-    for (const entry of entries) {
-      const { mealType, ...foodEntry } = entry;
-      switch (mealType) {
-        case 'breakfast':
-          breakfast.push(foodEntry);
-          break;
-        case 'lunch':
-          lunch.push(foodEntry);
-          break;
-        case 'dinner':
-          dinner.push(foodEntry);
-          break;
-        case 'snacks':
-          snacks.push(foodEntry);
-          break;
+      if ((count?.count ?? 0) <= 1) {
+        throw new Error('Cannot delete the only profile');
       }
-    }
-
-    // Calculate totals
-    const totalCalories = entries.reduce((sum, e) => sum + e.calories, 0);
-    const totalProtein = entries.reduce((sum, e) => sum + e.protein, 0);
-    const totalCarbs = entries.reduce((sum, e) => sum + e.carbs, 0);
-    const totalFat = entries.reduce((sum, e) => sum + e.fat, 0);
 
-    // Update totals if they've changed
-    if (log && (log.totalCalories !== totalCalories || log.totalProtein !== totalProtein ||
-        log.totalCarbs !== totalCarbs || log.totalFat !== totalFat)) {
-      await db.runAsync(
-        'UPDATE daily_logs SET totalCalories = ?, totalProtein = ?, totalCarbs = ?, totalFat = ?, updatedAt = ? WHERE dailyLogID = ?',
-        [totalCalories, totalProtein, totalCarbs, totalFat, getCurrentTimestamp(), dailyLogID]
+      // Children before parents
+      await database.runAsync('DELETE FROM daily_log_revisions WHERE userID = ?', [userID]);
+      await database.runAsync('DELETE FROM saved_foods WHERE userID = ?', [userID]);
+      await database.runAsync(
+        'DELETE FROM recipe_ingredients WHERE recipeID IN (SELECT recipeID FROM recipes WHERE userID = ?)',
+        [userID]
       );
-    }
-
-    return {
-      dailyLogID,
-      userID,
-      date,
-      totalCalories,
-      totalProtein,
-      totalCarbs,
-      totalFat,
-      targetCalories,
-      targetProtein,
-      targetCarbs,
-      targetFat,
-      breakfast,
-      lunch,
-      dinner,
-      snacks,
-      createdAt,
-      updatedAt: getCurrentTimestamp(),
-    };
+      await database.runAsync('DELETE FROM recipes WHERE userID = ?', [userID]);
+      await database.runAsync(
+        'DELETE FROM meal_template_items WHERE templateID IN (SELECT templateID FROM meal_templates WHERE userID = ?)',
+        [userID]
+      );
+      await database.runAsync('DELETE FROM meal_templates WHERE userID = ?', [userID]);
+      await database.runAsync('DELETE FROM day_type_assignments WHERE userID = ?', [userID]);
+      await database.runAsync('DELETE FROM day_types WHERE userID = ?', [userID]);
+      await database.runAsync('DELETE FROM weekday_targets WHERE userID = ?', [userID]);
+      await database.runAsync('DELETE FROM food_entries WHERE userID = ?', [userID]);
+      await database.runAsync('DELETE FROM daily_logs WHERE userID = ?', [userID]);
+      await database.runAsync('DELETE FROM weight_logs WHERE userID = ?', [userID]);
+      await database.runAsync('DELETE FROM water_logs WHERE userID = ?', [userID]);
+      await database.runAsync('DELETE FROM body_measurements WHERE userID = ?', [userID]);
+      await database.runAsync('DELETE FROM activity_logs WHERE userID = ?', [userID]);
+      await database.runAsync('DELETE FROM meal_slots WHERE userID = ?', [userID]);
+      await database.runAsync('DELETE FROM macro_targets WHERE userID = ?', [userID]);
+      await database.runAsync('DELETE FROM user_settings WHERE userID = ?', [userID]);
+      await database.runAsync('DELETE FROM users WHERE userID = ?', [userID]);
+      await database.runAsync(
+        "DELETE FROM app_state WHERE key = 'activeUserID' AND value = ?",
+        [userID]
+      );
+    });
   } catch (error) {
     throw error;
   }
 }
 
 /**
- * Get calorie data for all dates in a specific month
- * Used for rendering calendar view with calorie rings
- * Uses per-day targets stored in daily_logs
+ * Remember which profile is active on this device
  */
-export async function getMonthCalorieData(
-  userID: string,
-  year: number,
-  month: number // 0-indexed (0 = January, 11 = December)
-): Promise<DateCalorieData[]> {
+export async function setActiveUser(userID: string): Promise<void> {
   if (!db) throw new Error('Database not initialized');
 
   try {
-    // Get the date range for the month
-    const startDate = formatLocalDate(new Date(year, month, 1));
-    const endDate = formatLocalDate(new Date(year, month + 1, 0));
-
-    // Query all daily logs in the date range with their per-day targets
-    const logs = await db.getAllAsync<{ date: string; totalCalories: number; targetCalories: number }>(
-      'SELECT date, totalCalories, targetCalories FROM daily_logs WHERE userID = ? AND date >= ? AND date <= ? ORDER BY date ASC',
-      [userID, startDate, endDate]
+    await db.runAsync(
+      "INSERT OR REPLACE INTO app_state (key, value) VALUES ('activeUserID', ?)",
+      [userID]
     );
-
-    // Map to DateCalorieData using per-day targets
-    return logs.map(log => ({
-      date: log.date,
-      calories: log.totalCalories,
-      calorieTarget: log.targetCalories,
-    }));
   } catch (error) {
     throw error;
   }
 }
 
 /**
- * Get weight data for all dates in a specific month
+ * Get the active profile, falling back to the oldest profile
+ * (or a new default one) when none is set or it no longer exists
  */
-export async function getMonthWeightData(
-  userID: string,
-  year: number,
-  month: number // 0-indexed
-): Promise<{ date: string; weight: number }[]> {
+export async function getOrCreateActiveUser(): Promise<User> {
   if (!db) throw new Error('Database not initialized');
 
   try {
-    const startDate = formatLocalDate(new Date(year, month, 1));
-    const endDate = formatLocalDate(new Date(year, month + 1, 0));
-
-    return await db.getAllAsync<{ date: string; weight: number }>(
-      'SELECT date, weight FROM weight_logs WHERE userID = ? AND date >= ? AND date <= ? ORDER BY date ASC',
-      [userID, startDate, endDate]
+    const active = await db.getFirstAsync<User>(
+      "SELECT users.* FROM app_state JOIN users ON users.userID = app_state.value WHERE app_state.key = 'activeUserID'"
     );
+    if (active) {
+      return active;
+    }
+
+    const first = await db.getFirstAsync<User>('SELECT * FROM users ORDER BY createdAt ASC LIMIT 1');
+    const user = first ?? await getOrCreateDefaultUser();
+    await setActiveUser(user.userID);
+    return user;
   } catch (error) {
     throw error;
   }
 }
 
+// Boolean settings are stored as 0/1
+type UserSettingsRow = Omit<UserSettings, 'reviewBeforeSave' | 'exerciseAdjustsTarget' | 'timelineView' | 'integrityCheckOnLaunch'> & {
+  reviewBeforeSave: number;
+  exerciseAdjustsTarget: number;
+  timelineView: number;
+  integrityCheckOnLaunch: number;
+};
+
 /**
- * Get the earliest date with data for a user
- * Returns null if no data exists
+ * Helper: Convert a settings row's integer flags to booleans
  */
-export async function getEarliestLogDate(userID: string): Promise<string | null> {
+function fromUserSettingsRow(row: UserSettingsRow): UserSettings {
+  return {
+    ...row,
+    reviewBeforeSave: row.reviewBeforeSave === 1,
+    exerciseAdjustsTarget: row.exerciseAdjustsTarget === 1,
+    timelineView: row.timelineView === 1,
+    integrityCheckOnLaunch: row.integrityCheckOnLaunch === 1,
+  };
+}
+
+/**
+ * Get or create settings for a user
+ */
+export async function getOrCreateUserSettings(userID: string): Promise<UserSettings> {
   if (!db) throw new Error('Database not initialized');
 
   try {
-    const result = await db.getFirstAsync<{ date: string }>(
-      'SELECT MIN(date) as date FROM daily_logs WHERE userID = ?',
+    const row = await db.getFirstAsync<UserSettingsRow>(
+      'SELECT * FROM user_settings WHERE userID = ?',
       [userID]
     );
-    return result?.date || null;
+
+    if (row) {
+      return fromUserSettingsRow(row);
+    }
+
+    const now = getCurrentTimestamp();
+    await db.runAsync(
+      'INSERT INTO user_settings (userID, reviewBeforeSave, waterTarget, exerciseAdjustsTarget, timelineView, integrityCheckOnLaunch, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+      [userID, 0, DEFAULT_WATER_TARGET, 0, 0, 0, now, now]
+    );
+
+    return {
+      userID,
+      reviewBeforeSave: false,
+      waterTarget: DEFAULT_WATER_TARGET,
+      exerciseAdjustsTarget: false,
+      timelineView: false,
+      integrityCheckOnLaunch: false,
+      createdAt: now,
+      updatedAt: now,
+    };
   } catch (error) {
     throw error;
   }
 }
 
 /**
- * Add a food entry to a daily log
+ * Update settings for a user
  */
-export async function addFoodEntry(
-  userID: string,
-  dailyLogID: string,
-  mealType: 'breakfast' | 'lunch' | 'dinner' | 'snacks',
-  food: Omit<FoodEntry, 'foodEntryID' | 'userID' | 'createdAt' | 'updatedAt'>
-): Promise<FoodEntry> {
+export async function updateUserSettings(
+  settings: Omit<UserSettings, 'createdAt' | 'updatedAt'>
+): Promise<UserSettings> {
   if (!db) throw new Error('Database not initialized');
 
   try {
-    const foodEntryID = uuidv4();
     const now = getCurrentTimestamp();
+    const existing = await getOrCreateUserSettings(settings.userID);
 
     await db.runAsync(
-      'INSERT INTO food_entries (foodEntryID, userID, dailyLogID, mealType, name, quantity, calories, protein, carbs, fat, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
-      [foodEntryID, userID, dailyLogID, mealType, food.name, food.quantity, food.calories, food.protein, food.carbs, food.fat, now, now]
+      'UPDATE user_settings SET reviewBeforeSave = ?, waterTarget = ?, exerciseAdjustsTarget = ?, timelineView = ?, integrityCheckOnLaunch = ?, updatedAt = ? WHERE userID = ?',
+      [
+        settings.reviewBeforeSave ? 1 : 0, settings.waterTarget, settings.exerciseAdjustsTarget ? 1 : 0,
+        settings.timelineView ? 1 : 0, settings.integrityCheckOnLaunch ? 1 : 0, now, settings.userID,
+      ]
     );
 
     return {
-      foodEntryID,
-      userID,
-      ...food,
-      createdAt: now,
+      ...settings,
+      createdAt: existing.createdAt,
       updatedAt: now,
     };
   } catch (error) {
@@ -528,239 +365,1896 @@ export async function addFoodEntry(
 }
 
 /**
- * Replace all food entries for a daily log with new entries from LLM response
- * This deletes all existing entries and inserts the new complete state
- * Uses a transaction for better performance (single disk sync)
+ * Get a user's meal slots in display order, creating the default four on first use
  */
-export async function replaceDailyFoodEntries(
-  userID: string,
-  dailyLogID: string,
-  foodData: LLMResponse
-): Promise<void> {
+export async function getMealSlots(userID: string): Promise<MealSlot[]> {
   if (!db) throw new Error('Database not initialized');
 
   try {
+    const slots = await db.getAllAsync<MealSlot>(
+      'SELECT * FROM meal_slots WHERE userID = ? ORDER BY sortOrder ASC',
+      [userID]
+    );
+    if (slots.length > 0) {
+      return slots;
+    }
+
     const database = db; // Capture for use in transaction callback
     const now = getCurrentTimestamp();
-    const mealTypes = ['breakfast', 'lunch', 'dinner', 'snacks'] as const;
-
-    // Calculate totals upfront
-    const allItems = [...foodData.breakfast, ...foodData.lunch, ...foodData.dinner, ...foodData.snacks];
-    const totalCalories = allItems.reduce((sum, item) => sum + item.calories, 0);
-    const totalProtein = allItems.reduce((sum, item) => sum + item.protein, 0);
-    const totalCarbs = allItems.reduce((sum, item) => sum + item.carbs, 0);
-    const totalFat = allItems.reduce((sum, item) => sum + item.fat, 0);
-
-    // Use transaction to batch all operations (single disk sync)
+    const defaults: MealSlot[] = DEFAULT_MEAL_SLOTS.map((slot, index) => ({
+      ...slot,
+      mealSlotID: uuidv4(),
+      userID,
+      sortOrder: index,
+      createdAt: now,
+      updatedAt: now,
+    }));
     await database.withTransactionAsync(async () => {
-      // Delete all existing entries for this daily log
-      await database.runAsync('DELETE FROM food_entries WHERE dailyLogID = ?', [dailyLogID]);
-
-      // Insert all new entries
-      for (const mealType of mealTypes) {
-        const items = foodData[mealType];
-        for (const food of items) {
-          const foodEntryID = uuidv4();
-          await database.runAsync(
-            'INSERT INTO food_entries (foodEntryID, userID, dailyLogID, mealType, name, quantity, calories, protein, carbs, fat, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
-            [foodEntryID, userID, dailyLogID, mealType, food.name, food.quantity, food.calories, food.protein, food.carbs, food.fat, now, now]
-          );
-        }
+      for (const slot of defaults) {
+        await database.runAsync(
+          'INSERT OR IGNORE INTO meal_slots (mealSlotID, userID, mealType, name, startTime, endTime, sortOrder, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+          [slot.mealSlotID, userID, slot.mealType, slot.name, slot.startTime, slot.endTime, slot.sortOrder, now, now]
+        );
       }
-
-      // Update daily log totals
-      await database.runAsync(
-        'UPDATE daily_logs SET totalCalories = ?, totalProtein = ?, totalCarbs = ?, totalFat = ?, updatedAt = ? WHERE dailyLogID = ?',
-        [totalCalories, totalProtein, totalCarbs, totalFat, now, dailyLogID]
-      );
     });
+    return defaults;
   } catch (error) {
     throw error;
   }
 }
 
 /**
- * Delete a food entry
+ * Create or rename a meal slot and set its time window
+ * A window needs both times; otherwise the slot has none. New slots go last
  */
-export async function deleteFoodEntry(foodEntryID: string): Promise<void> {
+export async function saveMealSlot(
+  userID: string,
+  slot: { mealSlotID?: string } & MealSlotInput
+): Promise<MealSlot> {
   if (!db) throw new Error('Database not initialized');
 
+  const name = slot.name.trim();
+  if (!name) throw new Error('Meal name is required');
+
   try {
-    await db.runAsync('DELETE FROM food_entries WHERE foodEntryID = ?', [foodEntryID]);
+    const now = getCurrentTimestamp();
+    const mealSlotID = slot.mealSlotID ?? uuidv4();
+    const startTime = normalizeTime(slot.startTime);
+    const endTime = normalizeTime(slot.endTime);
+    const hasWindow = startTime !== null && endTime !== null;
+
+    if (slot.mealSlotID) {
+      const result = await db.runAsync(
+        'UPDATE meal_slots SET name = ?, startTime = ?, endTime = ?, updatedAt = ? WHERE mealSlotID = ?',
+        [name, hasWindow ? startTime : null, hasWindow ? endTime : null, now, mealSlotID]
+      );
+      if (result.changes === 0) throw new Error(`Meal slot not found: ${mealSlotID}`);
+    } else {
+      const existing = await getMealSlots(userID);
+      const mealType = createMealTypeKey(name, existing.map((s) => s.mealType));
+      const sortOrder = existing.reduce((max, s) => Math.max(max, s.sortOrder), -1) + 1;
+      await db.runAsync(
+        'INSERT INTO meal_slots (mealSlotID, userID, mealType, name, startTime, endTime, sortOrder, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        [mealSlotID, userID, mealType, name, hasWindow ? startTime : null, hasWindow ? endTime : null, sortOrder, now, now]
+      );
+    }
+
+    const saved = await db.getFirstAsync<MealSlot>('SELECT * FROM meal_slots WHERE mealSlotID = ?', [mealSlotID]);
+    if (!saved) throw new Error(`Meal slot not found: ${mealSlotID}`);
+    return saved;
   } catch (error) {
     throw error;
   }
 }
 
 /**
- * Update a food entry
+ * Set the display order of a user's meal slots
  */
-export async function updateFoodEntry(
-  foodEntryID: string,
-  updates: {
-    name?: string;
-    quantity?: string;
-    calories?: number;
-    protein?: number;
-    carbs?: number;
-    fat?: number;
-  }
-): Promise<void> {
+export async function reorderMealSlots(userID: string, mealSlotIDs: string[]): Promise<void> {
   if (!db) throw new Error('Database not initialized');
 
   try {
+    const database = db; // Capture for use in transaction callback
     const now = getCurrentTimestamp();
-
-    // Build dynamic update query based on provided fields
-    const fields: string[] = [];
-    const values: (string | number)[] = [];
-
-    if (updates.name !== undefined) {
-      fields.push('name = ?');
-      values.push(updates.name);
-    }
-    if (updates.quantity !== undefined) {
-      fields.push('quantity = ?');
-      values.push(updates.quantity);
-    }
-    if (updates.calories !== undefined) {
-      fields.push('calories = ?');
-      values.push(updates.calories);
-    }
-    if (updates.protein !== undefined) {
-      fields.push('protein = ?');
-      values.push(updates.protein);
-    }
-    if (updates.carbs !== undefined) {
-      fields.push('carbs = ?');
-      values.push(updates.carbs);
-    }
-    if (updates.fat !== undefined) {
-      fields.push('fat = ?');
-      values.push(updates.fat);
-    }
-
-    if (fields.length === 0) return;
-
-    fields.push('updatedAt = ?');
-    values.push(now);
-    values.push(foodEntryID);
-
-    await db.runAsync(
-      `UPDATE food_entries SET ${fields.join(', ')} WHERE foodEntryID = ?`,
-      values
-    );
+    await database.withTransactionAsync(async () => {
+      for (const [index, mealSlotID] of mealSlotIDs.entries()) {
+        await database.runAsync(
+          'UPDATE meal_slots SET sortOrder = ?, updatedAt = ? WHERE mealSlotID = ? AND userID = ?',
+          [index, now, mealSlotID, userID]
+        );
+      }
+    });
   } catch (error) {
     throw error;
   }
 }
 
 /**
- * Get the last N days of logs (excluding today), filtering out empty days
- * Returns logs sorted by date descending (most recent first)
+ * Delete a meal slot, moving its food on every day into the slot before it (or after, for the first)
+ * A user always keeps at least one slot
  */
-export async function getPreviousDaysLogs(
-  userID: string,
-  days: number = 7
-): Promise<DailyLog[]> {
+export async function deleteMealSlot(userID: string, mealSlotID: string): Promise<void> {
   if (!db) throw new Error('Database not initialized');
 
   try {
-    const today = getTodayDate();
-
-    // Get logs from the last N days that have food entries
-    const logs = await db.getAllAsync<{ dailyLogID: string; date: string }>(
-      `SELECT DISTINCT dl.dailyLogID, dl.date
-       FROM daily_logs dl
-       INNER JOIN food_entries fe ON fe.dailyLogID = dl.dailyLogID
-       WHERE dl.userID = ? AND dl.date < ?
-       ORDER BY dl.date DESC
-       LIMIT ?`,
-      [userID, today, days]
-    );
-
-    // Fetch full log data for each
-    const fullLogs: DailyLog[] = [];
-    for (const log of logs) {
-      const fullLog = await getOrCreateDailyLog(userID, log.date);
-      fullLogs.push(fullLog);
-    }
+    const database = db; // Capture for use in transaction callback
+    const slots = await getMealSlots(userID);
+    const index = slots.findIndex((s) => s.mealSlotID === mealSlotID);
+    if (index === -1) throw new Error(`Meal slot not found: ${mealSlotID}`);
+    if (slots.length <= 1) throw new Error('Cannot delete the only meal');
 
-    return fullLogs;
+    const removed = slots[index];
+    const fallback = slots[index > 0 ? index - 1 : 1];
+    await database.withTransactionAsync(async () => {
+      await database.runAsync(
+        'UPDATE food_entries SET mealType = ?, updatedAt = ? WHERE userID = ? AND mealType = ?',
+        [fallback.mealType, getCurrentTimestamp(), userID, removed.mealType]
+      );
+      await database.runAsync('DELETE FROM meal_slots WHERE mealSlotID = ?', [mealSlotID]);
+    });
   } catch (error) {
     throw error;
   }
 }
 
 /**
- * Get weight log for a specific date
- * Returns null if no weight logged for that date
+ * Get or create macro targets for a user
+ */
+export async function getOrCreateMacroTargets(userID: string): Promise<MacroTargets> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const targets = await db.getFirstAsync<MacroTargets>(
+      'SELECT * FROM macro_targets WHERE userID = ?',
+      [userID]
+    );
+
+    if (targets) {
+      return targets;
+    }
+
+    // Create default targets
+    const now = getCurrentTimestamp();
+    const defaultTargets: MacroTargets = {
+      userID,
+      ...DEFAULT_MACRO_TARGETS,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await db.runAsync(
+      'INSERT INTO macro_targets (userID, calories, protein, carbs, fat, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      [userID, defaultTargets.calories, defaultTargets.protein, defaultTargets.carbs, defaultTargets.fat, now, now]
+    );
+
+    return defaultTargets;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Helper: Day of week (0 = Sunday) for a YYYY-MM-DD date, in local time
+ */
+function getWeekday(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).getDay();
+}
+
+/**
+ * Resolve the targets that apply to a date
+ * An assigned day type wins, then the weekday's targets, then the user's base targets
+ * Read-only: users without base targets yet resolve to the defaults
+ */
+export async function resolveTargetsForDate(userID: string, date: string): Promise<TargetValues> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const dayType = await db.getFirstAsync<TargetValues>(
+      `SELECT dt.calories, dt.protein, dt.carbs, dt.fat
+      FROM day_type_assignments a
+      INNER JOIN day_types dt ON dt.dayTypeID = a.dayTypeID
+      WHERE a.userID = ? AND a.date = ?`,
+      [userID, date]
+    );
+    if (dayType) return dayType;
+
+    const weekday = await db.getFirstAsync<TargetValues>(
+      'SELECT calories, protein, carbs, fat FROM weekday_targets WHERE userID = ? AND weekday = ?',
+      [userID, getWeekday(date)]
+    );
+    if (weekday) return weekday;
+
+    const base = await db.getFirstAsync<TargetValues>(
+      'SELECT calories, protein, carbs, fat FROM macro_targets WHERE userID = ?',
+      [userID]
+    );
+    return base ?? { ...DEFAULT_MACRO_TARGETS };
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Helper: Re-snapshot an existing daily log's targets from the schedule
+ */
+async function resnapshotDailyLogTargets(userID: string, date: string): Promise<void> {
+  if (!db) throw new Error('Database not initialized');
+
+  const targets = await resolveTargetsForDate(userID, date);
+  await db.runAsync(
+    'UPDATE daily_logs SET targetCalories = ?, targetProtein = ?, targetCarbs = ?, targetFat = ?, updatedAt = ? WHERE userID = ? AND date = ?',
+    [targets.calories, targets.protein, targets.carbs, targets.fat, getCurrentTimestamp(), userID, date]
+  );
+}
+
+/**
+ * Get the per-weekday targets a user has set (weekdays without a row use the base targets)
+ */
+export async function getWeekdayTargets(userID: string): Promise<WeekdayTargets[]> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    return await db.getAllAsync<WeekdayTargets>(
+      'SELECT * FROM weekday_targets WHERE userID = ? ORDER BY weekday ASC',
+      [userID]
+    );
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Set or clear (null) the targets for a weekday
+ * Today's log is re-snapshotted so the change shows immediately
+ */
+export async function setWeekdayTargets(
+  userID: string,
+  weekday: number,
+  targets: TargetValues | null
+): Promise<void> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const now = getCurrentTimestamp();
+    if (targets) {
+      await db.runAsync(
+        `INSERT INTO weekday_targets (userID, weekday, calories, protein, carbs, fat, createdAt, updatedAt)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(userID, weekday) DO UPDATE SET
+          calories = excluded.calories,
+          protein = excluded.protein,
+          carbs = excluded.carbs,
+          fat = excluded.fat,
+          updatedAt = excluded.updatedAt`,
+        [userID, weekday, targets.calories, targets.protein, targets.carbs, targets.fat, now, now]
+      );
+    } else {
+      await db.runAsync('DELETE FROM weekday_targets WHERE userID = ? AND weekday = ?', [userID, weekday]);
+    }
+
+    await resnapshotDailyLogTargets(userID, getTodayDate());
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Get a user's named day types, sorted by name
+ */
+export async function getDayTypes(userID: string): Promise<DayType[]> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    return await db.getAllAsync<DayType>(
+      'SELECT * FROM day_types WHERE userID = ? ORDER BY name COLLATE NOCASE ASC',
+      [userID]
+    );
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Create or update a named day type
+ */
+export async function saveDayType(
+  userID: string,
+  dayType: { dayTypeID?: string; name: string } & TargetValues
+): Promise<DayType> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const now = getCurrentTimestamp();
+    const dayTypeID = dayType.dayTypeID ?? uuidv4();
+
+    if (dayType.dayTypeID) {
+      const result = await db.runAsync(
+        'UPDATE day_types SET name = ?, calories = ?, protein = ?, carbs = ?, fat = ?, updatedAt = ? WHERE dayTypeID = ?',
+        [dayType.name, dayType.calories, dayType.protein, dayType.carbs, dayType.fat, now, dayTypeID]
+      );
+      if (result.changes === 0) throw new Error(`Day type not found: ${dayTypeID}`);
+    } else {
+      await db.runAsync(
+        'INSERT INTO day_types (dayTypeID, userID, name, calories, protein, carbs, fat, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        [dayTypeID, userID, dayType.name, dayType.calories, dayType.protein, dayType.carbs, dayType.fat, now, now]
+      );
+    }
+
+    await resnapshotDailyLogTargets(userID, getTodayDate());
+
+    const saved = await db.getFirstAsync<DayType>('SELECT * FROM day_types WHERE dayTypeID = ?', [dayTypeID]);
+    if (!saved) throw new Error(`Day type not found: ${dayTypeID}`);
+    return saved;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Delete a day type and unassign it from every date
+ * Past days keep the targets they were snapshotted with
+ */
+export async function deleteDayType(userID: string, dayTypeID: string): Promise<void> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const database = db; // Capture for use in transaction callback
+    await database.withTransactionAsync(async () => {
+      await database.runAsync('DELETE FROM day_type_assignments WHERE dayTypeID = ?', [dayTypeID]);
+      await database.runAsync('DELETE FROM day_types WHERE dayTypeID = ?', [dayTypeID]);
+    });
+
+    await resnapshotDailyLogTargets(userID, getTodayDate());
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Get day type assignments in a date range (inclusive), keyed by date
+ */
+export async function getDayTypeAssignments(
+  userID: string,
+  startDate: string,
+  endDate: string
+): Promise<Record<string, string>> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const rows = await db.getAllAsync<{ date: string; dayTypeID: string }>(
+      'SELECT date, dayTypeID FROM day_type_assignments WHERE userID = ? AND date >= ? AND date <= ?',
+      [userID, startDate, endDate]
+    );
+    return Object.fromEntries(rows.map((row) => [row.date, row.dayTypeID]));
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Assign a day type to a date, or clear it (null)
+ * If that day already has a log, its targets are re-snapshotted to match
+ */
+export async function assignDayType(userID: string, date: string, dayTypeID: string | null): Promise<void> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const now = getCurrentTimestamp();
+    if (dayTypeID) {
+      await db.runAsync(
+        `INSERT INTO day_type_assignments (userID, date, dayTypeID, createdAt, updatedAt)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(userID, date) DO UPDATE SET dayTypeID = excluded.dayTypeID, updatedAt = excluded.updatedAt`,
+        [userID, date, dayTypeID, now, now]
+      );
+    } else {
+      await db.runAsync('DELETE FROM day_type_assignments WHERE userID = ? AND date = ?', [userID, date]);
+    }
+
+    await resnapshotDailyLogTargets(userID, date);
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Update macro targets
+ * Also updates today's daily log targets so changes reflect immediately
+ */
+export async function updateMacroTargets(
+  targets: Omit<MacroTargets, 'createdAt' | 'updatedAt'>
+): Promise<MacroTargets> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const now = getCurrentTimestamp();
+    const today = getTodayDate();
+
+    const existing = await db.getFirstAsync<MacroTargets>(
+      'SELECT * FROM macro_targets WHERE userID = ?',
+      [targets.userID]
+    );
+
+    // Micronutrient targets left out of the update keep their current values
+    const micronutrients = getMicronutrients({ ...existing, ...targets });
+
+    // Update global macro targets
+    await db.runAsync(
+      `UPDATE macro_targets SET calories = ?, protein = ?, carbs = ?, fat = ?, ${MICRONUTRIENT_KEYS.map((key) => `${key} = ?`).join(', ')}, updatedAt = ? WHERE userID = ?`,
+      [targets.calories, targets.protein, targets.carbs, targets.fat, ...getMicronutrientValues(micronutrients), now, targets.userID]
+    );
+
+    // Also update today's daily log targets (if it exists), unless the schedule overrides today
+    await resnapshotDailyLogTargets(targets.userID, today);
+
+    return {
+      ...targets,
+      ...micronutrients,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Dry run for applyTargetsToRange: count the logged days in a date range (inclusive)
+ * and how many of them have different targets
+ */
+export async function previewTargetsForRange(
+  userID: string,
+  startDate: string,
+  endDate: string,
+  targets: TargetValues
+): Promise<{ logCount: number; changedCount: number }> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const result = await db.getFirstAsync<{ logCount: number; changedCount: number | null }>(
+      `SELECT
+        COUNT(*) as logCount,
+        SUM(CASE WHEN targetCalories != ? OR targetProtein != ? OR targetCarbs != ? OR targetFat != ? THEN 1 ELSE 0 END) as changedCount
+      FROM daily_logs
+      WHERE userID = ? AND date >= ? AND date <= ?`,
+      [targets.calories, targets.protein, targets.carbs, targets.fat, userID, startDate, endDate]
+    );
+    return { logCount: result?.logCount ?? 0, changedCount: result?.changedCount ?? 0 };
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Overwrite the target snapshot of every logged day in a date range (inclusive)
+ * Returns the number of daily logs changed
+ */
+export async function applyTargetsToRange(
+  userID: string,
+  startDate: string,
+  endDate: string,
+  targets: TargetValues
+): Promise<number> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const database = db; // Capture for use in transaction callback
+    let changed = 0;
+
+    await database.withTransactionAsync(async () => {
+      const result = await database.runAsync(
+        `UPDATE daily_logs SET targetCalories = ?, targetProtein = ?, targetCarbs = ?, targetFat = ?, updatedAt = ?
+        WHERE userID = ? AND date >= ? AND date <= ?
+          AND (targetCalories != ? OR targetProtein != ? OR targetCarbs != ? OR targetFat != ?)`,
+        [
+          targets.calories, targets.protein, targets.carbs, targets.fat, getCurrentTimestamp(),
+          userID, startDate, endDate,
+          targets.calories, targets.protein, targets.carbs, targets.fat,
+        ]
+      );
+      changed = result.changes;
+    });
+
+    return changed;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Get the daily log for a specific date without writing anything
+ * Days not logged yet read as an empty virtual log with the targets scheduled for them;
+ * its row is only inserted when the first entry is written
+ */
+export async function getDailyLog(userID: string, date: string): Promise<DailyLog> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const [log] = await getDailyLogsInRange(userID, date, date);
+    if (log) return log;
+
+    const targets = await resolveTargetsForDate(userID, date);
+    const now = getCurrentTimestamp();
+    return {
+      dailyLogID: getVirtualDailyLogID(userID, date),
+      userID,
+      date,
+      totalCalories: 0,
+      totalProtein: 0,
+      totalCarbs: 0,
+      totalFat: 0,
+      targetCalories: targets.calories,
+      targetProtein: targets.protein,
+      targetCarbs: targets.carbs,
+      targetFat: targets.fat,
+      meals: {},
+      createdAt: now,
+      updatedAt: now,
+    };
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Get the daily logs, with their entries, of every logged day in a date range (inclusive)
+ * Two queries however long the range; days without a row are left out
+ * Returns logs sorted by date ascending
+ */
+export async function getDailyLogsInRange(
+  userID: string,
+  startDate: string,
+  endDate: string
+): Promise<DailyLog[]> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    return await loadDailyLogsInRange(db, userID, startDate, endDate);
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Helper: getDailyLogsInRange against a given database
+ * Exported for the dev benchmark, which runs on a scratch database
+ */
+export async function loadDailyLogsInRange(
+  database: SQLite.SQLiteDatabase,
+  userID: string,
+  startDate: string,
+  endDate: string
+): Promise<DailyLog[]> {
+  const logs = await database.getAllAsync<DailyLogRow>(
+    'SELECT * FROM daily_logs WHERE userID = ? AND date >= ? AND date <= ? ORDER BY date ASC',
+    [userID, startDate, endDate]
+  );
+  if (logs.length === 0) return [];
+
+  const entries = await database.getAllAsync<FoodEntryRow>(
+    `SELECT fe.* FROM food_entries fe
+     INNER JOIN daily_logs dl ON dl.dailyLogID = fe.dailyLogID
+     WHERE dl.userID = ? AND dl.date >= ? AND dl.date <= ?
+     ORDER BY fe.createdAt ASC`,
+    [userID, startDate, endDate]
+  );
+
+  // Group by log, then by meal slot
+  const mealsByLog = new Map<string, Record<MealType, FoodEntry[]>>();
+  for (const { dailyLogID, mealType, ...entry } of entries) {
+    let meals = mealsByLog.get(dailyLogID);
+    if (!meals) {
+      meals = {};
+      mealsByLog.set(dailyLogID, meals);
+    }
+    (meals[mealType] ??= []).push(entry);
+  }
+
+  // Stored totals are kept current by the food_entries triggers
+  return logs.map((log) => ({ ...log, meals: mealsByLog.get(log.dailyLogID) ?? {} }));
+}
+
+/**
+ * Helper: The ID of the virtual log for a day with no row, reused across reads so
+ * screens holding it keep writing to the same day
+ */
+function getVirtualDailyLogID(userID: string, date: string): string {
+  const key = `${userID}|${date}`;
+  const pending = virtualDailyLogs.get(key);
+  if (pending) return pending.dailyLogID;
+
+  const dailyLogID = uuidv4();
+  virtualDailyLogs.set(key, { dailyLogID, userID, date });
+  virtualDailyLogKeys.set(dailyLogID, key);
+  return dailyLogID;
+}
+
+/**
+ * Helper: Insert the row for a virtual daily log before its first write, snapshotting
+ * the targets scheduled for that day
+ * Must run inside the write's transaction; returns the ID of the day's row, which is
+ * an existing row's ID if the day was logged some other way since it was read
+ */
+async function materializeDailyLog(database: SQLite.SQLiteDatabase, dailyLogID: string): Promise<string> {
+  const key = virtualDailyLogKeys.get(dailyLogID);
+  const pending = key ? virtualDailyLogs.get(key) : undefined;
+  if (!pending) return dailyLogID;
+
+  const targets = await resolveTargetsForDate(pending.userID, pending.date);
+  const now = getCurrentTimestamp();
+  await database.runAsync(
+    'INSERT OR IGNORE INTO daily_logs (dailyLogID, userID, date, totalCalories, totalProtein, totalCarbs, totalFat, targetCalories, targetProtein, targetCarbs, targetFat, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    [dailyLogID, pending.userID, pending.date, 0, 0, 0, 0, targets.calories, targets.protein, targets.carbs, targets.fat, now, now]
+  );
+  const row = await database.getFirstAsync<{ dailyLogID: string }>(
+    'SELECT dailyLogID FROM daily_logs WHERE userID = ? AND date = ?',
+    [pending.userID, pending.date]
+  );
+  if (!row) throw new Error(`Daily log not found: ${dailyLogID}`);
+  return row.dailyLogID;
+}
+
+/**
+ * Helper: Drop a virtual daily log once the transaction that inserted its row has committed
+ */
+function forgetVirtualDailyLog(dailyLogID: string): void {
+  const key = virtualDailyLogKeys.get(dailyLogID);
+  if (!key) return;
+  virtualDailyLogs.delete(key);
+  virtualDailyLogKeys.delete(dailyLogID);
+}
+
+/**
+ * Forget the virtual logs handed out for other users or for days outside a date range (inclusive)
+ * Called as the loaded window moves so IDs for days no screen holds are not kept around
+ */
+export function pruneVirtualDailyLogs(userID: string, startDate: string, endDate: string): void {
+  for (const [key, pending] of virtualDailyLogs) {
+    if (pending.userID === userID && pending.date >= startDate && pending.date <= endDate) continue;
+    virtualDailyLogs.delete(key);
+    virtualDailyLogKeys.delete(pending.dailyLogID);
+  }
+}
+
+/**
+ * Get calorie data for all dates in a specific month
+ * Used for rendering calendar view with calorie rings
+ * Uses per-day targets stored in daily_logs
+ */
+export async function getMonthCalorieData(
+  userID: string,
+  year: number,
+  month: number // 0-indexed (0 = January, 11 = December)
+): Promise<DateCalorieData[]> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    // Get the date range for the month
+    const startDate = formatLocalDate(new Date(year, month, 1));
+    const endDate = formatLocalDate(new Date(year, month + 1, 0));
+
+    // Query the logged days in the date range with their per-day targets
+    // Days emptied by deletes or undo keep their row for revisions but show as unlogged
+    const logs = await db.getAllAsync<{ date: string; totalCalories: number; targetCalories: number }>(
+      `SELECT date, totalCalories, targetCalories FROM daily_logs
+      WHERE userID = ? AND date >= ? AND date <= ?
+        AND EXISTS (SELECT 1 FROM food_entries WHERE food_entries.dailyLogID = daily_logs.dailyLogID)
+      ORDER BY date ASC`,
+      [userID, startDate, endDate]
+    );
+
+    // Map to DateCalorieData using per-day targets
+    return logs.map(log => ({
+      date: log.date,
+      calories: log.totalCalories,
+      calorieTarget: log.targetCalories,
+    }));
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Get weight data for all dates in a specific month
+ */
+export async function getMonthWeightData(
+  userID: string,
+  year: number,
+  month: number // 0-indexed
+): Promise<{ date: string; weight: number }[]> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const startDate = formatLocalDate(new Date(year, month, 1));
+    const endDate = formatLocalDate(new Date(year, month + 1, 0));
+
+    return await db.getAllAsync<{ date: string; weight: number }>(
+      'SELECT date, weight FROM weight_logs WHERE userID = ? AND date >= ? AND date <= ? ORDER BY date ASC',
+      [userID, startDate, endDate]
+    );
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Get the earliest date with food logged for a user
+ * Returns null if no data exists
+ */
+export async function getEarliestLogDate(userID: string): Promise<string | null> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const result = await db.getFirstAsync<{ date: string }>(
+      `SELECT MIN(date) as date FROM daily_logs
+      WHERE userID = ? AND EXISTS (SELECT 1 FROM food_entries WHERE food_entries.dailyLogID = daily_logs.dailyLogID)`,
+      [userID]
+    );
+    return result?.date || null;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Add a food entry to a daily log
+ * Without an eatenAt, food logged today is stamped now and food for other days has no time
+ */
+export async function addFoodEntry(
+  userID: string,
+  dailyLogID: string,
+  mealType: MealType,
+  food: FoodItem,
+  eatenAt?: string | null
+): Promise<FoodEntry> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const database = db; // Capture for use in transaction callback
+    const foodEntryID = uuidv4();
+    const now = getCurrentTimestamp();
+    let entryEatenAt: string | null = null;
+
+    await database.withTransactionAsync(async () => {
+      const logID = await materializeDailyLog(database, dailyLogID);
+      entryEatenAt = eatenAt ?? getDefaultEatenAt(await getDailyLogDate(database, logID));
+      await recordRevision(database, userID, logID, 'add');
+      await insertFoodEntry(database, {
+        ...food,
+        foodEntryID,
+        userID,
+        dailyLogID: logID,
+        mealType,
+        eatenAt: entryEatenAt,
+        createdAt: now,
+        updatedAt: now,
+      });
+      await recordSavedFoodUse(database, userID, food, now);
+    });
+    forgetVirtualDailyLog(dailyLogID);
+
+    return {
+      foodEntryID,
+      userID,
+      ...food,
+      eatenAt: entryEatenAt,
+      createdAt: now,
+      updatedAt: now,
+    };
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Apply incremental edit operations from the LLM to a daily log
+ * Entries not referenced by an operation keep their IDs, timestamps and manual edits
+ * Runs in a single transaction - if any operation references a missing entry, nothing is applied
+ * Returns the ID of the revision recorded before the change, for undo
+ */
+export async function applyFoodEditOperations(
+  userID: string,
+  dailyLogID: string,
+  operations: FoodEditOperation[],
+  source: RevisionSource = 'llm'
+): Promise<string> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const database = db; // Capture for use in transaction callback
+    const now = getCurrentTimestamp();
+    let revisionID = '';
+
+    await database.withTransactionAsync(async () => {
+      const logID = await materializeDailyLog(database, dailyLogID);
+      const defaultEatenAt = getDefaultEatenAt(await getDailyLogDate(database, logID));
+      revisionID = await recordRevision(database, userID, logID, source);
+
+      for (const op of operations) {
+        switch (op.type) {
+          case 'add': {
+            const food = op.item;
+            await insertFoodEntry(database, {
+              ...food,
+              foodEntryID: uuidv4(),
+              userID,
+              dailyLogID: logID,
+              mealType: op.mealType,
+              eatenAt: op.eatenAt ?? defaultEatenAt,
+              createdAt: now,
+              updatedAt: now,
+            });
+            await recordSavedFoodUse(database, userID, food, now);
+            break;
+          }
+          case 'update': {
+            const { fields, values } = buildFoodEntryUpdate(op.updates);
+            if (fields.length === 0) break;
+            fields.push('updatedAt = ?');
+            values.push(now, op.foodEntryID, logID);
+            const result = await database.runAsync(
+              `UPDATE food_entries SET ${fields.join(', ')} WHERE foodEntryID = ? AND dailyLogID = ?`,
+              values
+            );
+            if (result.changes === 0) throw new Error(`Food entry not found: ${op.foodEntryID}`);
+            break;
+          }
+          case 'remove': {
+            const result = await database.runAsync(
+              'DELETE FROM food_entries WHERE foodEntryID = ? AND dailyLogID = ?',
+              [op.foodEntryID, logID]
+            );
+            if (result.changes === 0) throw new Error(`Food entry not found: ${op.foodEntryID}`);
+            break;
+          }
+          case 'move': {
+            const result = await database.runAsync(
+              'UPDATE food_entries SET mealType = ?, updatedAt = ? WHERE foodEntryID = ? AND dailyLogID = ?',
+              [op.mealType, now, op.foodEntryID, logID]
+            );
+            if (result.changes === 0) throw new Error(`Food entry not found: ${op.foodEntryID}`);
+            break;
+          }
+        }
+      }
+    });
+    forgetVirtualDailyLog(dailyLogID);
+
+    return revisionID;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Helper: Build SET clauses for the provided food entry fields
+ */
+function buildFoodEntryUpdate(updates: FoodEntryUpdates): { fields: string[]; values: (string | number | null)[] } {
+  const fields: string[] = [];
+  const values: (string | number | null)[] = [];
+
+  if (updates.name !== undefined) {
+    fields.push('name = ?');
+    values.push(updates.name);
+  }
+  if (updates.quantity !== undefined) {
+    fields.push('quantity = ?');
+    values.push(updates.quantity);
+  }
+  if (updates.calories !== undefined) {
+    fields.push('calories = ?');
+    values.push(updates.calories);
+  }
+  if (updates.protein !== undefined) {
+    fields.push('protein = ?');
+    values.push(updates.protein);
+  }
+  if (updates.carbs !== undefined) {
+    fields.push('carbs = ?');
+    values.push(updates.carbs);
+  }
+  if (updates.fat !== undefined) {
+    fields.push('fat = ?');
+    values.push(updates.fat);
+  }
+  for (const info of MICRONUTRIENTS) {
+    if (updates[info.key] !== undefined) {
+      fields.push(`${info.key} = ?`);
+      values.push(getMicronutrients(updates)[info.key]);
+    }
+  }
+  if (updates.eatenAt !== undefined) {
+    fields.push('eatenAt = ?');
+    values.push(updates.eatenAt);
+  }
+
+  return { fields, values };
+}
+
+/**
+ * Delete a food entry
+ */
+export async function deleteFoodEntry(foodEntryID: string): Promise<void> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const database = db; // Capture for use in transaction callback
+    const entry = await getFoodEntryOwner(database, foodEntryID);
+    if (!entry) return;
+
+    await database.withTransactionAsync(async () => {
+      await recordRevision(database, entry.userID, entry.dailyLogID, 'delete');
+      await database.runAsync('DELETE FROM food_entries WHERE foodEntryID = ?', [foodEntryID]);
+    });
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Update a food entry
+ */
+export async function updateFoodEntry(
+  foodEntryID: string,
+  updates: FoodEntryUpdates
+): Promise<void> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const now = getCurrentTimestamp();
+
+    // Build dynamic update query based on provided fields
+    const { fields, values } = buildFoodEntryUpdate(updates);
+
+    if (fields.length === 0) return;
+
+    fields.push('updatedAt = ?');
+    values.push(now);
+    values.push(foodEntryID);
+
+    const database = db; // Capture for use in transaction callback
+    const entry = await getFoodEntryOwner(database, foodEntryID);
+    if (!entry) return;
+
+    await database.withTransactionAsync(async () => {
+      await recordRevision(database, entry.userID, entry.dailyLogID, 'update');
+      await database.runAsync(
+        `UPDATE food_entries SET ${fields.join(', ')} WHERE foodEntryID = ?`,
+        values
+      );
+    });
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Copy food entries into another day as new entries
+ * Entries keep their meal and time of day unless targetMealType is given
+ */
+export async function copyFoodEntries(
+  userID: string,
+  foodEntryIDs: string[],
+  targetDate: string,
+  targetMealType?: MealType
+): Promise<FoodEntry[]> {
+  if (!db) throw new Error('Database not initialized');
+  if (foodEntryIDs.length === 0) return [];
+
+  try {
+    const database = db; // Capture for use in transaction callback
+    const sourceEntries = await database.getAllAsync<FoodEntryRow>(
+      `SELECT * FROM food_entries WHERE userID = ? AND foodEntryID IN (${foodEntryIDs.map(() => '?').join(', ')}) ORDER BY createdAt ASC`,
+      [userID, ...foodEntryIDs]
+    );
+    if (sourceEntries.length === 0) return [];
+
+    const targetLog = await getDailyLog(userID, targetDate);
+    const now = getCurrentTimestamp();
+    const copies: FoodEntry[] = [];
+
+    await database.withTransactionAsync(async () => {
+      const targetLogID = await materializeDailyLog(database, targetLog.dailyLogID);
+      await recordRevision(database, userID, targetLogID, 'copy');
+      for (const entry of sourceEntries) {
+        const foodEntryID = uuidv4();
+        const eatenAt = moveEatenAtToDate(entry.eatenAt, targetDate);
+        await insertFoodEntry(database, {
+          ...entry,
+          foodEntryID,
+          userID,
+          dailyLogID: targetLogID,
+          mealType: targetMealType ?? entry.mealType,
+          eatenAt,
+          createdAt: now,
+          updatedAt: now,
+        });
+        await recordSavedFoodUse(database, userID, entry, now);
+        copies.push({
+          foodEntryID,
+          userID,
+          name: entry.name,
+          quantity: entry.quantity,
+          calories: entry.calories,
+          protein: entry.protein,
+          carbs: entry.carbs,
+          fat: entry.fat,
+          ...getMicronutrients(entry),
+          eatenAt,
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+    });
+    forgetVirtualDailyLog(targetLog.dailyLogID);
+
+    return copies;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Copy every entry of one meal into another day and meal slot
+ */
+export async function copyMeal(
+  userID: string,
+  dailyLogID: string,
+  mealType: MealType,
+  targetDate: string,
+  targetMealType: MealType = mealType
+): Promise<FoodEntry[]> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const rows = await db.getAllAsync<{ foodEntryID: string }>(
+      'SELECT foodEntryID FROM food_entries WHERE dailyLogID = ? AND mealType = ?',
+      [dailyLogID, mealType]
+    );
+    return await copyFoodEntries(userID, rows.map((r) => r.foodEntryID), targetDate, targetMealType);
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Copy a whole day's entries into another day, keeping each entry's meal
+ */
+export async function copyDailyLog(userID: string, dailyLogID: string, targetDate: string): Promise<FoodEntry[]> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const rows = await db.getAllAsync<{ foodEntryID: string }>(
+      'SELECT foodEntryID FROM food_entries WHERE dailyLogID = ?',
+      [dailyLogID]
+    );
+    return await copyFoodEntries(userID, rows.map((r) => r.foodEntryID), targetDate);
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Move a food entry to another meal on the same day
+ */
+export async function moveFoodEntry(foodEntryID: string, targetMealType: MealType): Promise<void> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const database = db; // Capture for use in transaction callback
+    const entry = await getFoodEntryOwner(database, foodEntryID);
+    if (!entry) return;
+
+    await database.withTransactionAsync(async () => {
+      await recordRevision(database, entry.userID, entry.dailyLogID, 'move');
+      await database.runAsync(
+        'UPDATE food_entries SET mealType = ?, updatedAt = ? WHERE foodEntryID = ?',
+        [targetMealType, getCurrentTimestamp(), foodEntryID]
+      );
+    });
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Helper: Insert a food entry row; unknown micronutrients and times are stored as NULL
+ */
+async function insertFoodEntry(database: SQLite.SQLiteDatabase, entry: FoodEntryRow): Promise<void> {
+  await database.runAsync(
+    `INSERT INTO food_entries (foodEntryID, userID, dailyLogID, mealType, name, quantity, calories, protein, carbs, fat, ${MICRONUTRIENT_KEYS.join(', ')}, eatenAt, createdAt, updatedAt)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ${MICRONUTRIENT_KEYS.map(() => '?').join(', ')}, ?, ?, ?)`,
+    [
+      entry.foodEntryID, entry.userID, entry.dailyLogID, entry.mealType, entry.name, entry.quantity,
+      entry.calories, entry.protein, entry.carbs, entry.fat, ...getMicronutrientValues(entry),
+      // Revisions recorded before eatenAt existed have no value
+      entry.eatenAt ?? null, entry.createdAt, entry.updatedAt,
+    ]
+  );
+}
+
+/**
+ * Helper: eatenAt for food logged without a time: now when logging today, unknown for other days
+ */
+function getDefaultEatenAt(date: string): string | null {
+  return date === getTodayDate() ? getCurrentTimestamp() : null;
+}
+
+/**
+ * Helper: Look up the date of a daily log
+ */
+async function getDailyLogDate(database: SQLite.SQLiteDatabase, dailyLogID: string): Promise<string> {
+  const row = await database.getFirstAsync<{ date: string }>(
+    'SELECT date FROM daily_logs WHERE dailyLogID = ?',
+    [dailyLogID]
+  );
+  if (!row) throw new Error(`Daily log not found: ${dailyLogID}`);
+  return row.date;
+}
+
+/**
+ * Helper: Look up which user and daily log a food entry belongs to
+ */
+async function getFoodEntryOwner(
+  database: SQLite.SQLiteDatabase,
+  foodEntryID: string
+): Promise<{ userID: string; dailyLogID: string } | null> {
+  const result = await database.getFirstAsync<{ userID: string; dailyLogID: string }>(
+    'SELECT userID, dailyLogID FROM food_entries WHERE foodEntryID = ?',
+    [foodEntryID]
+  );
+  return result || null;
+}
+
+/**
+ * Helper: Snapshot a daily log's current food entries as a revision
+ * Must be called inside the mutation's transaction, before the change
+ * Keeps at most MAX_REVISIONS_PER_LOG revisions per day, dropping the oldest
+ */
+async function recordRevision(
+  database: SQLite.SQLiteDatabase,
+  userID: string,
+  dailyLogID: string,
+  source: RevisionSource
+): Promise<string> {
+  const revisionID = uuidv4();
+  const entries = await database.getAllAsync<FoodEntryRow>(
+    'SELECT * FROM food_entries WHERE dailyLogID = ? ORDER BY createdAt ASC',
+    [dailyLogID]
+  );
+
+  await database.runAsync(
+    'INSERT INTO daily_log_revisions (revisionID, dailyLogID, userID, source, entries, createdAt) VALUES (?, ?, ?, ?, ?, ?)',
+    [revisionID, dailyLogID, userID, source, JSON.stringify(entries), getCurrentTimestamp()]
+  );
+
+  await database.runAsync(
+    `DELETE FROM daily_log_revisions
+    WHERE dailyLogID = ? AND revisionID NOT IN (
+      SELECT revisionID FROM daily_log_revisions WHERE dailyLogID = ? ORDER BY createdAt DESC, rowid DESC LIMIT ?
+    )`,
+    [dailyLogID, dailyLogID, MAX_REVISIONS_PER_LOG]
+  );
+
+  return revisionID;
+}
+
+/**
+ * Helper: Replace a daily log's food entries with a revision snapshot
+ * Entries keep their original IDs and timestamps
+ */
+async function writeRevisionEntries(
+  database: SQLite.SQLiteDatabase,
+  revision: DailyLogRevision
+): Promise<void> {
+  await database.runAsync('DELETE FROM food_entries WHERE dailyLogID = ?', [revision.dailyLogID]);
+  for (const entry of revision.entries) {
+    await insertFoodEntry(database, { ...entry, dailyLogID: revision.dailyLogID });
+  }
+}
+
+/**
+ * Helper: Parse a stored revision row
+ */
+function parseRevisionRow(row: Omit<DailyLogRevision, 'entries'> & { entries: string }): DailyLogRevision {
+  return { ...row, entries: JSON.parse(row.entries) as FoodEntryRow[] };
+}
+
+/**
+ * Get the revisions of a daily log, newest first
+ * Each revision holds the day's entries as they were before the recorded change
+ */
+export async function getDailyLogRevisions(dailyLogID: string): Promise<DailyLogRevision[]> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const rows = await db.getAllAsync<Omit<DailyLogRevision, 'entries'> & { entries: string }>(
+      'SELECT * FROM daily_log_revisions WHERE dailyLogID = ? ORDER BY createdAt DESC, rowid DESC',
+      [dailyLogID]
+    );
+    return rows.map(parseRevisionRow);
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Restore a daily log to an earlier revision
+ * The current state is recorded as a new revision first, so a restore can itself be undone
+ */
+export async function restoreRevision(revisionID: string): Promise<void> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const database = db; // Capture for use in transaction callback
+    const row = await database.getFirstAsync<Omit<DailyLogRevision, 'entries'> & { entries: string }>(
+      'SELECT * FROM daily_log_revisions WHERE revisionID = ?',
+      [revisionID]
+    );
+    if (!row) throw new Error(`Revision not found: ${revisionID}`);
+    const revision = parseRevisionRow(row);
+
+    await database.withTransactionAsync(async () => {
+      await recordRevision(database, revision.userID, revision.dailyLogID, 'restore');
+      await writeRevisionEntries(database, revision);
+    });
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Undo the change a revision was recorded for
+ * Restores the snapshot and discards the revision, without recording a new one
+ * Only the day's latest revision can be undone; going further back is a restore
+ */
+export async function undoRevision(revisionID: string): Promise<void> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const database = db; // Capture for use in transaction callback
+    await database.withTransactionAsync(async () => {
+      const row = await database.getFirstAsync<Omit<DailyLogRevision, 'entries'> & { entries: string }>(
+        'SELECT * FROM daily_log_revisions WHERE revisionID = ?',
+        [revisionID]
+      );
+      if (!row) throw new Error('Nothing to undo');
+      const revision = parseRevisionRow(row);
+
+      // A later change would be silently discarded by restoring this snapshot
+      const latest = await database.getFirstAsync<{ revisionID: string }>(
+        'SELECT revisionID FROM daily_log_revisions WHERE dailyLogID = ? ORDER BY createdAt DESC, rowid DESC LIMIT 1',
+        [revision.dailyLogID]
+      );
+      if (latest?.revisionID !== revisionID) throw new Error('Nothing to undo: the day has changed since');
+
+      await writeRevisionEntries(database, revision);
+      await database.runAsync('DELETE FROM daily_log_revisions WHERE revisionID = ?', [revisionID]);
+    });
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Helper: Count a logged food towards the saved food library
+ * Creates the saved food on first use; afterwards keeps the latest portion and bumps the use count
+ */
+async function recordSavedFoodUse(
+  database: SQLite.SQLiteDatabase,
+  userID: string,
+  food: FoodItem,
+  usedAt: string
+): Promise<void> {
+  await database.runAsync(
+    `INSERT INTO saved_foods (savedFoodID, userID, name, quantity, calories, protein, carbs, fat, ${MICRONUTRIENT_KEYS.join(', ')}, useCount, lastUsedAt, pinned, createdAt, updatedAt)
+    VALUES (?, ?, trim(?), ?, ?, ?, ?, ?, ${MICRONUTRIENT_KEYS.map(() => '?').join(', ')}, 1, ?, 0, ?, ?)
+    ON CONFLICT(userID, nameKey) DO UPDATE SET
+      quantity = excluded.quantity,
+      calories = excluded.calories,
+      protein = excluded.protein,
+      carbs = excluded.carbs,
+      fat = excluded.fat,
+      ${MICRONUTRIENT_KEYS.map((key) => `${key} = excluded.${key}`).join(',\n      ')},
+      useCount = useCount + 1,
+      lastUsedAt = excluded.lastUsedAt,
+      updatedAt = excluded.updatedAt`,
+    [uuidv4(), userID, food.name, food.quantity, food.calories, food.protein, food.carbs, food.fat, ...getMicronutrientValues(food), usedAt, usedAt, usedAt]
+  );
+}
+
+/**
+ * Get saved foods, pinned first, then ranked by frequency weighted by recency
+ * A food's use count is divided by (1 + weeks since it was last logged)
+ */
+export async function getSavedFoods(
+  userID: string,
+  query: string = '',
+  limit: number = 50
+): Promise<SavedFood[]> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const rows = await db.getAllAsync<Omit<SavedFood, 'pinned'> & { pinned: number }>(
+      `SELECT savedFoodID, userID, name, quantity, calories, protein, carbs, fat, ${MICRONUTRIENT_KEYS.join(', ')}, useCount, lastUsedAt, pinned, createdAt, updatedAt
+      FROM saved_foods
+      WHERE userID = ? AND nameKey LIKE ?
+      ORDER BY pinned DESC,
+        useCount / (1.0 + MAX(julianday('now') - julianday(lastUsedAt), 0) / 7.0) DESC,
+        lastUsedAt DESC
+      LIMIT ?`,
+      [userID, `%${query.trim().toLowerCase()}%`, limit]
+    );
+    return rows.map((row) => ({ ...row, pinned: row.pinned === 1 }));
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Pin or unpin a saved food
+ */
+export async function setSavedFoodPinned(savedFoodID: string, pinned: boolean): Promise<void> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    await db.runAsync(
+      'UPDATE saved_foods SET pinned = ?, updatedAt = ? WHERE savedFoodID = ?',
+      [pinned ? 1 : 0, getCurrentTimestamp(), savedFoodID]
+    );
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Remove a food from the saved library (it reappears if logged again)
+ */
+export async function deleteSavedFood(savedFoodID: string): Promise<void> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    await db.runAsync('DELETE FROM saved_foods WHERE savedFoodID = ?', [savedFoodID]);
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Helper: Attach ingredients to recipe rows
+ */
+async function loadRecipeIngredients(
+  database: SQLite.SQLiteDatabase,
+  recipes: RecipeRow[]
+): Promise<Recipe[]> {
+  if (recipes.length === 0) return [];
+  const ingredients = await database.getAllAsync<RecipeIngredient>(
+    `SELECT * FROM recipe_ingredients WHERE recipeID IN (${recipes.map(() => '?').join(', ')}) ORDER BY position ASC`,
+    recipes.map((r) => r.recipeID)
+  );
+  return recipes.map((recipe) => ({
+    ...recipe,
+    ingredients: ingredients.filter((i) => i.recipeID === recipe.recipeID),
+  }));
+}
+
+/**
+ * Get all recipes for a user with their ingredients, sorted by name
+ */
+export async function getRecipes(userID: string): Promise<Recipe[]> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const rows = await db.getAllAsync<RecipeRow>(
+      'SELECT * FROM recipes WHERE userID = ? ORDER BY name COLLATE NOCASE ASC',
+      [userID]
+    );
+    return await loadRecipeIngredients(db, rows);
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Get a single recipe with its ingredients
+ * Returns null if it does not exist
+ */
+export async function getRecipe(recipeID: string): Promise<Recipe | null> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const row = await db.getFirstAsync<RecipeRow>('SELECT * FROM recipes WHERE recipeID = ?', [recipeID]);
+    if (!row) return null;
+    const [recipe] = await loadRecipeIngredients(db, [row]);
+    return recipe;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Create or update a recipe and replace its ingredients
+ * Food entries already logged from the recipe hold their own copy of the macros and are not affected
+ */
+export async function saveRecipe(
+  userID: string,
+  recipe: { recipeID?: string; name: string; servings: number; ingredients: FoodItem[] }
+): Promise<Recipe> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const database = db; // Capture for use in transaction callback
+    const now = getCurrentTimestamp();
+    const recipeID = recipe.recipeID ?? uuidv4();
+
+    await database.withTransactionAsync(async () => {
+      if (recipe.recipeID) {
+        const result = await database.runAsync(
+          'UPDATE recipes SET name = ?, servings = ?, updatedAt = ? WHERE recipeID = ?',
+          [recipe.name, recipe.servings, now, recipeID]
+        );
+        if (result.changes === 0) throw new Error(`Recipe not found: ${recipeID}`);
+        await database.runAsync('DELETE FROM recipe_ingredients WHERE recipeID = ?', [recipeID]);
+      } else {
+        await database.runAsync(
+          'INSERT INTO recipes (recipeID, userID, name, servings, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?)',
+          [recipeID, userID, recipe.name, recipe.servings, now, now]
+        );
+      }
+
+      for (const [position, item] of recipe.ingredients.entries()) {
+        await database.runAsync(
+          `INSERT INTO recipe_ingredients (ingredientID, recipeID, position, name, quantity, calories, protein, carbs, fat, ${MICRONUTRIENT_KEYS.join(', ')}, createdAt, updatedAt)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ${MICRONUTRIENT_KEYS.map(() => '?').join(', ')}, ?, ?)`,
+          [uuidv4(), recipeID, position, item.name, item.quantity, item.calories, item.protein, item.carbs, item.fat, ...getMicronutrientValues(item), now, now]
+        );
+      }
+    });
+
+    const saved = await getRecipe(recipeID);
+    if (!saved) throw new Error(`Recipe not found: ${recipeID}`);
+    return saved;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Delete a recipe and its ingredients
+ */
+export async function deleteRecipe(recipeID: string): Promise<void> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const database = db; // Capture for use in transaction callback
+    await database.withTransactionAsync(async () => {
+      await database.runAsync('DELETE FROM recipe_ingredients WHERE recipeID = ?', [recipeID]);
+      await database.runAsync('DELETE FROM recipes WHERE recipeID = ?', [recipeID]);
+    });
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Get all meal templates for a user with their items, sorted by name
+ */
+export async function getMealTemplates(userID: string): Promise<MealTemplate[]> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const templates = await db.getAllAsync<MealTemplateRow>(
+      'SELECT * FROM meal_templates WHERE userID = ? ORDER BY name COLLATE NOCASE ASC',
+      [userID]
+    );
+    if (templates.length === 0) return [];
+
+    const items = await db.getAllAsync<MealTemplateItem>(
+      `SELECT * FROM meal_template_items WHERE templateID IN (${templates.map(() => '?').join(', ')}) ORDER BY position ASC`,
+      templates.map((t) => t.templateID)
+    );
+    return templates.map((template) => ({
+      ...template,
+      items: items.filter((i) => i.templateID === template.templateID),
+    }));
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Save a meal's foods as a named template
+ */
+export async function saveMealTemplate(userID: string, name: string, items: FoodItem[]): Promise<MealTemplate> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const database = db; // Capture for use in transaction callback
+    const templateID = uuidv4();
+    const now = getCurrentTimestamp();
+    const templateItems: MealTemplateItem[] = items.map((item, position) => ({
+      itemID: uuidv4(),
+      templateID,
+      position,
+      name: item.name,
+      quantity: item.quantity,
+      calories: item.calories,
+      protein: item.protein,
+      carbs: item.carbs,
+      fat: item.fat,
+      ...getMicronutrients(item),
+      createdAt: now,
+      updatedAt: now,
+    }));
+
+    await database.withTransactionAsync(async () => {
+      await database.runAsync(
+        'INSERT INTO meal_templates (templateID, userID, name, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?)',
+        [templateID, userID, name, now, now]
+      );
+      for (const item of templateItems) {
+        await database.runAsync(
+          `INSERT INTO meal_template_items (itemID, templateID, position, name, quantity, calories, protein, carbs, fat, ${MICRONUTRIENT_KEYS.join(', ')}, createdAt, updatedAt)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ${MICRONUTRIENT_KEYS.map(() => '?').join(', ')}, ?, ?)`,
+          [item.itemID, templateID, item.position, item.name, item.quantity, item.calories, item.protein, item.carbs, item.fat, ...getMicronutrientValues(item), now, now]
+        );
+      }
+    });
+
+    return { templateID, userID, name, items: templateItems, createdAt: now, updatedAt: now };
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Delete a meal template and its items
+ */
+export async function deleteMealTemplate(templateID: string): Promise<void> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const database = db; // Capture for use in transaction callback
+    await database.withTransactionAsync(async () => {
+      await database.runAsync('DELETE FROM meal_template_items WHERE templateID = ?', [templateID]);
+      await database.runAsync('DELETE FROM meal_templates WHERE templateID = ?', [templateID]);
+    });
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Log every item of a template as fresh food entries in the given day and meal slot
+ * All items are added in one transaction under one revision, so undo removes the whole template
+ * Returns the ID of the revision recorded before the change
+ */
+export async function applyMealTemplate(
+  userID: string,
+  templateID: string,
+  dailyLogID: string,
+  mealType: MealType
+): Promise<string> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const items = await db.getAllAsync<MealTemplateItem>(
+      'SELECT * FROM meal_template_items WHERE templateID = ? ORDER BY position ASC',
+      [templateID]
+    );
+
+    const operations: FoodEditOperation[] = items.map((item) => ({
+      type: 'add',
+      mealType,
+      item: {
+        name: item.name,
+        quantity: item.quantity,
+        calories: item.calories,
+        protein: item.protein,
+        carbs: item.carbs,
+        fat: item.fat,
+        ...getMicronutrients(item),
+      },
+    }));
+    return await applyFoodEditOperations(userID, dailyLogID, operations, 'add');
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Get the last N days of logs (excluding today), filtering out empty days
+ * Returns logs sorted by date descending (most recent first)
+ */
+export async function getPreviousDaysLogs(
+  userID: string,
+  days: number = 7
+): Promise<DailyLog[]> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const today = getTodayDate();
+
+    // Get the last N days that have food entries
+    const dates = await db.getAllAsync<{ date: string }>(
+      `SELECT DISTINCT dl.date
+       FROM daily_logs dl
+       INNER JOIN food_entries fe ON fe.dailyLogID = dl.dailyLogID
+       WHERE dl.userID = ? AND dl.date < ?
+       ORDER BY dl.date DESC
+       LIMIT ?`,
+      [userID, today, days]
+    );
+    if (dates.length === 0) return [];
+
+    // Load them in one batch, skipping emptied days in between
+    const wanted = new Set(dates.map((d) => d.date));
+    const logs = await getDailyLogsInRange(userID, dates[dates.length - 1].date, dates[0].date);
+    return logs.filter((log) => wanted.has(log.date)).reverse();
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Get weight log for a specific date
+ * Returns null if no weight logged for that date
+ */
+export async function getWeightLog(userID: string, date: string): Promise<WeightLog | null> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const result = await db.getFirstAsync<WeightLog>(
+      'SELECT * FROM weight_logs WHERE userID = ? AND date = ?',
+      [userID, date]
+    );
+    return result || null;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Save (insert or update) weight for a specific date
+ */
+export async function saveWeightLog(userID: string, date: string, weight: number): Promise<WeightLog> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const now = getCurrentTimestamp();
+    const existing = await getWeightLog(userID, date);
+
+    if (existing) {
+      await db.runAsync(
+        'UPDATE weight_logs SET weight = ?, updatedAt = ? WHERE weightLogID = ?',
+        [weight, now, existing.weightLogID]
+      );
+      return { ...existing, weight, updatedAt: now };
+    }
+
+    const weightLogID = uuidv4();
+    await db.runAsync(
+      'INSERT INTO weight_logs (weightLogID, userID, date, weight, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?)',
+      [weightLogID, userID, date, weight, now, now]
+    );
+
+    return { weightLogID, userID, date, weight, createdAt: now, updatedAt: now };
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Get the most recent weight log before a given date
+ * Useful for pre-filling the input with yesterday's weight
+ */
+export async function getPreviousWeightLog(userID: string, beforeDate: string): Promise<WeightLog | null> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const result = await db.getFirstAsync<WeightLog>(
+      'SELECT * FROM weight_logs WHERE userID = ? AND date < ? ORDER BY date DESC LIMIT 1',
+      [userID, beforeDate]
+    );
+    return result || null;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Get body measurements for a specific date
+ * Returns null if nothing was measured that day
+ */
+export async function getBodyMeasurement(userID: string, date: string): Promise<BodyMeasurement | null> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const result = await db.getFirstAsync<BodyMeasurement>(
+      'SELECT * FROM body_measurements WHERE userID = ? AND date = ?',
+      [userID, date]
+    );
+    return result || null;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Save (insert or update) body measurements for a specific date
+ * Clearing every value deletes the day's row, so returns null
+ */
+export async function saveBodyMeasurement(
+  userID: string,
+  date: string,
+  values: Partial<BodyMeasurementValues>
+): Promise<BodyMeasurement | null> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const now = getCurrentTimestamp();
+    const normalized = getMeasurementValues(values);
+    const existing = await getBodyMeasurement(userID, date);
+
+    if (isEmptyMeasurement(normalized)) {
+      if (existing) {
+        await db.runAsync('DELETE FROM body_measurements WHERE measurementID = ?', [existing.measurementID]);
+      }
+      return null;
+    }
+
+    const measurementValues = MEASUREMENT_KEYS.map((key) => normalized[key]);
+
+    if (existing) {
+      await db.runAsync(
+        `UPDATE body_measurements SET ${MEASUREMENT_KEYS.map((key) => `${key} = ?`).join(', ')}, updatedAt = ? WHERE measurementID = ?`,
+        [...measurementValues, now, existing.measurementID]
+      );
+      return { ...existing, ...normalized, updatedAt: now };
+    }
+
+    const measurementID = uuidv4();
+    await db.runAsync(
+      `INSERT INTO body_measurements (measurementID, userID, date, ${MEASUREMENT_KEYS.join(', ')}, createdAt, updatedAt)
+      VALUES (?, ?, ?, ${MEASUREMENT_KEYS.map(() => '?').join(', ')}, ?, ?)`,
+      [measurementID, userID, date, ...measurementValues, now, now]
+    );
+
+    return { measurementID, userID, date, ...normalized, createdAt: now, updatedAt: now };
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Get the most recent body measurements before a given date
+ * Shown as a reference while entering new ones
+ */
+export async function getPreviousBodyMeasurement(userID: string, beforeDate: string): Promise<BodyMeasurement | null> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const result = await db.getFirstAsync<BodyMeasurement>(
+      'SELECT * FROM body_measurements WHERE userID = ? AND date < ? ORDER BY date DESC LIMIT 1',
+      [userID, beforeDate]
+    );
+    return result || null;
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Get the activities logged on a date, oldest first
+ */
+export async function getActivityLogs(userID: string, date: string): Promise<ActivityLog[]> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    return await db.getAllAsync<ActivityLog>(
+      'SELECT * FROM activity_logs WHERE userID = ? AND date = ? ORDER BY createdAt ASC',
+      [userID, date]
+    );
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Log a workout for a date
+ */
+export async function addActivityLog(userID: string, date: string, activity: ActivityItem): Promise<ActivityLog> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const item = normalizeActivityItem(activity);
+    if (!item) {
+      throw new Error('Activity needs a name and a duration');
+    }
+
+    const now = getCurrentTimestamp();
+    const activityLogID = uuidv4();
+    await db.runAsync(
+      `INSERT INTO activity_logs (activityLogID, userID, date, name, durationMinutes, intensity, caloriesBurned, createdAt, updatedAt)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [activityLogID, userID, date, item.name, item.durationMinutes, item.intensity, item.caloriesBurned, now, now]
+    );
+
+    return { activityLogID, userID, date, ...item, createdAt: now, updatedAt: now };
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Delete a single activity log
+ */
+export async function deleteActivityLog(activityLogID: string): Promise<void> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    await db.runAsync('DELETE FROM activity_logs WHERE activityLogID = ?', [activityLogID]);
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Get the water logged on a date, oldest first
  */
-export async function getWeightLog(userID: string, date: string): Promise<WeightLog | null> {
+export async function getWaterLogs(userID: string, date: string): Promise<WaterLog[]> {
   if (!db) throw new Error('Database not initialized');
 
   try {
-    const result = await db.getFirstAsync<WeightLog>(
-      'SELECT * FROM weight_logs WHERE userID = ? AND date = ?',
+    return await db.getAllAsync<WaterLog>(
+      'SELECT * FROM water_logs WHERE userID = ? AND date = ? ORDER BY createdAt ASC',
       [userID, date]
     );
-    return result || null;
   } catch (error) {
     throw error;
   }
 }
 
 /**
- * Save (insert or update) weight for a specific date
+ * Log a drink of water for a date
  */
-export async function saveWeightLog(userID: string, date: string, weight: number): Promise<WeightLog> {
+export async function addWaterLog(userID: string, date: string, amount: number): Promise<WaterLog> {
   if (!db) throw new Error('Database not initialized');
 
   try {
     const now = getCurrentTimestamp();
-    const existing = await getWeightLog(userID, date);
-
-    if (existing) {
-      await db.runAsync(
-        'UPDATE weight_logs SET weight = ?, updatedAt = ? WHERE weightLogID = ?',
-        [weight, now, existing.weightLogID]
-      );
-      return { ...existing, weight, updatedAt: now };
-    }
+    const waterLogID = uuidv4();
+    const rounded = Math.round(amount * 10) / 10;
 
-    const weightLogID = uuidv4();
     await db.runAsync(
-      'INSERT INTO weight_logs (weightLogID, userID, date, weight, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?)',
-      [weightLogID, userID, date, weight, now, now]
+      'INSERT INTO water_logs (waterLogID, userID, date, amount, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?)',
+      [waterLogID, userID, date, rounded, now, now]
     );
 
-    return { weightLogID, userID, date, weight, createdAt: now, updatedAt: now };
+    return { waterLogID, userID, date, amount: rounded, createdAt: now, updatedAt: now };
   } catch (error) {
     throw error;
   }
 }
 
 /**
- * Get the most recent weight log before a given date
- * Useful for pre-filling the input with yesterday's weight
+ * Delete a single water log
  */
-export async function getPreviousWeightLog(userID: string, beforeDate: string): Promise<WeightLog | null> {
+export async function deleteWaterLog(waterLogID: string): Promise<void> {
   if (!db) throw new Error('Database not initialized');
 
   try {
-    const result = await db.getFirstAsync<WeightLog>(
-      'SELECT * FROM weight_logs WHERE userID = ? AND date < ? ORDER BY date DESC LIMIT 1',
-      [userID, beforeDate]
-    );
-    return result || null;
+    await db.runAsync('DELETE FROM water_logs WHERE waterLogID = ?', [waterLogID]);
   } catch (error) {
     throw error;
   }
 }
 
 /**
- * Get trend data (calories + weight) for a date range
- * Returns one point per date, merging daily_logs and weight_logs
+ * Get trend data (calories, weight, water, exercise and body measurements) for a date range
+ * Returns one point per date, merging daily_logs, weight_logs, per-day water and burn totals, and body_measurements
+ * Lean mass uses the day's weight, or the latest earlier weight in the range
  */
 export async function getTrendData(
   userID: string,
@@ -770,30 +2264,491 @@ export async function getTrendData(
   if (!db) throw new Error('Database not initialized');
 
   try {
-    const rows = await db.getAllAsync<TrendDataPoint>(
+    const rows = await db.getAllAsync<Omit<TrendDataPoint, 'leanMass'>>(
       `SELECT
         d.date,
         dl.totalCalories as calories,
         dl.targetCalories as calorieTarget,
-        wl.weight
+        wl.weight,
+        w.water,
+        a.caloriesBurned,
+        ${MEASUREMENT_KEYS.map((key) => `bm.${key}`).join(', ')}
       FROM (
-        -- Generate all dates in range from both tables
+        -- Generate all dates in range from every source table
         SELECT date FROM daily_logs WHERE userID = ? AND date >= ? AND date <= ?
         UNION
         SELECT date FROM weight_logs WHERE userID = ? AND date >= ? AND date <= ?
+        UNION
+        SELECT date FROM water_logs WHERE userID = ? AND date >= ? AND date <= ?
+        UNION
+        SELECT date FROM body_measurements WHERE userID = ? AND date >= ? AND date <= ?
+        UNION
+        SELECT date FROM activity_logs WHERE userID = ? AND date >= ? AND date <= ?
       ) d
       LEFT JOIN daily_logs dl ON dl.date = d.date AND dl.userID = ?
       LEFT JOIN weight_logs wl ON wl.date = d.date AND wl.userID = ?
+      LEFT JOIN (
+        SELECT date, SUM(amount) as water FROM water_logs WHERE userID = ? GROUP BY date
+      ) w ON w.date = d.date
+      LEFT JOIN (
+        SELECT date, SUM(caloriesBurned) as caloriesBurned FROM activity_logs WHERE userID = ? GROUP BY date
+      ) a ON a.date = d.date
+      LEFT JOIN body_measurements bm ON bm.date = d.date AND bm.userID = ?
       ORDER BY d.date ASC`,
-      [userID, startDate, endDate, userID, startDate, endDate, userID, userID]
+      [
+        userID, startDate, endDate, userID, startDate, endDate, userID, startDate, endDate,
+        userID, startDate, endDate, userID, startDate, endDate, userID, userID, userID, userID, userID,
+      ]
     );
 
-    return rows.map((row) => ({
-      date: row.date,
-      calories: row.calories ?? null,
-      calorieTarget: row.calorieTarget ?? null,
-      weight: row.weight ?? null,
-    }));
+    let latestWeight: number | null = null;
+    return rows.map((row) => {
+      const measurements = getMeasurementValues(row);
+      latestWeight = row.weight ?? latestWeight;
+      return {
+        date: row.date,
+        calories: row.calories ?? null,
+        calorieTarget: row.calorieTarget ?? null,
+        weight: row.weight ?? null,
+        water: row.water ?? null,
+        caloriesBurned: row.caloriesBurned ?? null,
+        ...measurements,
+        leanMass: calculateLeanMass(latestWeight, measurements.bodyFat),
+      };
+    });
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Get all food entries in a date range, joined with their log date
+ * Sorted by date, then meal order, then creation time
+ */
+export async function getFoodEntriesInRange(
+  userID: string,
+  startDate: string,
+  endDate: string
+): Promise<FoodEntryWithDate[]> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    return await db.getAllAsync<FoodEntryWithDate>(
+      `SELECT fe.*, dl.date
+      FROM food_entries fe
+      INNER JOIN daily_logs dl ON dl.dailyLogID = fe.dailyLogID
+      LEFT JOIN meal_slots ms ON ms.userID = fe.userID AND ms.mealType = fe.mealType
+      WHERE dl.userID = ? AND dl.date >= ? AND dl.date <= ?
+      ORDER BY dl.date ASC, COALESCE(ms.sortOrder, ${UNSLOTTED_SORT_ORDER}), fe.createdAt ASC`,
+      [userID, startDate, endDate]
+    );
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Helper: Turn free text into an FTS5 query matching every word as a prefix
+ * Each word is quoted so punctuation in the input can't be read as query syntax
+ */
+function buildFoodSearchQuery(text: string): string | null {
+  const words = text.trim().split(/\s+/).filter((word) => word.length > 0);
+  if (words.length === 0) return null;
+  return words.map((word) => `"${word.replace(/"/g, '""')}"*`).join(' ');
+}
+
+/**
+ * Search a user's whole food history by name and quantity
+ * Most recent days first
+ */
+export async function searchFoodEntries(
+  userID: string,
+  text: string,
+  limit: number = 200
+): Promise<FoodEntryWithDate[]> {
+  if (!db) throw new Error('Database not initialized');
+
+  const query = buildFoodSearchQuery(text);
+  if (!query) return [];
+
+  try {
+    return await db.getAllAsync<FoodEntryWithDate>(
+      `SELECT fe.*, dl.date
+      FROM food_entries_fts fts
+      INNER JOIN food_entries fe ON fe.foodEntryID = fts.foodEntryID
+      INNER JOIN daily_logs dl ON dl.dailyLogID = fe.dailyLogID
+      LEFT JOIN meal_slots ms ON ms.userID = fe.userID AND ms.mealType = fe.mealType
+      WHERE food_entries_fts MATCH ? AND fe.userID = ?
+      ORDER BY dl.date DESC, COALESCE(ms.sortOrder, ${UNSLOTTED_SORT_ORDER}), fe.createdAt ASC
+      LIMIT ?`,
+      [query, userID, limit]
+    );
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Count food entries per date in a date range
+ * Dates without entries are omitted
+ */
+export async function getFoodEntryCountsInRange(
+  userID: string,
+  startDate: string,
+  endDate: string
+): Promise<Record<string, number>> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const rows = await db.getAllAsync<{ date: string; count: number }>(
+      `SELECT dl.date, COUNT(fe.foodEntryID) as count
+      FROM daily_logs dl
+      INNER JOIN food_entries fe ON fe.dailyLogID = dl.dailyLogID
+      WHERE dl.userID = ? AND dl.date >= ? AND dl.date <= ?
+      GROUP BY dl.date`,
+      [userID, startDate, endDate]
+    );
+    return Object.fromEntries(rows.map((row) => [row.date, row.count]));
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Get daily log rows (totals and target snapshot, without entries) in a date range
+ */
+export async function getDailyLogRowsInRange(
+  userID: string,
+  startDate: string,
+  endDate: string
+): Promise<DailyLogRow[]> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    return await db.getAllAsync<DailyLogRow>(
+      'SELECT * FROM daily_logs WHERE userID = ? AND date >= ? AND date <= ? ORDER BY date ASC',
+      [userID, startDate, endDate]
+    );
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Get weight logs in a date range
+ */
+export async function getWeightLogsInRange(
+  userID: string,
+  startDate: string,
+  endDate: string
+): Promise<WeightLog[]> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    return await db.getAllAsync<WeightLog>(
+      'SELECT * FROM weight_logs WHERE userID = ? AND date >= ? AND date <= ? ORDER BY date ASC',
+      [userID, startDate, endDate]
+    );
+  } catch (error) {
+    throw error;
+  }
+}
+
+// Column order per table for backup import
+const BACKUP_COLUMNS: Record<keyof BackupData, string[]> = {
+  users: ['userID', 'firstName', 'lastName', 'createdAt', 'updatedAt'],
+  macro_targets: ['userID', 'calories', 'protein', 'carbs', 'fat', ...MICRONUTRIENT_KEYS, 'createdAt', 'updatedAt'],
+  user_settings: ['userID', 'reviewBeforeSave', 'waterTarget', 'exerciseAdjustsTarget', 'timelineView', 'integrityCheckOnLaunch', 'createdAt', 'updatedAt'],
+  daily_logs: [
+    'dailyLogID', 'userID', 'date', 'totalCalories', 'totalProtein', 'totalCarbs', 'totalFat',
+    'targetCalories', 'targetProtein', 'targetCarbs', 'targetFat',
+    ...MICRONUTRIENTS.map((m) => m.totalKey), 'createdAt', 'updatedAt',
+  ],
+  food_entries: [
+    'foodEntryID', 'userID', 'dailyLogID', 'mealType', 'name', 'quantity',
+    'calories', 'protein', 'carbs', 'fat', ...MICRONUTRIENT_KEYS, 'eatenAt', 'createdAt', 'updatedAt',
+  ],
+  weight_logs: ['weightLogID', 'userID', 'date', 'weight', 'createdAt', 'updatedAt'],
+  water_logs: ['waterLogID', 'userID', 'date', 'amount', 'createdAt', 'updatedAt'],
+  body_measurements: ['measurementID', 'userID', 'date', ...MEASUREMENT_KEYS, 'createdAt', 'updatedAt'],
+  activity_logs: [
+    'activityLogID', 'userID', 'date', 'name', 'durationMinutes', 'intensity', 'caloriesBurned', 'createdAt', 'updatedAt',
+  ],
+  meal_slots: ['mealSlotID', 'userID', 'mealType', 'name', 'startTime', 'endTime', 'sortOrder', 'createdAt', 'updatedAt'],
+  saved_foods: [
+    'savedFoodID', 'userID', 'name', 'quantity', 'calories', 'protein', 'carbs', 'fat',
+    ...MICRONUTRIENT_KEYS, 'useCount', 'lastUsedAt', 'pinned', 'createdAt', 'updatedAt',
+  ],
+  recipes: ['recipeID', 'userID', 'name', 'servings', 'createdAt', 'updatedAt'],
+  recipe_ingredients: [
+    'ingredientID', 'recipeID', 'position', 'name', 'quantity',
+    'calories', 'protein', 'carbs', 'fat', ...MICRONUTRIENT_KEYS, 'createdAt', 'updatedAt',
+  ],
+  meal_templates: ['templateID', 'userID', 'name', 'createdAt', 'updatedAt'],
+  meal_template_items: [
+    'itemID', 'templateID', 'position', 'name', 'quantity',
+    'calories', 'protein', 'carbs', 'fat', ...MICRONUTRIENT_KEYS, 'createdAt', 'updatedAt',
+  ],
+  weekday_targets: ['userID', 'weekday', 'calories', 'protein', 'carbs', 'fat', 'createdAt', 'updatedAt'],
+  day_types: ['dayTypeID', 'userID', 'name', 'calories', 'protein', 'carbs', 'fat', 'createdAt', 'updatedAt'],
+  day_type_assignments: ['userID', 'date', 'dayTypeID', 'createdAt', 'updatedAt'],
+};
+
+/**
+ * Helper: Insert a row into a backup table, optionally skipping conflicts
+ * Returns the number of rows written (0 when ignored)
+ */
+async function insertBackupRow(
+  database: SQLite.SQLiteDatabase,
+  table: keyof BackupData,
+  row: object,
+  ignoreConflicts: boolean
+): Promise<number> {
+  const columns = BACKUP_COLUMNS[table];
+  const values = columns.map((column) => {
+    const value = (row as Record<string, unknown>)[column];
+    // Columns added after a backup was made are missing from it
+    if (value === undefined) return null;
+    return typeof value === 'boolean' ? (value ? 1 : 0) : (value as string | number | null);
+  });
+  const result = await database.runAsync(
+    `INSERT ${ignoreConflicts ? 'OR IGNORE ' : ''}INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+    values
+  );
+  return result.changes;
+}
+
+/**
+ * Get the current schema version of the database
+ */
+export async function getDatabaseSchemaVersion(): Promise<number> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    return await getSchemaVersion(db);
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Read every row of every user data table
+ */
+export async function exportAllData(): Promise<BackupData> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const users = await db.getAllAsync<User>('SELECT * FROM users ORDER BY createdAt ASC');
+    const macroTargets = await db.getAllAsync<MacroTargets>('SELECT * FROM macro_targets ORDER BY userID ASC');
+    const settingsRows = await db.getAllAsync<UserSettingsRow>('SELECT * FROM user_settings ORDER BY userID ASC');
+    const dailyLogs = await db.getAllAsync<DailyLogRow>('SELECT * FROM daily_logs ORDER BY date ASC');
+    const foodEntries = await db.getAllAsync<FoodEntryRow>('SELECT * FROM food_entries ORDER BY createdAt ASC');
+    const weightLogs = await db.getAllAsync<WeightLog>('SELECT * FROM weight_logs ORDER BY date ASC');
+    const waterLogs = await db.getAllAsync<WaterLog>('SELECT * FROM water_logs ORDER BY createdAt ASC');
+    const bodyMeasurements = await db.getAllAsync<BodyMeasurement>('SELECT * FROM body_measurements ORDER BY date ASC');
+    const activityLogs = await db.getAllAsync<ActivityLog>('SELECT * FROM activity_logs ORDER BY createdAt ASC');
+    const mealSlots = await db.getAllAsync<MealSlot>('SELECT * FROM meal_slots ORDER BY userID ASC, sortOrder ASC');
+    const savedFoodRows = await db.getAllAsync<Omit<SavedFood, 'pinned'> & { pinned: number }>(
+      'SELECT * FROM saved_foods ORDER BY createdAt ASC'
+    );
+    const recipes = await db.getAllAsync<RecipeRow>('SELECT * FROM recipes ORDER BY createdAt ASC');
+    const recipeIngredients = await db.getAllAsync<RecipeIngredient>(
+      'SELECT * FROM recipe_ingredients ORDER BY recipeID ASC, position ASC'
+    );
+    const mealTemplates = await db.getAllAsync<MealTemplateRow>('SELECT * FROM meal_templates ORDER BY createdAt ASC');
+    const mealTemplateItems = await db.getAllAsync<MealTemplateItem>(
+      'SELECT * FROM meal_template_items ORDER BY templateID ASC, position ASC'
+    );
+    const weekdayTargets = await db.getAllAsync<WeekdayTargets>('SELECT * FROM weekday_targets ORDER BY userID ASC, weekday ASC');
+    const dayTypes = await db.getAllAsync<DayType>('SELECT * FROM day_types ORDER BY createdAt ASC');
+    const dayTypeAssignments = await db.getAllAsync<DayTypeAssignment>(
+      'SELECT * FROM day_type_assignments ORDER BY userID ASC, date ASC'
+    );
+
+    return {
+      users,
+      macro_targets: macroTargets,
+      user_settings: settingsRows.map(fromUserSettingsRow),
+      daily_logs: dailyLogs,
+      food_entries: foodEntries,
+      weight_logs: weightLogs,
+      water_logs: waterLogs,
+      body_measurements: bodyMeasurements,
+      activity_logs: activityLogs,
+      meal_slots: mealSlots,
+      saved_foods: savedFoodRows.map((row) => ({ ...row, pinned: row.pinned === 1 })),
+      recipes,
+      recipe_ingredients: recipeIngredients,
+      meal_templates: mealTemplates,
+      meal_template_items: mealTemplateItems,
+      weekday_targets: weekdayTargets,
+      day_types: dayTypes,
+      day_type_assignments: dayTypeAssignments,
+    };
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Import backup data in a single transaction
+ * - replace: wipes all local data, then inserts the backup
+ * - merge: keeps local rows on conflict; imported entries for a date that already
+ *   has a local log are attached to the local log
+ */
+export async function importAllData(data: BackupData, mode: BackupImportMode): Promise<BackupImportResult> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const database = db; // Capture for use in transaction callback
+    const result: BackupImportResult = {
+      users: 0,
+      macro_targets: 0,
+      user_settings: 0,
+      daily_logs: 0,
+      food_entries: 0,
+      weight_logs: 0,
+      water_logs: 0,
+      body_measurements: 0,
+      activity_logs: 0,
+      meal_slots: 0,
+      saved_foods: 0,
+      recipes: 0,
+      recipe_ingredients: 0,
+      meal_templates: 0,
+      meal_template_items: 0,
+      weekday_targets: 0,
+      day_types: 0,
+      day_type_assignments: 0,
+    };
+
+    await database.withTransactionAsync(async () => {
+      if (mode === 'replace') {
+        await database.execAsync(`
+          DELETE FROM daily_log_revisions;
+          DELETE FROM saved_foods;
+          DELETE FROM recipe_ingredients;
+          DELETE FROM recipes;
+          DELETE FROM meal_template_items;
+          DELETE FROM meal_templates;
+          DELETE FROM day_type_assignments;
+          DELETE FROM day_types;
+          DELETE FROM weekday_targets;
+          DELETE FROM food_entries;
+          DELETE FROM daily_logs;
+          DELETE FROM weight_logs;
+          DELETE FROM water_logs;
+          DELETE FROM body_measurements;
+          DELETE FROM activity_logs;
+          DELETE FROM meal_slots;
+          DELETE FROM macro_targets;
+          DELETE FROM user_settings;
+          DELETE FROM users;
+        `);
+
+        for (const table of Object.keys(BACKUP_COLUMNS) as (keyof BackupData)[]) {
+          for (const row of data[table]) {
+            result[table] += await insertBackupRow(database, table, row, false);
+          }
+        }
+        return;
+      }
+
+      for (const user of data.users) {
+        result.users += await insertBackupRow(database, 'users', user, true);
+      }
+      for (const targets of data.macro_targets) {
+        result.macro_targets += await insertBackupRow(database, 'macro_targets', targets, true);
+      }
+      for (const settings of data.user_settings) {
+        result.user_settings += await insertBackupRow(database, 'user_settings', settings, true);
+      }
+      // Local slots win over imported ones with the same key
+      for (const slot of data.meal_slots) {
+        result.meal_slots += await insertBackupRow(database, 'meal_slots', slot, true);
+      }
+
+      // Map imported log IDs onto existing local logs for the same user and date
+      const logIDMap = new Map<string, string>();
+      for (const log of data.daily_logs) {
+        const existing = await database.getFirstAsync<{ dailyLogID: string }>(
+          'SELECT dailyLogID FROM daily_logs WHERE userID = ? AND date = ?',
+          [log.userID, log.date]
+        );
+        if (existing) {
+          logIDMap.set(log.dailyLogID, existing.dailyLogID);
+        } else {
+          result.daily_logs += await insertBackupRow(database, 'daily_logs', log, false);
+          logIDMap.set(log.dailyLogID, log.dailyLogID);
+        }
+      }
+
+      for (const entry of data.food_entries) {
+        const dailyLogID = logIDMap.get(entry.dailyLogID);
+        if (!dailyLogID) continue; // Entry's log is not in the backup
+        result.food_entries += await insertBackupRow(database, 'food_entries', { ...entry, dailyLogID }, true);
+      }
+
+      for (const weight of data.weight_logs) {
+        result.weight_logs += await insertBackupRow(database, 'weight_logs', weight, true);
+      }
+      for (const water of data.water_logs) {
+        result.water_logs += await insertBackupRow(database, 'water_logs', water, true);
+      }
+      for (const measurement of data.body_measurements) {
+        result.body_measurements += await insertBackupRow(database, 'body_measurements', measurement, true);
+      }
+      for (const activity of data.activity_logs) {
+        result.activity_logs += await insertBackupRow(database, 'activity_logs', activity, true);
+      }
+
+      for (const savedFood of data.saved_foods) {
+        result.saved_foods += await insertBackupRow(database, 'saved_foods', savedFood, true);
+      }
+
+      // Recipes are merged whole: ingredients are only added for recipes that were inserted
+      const insertedRecipeIDs = new Set<string>();
+      for (const recipe of data.recipes) {
+        if (await insertBackupRow(database, 'recipes', recipe, true)) {
+          insertedRecipeIDs.add(recipe.recipeID);
+          result.recipes++;
+        }
+      }
+      for (const ingredient of data.recipe_ingredients) {
+        if (!insertedRecipeIDs.has(ingredient.recipeID)) continue;
+        result.recipe_ingredients += await insertBackupRow(database, 'recipe_ingredients', ingredient, true);
+      }
+
+      // Templates are merged whole, like recipes
+      const insertedTemplateIDs = new Set<string>();
+      for (const template of data.meal_templates) {
+        if (await insertBackupRow(database, 'meal_templates', template, true)) {
+          insertedTemplateIDs.add(template.templateID);
+          result.meal_templates++;
+        }
+      }
+      for (const item of data.meal_template_items) {
+        if (!insertedTemplateIDs.has(item.templateID)) continue;
+        result.meal_template_items += await insertBackupRow(database, 'meal_template_items', item, true);
+      }
+
+      // Local schedule entries win over imported ones for the same weekday or date
+      for (const weekdayTargets of data.weekday_targets) {
+        result.weekday_targets += await insertBackupRow(database, 'weekday_targets', weekdayTargets, true);
+      }
+      for (const dayType of data.day_types) {
+        result.day_types += await insertBackupRow(database, 'day_types', dayType, true);
+      }
+      for (const assignment of data.day_type_assignments) {
+        result.day_type_assignments += await insertBackupRow(database, 'day_type_assignments', assignment, true);
+      }
+    });
+
+    // Imported rows may now exist for days that were read as virtual logs
+    virtualDailyLogs.clear();
+    virtualDailyLogKeys.clear();
+
+    return result;
   } catch (error) {
     throw error;
   }
@@ -807,12 +2762,215 @@ export async function clearAllData(): Promise<void> {
 
   try {
     await db.execAsync(`
+      DELETE FROM daily_log_revisions;
+      DELETE FROM saved_foods;
+      DELETE FROM recipe_ingredients;
+      DELETE FROM recipes;
+      DELETE FROM meal_template_items;
+      DELETE FROM meal_templates;
+      DELETE FROM day_type_assignments;
+      DELETE FROM day_types;
+      DELETE FROM weekday_targets;
       DELETE FROM food_entries;
       DELETE FROM daily_logs;
       DELETE FROM weight_logs;
+      DELETE FROM water_logs;
+      DELETE FROM body_measurements;
+      DELETE FROM activity_logs;
+      DELETE FROM meal_slots;
       DELETE FROM macro_targets;
+      DELETE FROM user_settings;
       DELETE FROM users;
     `);
+    virtualDailyLogs.clear();
+    virtualDailyLogKeys.clear();
+  } catch (error) {
+    throw error;
+  }
+}
+
+// Food entry columns that can never be negative
+const NUTRIENT_COLUMNS = ['calories', 'protein', 'carbs', 'fat', ...MICRONUTRIENT_KEYS];
+
+// Each daily log total with the aggregate of its entries it must equal, as the food_entries triggers keep it
+const DAILY_LOG_TOTAL_SUMS: { column: string; sum: string }[] = [
+  { column: 'totalCalories', sum: 'COALESCE(SUM(calories), 0)' },
+  { column: 'totalProtein', sum: 'COALESCE(SUM(protein), 0)' },
+  { column: 'totalCarbs', sum: 'COALESCE(SUM(carbs), 0)' },
+  { column: 'totalFat', sum: 'COALESCE(SUM(fat), 0)' },
+  ...MICRONUTRIENTS.map((m) => ({ column: m.totalKey, sum: `SUM(${m.key})` })),
+];
+
+/**
+ * Helper: SQL for a total recomputed from the entries of the daily_logs row being read or updated
+ */
+function entrySumSql(sum: string): string {
+  return `(SELECT ${sum} FROM food_entries WHERE food_entries.dailyLogID = daily_logs.dailyLogID)`;
+}
+
+/**
+ * Helper: Rows referencing a parent row that does not exist
+ */
+async function getForeignKeyViolations(
+  database: SQLite.SQLiteDatabase
+): Promise<{ table: string; rowid: number | null; parent: string }[]> {
+  return database.getAllAsync<{ table: string; rowid: number | null; parent: string }>('PRAGMA foreign_key_check');
+}
+
+/**
+ * Helper: Food entry counts per user and meal key where the key is not one of the user's slots,
+ * with the catch-all meal each group should move to
+ * Users without slot rows are checked against the default slots they will be given
+ */
+async function getInvalidMealTypes(
+  database: SQLite.SQLiteDatabase
+): Promise<{ userID: string; mealType: MealType; count: number; fallback: MealType }[]> {
+  const groups = await database.getAllAsync<{ userID: string; mealType: MealType; count: number }>(
+    'SELECT userID, mealType, COUNT(*) as count FROM food_entries GROUP BY userID, mealType'
+  );
+  const slotRows = await database.getAllAsync<MealSlot>('SELECT * FROM meal_slots ORDER BY sortOrder ASC');
+  const slotsByUser = new Map<string, MealSlot[]>();
+  for (const slot of slotRows) {
+    slotsByUser.set(slot.userID, [...(slotsByUser.get(slot.userID) ?? []), slot]);
+  }
+
+  return groups.flatMap((group) => {
+    const slots = slotsByUser.get(group.userID) ?? DEFAULT_MEAL_SLOTS;
+    if (slots.some((slot) => slot.mealType === group.mealType)) return [];
+    return [{ ...group, fallback: getCatchAllMealType(slots) }];
+  });
+}
+
+/**
+ * Helper: Find every kind of inconsistency the integrity check covers
+ */
+async function findIntegrityIssues(database: SQLite.SQLiteDatabase): Promise<IntegrityIssue[]> {
+  const issues: IntegrityIssue[] = [];
+  const report = (kind: IntegrityIssue['kind'], count: number, description: string) => {
+    if (count > 0) issues.push({ kind, count, description });
+  };
+
+  const duplicates = await database.getFirstAsync<{ count: number }>(
+    'SELECT COALESCE(SUM(n - 1), 0) as count FROM (SELECT COUNT(*) as n FROM daily_logs GROUP BY userID, date HAVING n > 1)'
+  );
+  report('duplicate_date', duplicates?.count ?? 0, 'Extra daily logs for a day that already has one');
+
+  // Entries without their log are reported on their own below
+  const violations = (await getForeignKeyViolations(database)).filter(
+    (v) => !(v.table === 'food_entries' && v.parent === 'daily_logs')
+  );
+  report('foreign_key', violations.length, 'Rows pointing to a profile or record that no longer exists');
+
+  const orphans = await database.getFirstAsync<{ count: number }>(
+    'SELECT COUNT(*) as count FROM food_entries WHERE NOT EXISTS (SELECT 1 FROM daily_logs WHERE daily_logs.dailyLogID = food_entries.dailyLogID)'
+  );
+  report('orphaned_entry', orphans?.count ?? 0, 'Food entries whose day is missing');
+
+  const invalidMeals = await getInvalidMealTypes(database);
+  report(
+    'invalid_meal_type',
+    invalidMeals.reduce((sum, group) => sum + group.count, 0),
+    'Food entries in a meal that is not one of the profile\'s meals'
+  );
+
+  const negative = await database.getFirstAsync<{ count: number }>(
+    `SELECT COUNT(*) as count FROM food_entries WHERE ${NUTRIENT_COLUMNS.map((c) => `${c} < 0`).join(' OR ')}`
+  );
+  report('negative_macros', negative?.count ?? 0, 'Food entries with negative calories, macros or micronutrients');
+
+  const mismatched = await database.getFirstAsync<{ count: number }>(
+    `SELECT COUNT(*) as count FROM daily_logs WHERE ${DAILY_LOG_TOTAL_SUMS.map((t) => `${t.column} IS NOT ${entrySumSql(t.sum)}`).join(' OR ')}`
+  );
+  report('mismatched_totals', mismatched?.count ?? 0, 'Days whose totals don\'t match their food entries');
+
+  return issues;
+}
+
+/**
+ * Check the database for inconsistencies without changing anything
+ */
+export async function checkDataIntegrity(): Promise<IntegrityReport> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    return { checkedAt: getCurrentTimestamp(), issues: await findIntegrityIssues(db) };
+  } catch (error) {
+    throw error;
+  }
+}
+
+/**
+ * Fix everything checkDataIntegrity reports, in a single transaction
+ * - duplicate days are merged into the earliest log for that date
+ * - rows pointing to missing parents, including entries whose day is missing, are deleted
+ * - entries in an unknown meal move to the profile's catch-all meal
+ * - negative values are clamped to zero and totals recomputed from entries
+ * Returns a fresh report, which lists anything that could not be fixed
+ */
+export async function repairDataIntegrity(): Promise<IntegrityReport> {
+  if (!db) throw new Error('Database not initialized');
+
+  try {
+    const database = db; // Capture for use in transaction callback
+    const now = getCurrentTimestamp();
+
+    await database.withTransactionAsync(async () => {
+      // Merge duplicate days into the first one created, then make sure they cannot recur
+      const duplicateLogs = await database.getAllAsync<{ dailyLogID: string; userID: string; date: string }>(
+        `SELECT dailyLogID, userID, date FROM daily_logs
+        WHERE (userID, date) IN (SELECT userID, date FROM daily_logs GROUP BY userID, date HAVING COUNT(*) > 1)
+        ORDER BY userID, date, createdAt ASC`
+      );
+      const keptLogIDs = new Map<string, string>();
+      for (const log of duplicateLogs) {
+        const key = `${log.userID}|${log.date}`;
+        const keptLogID = keptLogIDs.get(key);
+        if (!keptLogID) {
+          keptLogIDs.set(key, log.dailyLogID);
+          continue;
+        }
+        await database.runAsync('UPDATE food_entries SET dailyLogID = ? WHERE dailyLogID = ?', [keptLogID, log.dailyLogID]);
+        await database.runAsync('UPDATE daily_log_revisions SET dailyLogID = ? WHERE dailyLogID = ?', [keptLogID, log.dailyLogID]);
+        await database.runAsync('DELETE FROM daily_logs WHERE dailyLogID = ?', [log.dailyLogID]);
+      }
+      await database.execAsync('CREATE UNIQUE INDEX IF NOT EXISTS idx_daily_logs_user_date ON daily_logs(userID, date);');
+
+      // Deleting a parent can orphan its children, so repeat until nothing more is removed
+      for (;;) {
+        let deleted = 0;
+        for (const violation of await getForeignKeyViolations(database)) {
+          if (violation.rowid === null) continue;
+          const result = await database.runAsync(`DELETE FROM ${violation.table} WHERE rowid = ?`, [violation.rowid]);
+          deleted += result.changes;
+        }
+        if (deleted === 0) break;
+      }
+      await database.runAsync(
+        'DELETE FROM food_entries WHERE NOT EXISTS (SELECT 1 FROM daily_logs WHERE daily_logs.dailyLogID = food_entries.dailyLogID)'
+      );
+
+      for (const group of await getInvalidMealTypes(database)) {
+        await database.runAsync(
+          'UPDATE food_entries SET mealType = ?, updatedAt = ? WHERE userID = ? AND mealType = ?',
+          [group.fallback, now, group.userID, group.mealType]
+        );
+      }
+
+      // MAX() of NULL stays NULL, so unknown micronutrients stay unknown
+      await database.runAsync(
+        `UPDATE food_entries SET ${NUTRIENT_COLUMNS.map((c) => `${c} = MAX(${c}, 0)`).join(', ')}, updatedAt = ?
+        WHERE ${NUTRIENT_COLUMNS.map((c) => `${c} < 0`).join(' OR ')}`,
+        [now]
+      );
+
+      await database.runAsync(
+        `UPDATE daily_logs SET ${DAILY_LOG_TOTAL_SUMS.map((t) => `${t.column} = ${entrySumSql(t.sum)}`).join(', ')}, updatedAt = ?
+        WHERE ${DAILY_LOG_TOTAL_SUMS.map((t) => `${t.column} IS NOT ${entrySumSql(t.sum)}`).join(' OR ')}`,
+        [now]
+      );
+    });
+
+    return { checkedAt: getCurrentTimestamp(), issues: await findIntegrityIssues(database) };
   } catch (error) {
     throw error;
   }
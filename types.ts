@@ -13,7 +13,21 @@ export interface User extends BaseEntity {
   lastName: string;
 }
 
-export interface MacroTargets extends BaseEntity {
+// Nutrients tracked beyond the four macros; null or missing means unknown
+// (e.g. entries logged before these were tracked)
+export interface Micronutrients {
+  fiber?: number | null; // grams
+  sugar?: number | null; // grams
+  addedSugar?: number | null; // grams
+  sodium?: number | null; // milligrams
+  saturatedFat?: number | null; // grams
+  cholesterol?: number | null; // milligrams
+}
+
+export type MicronutrientKey = keyof Micronutrients;
+
+// Micronutrient targets are optional; null means the user isn't tracking that nutrient
+export interface MacroTargets extends BaseEntity, Micronutrients {
   userID: string;
   calories: number;
   protein: number; // grams
@@ -21,11 +35,96 @@ export interface MacroTargets extends BaseEntity {
   fat: number; // grams
 }
 
+// Target schedule: a date's targets come from its assigned day type, then its weekday, then MacroTargets
+export type TargetValues = Pick<MacroTargets, 'calories' | 'protein' | 'carbs' | 'fat'>;
+
+export interface WeekdayTargets extends BaseEntity, TargetValues {
+  userID: string;
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+}
+
+export interface DayType extends BaseEntity, TargetValues {
+  dayTypeID: string;
+  userID: string;
+  name: string; // e.g. "Training", "Rest"
+}
+
+export interface DayTypeAssignment extends BaseEntity {
+  userID: string;
+  date: string; // YYYY-MM-DD
+  dayTypeID: string;
+}
+
+export interface UserSettings extends BaseEntity {
+  userID: string;
+  reviewBeforeSave: boolean; // show parsed food for confirmation before saving
+  waterTarget: number; // daily water goal in fl oz
+  exerciseAdjustsTarget: boolean; // add calories burned to the day's calorie target instead of only showing them
+  timelineView: boolean; // show the day's food in eating order on Home instead of grouped by meal
+  integrityCheckOnLaunch: boolean; // run the database integrity check when the app starts
+}
+
+// A food from the user's history that can be re-logged without the LLM
+export interface SavedFood extends BaseEntity, FoodItem {
+  savedFoodID: string;
+  userID: string;
+  useCount: number; // times logged
+  lastUsedAt: string;
+  pinned: boolean;
+}
+
+// A batch recipe; its macros are the sum of its ingredients, split across servings
+export interface Recipe extends BaseEntity {
+  recipeID: string;
+  userID: string;
+  name: string;
+  servings: number; // number of servings the batch makes
+  ingredients: RecipeIngredient[];
+}
+
+export interface RecipeIngredient extends BaseEntity, FoodItem {
+  ingredientID: string;
+  recipeID: string;
+  position: number; // display order within the recipe
+}
+
+export type RecipeRow = Omit<Recipe, 'ingredients'>;
+
+// A named set of foods logged together, e.g. "weekday breakfast"; applies to any meal slot
+export interface MealTemplate extends BaseEntity {
+  templateID: string;
+  userID: string;
+  name: string;
+  items: MealTemplateItem[];
+}
+
+export interface MealTemplateItem extends BaseEntity, FoodItem {
+  itemID: string;
+  templateID: string;
+  position: number; // display order within the template
+}
+
+export type MealTemplateRow = Omit<MealTemplate, 'items'>;
+
 export interface FoodEntry extends BaseEntity, FoodItem {
   foodEntryID: string;
   userID: string;
+  eatenAt: string | null; // ISO timestamp of when the food was eaten; null when unknown (e.g. imported history)
 }
-export interface DailyLog extends BaseEntity {
+
+// Fields that can be edited on a logged entry
+export type FoodEntryUpdates = Partial<FoodItem> & Partial<Pick<FoodEntry, 'eatenAt'>>;
+// Daily micronutrient totals; null when no entry that day has a known value
+export interface MicronutrientTotals {
+  totalFiber?: number | null;
+  totalSugar?: number | null;
+  totalAddedSugar?: number | null;
+  totalSodium?: number | null;
+  totalSaturatedFat?: number | null;
+  totalCholesterol?: number | null;
+}
+
+export interface DailyLog extends BaseEntity, MicronutrientTotals {
   dailyLogID: string;
   userID: string;
   date: string; // YYYY-MM-DD
@@ -38,13 +137,10 @@ export interface DailyLog extends BaseEntity {
   targetProtein: number;
   targetCarbs: number;
   targetFat: number;
-  breakfast: FoodEntry[];
-  lunch: FoodEntry[];
-  dinner: FoodEntry[];
-  snacks: FoodEntry[];
+  meals: Record<MealType, FoodEntry[]>; // entries by meal slot; slots with no food may be missing
 }
 
-export interface FoodItem {
+export interface FoodItem extends Micronutrients {
   name: string;
   quantity: string;
   calories: number;
@@ -53,12 +149,48 @@ export interface FoodItem {
   fat: number;
 }
 
+// Key of a meal slot as stored on food entries; the default slots use 'breakfast', 'lunch', 'dinner' and 'snacks'
+export type MealType = string;
+
+// A user-defined meal, in display order; the time window is used to infer the meal from the time of day
+export interface MealSlot extends BaseEntity {
+  mealSlotID: string;
+  userID: string;
+  mealType: MealType; // stable key, kept when the slot is renamed
+  name: string;
+  startTime: string | null; // HH:MM, null for no window
+  endTime: string | null; // HH:MM, may be earlier than startTime for windows past midnight
+  sortOrder: number;
+}
+
+// Incremental edit to a daily log, referencing existing entries by foodEntryID
+export type FoodEditOperation =
+  | { type: 'add'; mealType: MealType; item: FoodItem; eatenAt?: string | null } // eatenAt defaults to now when logging today
+  | { type: 'update'; foodEntryID: string; updates: FoodEntryUpdates }
+  | { type: 'remove'; foodEntryID: string }
+  | { type: 'move'; foodEntryID: string; mealType: MealType };
 
-export interface LLMResponse {
-  breakfast: FoodItem[];
-  lunch: FoodItem[];
-  dinner: FoodItem[];
-  snacks: FoodItem[];
+export type ActivityIntensity = 'light' | 'moderate' | 'vigorous';
+
+// A workout as described by the user, before it is stored
+export interface ActivityItem {
+  name: string;
+  durationMinutes: number;
+  intensity: ActivityIntensity;
+  caloriesBurned: number;
+}
+
+export interface ActivityLog extends BaseEntity, ActivityItem {
+  activityLogID: string;
+  userID: string;
+  date: string; // YYYY-MM-DD
+}
+
+// Everything parsed from one transcript: food edits plus any plain water and workouts, which are logged separately
+export interface ParsedFoodInput {
+  operations: FoodEditOperation[];
+  water: number; // fl oz, 0 when none was mentioned
+  activities: ActivityItem[];
 }
 
 export interface WeightLog extends BaseEntity {
@@ -68,11 +200,41 @@ export interface WeightLog extends BaseEntity {
   weight: number; // lbs, one decimal precision
 }
 
-export interface TrendDataPoint {
+// Tape measurements in inches and body fat in percent; null means not measured that day
+export interface BodyMeasurementValues {
+  waist: number | null;
+  hips: number | null;
+  chest: number | null;
+  arms: number | null;
+  thighs: number | null;
+  neck: number | null;
+  bodyFat: number | null;
+}
+
+export type MeasurementKey = keyof BodyMeasurementValues;
+
+export interface BodyMeasurement extends BaseEntity, BodyMeasurementValues {
+  measurementID: string;
+  userID: string;
+  date: string; // YYYY-MM-DD
+}
+
+// One drink; a day's water intake is the sum of its logs
+export interface WaterLog extends BaseEntity {
+  waterLogID: string;
+  userID: string;
+  date: string; // YYYY-MM-DD
+  amount: number; // fl oz, one decimal precision
+}
+
+export interface TrendDataPoint extends BodyMeasurementValues {
   date: string; // YYYY-MM-DD
   calories: number | null;
   calorieTarget: number | null;
   weight: number | null;
+  water: number | null; // fl oz, null when nothing was logged
+  caloriesBurned: number | null; // from activity logs, null when none were logged
+  leanMass: number | null; // lbs, derived from body fat and the latest weight
 }
 
 export interface DateCalorieData {
@@ -80,3 +242,82 @@ export interface DateCalorieData {
   calories: number;
   calorieTarget: number;
 }
+
+// Raw table rows, used by backup and restore
+export type DailyLogRow = Omit<DailyLog, 'meals'>;
+
+export interface FoodEntryRow extends FoodEntry {
+  dailyLogID: string;
+  mealType: MealType;
+}
+
+// What kind of change a revision was recorded before
+export type RevisionSource = 'llm' | 'add' | 'update' | 'delete' | 'restore' | 'import' | 'copy' | 'move';
+
+export interface DailyLogRevision {
+  revisionID: string;
+  dailyLogID: string;
+  userID: string;
+  source: RevisionSource;
+  entries: FoodEntryRow[]; // the day's food entries before the change
+  createdAt: string;
+}
+
+export interface FoodEntryWithDate extends FoodEntryRow {
+  date: string; // YYYY-MM-DD of the owning daily log
+}
+
+export interface BackupData {
+  users: User[];
+  macro_targets: MacroTargets[];
+  user_settings: UserSettings[];
+  daily_logs: DailyLogRow[];
+  food_entries: FoodEntryRow[];
+  weight_logs: WeightLog[];
+  water_logs: WaterLog[];
+  body_measurements: BodyMeasurement[];
+  activity_logs: ActivityLog[];
+  meal_slots: MealSlot[];
+  saved_foods: SavedFood[];
+  recipes: RecipeRow[];
+  recipe_ingredients: RecipeIngredient[];
+  meal_templates: MealTemplateRow[];
+  meal_template_items: MealTemplateItem[];
+  weekday_targets: WeekdayTargets[];
+  day_types: DayType[];
+  day_type_assignments: DayTypeAssignment[];
+}
+
+export interface BackupDocument {
+  format: 'heymacro-backup';
+  formatVersion: number;
+  schemaVersion: number; // PRAGMA user_version of the exporting database
+  exportedAt: string;
+  checksum: string; // CRC-32 of the serialized data
+  data: BackupData;
+}
+
+export type BackupImportMode = 'replace' | 'merge';
+
+// Rows written per table during an import
+export type BackupImportResult = Record<keyof BackupData, number>;
+
+// A kind of inconsistency the database integrity check looks for
+export type IntegrityIssueKind =
+  | 'duplicate_date' // more than one daily log for a user and date
+  | 'foreign_key' // a row referencing a parent that no longer exists
+  | 'orphaned_entry' // a food entry whose daily log is missing
+  | 'invalid_meal_type' // a food entry in a meal that is not one of its user's slots
+  | 'negative_macros' // a food entry with a negative calorie, macro or micronutrient value
+  | 'mismatched_totals'; // a daily log whose totals differ from the sum of its entries
+
+export interface IntegrityIssue {
+  kind: IntegrityIssueKind;
+  count: number; // rows affected
+  description: string;
+}
+
+export interface IntegrityReport {
+  checkedAt: string;
+  issues: IntegrityIssue[]; // empty when the database is consistent
+}